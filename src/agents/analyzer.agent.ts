@@ -42,7 +42,7 @@ const AnalyzerOutputSchema = z.object({
  */
 export const analyzerAgent = new LlmAgent({
   name: "analyzer_agent",
-  description: "Analyzes WETHUSDT market using technical indicators and provides comprehensive trading insights",
+  description: "Analyzes the strategy's trading pair using technical indicators and provides comprehensive trading insights",
   
   // Use GPT-4o for advanced tool selection and analysis
   model: "gemini-2.5-flash",
@@ -95,6 +95,7 @@ export const analyzerAgent = new LlmAgent({
 - **Identify Conflicts**: Point out when indicators disagree
 - **Be Specific**: Use concrete thresholds and levels from the indicators
 - **Time-Aware**: Consider the timeframe specified in the strategy
+- **Pair-Aware**: Always pass the strategy's trading pair as the \`symbol\` argument to every tool call
 
 **Output Format**:
 Provide a structured JSON response with:
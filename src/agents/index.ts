@@ -27,6 +27,15 @@ export {
   getPendingTrades,
   getExecutionHistory,
 } from "../workers/strategy-executor";
+export {
+  monitorOpenPositions,
+  closePosition,
+  closeStrategyPositions,
+} from "../workers/position-monitor";
+export { executePendingTrades, executeTrade, releaseTradeLock } from "../workers/trade-executor";
+export { enqueueStrategyAnalysisJobs, processJob } from "../workers/job-worker";
 
 // Re-export types for convenience
-export type { StrategyExecutionResult } from "../workers/strategy-executor";
\ No newline at end of file
+export type { StrategyExecutionResult } from "../workers/strategy-executor";
+export type { PositionCheckResult } from "../workers/position-monitor";
+export type { TradeExecutionResult } from "../workers/trade-executor";
\ No newline at end of file
@@ -10,13 +10,14 @@
  * 3. If no, analyze strategy and break it down into:
  *    - Clear execution steps
  *    - Indicator requirements
- *    - Entry/exit conditions
+ *    - Entry/exit conditions (free text and structured rules)
  *    - Risk management rules
  */
 
 import { LlmAgent } from "@iqai/adk";
 import { z } from "zod";
 import type { RefinerAgentOutput } from "./types";
+import { strategyRulesSchema } from "../lib/rule.engine";
 import logger from "../lib/logger";
 
 /**
@@ -28,6 +29,9 @@ const RefinerOutputSchema = z.object({
   indicatorsNeeded: z.array(z.string()).describe("List of technical indicators to use"),
   entryConditions: z.array(z.string()).describe("Conditions that must be met to enter a trade"),
   exitConditions: z.array(z.string()).describe("Conditions for exiting a trade"),
+  rules: strategyRulesSchema
+    .nullable()
+    .describe("Entry/exit conditions as structured rules, or null if they cannot be expressed with the rule grammar"),
   riskManagement: z.string().describe("Risk management rules and position sizing"),
   reasoning: z.string().describe("Explanation of the strategy logic"),
 });
@@ -54,8 +58,9 @@ Your task is to analyze a trading strategy and refine it into:
 3. **Indicators Needed**: Specific technical indicators required (e.g., RSI, MACD, Bollinger Bands)
 4. **Entry Conditions**: Clear conditions that signal when to enter a trade (BUY signal)
 5. **Exit Conditions**: Clear conditions for when to exit a trade (SELL signal or take profit)
-6. **Risk Management**: Position sizing, stop-loss rules, and risk parameters
-7. **Reasoning**: Explain the logic behind this strategy and why it might work
+6. **Rules**: The same entry and exit conditions as structured rules (see Rule Grammar)
+7. **Risk Management**: Position sizing, stop-loss rules, and risk parameters
+8. **Reasoning**: Explain the logic behind this strategy and why it might work
 
 Focus on:
 - **Clarity**: Make instructions crystal clear for an LLM to follow
@@ -69,6 +74,20 @@ Available Indicators:
 - **Volatility**: ATR, Bollinger Bands, Bollinger Band Width, Keltner Channel, Donchian Channel, Chandelier Exit
 - **Volume**: A/D, Chaikin Money Flow, Ease of Movement, Force Index, MFI, OBV, VWAP
 
+Rule Grammar:
+- \`rules.entry\` and \`rules.exit\` are groups: \`{ "combinator": "AND" | "OR", "conditions": [...] }\`. A condition may itself be a group of conditions (one level of nesting).
+- Comparison: \`{ "type": "compare", "left": <operand>, "operator": ">" | ">=" | "<" | "<=" | "==" | "!=", "right": <operand> }\`
+- Crossover: \`{ "type": "cross", "left": <operand>, "direction": "above" | "below", "right": <operand> }\` (left crossed right on the latest candle)
+- Operands:
+  - Indicator: \`{ "type": "indicator", "indicator": "SMA" | "EMA" | "RSI" | "MACD" | "BB" | "ATR" | "STOCH" | "WILLR" | "ROC" | "MFI" | "CMF" | "OBV", "params": { "period": 14 }, "output": "..." }\`
+    - MACD params fastPeriod/slowPeriod/signalPeriod, outputs macd | signal | histogram
+    - BB outputs middle | upper | lower; STOCH params kPeriod/dPeriod, outputs k | d
+  - Price: \`{ "type": "price", "field": "open" | "high" | "low" | "close" | "volume" }\`
+  - Constant: \`{ "type": "constant", "value": 30 }\`
+- Example entry "RSI(14) crosses above 30 and close is above SMA(50)":
+  \`{ "combinator": "AND", "conditions": [ { "type": "cross", "left": { "type": "indicator", "indicator": "RSI", "params": { "period": 14 } }, "direction": "above", "right": { "type": "constant", "value": 30 } }, { "type": "compare", "left": { "type": "price", "field": "close" }, "operator": ">", "right": { "type": "indicator", "indicator": "SMA", "params": { "period": 50 } } } ] }\`
+- Set \`rules\` to null if any condition needs an indicator or concept the grammar cannot express.
+
 Output Format:
 Provide a structured JSON response following the exact schema.`,
   
@@ -15,6 +15,7 @@ import { SequentialAgent } from "@iqai/adk";
 import { refinerAgent } from "./refiner.agent";
 import { analyzerAgent } from "./analyzer.agent";
 import { validatorAgent } from "./validator.agent";
+import type { AgentRunTrace } from "../lib/agent-trace";
 import logger from "../lib/logger";
 
 /**
@@ -45,7 +46,7 @@ export const tradingAgent = new SequentialAgent({
  * Helper function to prepare strategy input for the trading agent
  * 
  * Formats the strategy data into a clear prompt for the Refiner Agent.
- * Includes strategy description, indicators, timeframe, and risk parameters.
+ * Includes strategy description, trading pair, indicators, timeframe, and risk parameters.
  * 
  * @param strategy - Strategy document from database
  * @param indicators - Populated indicator documents
@@ -56,11 +57,17 @@ export function prepareStrategyInput(
     name: string;
     description?: string;
     refinedDescription?: string;
+    symbol: string;
     timeframe: string;
     amount: number;
+    allowShorts?: boolean;
   },
   indicators: Array<{ name: string; abbreviation: string; category: string }>
 ): string {
+  const positions = strategy.allowShorts
+    ? "Long and short (an EXECUTE SELL closes longs and opens a short)"
+    : "Long only (an EXECUTE SELL only closes open longs)";
+
   // If strategy already has refined description, use it directly
   if (strategy.refinedDescription) {
     return `**Strategy**: ${strategy.name}
@@ -68,13 +75,15 @@ export function prepareStrategyInput(
 **Refined Description** (already processed):
 ${strategy.refinedDescription}
 
+**Trading Pair**: ${strategy.symbol}
 **Timeframe**: ${strategy.timeframe}
 **Position Size**: $${strategy.amount}
+**Positions**: ${positions}
 
 **Selected Indicators**:
 ${indicators.map((ind) => `- ${ind.name} (${ind.abbreviation}) - ${ind.category}`).join("\n")}
 
-Proceed to analyze the market using these indicators and validate if we should enter a trade.`;
+Proceed to analyze the ${strategy.symbol} market using these indicators (pass symbol "${strategy.symbol}" to every indicator tool) and validate if we should enter a trade.`;
   }
 
   // Otherwise, provide raw strategy for refinement
@@ -83,13 +92,15 @@ Proceed to analyze the market using these indicators and validate if we should e
 **Strategy Description**:
 ${strategy.description || "No description provided"}
 
+**Trading Pair**: ${strategy.symbol}
 **Timeframe**: ${strategy.timeframe}
 **Position Size**: $${strategy.amount}
+**Positions**: ${positions}
 
 **Selected Indicators**:
 ${indicators.map((ind) => `- ${ind.name} (${ind.abbreviation}) - ${ind.category}`).join("\n")}
 
-Please refine this strategy into clear, executable steps, then analyze the market and make a trading decision.`;
+Please refine this strategy into clear, executable steps, then analyze the ${strategy.symbol} market (pass symbol "${strategy.symbol}" to every indicator tool) and make a trading decision.`;
 }
 
 /**
@@ -138,11 +149,14 @@ export async function executeTradingPipeline(
  * 
  * @param strategyInput - Formatted strategy prompt
  * @param sessionId - Unique session ID
+ * @param trace - Optional collector for per-agent timings, outputs and tool calls.
+ *                It is filled while the pipeline runs, so it is still useful if the run fails.
  * @returns Object with final result and session state
  */
 export async function executeTradingPipelineWithState(
   strategyInput: string,
-  sessionId: string
+  sessionId: string,
+  trace?: AgentRunTrace
 ): Promise<{
   result: string;
   refinedStrategy?: string;
@@ -159,10 +173,26 @@ export async function executeTradingPipelineWithState(
       .withAgent(tradingAgent)
       .build();
 
-    const result = await runner.ask(strategyInput);
+    // Stream events (same as runner.ask) so every agent turn and tool call can be traced
+    let result = "";
+    const stateDelta: Record<string, any> = {};
+    for await (const event of runner.runAsync({
+      userId: session.userId,
+      sessionId: session.id,
+      newMessage: { parts: [{ text: strategyInput }] },
+    })) {
+      trace?.record(event);
+      Object.assign(stateDelta, event.actions?.stateDelta);
+      result += (event.content?.parts ?? []).map((part: { text?: string }) => part?.text ?? "").join("");
+    }
 
     // Extract intermediate outputs from session state
-    const state = session?.state || {};
+    const state = { ...session?.state, ...stateDelta };
+    trace?.setStageOutputs({
+      [refinerAgent.name]: state.refined_strategy,
+      [analyzerAgent.name]: state.market_analysis,
+      [validatorAgent.name]: state.trade_decision,
+    });
 
     logger.info(
       {
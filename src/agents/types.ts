@@ -5,6 +5,9 @@
  */
 
 import type { SignalStrength, TradingSignal } from "../tools/types/common.types";
+import type { RuleEvaluation, StrategyRules } from "../types/rule.types";
+import type { ExecutionMode, PositionSide } from "../types/execution.types";
+import type { PriceVerification } from "../types/risk.types";
 
 /**
  * Output from Refiner Agent
@@ -18,6 +21,7 @@ export interface RefinerAgentOutput {
   indicatorsNeeded: string[];
   entryConditions: string[];
   exitConditions: string[];
+  rules: StrategyRules | null; // Machine-readable form of the entry/exit conditions
   riskManagement: string;
   reasoning: string;
 }
@@ -70,9 +74,12 @@ export interface ValidatorAgentOutput {
  */
 export enum TradeStatus {
   PENDING = "PENDING",     // Trade signal detected, awaiting execution
+  EXECUTING = "EXECUTING", // Claimed by the executor, order being filled
   PLACED = "PLACED",       // Trade successfully placed on 1inch
   FAILED = "FAILED",       // Trade placement failed
   CANCELLED = "CANCELLED", // Trade cancelled before execution
+  CLOSING = "CLOSING",     // Position being closed, treasury settlement in progress
+  CLOSED = "CLOSED",       // Position closed (take profit, stop loss or exit signal)
 }
 
 /**
@@ -85,24 +92,37 @@ export interface ITrade {
   _id: string;
   userId: string;
   strategyId: string;
+  symbol: string; // Trading pair, e.g. WETHUSDT
   signal: TradingSignal;
+  side: PositionSide; // LONG for BUY, SHORT for SELL
   entry: number;
   exit: number;
   stopLoss: number;
   reasoning: string;
   confidence: SignalStrength;
   riskRewardRatio: number;
-  amount: number; // Trade amount from strategy
+  amount: string; // WETH trade amount from strategy (decimal string)
   status: TradeStatus;
   
   // Analysis context
   marketCondition: string;
   toolsUsed: string[];
+  ruleEvaluation?: RuleEvaluation; // Entry rule trail when the strategy has structured rules
+  priceVerification?: PriceVerification; // Validator's original levels and the corrections applied
   
-  // 1inch specific fields (to be populated during execution)
-  txHash?: string;
+  // Execution fields (populated when the trade is filled)
+  executionMode?: ExecutionMode;
+  txHash?: string; // 1inch swap, LIVE only
   executedAt?: Date;
   executedPrice?: number;
+  executedQuantity?: number;
+  fees?: number;
+  
+  // Position close (set by the position monitor)
+  closedAt?: Date;
+  closePrice?: number;
+  closeReason?: "TAKE_PROFIT" | "STOP_LOSS" | "SIGNAL" | "MANUAL";
+  realizedPnl?: string; // WETH (decimal string)
   
   // Timestamps
   createdAt: Date;
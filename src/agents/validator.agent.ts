@@ -9,7 +9,7 @@
  * 2. Validate that analysis aligns with strategy requirements
  * 3. Check risk parameters and market conditions
  * 4. Decide: EXECUTE, HOLD, or REJECT the trade
- * 5. If EXECUTE (BUY signal), calculate entry, exit, stop-loss
+ * 5. If EXECUTE (BUY or SELL signal), calculate entry, exit, stop-loss
  * 6. Return structured decision for database storage
  */
 
@@ -17,6 +17,9 @@ import { LlmAgent } from "@iqai/adk";
 import { z } from "zod";
 import type { ValidatorAgentOutput } from "./types";
 import { Trade } from "../db/schema";
+import type { RuleEvaluation } from "../types/rule.types";
+import type { PriceVerification } from "../types/risk.types";
+import { positionSideForSignal } from "../lib/position.utils";
 import logger from "../lib/logger";
 
 /**
@@ -86,7 +89,7 @@ export const validatorAgent = new LlmAgent({
 
 **EXECUTE** (Place the trade):
 - ✅ All validation checks pass
-- ✅ BUY signal is clear and confirmed
+- ✅ BUY (or SELL) signal is clear and confirmed
 - ✅ Risk/reward is favorable (≥1.5:1)
 - ✅ Confidence level is at least MODERATE
 - Provide specific entry, exit, and stop-loss prices
@@ -111,8 +114,13 @@ export const validatorAgent = new LlmAgent({
 - **Stop-Loss**: Based on support levels, ATR, or fixed percentage (typically 2-5%)
 - **Risk/Reward**: (Exit - Entry) / (Entry - Stop-Loss)
 
+**SELL Signals**:
+- An EXECUTE SELL closes any open long position of the strategy
+- If the strategy allows short positions, it also opens a short: the exit (take profit) must be BELOW the entry and the stop-loss ABOVE it
+- Risk/Reward for a short: (Entry - Exit) / (Stop-Loss - Entry)
+
 **Important Notes**:
-- Only recommend EXECUTE with BUY signal if conditions are truly favorable
+- Only recommend EXECUTE with a BUY or SELL signal if conditions are truly favorable
 - Be conservative - it's better to miss a trade than take a bad one
 - Clearly communicate your reasoning for transparency
 - Consider the strategy's timeframe and risk tolerance
@@ -162,7 +170,10 @@ export function parseValidatorOutput(output: string): ValidatorAgentOutput {
 }
 
 /**
- * Save trade to database if decision is EXECUTE and signal is BUY
+ * Save trade to database if decision is EXECUTE and signal is BUY or SELL
+ *
+ * A BUY opens a LONG position and a SELL a SHORT one. Callers decide
+ * whether a strategy may go short.
  * 
  * @param validatorOutput - Validated trade decision
  * @param userId - User ID from strategy
@@ -170,6 +181,9 @@ export function parseValidatorOutput(output: string): ValidatorAgentOutput {
  * @param amount - Trade amount from strategy
  * @param marketCondition - Market condition from analyzer
  * @param toolsUsed - List of tools used in analysis
+ * @param symbol - Trading pair the strategy runs on
+ * @param ruleEvaluation - Entry rule trail, when the strategy has structured rules
+ * @param priceVerification - Original levels and corrections, when the levels were verified
  * @returns Trade document
  */
 export async function saveTrade(
@@ -179,13 +193,16 @@ export async function saveTrade(
   amount: number,
   marketCondition: string,
   toolsUsed: string[],
+  symbol: string,
+  ruleEvaluation?: RuleEvaluation,
+  priceVerification?: PriceVerification,
 ): Promise<typeof Trade.prototype | null> {
   try {
-    // Only save trades that are EXECUTE decisions with BUY signals
-    if (validatorOutput.decision !== "EXECUTE" || validatorOutput.signal !== "BUY") {
+    // Only save trades that are EXECUTE decisions with BUY or SELL signals
+    if (validatorOutput.decision !== "EXECUTE" || validatorOutput.signal === "HOLD") {
       logger.info(
         { decision: validatorOutput.decision, signal: validatorOutput.signal },
-        "Skipping trade save - not an EXECUTE BUY decision"
+        "Skipping trade save - not an EXECUTE BUY or SELL decision"
       );
       return null;
     }
@@ -200,7 +217,9 @@ export async function saveTrade(
     const trade = new Trade({
       userId,
       strategyId,
+      symbol,
       signal: validatorOutput.signal,
+      side: positionSideForSignal(validatorOutput.signal),
       entry: validatorOutput.entry,
       exit: validatorOutput.exit,
       stopLoss: validatorOutput.stopLoss,
@@ -211,6 +230,8 @@ export async function saveTrade(
       status: "PENDING", // Trade is detected but not yet placed
       marketCondition,
       toolsUsed,
+      ruleEvaluation,
+      priceVerification,
     });
 
     await trade.save();
@@ -218,7 +239,9 @@ export async function saveTrade(
     logger.info(
       {
         tradeId: trade._id,
+        symbol: trade.symbol,
         signal: trade.signal,
+        side: trade.side,
         entry: trade.entry,
         exit: trade.exit,
         confidence: trade.confidence,
@@ -1,26 +1,57 @@
-import express, { Router } from 'express';
-import { Indicator } from '../db/schema';
+import express, { Router, Response } from 'express';
+import { Indicator, IUser } from '../db/schema';
+import { listJobs, retryDeadJob } from '../services/job-queue.service';
+import { reconcileTreasuries } from '../services/reconciliation.service';
+import { getTrialBalance } from '../services/ledger.service';
+import {
+  approveWithdrawal,
+  listWithdrawals,
+  markWithdrawalBroadcast,
+  rejectWithdrawal,
+} from '../services/withdrawal.service';
+import { listAdminActions, recordAdminAction, AdminActionTarget } from '../services/admin-audit.service';
+import { AuthService } from '../lib/auth';
 import logger from '../lib/logger';
-import { adminLimiter } from '../middlewares';
+import { adminLimiter, authenticate, authorize, AuthRequest } from '../middlewares';
 
 const router: Router = express.Router();
 
+const JOB_STATUSES = ['QUEUED', 'RUNNING', 'COMPLETED', 'DEAD'] as const;
+const WITHDRAWAL_STATUSES = ['REQUESTED', 'APPROVED', 'BROADCAST', 'CONFIRMED', 'FAILED', 'REJECTED'] as const;
+const ROLES: IUser['role'][] = ['user', 'support', 'admin'];
+
 // Apply admin-specific rate limiter to all admin routes
 router.use(adminLimiter);
 
-// Admin seed endpoint - protect this with authentication in production!
-router.post('/seed-indicators', async (req, res) => {
-  try {
-    // Optional: Add authentication check here
-    const authHeader = req.headers.authorization;
-    const expectedToken = process.env.ADMIN_SECRET_TOKEN || 'change-me-in-production';
-    
-    if (authHeader !== `Bearer ${expectedToken}`) {
-      return res.status(401).json({ 
-        message: 'Unauthorized. Provide ADMIN_SECRET_TOKEN in Authorization header.' 
-      });
-    }
+// Admin endpoints need a signed-in user; each route then checks the role.
+// Support can read, admins can also act.
+router.use(authenticate);
+const staffOnly = authorize('support', 'admin');
+const adminOnly = authorize('admin');
+
+/**
+ * Record the action in the admin audit log, as taken by the signed-in user
+ */
+function audit(req: AuthRequest, action: string, target?: AdminActionTarget, details?: Record<string, unknown>) {
+  return recordAdminAction(
+    {
+      userId: req.user!.userId,
+      email: req.user!.email,
+      role: req.user!.role as 'support' | 'admin',
+      ip: req.ip,
+    },
+    action,
+    target,
+    details,
+  );
+}
 
+/**
+ * POST /admin/seed-indicators
+ * Replace the Indicator collection with the built-in indicator list
+ */
+router.post('/seed-indicators', adminOnly, async (req: AuthRequest, res) => {
+  try {
     const indicators = [
       // Trend Indicators
       { name: "Absolute Price Oscillator", abbreviation: "APO", category: "Trend" },
@@ -98,6 +129,11 @@ router.post('/seed-indicators', async (req, res) => {
     const volatilityCount = result.filter(i => i.category === "Volatility").length;
     const volumeCount = result.filter(i => i.category === "Volume").length;
 
+    await audit(req, 'indicators.seed', { type: 'Indicator' }, {
+      deleted: deletedCount.deletedCount,
+      inserted: result.length,
+    });
+
     res.json({
       success: true,
       message: `Successfully seeded ${result.length} indicators`,
@@ -118,4 +154,375 @@ router.post('/seed-indicators', async (req, res) => {
   }
 });
 
+/**
+ * GET /admin/jobs?status=DEAD
+ * List background jobs, newest first
+ */
+router.get('/jobs', staffOnly, async (req, res) => {
+  try {
+    const status = req.query.status as typeof JOB_STATUSES[number] | undefined;
+    if (status && !JOB_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Expected one of: ${JOB_STATUSES.join(', ')}`,
+      });
+    }
+
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    const jobs = await listJobs(status, limit);
+
+    res.json({
+      success: true,
+      message: 'Jobs retrieved successfully',
+      data: jobs,
+    });
+  } catch (error: any) {
+    logger.error(error, 'Error listing jobs');
+    res.status(500).json({
+      success: false,
+      message: 'Failed to list jobs',
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * POST /admin/jobs/:id/retry
+ * Requeue a dead-lettered job
+ */
+router.post('/jobs/:id/retry', adminOnly, async (req: AuthRequest, res) => {
+  try {
+    const job = await retryDeadJob(req.params.id);
+    await audit(req, 'job.retry', { type: 'Job', id: req.params.id });
+
+    res.json({
+      success: true,
+      message: 'Job requeued',
+      data: job,
+    });
+  } catch (error: any) {
+    if (error.message === 'Dead job not found' || error.name === 'CastError') {
+      return res.status(404).json({ success: false, message: 'Dead job not found' });
+    }
+    if (error.message === 'Target already has an active job') {
+      return res.status(409).json({ success: false, message: error.message });
+    }
+
+    logger.error(error, 'Error retrying job');
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retry job',
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Parse the optional strategyId filter of the reconciliation and ledger endpoints
+ */
+function reconciliationStrategyId(value: unknown): string | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  return typeof value === 'string' && /^[0-9a-fA-F]{24}$/.test(value) ? value : null;
+}
+
+/**
+ * GET /admin/reconciliation?strategyId=
+ * Replay each treasury's ledger and report mismatches and balance chain breaks
+ */
+router.get('/reconciliation', staffOnly, async (req, res) => {
+  try {
+    const strategyId = reconciliationStrategyId(req.query.strategyId);
+    if (strategyId === null) {
+      return res.status(400).json({ success: false, message: 'Invalid strategy ID' });
+    }
+
+    const report = await reconcileTreasuries({ strategyId });
+
+    res.json({
+      success: true,
+      message: report.mismatched === 0 ? 'All treasuries match their ledger' : `${report.mismatched} treasury(ies) do not match their ledger`,
+      data: report,
+    });
+  } catch (error: any) {
+    logger.error(error, 'Error reconciling treasuries');
+    res.status(500).json({
+      success: false,
+      message: 'Failed to reconcile treasuries',
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * POST /admin/reconciliation
+ * Same as the GET report; with { "correct": true } available balance drift
+ * is booked as a correcting ADJUSTMENT
+ */
+router.post('/reconciliation', adminOnly, async (req: AuthRequest, res) => {
+  try {
+    const strategyId = reconciliationStrategyId(req.body?.strategyId);
+    if (strategyId === null) {
+      return res.status(400).json({ success: false, message: 'Invalid strategy ID' });
+    }
+    if (req.body?.correct !== undefined && typeof req.body.correct !== 'boolean') {
+      return res.status(400).json({ success: false, message: 'correct must be a boolean' });
+    }
+
+    const report = await reconcileTreasuries({ strategyId, correct: req.body?.correct === true });
+    await audit(req, 'reconciliation.run', strategyId ? { type: 'Strategy', id: strategyId } : undefined, {
+      correct: req.body?.correct === true,
+      mismatched: report.mismatched,
+      corrected: report.corrected,
+    });
+
+    res.json({
+      success: true,
+      message: `Reconciled ${report.checked} treasury(ies), booked ${report.corrected} adjustment(s)`,
+      data: report,
+    });
+  } catch (error: any) {
+    logger.error(error, 'Error reconciling treasuries');
+    res.status(500).json({
+      success: false,
+      message: 'Failed to reconcile treasuries',
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /admin/ledger/trial-balance?strategyId=
+ * Account totals across the double-entry journal; debits must equal credits
+ */
+router.get('/ledger/trial-balance', staffOnly, async (req, res) => {
+  try {
+    const strategyId = reconciliationStrategyId(req.query.strategyId);
+    if (strategyId === null) {
+      return res.status(400).json({ success: false, message: 'Invalid strategy ID' });
+    }
+
+    const trialBalance = await getTrialBalance(strategyId);
+
+    res.json({
+      success: true,
+      message: trialBalance.balanced ? 'Ledger is balanced' : 'Ledger is out of balance',
+      data: trialBalance,
+    });
+  } catch (error: any) {
+    logger.error(error, 'Error building trial balance');
+    res.status(500).json({
+      success: false,
+      message: 'Failed to build trial balance',
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Respond to a withdrawal workflow error
+ */
+function withdrawalError(res: Response, error: any, action: string) {
+  if (error.message === 'Withdrawal not found') {
+    return res.status(404).json({ success: false, message: error.message });
+  }
+  if (error.message.startsWith('Withdrawal cannot be') || error.message === 'Transaction already settles another withdrawal') {
+    return res.status(409).json({ success: false, message: error.message });
+  }
+
+  logger.error(error, `Error trying to ${action} withdrawal`);
+  res.status(500).json({
+    success: false,
+    message: `Failed to ${action} withdrawal`,
+    error: error.message,
+  });
+}
+
+/**
+ * GET /admin/withdrawals?status=REQUESTED
+ * List withdrawals, newest first
+ */
+router.get('/withdrawals', staffOnly, async (req, res) => {
+  try {
+    const status = req.query.status as typeof WITHDRAWAL_STATUSES[number] | undefined;
+    if (status && !WITHDRAWAL_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Expected one of: ${WITHDRAWAL_STATUSES.join(', ')}`,
+      });
+    }
+
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    const skip = Math.max(Number(req.query.skip) || 0, 0);
+    const { withdrawals, total } = await listWithdrawals({ status, limit, skip });
+
+    res.json({
+      success: true,
+      message: 'Withdrawals retrieved successfully',
+      data: withdrawals,
+      total,
+    });
+  } catch (error: any) {
+    logger.error(error, 'Error listing withdrawals');
+    res.status(500).json({
+      success: false,
+      message: 'Failed to list withdrawals',
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * POST /admin/withdrawals/:id/approve
+ * Approve a withdrawal above the auto-approval threshold
+ */
+router.post('/withdrawals/:id/approve', adminOnly, async (req: AuthRequest, res) => {
+  try {
+    const withdrawal = await approveWithdrawal(req.params.id, 'ADMIN');
+    await audit(req, 'withdrawal.approve', { type: 'Withdrawal', id: req.params.id });
+
+    res.json({
+      success: true,
+      message: 'Withdrawal approved',
+      data: withdrawal,
+    });
+  } catch (error: any) {
+    withdrawalError(res, error, 'approve');
+  }
+});
+
+/**
+ * POST /admin/withdrawals/:id/reject
+ * Reject a withdrawal that has not been sent; the held funds are returned
+ * Body: { "reason": "..." }
+ */
+router.post('/withdrawals/:id/reject', adminOnly, async (req: AuthRequest, res) => {
+  try {
+    const reason = req.body?.reason;
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return res.status(400).json({ success: false, message: 'reason is required' });
+    }
+
+    const withdrawal = await rejectWithdrawal(req.params.id, reason.trim());
+    await audit(req, 'withdrawal.reject', { type: 'Withdrawal', id: req.params.id }, { reason: reason.trim() });
+
+    res.json({
+      success: true,
+      message: 'Withdrawal rejected, funds returned',
+      data: withdrawal,
+    });
+  } catch (error: any) {
+    withdrawalError(res, error, 'reject');
+  }
+});
+
+/**
+ * POST /admin/withdrawals/:id/broadcast
+ * Record the transaction that sends an approved withdrawal; it is settled
+ * once the transfer is confirmed on chain
+ * Body: { "txHash": "0x..." }
+ */
+router.post('/withdrawals/:id/broadcast', adminOnly, async (req: AuthRequest, res) => {
+  try {
+    const txHash = req.body?.txHash;
+    if (typeof txHash !== 'string' || !/^0x[a-fA-F0-9]{64}$/.test(txHash)) {
+      return res.status(400).json({ success: false, message: 'Invalid transaction hash' });
+    }
+
+    const withdrawal = await markWithdrawalBroadcast(req.params.id, txHash);
+    await audit(req, 'withdrawal.broadcast', { type: 'Withdrawal', id: req.params.id }, { txHash });
+
+    res.json({
+      success: true,
+      message: withdrawal.status === 'CONFIRMED' ? 'Withdrawal confirmed' : `Withdrawal ${withdrawal.status.toLowerCase()}`,
+      data: withdrawal,
+    });
+  } catch (error: any) {
+    withdrawalError(res, error, 'broadcast');
+  }
+});
+
+/**
+ * PUT /admin/users/:id/role
+ * Change a user's role
+ * Body: { "role": "user" | "support" | "admin" }
+ */
+router.put('/users/:id/role', adminOnly, async (req: AuthRequest, res) => {
+  try {
+    const role = req.body?.role;
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid role. Expected one of: ${ROLES.join(', ')}`,
+      });
+    }
+    if (req.params.id === req.user!.userId) {
+      return res.status(400).json({ success: false, message: 'Cannot change your own role' });
+    }
+    if (!/^[0-9a-fA-F]{24}$/.test(req.params.id)) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    const { user, previousRole } = await AuthService.setUserRole(req.params.id, role);
+    await audit(req, 'user.role.update', { type: 'User', id: req.params.id }, { from: previousRole, to: role });
+
+    res.json({
+      success: true,
+      message: 'Role updated',
+      data: { id: user._id, email: user.email, role: user.role },
+    });
+  } catch (error: any) {
+    if (error.message === 'User not found') {
+      return res.status(404).json({ success: false, message: error.message });
+    }
+
+    logger.error(error, 'Error updating role');
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update role',
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * GET /admin/audit-log?actorId=&action=&targetType=&targetId=
+ * Admin actions, newest first
+ */
+router.get('/audit-log', adminOnly, async (req, res) => {
+  try {
+    const actorId = req.query.actorId;
+    if (actorId !== undefined && (typeof actorId !== 'string' || !/^[0-9a-fA-F]{24}$/.test(actorId))) {
+      return res.status(400).json({ success: false, message: 'Invalid actor ID' });
+    }
+
+    const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    const skip = Math.max(Number(req.query.skip) || 0, 0);
+    const { entries, total } = await listAdminActions({
+      actorId,
+      action: text(req.query.action),
+      targetType: text(req.query.targetType),
+      targetId: text(req.query.targetId),
+      limit,
+      skip,
+    });
+
+    res.json({
+      success: true,
+      message: 'Audit log retrieved successfully',
+      data: entries,
+      total,
+    });
+  } catch (error: any) {
+    logger.error(error, 'Error listing audit log');
+    res.status(500).json({
+      success: false,
+      message: 'Failed to list audit log',
+      error: error.message,
+    });
+  }
+});
+
 export default router;
@@ -1,11 +1,34 @@
 import express, { Request, Response, NextFunction, Router } from "express";
 import { z } from "zod";
-import { AuthService, signupSchema, loginSchema } from "../lib/auth";
-import { authenticate, authLimiter } from "../middlewares";
+import {
+  AuthService,
+  signupSchema,
+  loginSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  refreshTokenSchema,
+  siweVerifySchema,
+  twoFactorCodeSchema,
+  twoFactorLoginSchema,
+  SessionMetadata,
+} from "../lib/auth";
+import { TwoFactorService } from "../lib/two-factor.service";
+import type { IUser } from "../db/schema";
+import { AuthRequest, authenticate, authLimiter, optionalAuth } from "../middlewares";
 import logger from "../lib/logger";
 
 const router: Router = express.Router();
 
+/**
+ * Device details for the session a request starts or refreshes
+ */
+function sessionMetadata(req: Request): SessionMetadata {
+  return {
+    userAgent: req.get("user-agent"),
+    ip: req.ip,
+  };
+}
+
 /**
  * POST /api/v1/auth/signup
  * Register a new user
@@ -16,7 +39,7 @@ router.post("/signup", authLimiter, async (req: Request, res: Response, next: Ne
     const validatedData = signupSchema.parse(req.body);
 
     // Register user
-    const { user, token } = await AuthService.signup(validatedData);
+    const { user, token, refreshToken } = await AuthService.signup(validatedData, sessionMetadata(req));
 
     logger.info({ userId: user._id }, "User signed up successfully");
 
@@ -34,6 +57,7 @@ router.post("/signup", authLimiter, async (req: Request, res: Response, next: Ne
           createdAt: user.createdAt,
         },
         token,
+        refreshToken,
       },
     });
   } catch (error) {
@@ -78,7 +102,15 @@ router.post("/login", authLimiter, async (req: Request, res: Response, next: Nex
     const validatedData = loginSchema.parse(req.body);
 
     // Login user
-    const { user, token } = await AuthService.login(validatedData);
+    const { user, ...result } = await AuthService.login(validatedData, sessionMetadata(req));
+
+    if (result.twoFactorRequired) {
+      return res.status(200).json({
+        success: true,
+        message: "Two-factor code required",
+        data: result,
+      });
+    }
 
     logger.info({ userId: user._id }, "User logged in successfully");
 
@@ -95,7 +127,8 @@ router.post("/login", authLimiter, async (req: Request, res: Response, next: Nex
           isEmailVerified: user.isEmailVerified,
           lastLogin: user.lastLogin,
         },
-        token,
+        token: result.token,
+        refreshToken: result.refreshToken,
       },
     });
   } catch (error) {
@@ -133,6 +166,582 @@ router.post("/login", authLimiter, async (req: Request, res: Response, next: Nex
   }
 });
 
+/**
+ * Map two-factor errors to HTTP responses
+ */
+function handleTwoFactorError(error: unknown, res: Response, next: NextFunction) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      message: "Validation error",
+      errors: error.issues.map(err => ({
+        field: err.path.join("."),
+        message: err.message,
+      })),
+    });
+  }
+
+  if (error instanceof Error) {
+    if (
+      [
+        "Invalid two-factor code",
+        "Invalid or expired challenge",
+        "User not found",
+        "Account is deactivated",
+      ].includes(error.message)
+    ) {
+      return res.status(401).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    if (
+      [
+        "Two-factor authentication is already enabled",
+        "Two-factor authentication is not enabled",
+        "Two-factor setup has not been started",
+      ].includes(error.message)
+    ) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  logger.error({ error }, "Two-factor authentication error");
+  next(error);
+}
+
+/**
+ * POST /api/v1/auth/2fa/verify
+ * Finish a login that responded with `twoFactorRequired`, with a TOTP or
+ * backup code
+ */
+router.post("/2fa/verify", authLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { challengeToken, code } = twoFactorLoginSchema.parse(req.body);
+
+    const { user, token, refreshToken } = await AuthService.completeTwoFactorLogin(
+      challengeToken,
+      code,
+      sessionMetadata(req),
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Login successful",
+      data: {
+        user: {
+          id: user._id,
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          fullName: user.getFullName(),
+          isEmailVerified: user.isEmailVerified,
+          lastLogin: user.lastLogin,
+        },
+        token,
+        refreshToken,
+      },
+    });
+  } catch (error) {
+    handleTwoFactorError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/v1/auth/2fa/step-up
+ * Check a 2FA code for the signed-in user. The returned access token allows
+ * actions that need a recent 2FA check (withdrawals, deleting strategies).
+ */
+router.post("/2fa/step-up", authLimiter, authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    const token = await AuthService.stepUpTwoFactor(req.user!.userId, req.user!.sessionId, code);
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor verification successful",
+      data: { token },
+    });
+  } catch (error) {
+    handleTwoFactorError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/v1/auth/2fa/setup
+ * Create a TOTP secret to add to an authenticator app
+ */
+router.post("/2fa/setup", authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { secret, otpauthUri } = await TwoFactorService.setup(req.user!.userId);
+
+    res.status(200).json({
+      success: true,
+      message: "Scan the QR code and confirm with a code from your authenticator app",
+      data: { secret, otpauthUri },
+    });
+  } catch (error) {
+    handleTwoFactorError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/v1/auth/2fa/enable
+ * Turn 2FA on with a code for the secret from setup. Returns backup codes.
+ */
+router.post("/2fa/enable", authLimiter, authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    const backupCodes = await TwoFactorService.enable(req.user!.userId, code);
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication enabled. Store the backup codes somewhere safe.",
+      data: { backupCodes },
+    });
+  } catch (error) {
+    handleTwoFactorError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/v1/auth/2fa/disable
+ * Turn 2FA off with a current TOTP or backup code
+ */
+router.post("/2fa/disable", authLimiter, authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    await TwoFactorService.disable(req.user!.userId, code);
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication disabled",
+    });
+  } catch (error) {
+    handleTwoFactorError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/v1/auth/2fa/backup-codes
+ * Replace the backup codes, with a current TOTP or backup code
+ */
+router.post("/2fa/backup-codes", authLimiter, authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    const backupCodes = await TwoFactorService.regenerateBackupCodes(req.user!.userId, code);
+
+    res.status(200).json({
+      success: true,
+      message: "Backup codes regenerated",
+      data: { backupCodes },
+    });
+  } catch (error) {
+    handleTwoFactorError(error, res, next);
+  }
+});
+
+/**
+ * POST /api/v1/auth/refresh
+ * Exchange a refresh token for a new access token and refresh token
+ */
+router.post("/refresh", authLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { refreshToken } = refreshTokenSchema.parse(req.body);
+
+    const tokens = await AuthService.refreshSession(refreshToken, sessionMetadata(req));
+
+    res.status(200).json({
+      success: true,
+      message: "Token refreshed",
+      data: tokens,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.issues.map(err => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      });
+    }
+
+    if (
+      error instanceof Error
+      && [
+        "Invalid refresh token",
+        "Refresh token reuse detected",
+        "User not found",
+        "Account is deactivated",
+      ].includes(error.message)
+    ) {
+      return res.status(401).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    logger.error({ error }, "Token refresh error");
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/auth/logout
+ * Revoke the session of the access token used
+ */
+router.post("/logout", authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { userId, sessionId } = req.user!;
+
+    if (sessionId) {
+      await AuthService.revokeSession(userId, sessionId);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Logged out",
+    });
+  } catch (error) {
+    logger.error({ error }, "Logout error");
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/auth/logout-all
+ * Revoke every session of the authenticated user
+ */
+router.post("/logout-all", authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const revoked = await AuthService.revokeAllSessions(req.user!.userId);
+
+    res.status(200).json({
+      success: true,
+      message: "Logged out of all sessions",
+      data: { revoked },
+    });
+  } catch (error) {
+    logger.error({ error }, "Logout all error");
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/auth/sessions
+ * List the authenticated user's active sessions
+ */
+router.get("/sessions", authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { userId, sessionId } = req.user!;
+    const sessions = await AuthService.listSessions(userId);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        sessions: sessions.map(session => ({
+          id: session._id,
+          userAgent: session.userAgent,
+          ip: session.ip,
+          current: session._id.toString() === sessionId,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          expiresAt: session.expiresAt,
+        })),
+      },
+    });
+  } catch (error) {
+    logger.error({ error }, "Failed to list sessions");
+    next(error);
+  }
+});
+
+/**
+ * Profile fields of a user who signed in with a wallet
+ */
+function walletUserResponse(user: IUser) {
+  return {
+    id: user._id,
+    email: user.email,
+    pendingEmail: user.pendingEmail,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    fullName: user.getFullName(),
+    walletAddresses: user.walletAddresses,
+    isEmailVerified: user.isEmailVerified,
+    createdAt: user.createdAt,
+  };
+}
+
+/**
+ * GET /api/v1/auth/siwe/nonce
+ * Get a nonce to put in a Sign-In with Ethereum (EIP-4361) message
+ */
+router.get("/siwe/nonce", authLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const nonce = await AuthService.createSiweNonce();
+
+    res.status(200).json({
+      success: true,
+      data: { nonce },
+    });
+  } catch (error) {
+    logger.error({ error }, "Failed to create SIWE nonce");
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/auth/siwe/verify
+ * Verify a signed Sign-In with Ethereum message. With a Bearer token, links
+ * the wallet to that user; otherwise signs in the wallet's user, creating
+ * one for new wallets.
+ */
+router.post("/siwe/verify", authLimiter, optionalAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const data = siweVerifySchema.parse(req.body);
+
+    if (req.user) {
+      const user = await AuthService.linkWallet(req.user.userId, data.message, data.signature);
+
+      return res.status(200).json({
+        success: true,
+        message: "Wallet linked successfully",
+        data: { user: walletUserResponse(user) },
+      });
+    }
+
+    const { user, created, ...result } = await AuthService.signInWithEthereum(data, sessionMetadata(req));
+
+    if (result.twoFactorRequired) {
+      return res.status(200).json({
+        success: true,
+        message: "Two-factor code required",
+        data: result,
+      });
+    }
+
+    logger.info({ userId: user._id, created }, "User signed in with Ethereum");
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      message: created ? "User registered successfully" : "Login successful",
+      data: {
+        user: walletUserResponse(user),
+        token: result.token,
+        refreshToken: result.refreshToken,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.issues.map(err => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      });
+    }
+
+    if (error instanceof Error) {
+      if (
+        [
+          "Invalid SIWE message",
+          "Invalid signature",
+          "Invalid or expired nonce",
+          "Account is deactivated",
+        ].includes(error.message)
+      ) {
+        return res.status(401).json({
+          success: false,
+          message: error.message,
+        });
+      }
+
+      if (
+        error.message === "User with this email already exists"
+        || error.message === "Wallet is already linked to another account"
+      ) {
+        return res.status(409).json({
+          success: false,
+          message: error.message,
+        });
+      }
+    }
+
+    logger.error({ error }, "SIWE verification error");
+    next(error);
+  }
+});
+
+/**
+ * GET /api/v1/auth/verify-email?token=...
+ * Verify the user's email address with the link from the verification email
+ */
+router.get("/verify-email", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = typeof req.query.token === "string" ? req.query.token : "";
+
+    if (!token) {
+      return res.status(400).json({
+        success: false,
+        message: "Token is required",
+      });
+    }
+
+    const user = await AuthService.verifyEmail(token);
+
+    res.status(200).json({
+      success: true,
+      message: "Email verified successfully",
+      data: {
+        user: {
+          id: user._id,
+          email: user.email,
+          isEmailVerified: user.isEmailVerified,
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Invalid or expired token") {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    if (error instanceof Error && error.message === "User with this email already exists") {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    logger.error({ error }, "Email verification error");
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/auth/resend-verification
+ * Send the authenticated user a new verification email
+ */
+router.post("/resend-verification", authLimiter, authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const user = await AuthService.getUserById(req.user!.userId);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+    }
+
+    await AuthService.sendVerificationEmail(user);
+
+    res.status(200).json({
+      success: true,
+      message: "Verification email sent",
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "No email address on account") {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    if (error instanceof Error && error.message === "Email address is already verified") {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    logger.error({ error }, "Failed to resend verification email");
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/auth/forgot-password
+ * Email a password reset link. Responds the same whether or not the email
+ * is registered.
+ */
+router.post("/forgot-password", authLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email } = forgotPasswordSchema.parse(req.body);
+
+    await AuthService.forgotPassword(email);
+
+    res.status(200).json({
+      success: true,
+      message: "If an account exists for this email, a password reset link has been sent",
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.issues.map(err => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      });
+    }
+
+    logger.error({ error }, "Forgot password error");
+    next(error);
+  }
+});
+
+/**
+ * POST /api/v1/auth/reset-password
+ * Set a new password with the token from a password reset email
+ */
+router.post("/reset-password", authLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token, password } = resetPasswordSchema.parse(req.body);
+
+    await AuthService.resetPassword(token, password);
+
+    res.status(200).json({
+      success: true,
+      message: "Password reset successfully",
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation error",
+        errors: error.issues.map(err => ({
+          field: err.path.join("."),
+          message: err.message,
+        })),
+      });
+    }
+
+    if (error instanceof Error && error.message === "Invalid or expired token") {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    logger.error({ error }, "Reset password error");
+    next(error);
+  }
+});
+
 /**
  * GET /api/v1/auth/me
  * Get current authenticated user's profile
@@ -167,7 +776,9 @@ router.get("/me", authenticate, async (req: Request, res: Response, next: NextFu
           email: user.email,
           firstName: user.firstName,
           lastName: user.lastName,
-          fullName: `${user.firstName} ${user.lastName}`,
+          fullName: user.getFullName(),
+          walletAddresses: user.walletAddresses,
+          twoFactorEnabled: user.twoFactorEnabled,
           isEmailVerified: user.isEmailVerified,
           isActive: user.isActive,
           lastLogin: user.lastLogin,
@@ -1,12 +1,16 @@
 import express, { Response, NextFunction, Router } from "express";
 import { z } from "zod";
-import { AuthRequest, authenticate } from "../middlewares";
+import { AuthRequest, authenticate, idempotent, requireRecentTwoFactor, requireVerifiedEmail } from "../middlewares";
 import { StrategyService } from "../lib/strategy.service";
 import {
   createStrategySchema,
   updateStrategySchema,
   getIndicatorsByCategorySchema,
+  backtestSchema,
+  agentRunsQuerySchema,
 } from "../lib/validations";
+import { runStrategyBacktest, getStrategyBacktests } from "../services/backtest.service";
+import { getStrategyRuns } from "../services/agent-run.service";
 import logger from "../lib/logger";
 
 const router: Router = express.Router();
@@ -68,6 +72,7 @@ router.get(
 router.post(
   "/",
   authenticate,
+  idempotent,
   validateRequest(createStrategySchema),
   async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
@@ -188,11 +193,12 @@ router.put(
 
 /**
  * DELETE /api/v1/strategies/:id
- * Delete a strategy
+ * Delete a strategy. Requires a recent 2FA check for users with 2FA enabled.
  */
 router.delete(
   "/:id",
   authenticate,
+  requireRecentTwoFactor,
   async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
       const userId = req.user!.userId;
@@ -216,4 +222,221 @@ router.delete(
   },
 );
 
+/**
+ * Map lifecycle errors to HTTP responses
+ */
+function handleLifecycleError(error: unknown, res: Response, next: NextFunction) {
+  if (error instanceof Error) {
+    if (error.message === "Strategy not found") {
+      return res.status(404).json({
+        success: false,
+        message: "Strategy not found",
+      });
+    }
+    if (error.message.startsWith("Cannot ") || error.message.startsWith("Strategy status changed")) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    if (error.message === "Treasury not initialized" || error.message.startsWith("Insufficient treasury balance")) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+  next(error);
+}
+
+/**
+ * POST /api/v1/strategies/:id/activate
+ * Start a strategy (INACTIVE or PAUSED -> ACTIVE). Requires a funded treasury
+ * and a verified email address.
+ */
+router.post(
+  "/:id/activate",
+  authenticate,
+  requireVerifiedEmail,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.userId;
+      const { id } = req.params;
+
+      const strategy = await StrategyService.activateStrategy(id, userId);
+
+      res.status(200).json({
+        success: true,
+        message: "Strategy activated successfully",
+        data: { strategy },
+      });
+    } catch (error) {
+      handleLifecycleError(error, res, next);
+    }
+  },
+);
+
+/**
+ * POST /api/v1/strategies/:id/pause
+ * Stop an ACTIVE strategy and cancel its pending trades
+ */
+router.post(
+  "/:id/pause",
+  authenticate,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.userId;
+      const { id } = req.params;
+
+      const { strategy, cancelledTrades } = await StrategyService.pauseStrategy(id, userId);
+
+      res.status(200).json({
+        success: true,
+        message: "Strategy paused successfully",
+        data: { strategy, cancelledTrades },
+      });
+    } catch (error) {
+      handleLifecycleError(error, res, next);
+    }
+  },
+);
+
+/**
+ * POST /api/v1/strategies/:id/archive
+ * Retire a strategy for good and cancel its pending trades
+ */
+router.post(
+  "/:id/archive",
+  authenticate,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.userId;
+      const { id } = req.params;
+
+      const { strategy, cancelledTrades } = await StrategyService.archiveStrategy(id, userId);
+
+      res.status(200).json({
+        success: true,
+        message: "Strategy archived successfully",
+        data: { strategy, cancelledTrades },
+      });
+    } catch (error) {
+      handleLifecycleError(error, res, next);
+    }
+  },
+);
+
+/**
+ * POST /api/v1/strategies/:id/backtest
+ * Replay a strategy over historical candles and store the result
+ */
+router.post(
+  "/:id/backtest",
+  authenticate,
+  validateRequest(backtestSchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.userId;
+      const { id } = req.params;
+
+      const backtest = await runStrategyBacktest(id, userId, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: "Backtest completed successfully",
+        data: { backtest },
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === "Strategy not found") {
+          return res.status(404).json({
+            success: false,
+            message: "Strategy not found",
+          });
+        }
+        if (
+          error.message.includes("not supported for backtesting") ||
+          error.message.includes("no indicators that can be backtested") ||
+          error.message.includes("Backtest range exceeds") ||
+          error.message.includes("No market data available")
+        ) {
+          return res.status(400).json({
+            success: false,
+            message: error.message,
+          });
+        }
+      }
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/strategies/:id/backtests
+ * List previous backtests for a strategy (summary only)
+ */
+router.get(
+  "/:id/backtests",
+  authenticate,
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.userId;
+      const { id } = req.params;
+
+      const backtests = await getStrategyBacktests(id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          backtests,
+          count: backtests.length,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === "Strategy not found") {
+        return res.status(404).json({
+          success: false,
+          message: "Strategy not found",
+        });
+      }
+      next(error);
+    }
+  },
+);
+
+/**
+ * GET /api/v1/strategies/:id/runs
+ * List the strategy's agent runs (prompt, stage outputs, tool calls, timings),
+ * including HOLD/REJECT decisions and failures
+ */
+router.get(
+  "/:id/runs",
+  authenticate,
+  validateRequest(agentRunsQuerySchema),
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.userId;
+      const { id } = req.params;
+
+      const runs = await getStrategyRuns(id, userId, req.body);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          runs,
+          count: runs.length,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === "Strategy not found") {
+        return res.status(404).json({
+          success: false,
+          message: "Strategy not found",
+        });
+      }
+      next(error);
+    }
+  },
+);
+
 export default router;
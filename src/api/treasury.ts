@@ -6,22 +6,29 @@
  * - Withdrawal requests
  * - Balance queries
  * - Transaction history
+ * - Double-entry ledger
+ *
+ * Mutations accept an `Idempotency-Key` header so client retries are not
+ * applied twice (see middlewares/idempotency.ts).
  */
 
 import { Router, Request, Response, NextFunction } from "express";
 import { z } from "zod";
 import mongoose from "mongoose";
 import {
-    deposit,
-    withdraw,
     getBalance,
     getUserTreasuries,
     getTransactionHistory,
     getTransactionSummary,
     initializeTreasury,
 } from "../services/treasury.service";
+import { getAccountBalances, getJournalEntries } from "../services/ledger.service";
+import { notifyDeposit } from "../services/deposit.service";
+import { listWithdrawals, requestWithdrawal } from "../services/withdrawal.service";
+import type { IWithdrawal } from "../db/schema";
+import { isAmount, toAmountString, toWei } from "../lib/amount.utils";
 import logger from "../lib/logger";
-import { authenticate, AuthRequest, treasuryLimiter } from "../middlewares";
+import { authenticate, AuthRequest, idempotent, requireRecentTwoFactor, requireVerifiedEmail, treasuryLimiter } from "../middlewares";
 
 const router: Router = Router();
 
@@ -31,9 +38,15 @@ router.use(treasuryLimiter);
 /**
  * Validation Schemas
  */
+
+// WETH amounts are accepted as numbers or plain decimal strings ("0.1", no exponent)
+const AmountSchema = z
+    .union([z.number(), z.string().regex(/^\d+(\.\d{1,18})?$/, "Invalid amount")])
+    .refine((value) => isAmount(value) && toWei(value) > 0n, "Amount must be positive");
+
 const DepositSchema = z.object({
     strategyId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid strategy ID"),
-    amount: z.number().positive("Amount must be positive"),
+    amount: AmountSchema,
     txHash: z
         .string()
         .regex(/^0x[a-fA-F0-9]{64}$/, "Invalid transaction hash"),
@@ -44,7 +57,17 @@ const DepositSchema = z.object({
 
 const WithdrawSchema = z.object({
     strategyId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid strategy ID"),
-    amount: z.number().positive("Amount must be positive"),
+    amount: AmountSchema,
+    toAddress: z
+        .string()
+        .regex(/^0x[a-fA-F0-9]{40}$/, "Invalid wallet address"),
+});
+
+const WithdrawalQuerySchema = z.object({
+    limit: z.coerce.number().int().positive().max(100).optional().default(50),
+    skip: z.coerce.number().int().min(0).optional().default(0),
+    status: z.enum(["REQUESTED", "APPROVED", "BROADCAST", "CONFIRMED", "FAILED", "REJECTED"]).optional(),
+    strategyId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid strategy ID").optional(),
 });
 
 const InitializeTreasurySchema = z.object({
@@ -58,20 +81,47 @@ const TransactionQuerySchema = z.object({
     limit: z.coerce.number().int().positive().max(100).optional().default(50),
     skip: z.coerce.number().int().min(0).optional().default(0),
     type: z
-        .enum(["DEPOSIT", "WITHDRAW", "TRADE_OPEN", "TRADE_CLOSE", "PROFIT", "LOSS", "REFUND", "ADJUSTMENT"])
+        .enum(["DEPOSIT", "WITHDRAW", "WITHDRAW_HOLD", "WITHDRAW_RELEASE", "TRADE_OPEN", "TRADE_CLOSE", "PROFIT", "LOSS", "REFUND", "ADJUSTMENT"])
         .optional(),
     status: z.enum(["PENDING", "COMPLETED", "FAILED", "REVERSED"]).optional(),
 });
 
+const LedgerQuerySchema = z.object({
+    limit: z.coerce.number().int().positive().max(100).optional().default(50),
+    skip: z.coerce.number().int().min(0).optional().default(0),
+});
 
 
+/**
+ * Response shape of a withdrawal
+ */
+function withdrawalResponse(withdrawal: IWithdrawal) {
+    return {
+        id: withdrawal._id,
+        strategyId: withdrawal.strategyId,
+        amount: toAmountString(withdrawal.amount),
+        toAddress: withdrawal.toAddress,
+        status: withdrawal.status,
+        approvedBy: withdrawal.approvedBy,
+        reason: withdrawal.reason,
+        txHash: withdrawal.txHash,
+        confirmations: withdrawal.confirmations,
+        approvedAt: withdrawal.approvedAt,
+        broadcastAt: withdrawal.broadcastAt,
+        completedAt: withdrawal.completedAt,
+        createdAt: withdrawal.createdAt,
+    };
+}
+
 /**
  * POST /api/treasury/deposit
  * 
- * Notify backend of a successful deposit to the contract
- * Called by frontend after user deposits WETH
+ * Notify backend of a deposit to the contract
+ * Called by frontend after user deposits WETH. The deposit is credited once
+ * the transfer is verified on chain: 200 when it already is, 202 while it
+ * awaits confirmations, 400 when the transaction cannot back it
  */
-router.post("/deposit", authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.post("/deposit", authenticate, idempotent, async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
         // Validate request body
         const data = DepositSchema.parse(req.body);
@@ -88,8 +138,8 @@ router.post("/deposit", authenticate, async (req: AuthRequest, res: Response, ne
             "Processing deposit request",
         );
 
-        // Process deposit
-        const result = await deposit(
+        // Record the deposit and verify it on chain
+        const result = await notifyDeposit(
             data.strategyId,
             userId,
             data.amount,
@@ -97,27 +147,29 @@ router.post("/deposit", authenticate, async (req: AuthRequest, res: Response, ne
             data.contractAddress,
         );
 
-        res.status(200).json({
-            success: true,
+        const status = result.transaction.status;
+        res.status(status === "COMPLETED" ? 200 : status === "PENDING" ? 202 : 400).json({
+            success: status !== "FAILED",
             message: result.message,
             data: {
                 treasury: {
                     id: result.treasury._id,
                     strategyId: result.treasury.strategyId,
-                    availableBalance: result.treasury.availableBalance,
-                    lockedBalance: result.treasury.lockedBalance,
-                    totalDeposited: result.treasury.totalDeposited,
-                    totalWithdrawn: result.treasury.totalWithdrawn,
-                    netProfitLoss: result.treasury.netProfitLoss,
+                    availableBalance: toAmountString(result.treasury.availableBalance),
+                    lockedBalance: toAmountString(result.treasury.lockedBalance),
+                    totalDeposited: toAmountString(result.treasury.totalDeposited),
+                    totalWithdrawn: toAmountString(result.treasury.totalWithdrawn),
+                    netProfitLoss: toAmountString(result.treasury.netProfitLoss),
                 },
                 transaction: {
                     id: result.transaction._id,
                     type: result.transaction.type,
-                    amount: result.transaction.amount,
-                    balanceBefore: result.transaction.balanceBefore,
-                    balanceAfter: result.transaction.balanceAfter,
+                    amount: toAmountString(result.transaction.amount),
+                    balanceBefore: toAmountString(result.transaction.balanceBefore),
+                    balanceAfter: toAmountString(result.transaction.balanceAfter),
                     txHash: result.transaction.txHash,
-                    status: result.transaction.status,
+                    status,
+                    confirmations: result.verification?.confirmations,
                     createdAt: result.transaction.createdAt,
                 },
             },
@@ -131,6 +183,31 @@ router.post("/deposit", authenticate, async (req: AuthRequest, res: Response, ne
             });
         }
 
+        if (
+            error instanceof Error &&
+            (error.message === "Deposit transaction has already been credited" ||
+                error.message === "Deposit transaction is already awaiting confirmation")
+        ) {
+            return res.status(409).json({
+                success: false,
+                message: error.message,
+            });
+        }
+
+        if (error instanceof Error && error.message === "Unknown treasury contract address") {
+            return res.status(400).json({
+                success: false,
+                message: error.message,
+            });
+        }
+
+        if (error instanceof Error && error.message === "Strategy not found or does not belong to user") {
+            return res.status(404).json({
+                success: false,
+                message: error.message,
+            });
+        }
+
         logger.error({ error }, "Deposit endpoint error");
         next(error);
     }
@@ -139,10 +216,12 @@ router.post("/deposit", authenticate, async (req: AuthRequest, res: Response, ne
 /**
  * POST /api/treasury/withdraw
  * 
- * Request withdrawal from a strategy
- * Initiates withdrawal process
+ * Request a withdrawal from a strategy to the user's wallet
+ * The amount is held until the withdrawal is approved, sent and confirmed
+ * on chain (or returned if it is rejected or fails). Requires a verified
+ * email address, and a recent 2FA check for users with 2FA enabled.
  */
-router.post("/withdraw", authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.post("/withdraw", authenticate, requireVerifiedEmail, requireRecentTwoFactor, idempotent, async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
         // Validate request body
         const data = WithdrawSchema.parse(req.body);
@@ -157,35 +236,75 @@ router.post("/withdraw", authenticate, async (req: AuthRequest, res: Response, n
             "Processing withdrawal request",
         );
 
-        // Process withdrawal
-        const result = await withdraw(
+        // Hold the funds and create the request
+        const withdrawal = await requestWithdrawal(
             data.strategyId,
             userId,
             data.amount,
+            data.toAddress,
         );
 
+        res.status(202).json({
+            success: true,
+            message: withdrawal.status === "APPROVED"
+                ? "Withdrawal approved, awaiting transfer"
+                : "Withdrawal requested, awaiting approval",
+            data: withdrawalResponse(withdrawal),
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: "Validation error",
+                errors: error.issues,
+            });
+        }
+
+        if (
+            error instanceof Error
+            && (error.message.startsWith("Insufficient balance")
+                || error.message === "Withdrawals can only be sent to a linked wallet")
+        ) {
+            return res.status(400).json({
+                success: false,
+                message: error.message,
+            });
+        }
+
+        if (error instanceof Error && error.message === "Treasury not found") {
+            return res.status(404).json({
+                success: false,
+                message: error.message,
+            });
+        }
+
+        logger.error({ error }, "Withdrawal endpoint error");
+        next(error);
+    }
+});
+
+/**
+ * GET /api/treasury/withdrawals
+ * 
+ * Get the authenticated user's withdrawals, newest first
+ */
+router.get("/withdrawals", authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+        const userId = req.user!.userId;
+
+        // Validate query parameters
+        const queryParams = WithdrawalQuerySchema.parse(req.query);
+
+        const { withdrawals, total } = await listWithdrawals(queryParams, userId);
+
         res.status(200).json({
             success: true,
-            message: result.message,
-            data: {
-                treasury: {
-                    id: result.treasury._id,
-                    strategyId: result.treasury.strategyId,
-                    availableBalance: result.treasury.availableBalance,
-                    lockedBalance: result.treasury.lockedBalance,
-                    totalDeposited: result.treasury.totalDeposited,
-                    totalWithdrawn: result.treasury.totalWithdrawn,
-                    netProfitLoss: result.treasury.netProfitLoss,
-                },
-                transaction: {
-                    id: result.transaction._id,
-                    type: result.transaction.type,
-                    amount: result.transaction.amount,
-                    balanceBefore: result.transaction.balanceBefore,
-                    balanceAfter: result.transaction.balanceAfter,
-                    status: result.transaction.status,
-                    createdAt: result.transaction.createdAt,
-                },
+            data: withdrawals.map(withdrawalResponse),
+            pagination: {
+                total,
+                limit: queryParams.limit,
+                skip: queryParams.skip,
+                hasMore: queryParams.skip + withdrawals.length < total,
             },
         });
     } catch (error) {
@@ -197,7 +316,7 @@ router.post("/withdraw", authenticate, async (req: AuthRequest, res: Response, n
             });
         }
 
-        logger.error({ error }, "Withdrawal endpoint error");
+        logger.error({ error }, "Get withdrawals endpoint error");
         next(error);
     }
 });
@@ -227,13 +346,13 @@ router.get("/balance/:strategyId", authenticate, async (req: AuthRequest, res: R
             data: {
                 id: treasury._id,
                 strategyId: treasury.strategyId,
-                availableBalance: treasury.availableBalance,
-                lockedBalance: treasury.lockedBalance,
-                totalDeposited: treasury.totalDeposited,
-                totalWithdrawn: treasury.totalWithdrawn,
-                totalProfits: treasury.totalProfits,
-                totalLosses: treasury.totalLosses,
-                netProfitLoss: treasury.netProfitLoss,
+                availableBalance: toAmountString(treasury.availableBalance),
+                lockedBalance: toAmountString(treasury.lockedBalance),
+                totalDeposited: toAmountString(treasury.totalDeposited),
+                totalWithdrawn: toAmountString(treasury.totalWithdrawn),
+                totalProfits: toAmountString(treasury.totalProfits),
+                totalLosses: toAmountString(treasury.totalLosses),
+                netProfitLoss: toAmountString(treasury.netProfitLoss),
                 contractAddress: treasury.contractAddress,
                 lastDepositTxHash: treasury.lastDepositTxHash,
                 lastWithdrawTxHash: treasury.lastWithdrawTxHash,
@@ -263,13 +382,13 @@ router.get("/balances", authenticate, async (req: AuthRequest, res: Response, ne
             data: treasuries.map((treasury) => ({
                 id: treasury._id,
                 strategyId: treasury.strategyId,
-                availableBalance: treasury.availableBalance,
-                lockedBalance: treasury.lockedBalance,
-                totalDeposited: treasury.totalDeposited,
-                totalWithdrawn: treasury.totalWithdrawn,
-                totalProfits: treasury.totalProfits,
-                totalLosses: treasury.totalLosses,
-                netProfitLoss: treasury.netProfitLoss,
+                availableBalance: toAmountString(treasury.availableBalance),
+                lockedBalance: toAmountString(treasury.lockedBalance),
+                totalDeposited: toAmountString(treasury.totalDeposited),
+                totalWithdrawn: toAmountString(treasury.totalWithdrawn),
+                totalProfits: toAmountString(treasury.totalProfits),
+                totalLosses: toAmountString(treasury.totalLosses),
+                netProfitLoss: toAmountString(treasury.netProfitLoss),
                 contractAddress: treasury.contractAddress,
                 createdAt: treasury.createdAt,
                 updatedAt: treasury.updatedAt,
@@ -317,9 +436,9 @@ router.get(
                 data: transactions.map((tx) => ({
                     id: tx._id,
                     type: tx.type,
-                    amount: tx.amount,
-                    balanceBefore: tx.balanceBefore,
-                    balanceAfter: tx.balanceAfter,
+                    amount: toAmountString(tx.amount),
+                    balanceBefore: toAmountString(tx.balanceBefore),
+                    balanceAfter: toAmountString(tx.balanceAfter),
                     description: tx.description,
                     txHash: tx.txHash,
                     tradeId: tx.tradeId,
@@ -379,13 +498,77 @@ router.get("/summary/:strategyId", authenticate, async (req: AuthRequest, res: R
     }
 });
 
+/**
+ * GET /api/treasury/ledger/:strategyId
+ * 
+ * Get the strategy's ledger account balances and journal entries
+ */
+router.get("/ledger/:strategyId", authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+        const { strategyId } = req.params;
+        const userId = req.user!.userId;
+
+        // Validate strategyId
+        if (!mongoose.Types.ObjectId.isValid(strategyId)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid strategy ID",
+            });
+        }
+
+        // Validate query parameters
+        const queryParams = LedgerQuerySchema.parse(req.query);
+
+        const [accounts, { entries, total }] = await Promise.all([
+            getAccountBalances(strategyId, userId),
+            getJournalEntries(strategyId, userId, queryParams),
+        ]);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                accounts,
+                entries: entries.map((entry) => ({
+                    id: entry._id,
+                    type: entry.type,
+                    description: entry.description,
+                    postings: entry.postings.map((posting) => ({
+                        account: posting.account,
+                        amount: toAmountString(posting.amount),
+                    })),
+                    transactionId: entry.transactionId,
+                    tradeId: entry.tradeId,
+                    createdAt: entry.createdAt,
+                })),
+            },
+            pagination: {
+                total,
+                limit: queryParams.limit,
+                skip: queryParams.skip,
+                hasMore: queryParams.skip + entries.length < total,
+            },
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({
+                success: false,
+                message: "Validation error",
+                errors: error.issues,
+            });
+        }
+
+        logger.error({ error, strategyId: req.params.strategyId }, "Get ledger endpoint error");
+        next(error);
+    }
+});
+
 /**
  * POST /api/treasury/initialize
  * 
  * Initialize treasury for a strategy
  * Should be called when strategy is first created or before first deposit
  */
-router.post("/initialize", authenticate, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.post("/initialize", authenticate, idempotent, async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
         // Validate request body
         const data = InitializeTreasurySchema.parse(req.body);
@@ -410,8 +593,8 @@ router.post("/initialize", authenticate, async (req: AuthRequest, res: Response,
             data: {
                 id: treasury._id,
                 strategyId: treasury.strategyId,
-                availableBalance: treasury.availableBalance,
-                lockedBalance: treasury.lockedBalance,
+                availableBalance: toAmountString(treasury.availableBalance),
+                lockedBalance: toAmountString(treasury.lockedBalance),
                 contractAddress: treasury.contractAddress,
                 createdAt: treasury.createdAt,
             },
@@ -425,6 +608,20 @@ router.post("/initialize", authenticate, async (req: AuthRequest, res: Response,
             });
         }
 
+        if (error instanceof Error && error.message === "Unknown treasury contract address") {
+            return res.status(400).json({
+                success: false,
+                message: error.message,
+            });
+        }
+
+        if (error instanceof Error && error.message === "Strategy not found or does not belong to user") {
+            return res.status(404).json({
+                success: false,
+                message: error.message,
+            });
+        }
+
         logger.error({ error }, "Initialize treasury endpoint error");
         next(error);
     }
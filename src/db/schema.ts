@@ -1,15 +1,55 @@
 import mongoose, { Document, Schema } from "mongoose";
 import bcrypt from "bcryptjs";
+import { DEFAULT_SYMBOL, SUPPORTED_SYMBOLS } from "../tools/types/market-data.types";
+import { strategyRulesSchema } from "../lib/rule.engine";
+import { riskLimitOverridesSchema } from "../lib/validations";
+import type { RuleEvaluation, StrategyRules } from "../types/rule.types";
+import type { PriceVerification, RiskAssessment, RiskLimitOverrides } from "../types/risk.types";
+import {
+  DEFAULT_EXECUTION_MODE,
+  EXECUTION_MODES,
+  POSITION_SIDES,
+  type ExecutionMode,
+  type PositionSide,
+} from "../types/execution.types";
+import { LEDGER_ACCOUNTS, type JournalPosting } from "../types/ledger.types";
+import { isBalanced } from "../lib/ledger.engine";
+import { toAmountString, toWei, type AmountValue } from "../lib/amount.utils";
+
+/**
+ * WETH amounts are stored as Decimal128 (see amount.utils) and serialized
+ * as decimal strings
+ */
+function serializeAmount(value?: mongoose.Types.Decimal128): string | undefined {
+  return value == null ? undefined : toAmountString(value);
+}
+
+function nonNegativeAmount(message: string) {
+  return {
+    validator: function (v?: AmountValue) {
+      return v == null || toWei(v) >= 0n;
+    },
+    message,
+  };
+}
 
 /**
  * User Interface - Extensible design for easy field additions
  * Add new fields here and in the schema below
  */
 export interface IUser extends Document {
-  email: string;
-  password: string;
+  email: string; // Optional for users who signed up with a wallet
+  pendingEmail?: string; // Given at wallet sign-up; becomes `email` once verified
+  password: string; // Optional for users who signed up with a wallet
   firstName: string;
   lastName: string;
+  walletAddresses: string[]; // Linked with Sign-In with Ethereum, lowercase
+  role: "user" | "support" | "admin";
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string; // Base32 TOTP secret, once enrollment is confirmed
+  twoFactorPendingSecret?: string; // Secret awaiting its first code
+  twoFactorBackupCodes?: string[]; // SHA-256 hashes of unused backup codes
+  twoFactorLastStep?: number; // TOTP step of the last code used, so it cannot be replayed
   isEmailVerified: boolean;
   isActive: boolean;
   lastLogin?: Date;
@@ -19,6 +59,14 @@ export interface IUser extends Document {
   getFullName(): string;
 }
 
+/**
+ * Email, password and names are only required for users without a linked
+ * wallet
+ */
+function requiredWithoutWallet(this: IUser): boolean {
+  return !this.walletAddresses?.length;
+}
+
 /**
  * User Schema - Scalable design with hooks and methods
  */
@@ -26,8 +74,9 @@ const userSchema = new Schema<IUser>(
   {
     email: {
       type: String,
-      required: [true, "Email is required"],
+      required: [requiredWithoutWallet, "Email is required"],
       unique: true,
+      sparse: true,
       lowercase: true,
       trim: true,
       index: true,
@@ -38,26 +87,70 @@ const userSchema = new Schema<IUser>(
         message: "Please enter a valid email address",
       },
     },
+    pendingEmail: {
+      type: String,
+      lowercase: true,
+      trim: true,
+    },
     password: {
       type: String,
-      required: [true, "Password is required"],
+      required: [requiredWithoutWallet, "Password is required"],
       minlength: [8, "Password must be at least 8 characters"],
       select: false, // Don't return password by default in queries
     },
     firstName: {
       type: String,
-      required: [true, "First name is required"],
+      required: [requiredWithoutWallet, "First name is required"],
       trim: true,
       minlength: [2, "First name must be at least 2 characters"],
       maxlength: [50, "First name cannot exceed 50 characters"],
     },
     lastName: {
       type: String,
-      required: [true, "Last name is required"],
+      required: [requiredWithoutWallet, "Last name is required"],
       trim: true,
       minlength: [2, "Last name must be at least 2 characters"],
       maxlength: [50, "Last name cannot exceed 50 characters"],
     },
+    walletAddresses: {
+      type: [String],
+      default: [],
+      validate: {
+        validator: function (v: string[]) {
+          return v.every(address => /^0x[a-f0-9]{40}$/.test(address));
+        },
+        message: "Wallet addresses must be lowercase 0x addresses",
+      },
+    },
+    role: {
+      type: String,
+      enum: {
+        values: ["user", "support", "admin"],
+        message: "Invalid role",
+      },
+      default: "user",
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorBackupCodes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    twoFactorLastStep: {
+      type: Number,
+      select: false,
+    },
     isEmailVerified: {
       type: Boolean,
       default: false,
@@ -75,6 +168,10 @@ const userSchema = new Schema<IUser>(
     toJSON: {
       transform: function (doc, ret) {
         delete ret.password;
+        delete ret.twoFactorSecret;
+        delete ret.twoFactorPendingSecret;
+        delete ret.twoFactorBackupCodes;
+        delete ret.twoFactorLastStep;
         delete ret.__v;
         return ret;
       },
@@ -84,6 +181,11 @@ const userSchema = new Schema<IUser>(
 
 // Additional indexes (email index already defined in field definition)
 userSchema.index({ createdAt: -1 });
+// A wallet belongs to one user (users without wallets are not indexed)
+userSchema.index(
+  { walletAddresses: 1 },
+  { unique: true, partialFilterExpression: { "walletAddresses.0": { $exists: true } } },
+);
 
 /**
  * Pre-save hook: Hash password before saving
@@ -113,6 +215,9 @@ userSchema.methods.comparePassword = async function (candidatePassword: string):
  * Instance method: Get user's full name
  */
 userSchema.methods.getFullName = function (): string {
+  if (!this.firstName && !this.lastName) {
+    return this.walletAddresses[0] ?? "";
+  }
   return `${this.firstName} ${this.lastName}`;
 };
 
@@ -187,10 +292,16 @@ export interface IStrategy extends Document {
   name: string;
   description?: string;
   refinedDescription?: string; // AI-refined strategy steps
+  rules?: StrategyRules | null; // Structured entry/exit rules (evaluated without an LLM)
+  riskLimits?: RiskLimitOverrides | null; // Overrides of the global pre-trade risk limits
   indicators: mongoose.Types.ObjectId[];
+  symbol: string; // Trading pair, e.g. WETHUSDT
   timeframe: string;
   amount: number;
-  status: "ACTIVE" | "INACTIVE";
+  executionMode: ExecutionMode; // PAPER fills are simulated, LIVE fills go on-chain
+  allowShorts: boolean; // EXECUTE SELL opens a SHORT position (otherwise it only exits longs)
+  status: "ACTIVE" | "INACTIVE" | "PAUSED" | "ARCHIVED"; // Changed only through the lifecycle endpoints
+  lastEvaluatedCandle?: Date | null; // Open time of the last candle the agents analyzed
   createdAt: Date;
   updatedAt: Date;
 }
@@ -223,12 +334,43 @@ const strategySchema = new Schema<IStrategy>(
       trim: true,
       maxlength: [5000, "Refined description cannot exceed 5000 characters"],
     },
+    rules: {
+      type: Schema.Types.Mixed,
+      default: null,
+      validate: {
+        validator: function (v: unknown) {
+          return v === null || v === undefined || strategyRulesSchema.safeParse(v).success;
+        },
+        message: "Invalid strategy rules",
+      },
+    },
+    riskLimits: {
+      type: Schema.Types.Mixed,
+      default: null,
+      validate: {
+        validator: function (v: unknown) {
+          return v === null || v === undefined || riskLimitOverridesSchema.safeParse(v).success;
+        },
+        message: "Invalid risk limits",
+      },
+    },
     indicators: [
       {
         type: Schema.Types.ObjectId,
         ref: "Indicator",
       },
     ],
+    symbol: {
+      type: String,
+      required: [true, "Symbol is required"],
+      uppercase: true,
+      trim: true,
+      enum: {
+        values: SUPPORTED_SYMBOLS,
+        message: "Unsupported trading pair",
+      },
+      default: DEFAULT_SYMBOL,
+    },
     timeframe: {
       type: String,
       required: [true, "Timeframe is required"],
@@ -248,14 +390,30 @@ const strategySchema = new Schema<IStrategy>(
       //   message: "Amount must be positive",
       // },
     },
+    executionMode: {
+      type: String,
+      enum: {
+        values: EXECUTION_MODES,
+        message: "Execution mode must be either PAPER or LIVE",
+      },
+      default: DEFAULT_EXECUTION_MODE,
+    },
+    allowShorts: {
+      type: Boolean,
+      default: false,
+    },
     status: {
       type: String,
       enum: {
-        values: ["ACTIVE", "INACTIVE"],
-        message: "Status must be either ACTIVE or INACTIVE",
+        values: ["ACTIVE", "INACTIVE", "PAUSED", "ARCHIVED"],
+        message: "Status must be one of ACTIVE, INACTIVE, PAUSED or ARCHIVED",
       },
       default: "INACTIVE",
     },
+    lastEvaluatedCandle: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -276,24 +434,38 @@ export const Strategy = mongoose.model<IStrategy>("Strategy", strategySchema);
 export interface ITrade extends Document {
   userId: mongoose.Types.ObjectId;
   strategyId: mongoose.Types.ObjectId;
+  symbol: string; // Trading pair the signal was generated for
   signal: "BUY" | "SELL" | "HOLD";
+  side: PositionSide; // LONG for BUY signals, SHORT for SELL signals
   entry: number;
-  exit: number;
-  stopLoss: number;
+  exit: number; // Take profit: above entry for LONG, below for SHORT
+  stopLoss: number; // Below entry for LONG, above for SHORT
   reasoning: string;
   confidence: "VERY_WEAK" | "WEAK" | "MODERATE" | "STRONG" | "VERY_STRONG";
   riskRewardRatio: number;
-  amount: number;
-  status: "PENDING" | "PLACED" | "FAILED" | "CANCELLED";
+  amount: mongoose.Types.Decimal128; // WETH committed to the position
+  status: "PENDING" | "EXECUTING" | "PLACED" | "FAILED" | "CANCELLED" | "CLOSING" | "CLOSED";
   
   // Analysis context
   marketCondition: string;
   toolsUsed: string[];
+  ruleEvaluation?: RuleEvaluation; // Entry rule trail when the strategy has structured rules
+  priceVerification?: PriceVerification; // Validator's original levels and the corrections applied
   
-  // 1inch specific fields
-  txHash?: string;
+  // Execution (set when the trade is filled)
+  executionMode?: ExecutionMode;
+  executionLeaseUntil?: Date; // While EXECUTING; the trade is recovered after this
+  txHash?: string; // 1inch swap, LIVE only
   executedAt?: Date;
   executedPrice?: number;
+  executedQuantity?: number; // Base asset bought (LONG) or sold (SHORT)
+  fees?: number; // Fees paid on entry, in quote units
+  
+  // Position close (set by the position monitor when it claims the trade for CLOSING)
+  closedAt?: Date;
+  closePrice?: number;
+  closeReason?: "TAKE_PROFIT" | "STOP_LOSS" | "SIGNAL" | "MANUAL";
+  realizedPnl?: mongoose.Types.Decimal128; // WETH, net of fees
   
   createdAt: Date;
   updatedAt: Date;
@@ -316,6 +488,13 @@ const tradeSchema = new Schema<ITrade>(
       required: [true, "Strategy ID is required"],
       index: true,
     },
+    symbol: {
+      type: String,
+      required: [true, "Symbol is required"],
+      uppercase: true,
+      trim: true,
+      default: DEFAULT_SYMBOL,
+    },
     signal: {
       type: String,
       required: [true, "Signal is required"],
@@ -324,6 +503,14 @@ const tradeSchema = new Schema<ITrade>(
         message: "Signal must be BUY, SELL, or HOLD",
       },
     },
+    side: {
+      type: String,
+      enum: {
+        values: POSITION_SIDES,
+        message: "Side must be LONG or SHORT",
+      },
+      default: "LONG",
+    },
     entry: {
       type: Number,
       required: [true, "Entry price is required"],
@@ -359,15 +546,16 @@ const tradeSchema = new Schema<ITrade>(
       min: [0, "Risk/reward ratio must be positive"],
     },
     amount: {
-      type: Number,
+      type: Schema.Types.Decimal128,
       required: [true, "Trade amount is required"],
-      min: [0, "Amount must be positive"],
+      transform: serializeAmount,
+      validate: nonNegativeAmount("Amount must be positive"),
     },
     status: {
       type: String,
       required: [true, "Status is required"],
       enum: {
-        values: ["PENDING", "PLACED", "FAILED", "CANCELLED"],
+        values: ["PENDING", "EXECUTING", "PLACED", "FAILED", "CANCELLED", "CLOSING", "CLOSED"],
         message: "Invalid status",
       },
       default: "PENDING",
@@ -383,6 +571,22 @@ const tradeSchema = new Schema<ITrade>(
         trim: true,
       },
     ],
+    ruleEvaluation: {
+      type: Schema.Types.Mixed,
+    },
+    priceVerification: {
+      type: Schema.Types.Mixed,
+    },
+    executionMode: {
+      type: String,
+      enum: {
+        values: EXECUTION_MODES,
+        message: "Invalid execution mode",
+      },
+    },
+    executionLeaseUntil: {
+      type: Date,
+    },
     txHash: {
       type: String,
       trim: true,
@@ -394,6 +598,32 @@ const tradeSchema = new Schema<ITrade>(
       type: Number,
       min: [0, "Executed price must be positive"],
     },
+    executedQuantity: {
+      type: Number,
+      min: [0, "Executed quantity must be positive"],
+    },
+    fees: {
+      type: Number,
+      min: [0, "Fees must be positive"],
+    },
+    closedAt: {
+      type: Date,
+    },
+    closePrice: {
+      type: Number,
+      min: [0, "Close price must be positive"],
+    },
+    closeReason: {
+      type: String,
+      enum: {
+        values: ["TAKE_PROFIT", "STOP_LOSS", "SIGNAL", "MANUAL"],
+        message: "Invalid close reason",
+      },
+    },
+    realizedPnl: {
+      type: Schema.Types.Decimal128,
+      transform: serializeAmount,
+    },
   },
   {
     timestamps: true,
@@ -405,6 +635,7 @@ tradeSchema.index({ userId: 1, status: 1 });
 tradeSchema.index({ strategyId: 1, status: 1 });
 tradeSchema.index({ createdAt: -1 });
 tradeSchema.index({ status: 1, createdAt: -1 });
+tradeSchema.index({ symbol: 1, status: 1 });
 
 export const Trade = mongoose.model<ITrade>("Trade", tradeSchema);
 
@@ -418,16 +649,16 @@ export interface ITreasury extends Document {
   strategyId: mongoose.Types.ObjectId;
   userId: mongoose.Types.ObjectId;
   
-  // Balance tracking
-  totalDeposited: number; // Total WETH deposited to this strategy
-  totalWithdrawn: number; // Total WETH withdrawn from this strategy
-  availableBalance: number; // Current available balance (totalDeposited - totalWithdrawn + profits - losses)
-  lockedBalance: number; // Balance locked in active trades
+  // Balance tracking (WETH)
+  totalDeposited: mongoose.Types.Decimal128; // Total WETH deposited to this strategy
+  totalWithdrawn: mongoose.Types.Decimal128; // Total WETH withdrawn from this strategy
+  availableBalance: mongoose.Types.Decimal128; // Current available balance (totalDeposited - totalWithdrawn + profits - losses)
+  lockedBalance: mongoose.Types.Decimal128; // Balance locked in active trades
   
   // Profit/Loss tracking
-  totalProfits: number; // Cumulative profits from closed trades
-  totalLosses: number; // Cumulative losses from closed trades
-  netProfitLoss: number; // totalProfits - totalLosses
+  totalProfits: mongoose.Types.Decimal128; // Cumulative profits from closed trades
+  totalLosses: mongoose.Types.Decimal128; // Cumulative losses from closed trades
+  netProfitLoss: mongoose.Types.Decimal128; // totalProfits - totalLosses
   
   // Blockchain tracking
   contractAddress: string; // EVM contract address
@@ -457,45 +688,52 @@ const treasurySchema = new Schema<ITreasury>(
       index: true,
     },
     totalDeposited: {
-      type: Number,
+      type: Schema.Types.Decimal128,
       required: true,
       default: 0,
-      min: [0, "Total deposited cannot be negative"],
+      transform: serializeAmount,
+      validate: nonNegativeAmount("Total deposited cannot be negative"),
     },
     totalWithdrawn: {
-      type: Number,
+      type: Schema.Types.Decimal128,
       required: true,
       default: 0,
-      min: [0, "Total withdrawn cannot be negative"],
+      transform: serializeAmount,
+      validate: nonNegativeAmount("Total withdrawn cannot be negative"),
     },
     availableBalance: {
-      type: Number,
+      type: Schema.Types.Decimal128,
       required: true,
       default: 0,
-      min: [0, "Available balance cannot be negative"],
+      transform: serializeAmount,
+      validate: nonNegativeAmount("Available balance cannot be negative"),
     },
     lockedBalance: {
-      type: Number,
+      type: Schema.Types.Decimal128,
       required: true,
       default: 0,
-      min: [0, "Locked balance cannot be negative"],
+      transform: serializeAmount,
+      validate: nonNegativeAmount("Locked balance cannot be negative"),
     },
     totalProfits: {
-      type: Number,
+      type: Schema.Types.Decimal128,
       required: true,
       default: 0,
-      min: [0, "Total profits cannot be negative"],
+      transform: serializeAmount,
+      validate: nonNegativeAmount("Total profits cannot be negative"),
     },
     totalLosses: {
-      type: Number,
+      type: Schema.Types.Decimal128,
       required: true,
       default: 0,
-      min: [0, "Total losses cannot be negative"],
+      transform: serializeAmount,
+      validate: nonNegativeAmount("Total losses cannot be negative"),
     },
     netProfitLoss: {
-      type: Number,
+      type: Schema.Types.Decimal128,
       required: true,
       default: 0,
+      transform: serializeAmount,
     },
     contractAddress: {
       type: String,
@@ -551,12 +789,22 @@ export interface ITransaction extends Document {
   strategyId: mongoose.Types.ObjectId;
   treasuryId: mongoose.Types.ObjectId;
   
-  type: "DEPOSIT" | "WITHDRAW" | "TRADE_OPEN" | "TRADE_CLOSE" | "PROFIT" | "LOSS" | "REFUND" | "ADJUSTMENT";
-  amount: number;
+  type:
+    | "DEPOSIT"
+    | "WITHDRAW"
+    | "WITHDRAW_HOLD"
+    | "WITHDRAW_RELEASE"
+    | "TRADE_OPEN"
+    | "TRADE_CLOSE"
+    | "PROFIT"
+    | "LOSS"
+    | "REFUND"
+    | "ADJUSTMENT";
+  amount: mongoose.Types.Decimal128; // WETH
   
   // Balance snapshots (for reconciliation)
-  balanceBefore: number;
-  balanceAfter: number;
+  balanceBefore: mongoose.Types.Decimal128;
+  balanceAfter: mongoose.Types.Decimal128;
   
   // References
   tradeId?: mongoose.Types.ObjectId; // If related to a trade
@@ -567,6 +815,7 @@ export interface ITransaction extends Document {
   metadata?: Record<string, any>; // Flexible field for additional data
   
   status: "PENDING" | "COMPLETED" | "FAILED" | "REVERSED";
+  postedAt?: Date; // When the balances were updated (a deposit is only credited once verified on chain)
   
   createdAt: Date;
   updatedAt: Date;
@@ -599,30 +848,33 @@ const transactionSchema = new Schema<ITransaction>(
       type: String,
       required: [true, "Transaction type is required"],
       enum: {
-        values: ["DEPOSIT", "WITHDRAW", "TRADE_OPEN", "TRADE_CLOSE", "PROFIT", "LOSS", "REFUND", "ADJUSTMENT"],
+        values: ["DEPOSIT", "WITHDRAW", "WITHDRAW_HOLD", "WITHDRAW_RELEASE", "TRADE_OPEN", "TRADE_CLOSE", "PROFIT", "LOSS", "REFUND", "ADJUSTMENT"],
         message: "Invalid transaction type",
       },
       index: true,
     },
     amount: {
-      type: Number,
+      type: Schema.Types.Decimal128,
       required: [true, "Amount is required"],
+      transform: serializeAmount,
       validate: {
-        validator: function (v: number) {
-          return v !== 0;
+        validator: function (v: AmountValue) {
+          return toWei(v) !== 0n;
         },
         message: "Amount cannot be zero",
       },
     },
     balanceBefore: {
-      type: Number,
+      type: Schema.Types.Decimal128,
       required: [true, "Balance before is required"],
-      min: [0, "Balance cannot be negative"],
+      transform: serializeAmount,
+      validate: nonNegativeAmount("Balance cannot be negative"),
     },
     balanceAfter: {
-      type: Number,
+      type: Schema.Types.Decimal128,
       required: [true, "Balance after is required"],
-      min: [0, "Balance cannot be negative"],
+      transform: serializeAmount,
+      validate: nonNegativeAmount("Balance cannot be negative"),
     },
     tradeId: {
       type: Schema.Types.ObjectId,
@@ -657,6 +909,9 @@ const transactionSchema = new Schema<ITransaction>(
       default: "COMPLETED",
       index: true,
     },
+    postedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -669,5 +924,1036 @@ transactionSchema.index({ strategyId: 1, type: 1, createdAt: -1 });
 transactionSchema.index({ treasuryId: 1, createdAt: -1 });
 transactionSchema.index({ type: 1, status: 1, createdAt: -1 });
 transactionSchema.index({ txHash: 1 }, { sparse: true });
+// An on-chain transfer can only be credited once
+transactionSchema.index(
+  { txHash: 1, type: 1 },
+  { unique: true, partialFilterExpression: { type: "DEPOSIT", status: "COMPLETED" } },
+);
+// A trade locks funds, releases them and realizes its PnL at most once each
+transactionSchema.index(
+  { tradeId: 1, type: 1 },
+  { unique: true, partialFilterExpression: { tradeId: { $exists: true }, status: "COMPLETED" } },
+);
 
 export const Transaction = mongoose.model<ITransaction>("Transaction", transactionSchema);
+
+/**
+ * Journal Entry Interface
+ *
+ * Double-entry record of a treasury movement: balanced postings between
+ * ledger accounts, written in the same MongoDB transaction as the
+ * Transaction it books. Entries are never updated; mistakes are fixed by
+ * posting another entry.
+ */
+export interface IJournalEntry extends Document {
+  userId: mongoose.Types.ObjectId;
+  strategyId: mongoose.Types.ObjectId;
+  treasuryId: mongoose.Types.ObjectId;
+  transactionId: mongoose.Types.ObjectId;
+  tradeId?: mongoose.Types.ObjectId;
+
+  type: ITransaction["type"];
+  description: string;
+  postings: JournalPosting[]; // Debits positive, credits negative
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Journal Posting Schema
+ */
+const journalPostingSchema = new Schema<JournalPosting>(
+  {
+    account: {
+      type: String,
+      required: [true, "Account is required"],
+      enum: {
+        values: LEDGER_ACCOUNTS,
+        message: "Invalid ledger account",
+      },
+    },
+    amount: {
+      type: Schema.Types.Decimal128,
+      required: [true, "Amount is required"],
+      transform: serializeAmount,
+    },
+  },
+  {
+    _id: false,
+  },
+);
+
+/**
+ * Journal Entry Schema
+ */
+const journalEntrySchema = new Schema<IJournalEntry>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+      index: true,
+    },
+    strategyId: {
+      type: Schema.Types.ObjectId,
+      ref: "Strategy",
+      required: [true, "Strategy ID is required"],
+      index: true,
+    },
+    treasuryId: {
+      type: Schema.Types.ObjectId,
+      ref: "Treasury",
+      required: [true, "Treasury ID is required"],
+    },
+    transactionId: {
+      type: Schema.Types.ObjectId,
+      ref: "Transaction",
+      required: [true, "Transaction ID is required"],
+      unique: true, // One entry per transaction
+    },
+    tradeId: {
+      type: Schema.Types.ObjectId,
+      ref: "Trade",
+    },
+    type: {
+      type: String,
+      required: [true, "Entry type is required"],
+      enum: {
+        values: ["DEPOSIT", "WITHDRAW", "WITHDRAW_HOLD", "WITHDRAW_RELEASE", "TRADE_OPEN", "TRADE_CLOSE", "PROFIT", "LOSS", "REFUND", "ADJUSTMENT"],
+        message: "Invalid entry type",
+      },
+    },
+    description: {
+      type: String,
+      required: [true, "Description is required"],
+      trim: true,
+      maxlength: [500, "Description cannot exceed 500 characters"],
+    },
+    postings: {
+      type: [journalPostingSchema],
+      validate: {
+        validator: function (v: JournalPosting[]) {
+          return isBalanced(v.map(p => ({ account: p.account, amount: toWei(p.amount) })));
+        },
+        message: "Journal entry postings must balance",
+      },
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+journalEntrySchema.index({ treasuryId: 1, createdAt: 1 });
+journalEntrySchema.index({ "postings.account": 1 });
+
+// Entries are append-only
+journalEntrySchema.pre(["updateOne", "updateMany", "findOneAndUpdate", "replaceOne"], function () {
+  throw new Error("Journal entries cannot be modified");
+});
+
+export const JournalEntry = mongoose.model<IJournalEntry>("JournalEntry", journalEntrySchema);
+
+/**
+ * Withdrawal Interface
+ *
+ * A user's request to move WETH from a strategy's treasury to their wallet.
+ * The amount is held in the locked balance (WITHDRAW_HOLD) from the
+ * request until it is settled on chain (WITHDRAW_RELEASE + WITHDRAW) or
+ * released back by a REVERSED WITHDRAW_RELEASE when rejected or failed.
+ *
+ * REQUESTED -> APPROVED -> BROADCAST -> CONFIRMED
+ *           \-> REJECTED  \-> REJECTED  \-> FAILED
+ */
+export interface IWithdrawal extends Document {
+  userId: mongoose.Types.ObjectId;
+  strategyId: mongoose.Types.ObjectId;
+  treasuryId: mongoose.Types.ObjectId;
+
+  amount: mongoose.Types.Decimal128; // WETH
+  toAddress: string; // Wallet receiving the WETH
+  status: "REQUESTED" | "APPROVED" | "BROADCAST" | "CONFIRMED" | "FAILED" | "REJECTED";
+  approvedBy?: "AUTO" | "ADMIN"; // AUTO: under the auto-approval threshold
+  reason?: string; // Why it was rejected or failed
+
+  // Settlement
+  txHash?: string; // Set when the transfer is broadcast
+  confirmations?: number;
+  blockNumber?: number;
+
+  // Ledger transactions
+  holdTransactionId?: mongoose.Types.ObjectId; // WITHDRAW_HOLD
+  releaseTransactionId?: mongoose.Types.ObjectId; // WITHDRAW_RELEASE (REVERSED when not settled)
+  withdrawTransactionId?: mongoose.Types.ObjectId; // WITHDRAW
+
+  approvedAt?: Date;
+  broadcastAt?: Date;
+  completedAt?: Date; // Confirmed, failed or rejected
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Withdrawal Schema
+ */
+const withdrawalSchema = new Schema<IWithdrawal>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+      index: true,
+    },
+    strategyId: {
+      type: Schema.Types.ObjectId,
+      ref: "Strategy",
+      required: [true, "Strategy ID is required"],
+      index: true,
+    },
+    treasuryId: {
+      type: Schema.Types.ObjectId,
+      ref: "Treasury",
+      required: [true, "Treasury ID is required"],
+    },
+    amount: {
+      type: Schema.Types.Decimal128,
+      required: [true, "Amount is required"],
+      transform: serializeAmount,
+      validate: {
+        validator: function (v: AmountValue) {
+          return toWei(v) > 0n;
+        },
+        message: "Amount must be positive",
+      },
+    },
+    toAddress: {
+      type: String,
+      required: [true, "Destination address is required"],
+      trim: true,
+      lowercase: true,
+      validate: {
+        validator: function (v: string) {
+          return /^0x[a-fA-F0-9]{40}$/.test(v);
+        },
+        message: "Invalid Ethereum address format",
+      },
+    },
+    status: {
+      type: String,
+      required: [true, "Status is required"],
+      enum: {
+        values: ["REQUESTED", "APPROVED", "BROADCAST", "CONFIRMED", "FAILED", "REJECTED"],
+        message: "Invalid withdrawal status",
+      },
+      default: "REQUESTED",
+    },
+    approvedBy: {
+      type: String,
+      enum: ["AUTO", "ADMIN"],
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Reason cannot exceed 500 characters"],
+    },
+    txHash: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      validate: {
+        validator: function (v: string) {
+          return /^0x[a-fA-F0-9]{64}$/.test(v);
+        },
+        message: "Invalid transaction hash format",
+      },
+    },
+    confirmations: {
+      type: Number,
+    },
+    blockNumber: {
+      type: Number,
+    },
+    holdTransactionId: {
+      type: Schema.Types.ObjectId,
+      ref: "Transaction",
+    },
+    releaseTransactionId: {
+      type: Schema.Types.ObjectId,
+      ref: "Transaction",
+    },
+    withdrawTransactionId: {
+      type: Schema.Types.ObjectId,
+      ref: "Transaction",
+    },
+    approvedAt: {
+      type: Date,
+    },
+    broadcastAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Queues for admins and the settlement tracker, oldest first
+withdrawalSchema.index({ status: 1, createdAt: 1 });
+withdrawalSchema.index({ userId: 1, createdAt: -1 });
+// A broadcast transfer settles one withdrawal
+withdrawalSchema.index({ txHash: 1 }, { unique: true, sparse: true });
+
+export const Withdrawal = mongoose.model<IWithdrawal>("Withdrawal", withdrawalSchema);
+
+/**
+ * Backtest Interface
+ *
+ * Result of replaying a strategy over historical candles
+ */
+export interface IBacktest extends Document {
+  userId: mongoose.Types.ObjectId;
+  strategyId: mongoose.Types.ObjectId;
+  symbol: string;
+  timeframe: string;
+  startDate: Date;
+  endDate: Date;
+
+  // Fill simulation settings
+  config: {
+    initialCapital: number;
+    feeRate: number;
+    slippageBps: number;
+    stopLossPct?: number;
+    takeProfitPct?: number;
+  };
+
+  signalSource: "RULES" | "INDICATOR_VOTES"; // Structured rules or majority vote of indicator tools
+  indicatorsUsed: string[]; // Indicator abbreviations evaluated
+  indicatorsSkipped: string[]; // Indicators without a backtestable tool
+  candleCount: number;
+
+  metrics: {
+    initialCapital: number;
+    finalEquity: number;
+    totalReturn: number;
+    totalTrades: number;
+    winningTrades: number;
+    losingTrades: number;
+    winRate: number;
+    maxDrawdown: number;
+    sharpeRatio: number;
+    profitFactor: number | null;
+    totalFees: number;
+  };
+  trades: Array<{
+    side: "LONG";
+    entryTime: Date;
+    entryPrice: number;
+    exitTime: Date;
+    exitPrice: number;
+    quantity: number;
+    fees: number;
+    pnl: number;
+    returnPct: number;
+    exitReason: "SIGNAL" | "STOP_LOSS" | "TAKE_PROFIT" | "END_OF_DATA";
+  }>;
+  equityCurve: Array<{ timestamp: Date; equity: number }>;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Backtest Schema
+ */
+const backtestSchema = new Schema<IBacktest>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+      index: true,
+    },
+    strategyId: {
+      type: Schema.Types.ObjectId,
+      ref: "Strategy",
+      required: [true, "Strategy ID is required"],
+      index: true,
+    },
+    symbol: {
+      type: String,
+      required: [true, "Symbol is required"],
+      uppercase: true,
+      trim: true,
+    },
+    timeframe: {
+      type: String,
+      required: [true, "Timeframe is required"],
+    },
+    startDate: {
+      type: Date,
+      required: [true, "Start date is required"],
+    },
+    endDate: {
+      type: Date,
+      required: [true, "End date is required"],
+    },
+    config: {
+      initialCapital: { type: Number, required: true, min: [0, "Initial capital must be positive"] },
+      feeRate: { type: Number, required: true, min: [0, "Fee rate cannot be negative"] },
+      slippageBps: { type: Number, required: true, min: [0, "Slippage cannot be negative"] },
+      stopLossPct: { type: Number },
+      takeProfitPct: { type: Number },
+    },
+    signalSource: {
+      type: String,
+      enum: ["RULES", "INDICATOR_VOTES"],
+      required: [true, "Signal source is required"],
+    },
+    indicatorsUsed: [{ type: String, trim: true }],
+    indicatorsSkipped: [{ type: String, trim: true }],
+    candleCount: {
+      type: Number,
+      required: [true, "Candle count is required"],
+    },
+    metrics: {
+      initialCapital: { type: Number, required: true },
+      finalEquity: { type: Number, required: true },
+      totalReturn: { type: Number, required: true },
+      totalTrades: { type: Number, required: true },
+      winningTrades: { type: Number, required: true },
+      losingTrades: { type: Number, required: true },
+      winRate: { type: Number, required: true },
+      maxDrawdown: { type: Number, required: true },
+      sharpeRatio: { type: Number, required: true },
+      profitFactor: { type: Number, default: null },
+      totalFees: { type: Number, required: true },
+    },
+    trades: [
+      {
+        _id: false,
+        side: { type: String, enum: ["LONG"], required: true },
+        entryTime: { type: Date, required: true },
+        entryPrice: { type: Number, required: true },
+        exitTime: { type: Date, required: true },
+        exitPrice: { type: Number, required: true },
+        quantity: { type: Number, required: true },
+        fees: { type: Number, required: true },
+        pnl: { type: Number, required: true },
+        returnPct: { type: Number, required: true },
+        exitReason: {
+          type: String,
+          enum: ["SIGNAL", "STOP_LOSS", "TAKE_PROFIT", "END_OF_DATA"],
+          required: true,
+        },
+      },
+    ],
+    equityCurve: [
+      {
+        _id: false,
+        timestamp: { type: Date, required: true },
+        equity: { type: Number, required: true },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Index for listing a strategy's runs, newest first
+backtestSchema.index({ strategyId: 1, createdAt: -1 });
+
+export const Backtest = mongoose.model<IBacktest>("Backtest", backtestSchema);
+
+/**
+ * Agent Run Interface
+ *
+ * One evaluation of a strategy by the trading cycle, kept whether or not
+ * it produced a trade, so users can see why the bot did (not) trade
+ */
+export interface IAgentRun extends Document {
+  userId: mongoose.Types.ObjectId;
+  strategyId: mongoose.Types.ObjectId;
+  sessionId?: string;
+  status: "COMPLETED" | "SKIPPED" | "FAILED"; // SKIPPED: entry rules not met, agents not called
+  input?: string; // Prompt sent to the pipeline
+
+  stages: Array<{
+    agent: string;
+    output?: string;
+    startedAt: Date;
+    completedAt: Date;
+    durationMs: number;
+  }>;
+  toolCalls: Array<{
+    agent: string;
+    tool: string;
+    args: Record<string, unknown>;
+    response?: unknown;
+    error?: string;
+    calledAt: Date;
+    durationMs?: number;
+  }>;
+  ruleEvaluation?: RuleEvaluation;
+  priceVerification?: PriceVerification; // Price level checks for EXECUTE BUY decisions
+  riskAssessment?: RiskAssessment; // Pre-trade risk checks for EXECUTE BUY decisions
+
+  // Outcome
+  decision?: "EXECUTE" | "HOLD" | "REJECT";
+  signal?: "BUY" | "SELL" | "HOLD";
+  tradeId?: mongoose.Types.ObjectId;
+  error?: string;
+
+  startedAt: Date;
+  completedAt: Date;
+  durationMs: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Agent Run Schema
+ */
+const agentRunSchema = new Schema<IAgentRun>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+      index: true,
+    },
+    strategyId: {
+      type: Schema.Types.ObjectId,
+      ref: "Strategy",
+      required: [true, "Strategy ID is required"],
+      index: true,
+    },
+    sessionId: {
+      type: String,
+      trim: true,
+    },
+    status: {
+      type: String,
+      required: [true, "Status is required"],
+      enum: {
+        values: ["COMPLETED", "SKIPPED", "FAILED"],
+        message: "Invalid run status",
+      },
+    },
+    input: {
+      type: String,
+    },
+    stages: [
+      {
+        _id: false,
+        agent: { type: String, required: true },
+        output: { type: String },
+        startedAt: { type: Date, required: true },
+        completedAt: { type: Date, required: true },
+        durationMs: { type: Number, required: true },
+      },
+    ],
+    toolCalls: [
+      {
+        _id: false,
+        agent: { type: String, required: true },
+        tool: { type: String, required: true },
+        args: { type: Schema.Types.Mixed, default: {} },
+        response: { type: Schema.Types.Mixed },
+        error: { type: String },
+        calledAt: { type: Date, required: true },
+        durationMs: { type: Number },
+      },
+    ],
+    ruleEvaluation: {
+      type: Schema.Types.Mixed,
+    },
+    priceVerification: {
+      type: Schema.Types.Mixed,
+    },
+    riskAssessment: {
+      type: Schema.Types.Mixed,
+    },
+    decision: {
+      type: String,
+      enum: ["EXECUTE", "HOLD", "REJECT"],
+    },
+    signal: {
+      type: String,
+      enum: ["BUY", "SELL", "HOLD"],
+    },
+    tradeId: {
+      type: Schema.Types.ObjectId,
+      ref: "Trade",
+    },
+    error: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+      required: [true, "Start time is required"],
+    },
+    completedAt: {
+      type: Date,
+      required: [true, "Completion time is required"],
+    },
+    durationMs: {
+      type: Number,
+      required: [true, "Duration is required"],
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Index for listing a strategy's runs, newest first
+agentRunSchema.index({ strategyId: 1, createdAt: -1 });
+
+export const AgentRun = mongoose.model<IAgentRun>("AgentRun", agentRunSchema);
+
+/**
+ * Job Interface
+ *
+ * Unit of background work (e.g. analyzing one strategy) processed by the
+ * job workers. A worker holds a lease while running a job; an expired
+ * lease lets another worker pick the job up again.
+ */
+export interface IJob extends Document {
+  type: "STRATEGY_ANALYSIS";
+  strategyId?: mongoose.Types.ObjectId;
+  payload?: Record<string, unknown>;
+  status: "QUEUED" | "RUNNING" | "COMPLETED" | "DEAD";
+  dedupeKey?: string; // Set while QUEUED/RUNNING so a target is never queued twice
+
+  // Retry bookkeeping
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date; // Not picked up before this time (retry backoff)
+  lastError?: string;
+
+  // Lease
+  leaseOwner?: string;
+  leaseExpiresAt?: Date;
+
+  result?: Record<string, unknown>;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Job Schema
+ */
+const jobSchema = new Schema<IJob>(
+  {
+    type: {
+      type: String,
+      required: [true, "Job type is required"],
+      enum: {
+        values: ["STRATEGY_ANALYSIS"],
+        message: "Invalid job type",
+      },
+    },
+    strategyId: {
+      type: Schema.Types.ObjectId,
+      ref: "Strategy",
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+    },
+    status: {
+      type: String,
+      required: [true, "Status is required"],
+      enum: {
+        values: ["QUEUED", "RUNNING", "COMPLETED", "DEAD"],
+        message: "Invalid job status",
+      },
+      default: "QUEUED",
+    },
+    dedupeKey: {
+      type: String,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: [0, "Attempts cannot be negative"],
+    },
+    maxAttempts: {
+      type: Number,
+      required: [true, "Max attempts is required"],
+      min: [1, "Max attempts must be at least 1"],
+    },
+    runAt: {
+      type: Date,
+      required: [true, "Run time is required"],
+      default: Date.now,
+    },
+    lastError: {
+      type: String,
+    },
+    leaseOwner: {
+      type: String,
+    },
+    leaseExpiresAt: {
+      type: Date,
+    },
+    result: {
+      type: Schema.Types.Mixed,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// One active job per target; the key is removed when the job finishes
+jobSchema.index({ dedupeKey: 1 }, { unique: true, sparse: true });
+// Indexes for claiming due and expired jobs
+jobSchema.index({ status: 1, runAt: 1 });
+jobSchema.index({ status: 1, leaseExpiresAt: 1 });
+// Dead jobs of a strategy, checked before its next candle is queued
+jobSchema.index({ strategyId: 1, status: 1 });
+
+export const Job = mongoose.model<IJob>("Job", jobSchema);
+
+/**
+ * Idempotency Key Interface
+ *
+ * A client-supplied Idempotency-Key and the response to the request that
+ * first used it, so retries of the same request get the same response
+ * instead of being applied again
+ */
+export interface IIdempotencyKey extends Document {
+  userId: mongoose.Types.ObjectId;
+  key: string; // Idempotency-Key header, unique per user
+  method: string;
+  path: string;
+  requestHash: string; // SHA-256 of the method, path and body
+  status: "IN_PROGRESS" | "COMPLETED";
+  lockedUntil?: Date; // While IN_PROGRESS; a retry may take the key over after this
+
+  // Stored response (set once completed)
+  responseStatus?: number;
+  responseBody?: unknown;
+
+  expiresAt: Date; // Removed by a TTL index
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Idempotency Key Schema
+ */
+const idempotencyKeySchema = new Schema<IIdempotencyKey>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    key: {
+      type: String,
+      required: [true, "Key is required"],
+      maxlength: [255, "Key cannot exceed 255 characters"],
+    },
+    method: {
+      type: String,
+      required: [true, "Method is required"],
+    },
+    path: {
+      type: String,
+      required: [true, "Path is required"],
+    },
+    requestHash: {
+      type: String,
+      required: [true, "Request hash is required"],
+    },
+    status: {
+      type: String,
+      required: [true, "Status is required"],
+      enum: {
+        values: ["IN_PROGRESS", "COMPLETED"],
+        message: "Invalid idempotency key status",
+      },
+      default: "IN_PROGRESS",
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    responseStatus: {
+      type: Number,
+    },
+    responseBody: {
+      type: Schema.Types.Mixed,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, "Expiry is required"],
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// A key can be used once per user
+idempotencyKeySchema.index({ userId: 1, key: 1 }, { unique: true });
+// Keys are kept until they expire
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const IdempotencyKey = mongoose.model<IIdempotencyKey>("IdempotencyKey", idempotencyKeySchema);
+
+/**
+ * Auth Token Interface
+ *
+ * Single-use token emailed to a user to verify their address or reset
+ * their password. Only a SHA-256 hash of the token is stored.
+ */
+export interface IAuthToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: "EMAIL_VERIFICATION" | "PASSWORD_RESET";
+  tokenHash: string;
+  expiresAt: Date; // Removed by a TTL index
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Auth Token Schema
+ */
+const authTokenSchema = new Schema<IAuthToken>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+      index: true,
+    },
+    type: {
+      type: String,
+      required: [true, "Token type is required"],
+      enum: {
+        values: ["EMAIL_VERIFICATION", "PASSWORD_RESET"],
+        message: "Invalid token type",
+      },
+    },
+    tokenHash: {
+      type: String,
+      required: [true, "Token hash is required"],
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, "Expiry is required"],
+    },
+    usedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Tokens are removed once expired
+authTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const AuthToken = mongoose.model<IAuthToken>("AuthToken", authTokenSchema);
+
+/**
+ * Session Interface
+ *
+ * A signed-in device. Holds the hash of its current refresh token and of
+ * the tokens it has rotated out, so a reused old token can be detected.
+ */
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  previousTokenHashes: string[];
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: Date;
+  expiresAt: Date; // Removed by a TTL index
+  revokedAt?: Date;
+  revokedReason?: "LOGOUT" | "LOGOUT_ALL" | "TOKEN_REUSE" | "PASSWORD_RESET";
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Session Schema
+ */
+const sessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: [true, "Token hash is required"],
+      unique: true,
+    },
+    previousTokenHashes: {
+      type: [String],
+      default: [],
+      index: true,
+    },
+    userAgent: {
+      type: String,
+      maxlength: [512, "User agent cannot exceed 512 characters"],
+    },
+    ip: {
+      type: String,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, "Expiry is required"],
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+      enum: {
+        values: ["LOGOUT", "LOGOUT_ALL", "TOKEN_REUSE", "PASSWORD_RESET"],
+        message: "Invalid revocation reason",
+      },
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Sessions are removed once expired (revoked ones are kept until then, to
+// keep detecting reuse of their tokens)
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISession>("Session", sessionSchema);
+
+/**
+ * SIWE Nonce Interface
+ *
+ * Nonce handed out for a Sign-In with Ethereum message. It is consumed when
+ * the signed message is verified, so each signature works once.
+ */
+export interface ISiweNonce extends Document {
+  nonce: string;
+  expiresAt: Date; // Removed by a TTL index
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * SIWE Nonce Schema
+ */
+const siweNonceSchema = new Schema<ISiweNonce>(
+  {
+    nonce: {
+      type: String,
+      required: [true, "Nonce is required"],
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, "Expiry is required"],
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Nonces are removed once expired
+siweNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const SiweNonce = mongoose.model<ISiweNonce>("SiweNonce", siweNonceSchema);
+
+/**
+ * Admin Audit Log Interface
+ *
+ * One document per action taken through the admin API, recording which
+ * admin or support user took it.
+ */
+export interface IAdminAuditLog extends Document {
+  actorId: mongoose.Types.ObjectId;
+  actorEmail?: string;
+  actorRole: "support" | "admin";
+  action: string; // e.g. "withdrawal.approve"
+  targetType?: string;
+  targetId?: string;
+  details?: Record<string, unknown>;
+  ip?: string;
+  createdAt: Date;
+}
+
+/**
+ * Admin Audit Log Schema
+ */
+const adminAuditLogSchema = new Schema<IAdminAuditLog>(
+  {
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Actor ID is required"],
+      index: true,
+    },
+    actorEmail: {
+      type: String,
+    },
+    actorRole: {
+      type: String,
+      required: [true, "Actor role is required"],
+      enum: {
+        values: ["support", "admin"],
+        message: "Invalid actor role",
+      },
+    },
+    action: {
+      type: String,
+      required: [true, "Action is required"],
+    },
+    targetType: {
+      type: String,
+    },
+    targetId: {
+      type: String,
+    },
+    details: {
+      type: Schema.Types.Mixed,
+    },
+    ip: {
+      type: String,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+adminAuditLogSchema.index({ createdAt: -1 });
+adminAuditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+
+export const AdminAuditLog = mongoose.model<IAdminAuditLog>("AdminAuditLog", adminAuditLogSchema);
@@ -4,6 +4,9 @@ import VerifyEmail from "./templates/verify-email";
 import ResetPasswordEmail from "./templates/reset-password";
 import TopUpTreasury from "./templates/top-up-tokens";
 import TradeAnalysisEmail from "./templates/trade-analysis";
+import WithdrawalStatusEmail, {
+  type WithdrawalStatusProps,
+} from "./templates/withdrawal-status";
 import "dotenv/config";
 import logger from "../lib/logger";
 
@@ -114,6 +117,30 @@ export class EmailService {
       throw error;
     }
   }
+  async withdrawalStatusEmail(to: string, withdrawal: WithdrawalStatusProps) {
+    try {
+      const valid = this.validateEmailAddress(to);
+      if (!valid) {
+        throw new Error("Invalid email address");
+      }
+      const withdrawalResult = await sendEmail({
+        to,
+        subject: `Withdrawal of ${withdrawal.amount} WETH: ${withdrawal.status.toLowerCase()}`,
+        react: WithdrawalStatusEmail(withdrawal),
+      });
+      if (!withdrawalResult.success) {
+        throw (
+          withdrawalResult.error ??
+          new Error("Failed to send withdrawal status email")
+        );
+      }
+    } catch (error) {
+      logger.error(
+        `Error sending withdrawal status email to ${to}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
   validateEmailAddress(email: string): boolean {
     if (typeof email !== "string" || !email) return false;
     if (email.trim() === "") return false;
@@ -0,0 +1,67 @@
+import * as React from "react";
+import { Text, Container, Section, Hr } from "@react-email/components";
+import { Layout } from "../components/layout";
+
+export interface WithdrawalStatusProps {
+  status: "REQUESTED" | "APPROVED" | "BROADCAST" | "CONFIRMED" | "FAILED" | "REJECTED";
+  amount: string;
+  toAddress: string;
+  strategyName: string;
+  txHash?: string;
+  reason?: string;
+}
+
+const HEADINGS: Record<WithdrawalStatusProps["status"], string> = {
+  REQUESTED: "Withdrawal requested",
+  APPROVED: "Withdrawal approved",
+  BROADCAST: "Withdrawal sent",
+  CONFIRMED: "Withdrawal confirmed",
+  FAILED: "Withdrawal failed",
+  REJECTED: "Withdrawal rejected",
+};
+
+function summary({ status, amount, toAddress, strategyName }: WithdrawalStatusProps): string {
+  switch (status) {
+    case "REQUESTED":
+      return `Your withdrawal of ${amount} WETH from ${strategyName} is awaiting approval. The amount is held in your treasury until then.`;
+    case "APPROVED":
+      return `Your withdrawal of ${amount} WETH from ${strategyName} has been approved and will be sent to ${toAddress} shortly.`;
+    case "BROADCAST":
+      return `Your withdrawal of ${amount} WETH from ${strategyName} has been sent to ${toAddress} and is awaiting confirmation on chain.`;
+    case "CONFIRMED":
+      return `Your withdrawal of ${amount} WETH from ${strategyName} to ${toAddress} is confirmed on chain.`;
+    case "FAILED":
+      return `Your withdrawal of ${amount} WETH from ${strategyName} could not be completed. The amount has been returned to your treasury.`;
+    case "REJECTED":
+      return `Your withdrawal of ${amount} WETH from ${strategyName} was rejected. The amount has been returned to your treasury.`;
+  }
+}
+
+export default function WithdrawalStatusEmail(props: WithdrawalStatusProps) {
+  const { status, txHash, reason } = props;
+
+  return (
+    <Layout heading={HEADINGS[status]} previewText={HEADINGS[status]}>
+      <Container className="mx-auto max-w-[480px] bg-white rounded-2xl shadow p-8">
+        <Section className="text-center">
+          <Text className="text-gray-800 text-lg leading-6 mb-4">
+            {summary(props)}
+          </Text>
+
+          {reason && (
+            <Text className="text-gray-600 text-sm">Reason: {reason}</Text>
+          )}
+
+          {txHash && (
+            <>
+              <Hr className="my-8 border-gray-200" />
+              <Text className="text-gray-500 text-xs leading-5 break-all">
+                Transaction: {txHash}
+              </Text>
+            </>
+          )}
+        </Section>
+      </Container>
+    </Layout>
+  );
+}
@@ -6,7 +6,12 @@ const envSchema = z.object({
   PORT: z.coerce.number().default(5000),
   MONGODB_URI: z.string().min(1, "MONGODB_URI is required"),
   JWT_SECRET: z.string().min(32, "JWT_SECRET must be at least 32 characters for security"),
-  JWT_EXPIRES_IN: z.string().default("7d"),
+  JWT_EXPIRES_IN: z.string().default("15m"), // Access tokens; sessions last REFRESH_TOKEN_TTL_DAYS
+  REFRESH_TOKEN_TTL_DAYS: z.coerce.number().positive().default(30),
+  TWO_FACTOR_ISSUER: z.string().default("Soros"), // Name shown in authenticator apps
+  TWO_FACTOR_STEP_UP_MINUTES: z.coerce.number().positive().default(5), // How long a 2FA check covers sensitive actions
+  API_URL: z.url().default("http://localhost:5000"), // Public URL of this API (email verification links)
+  APP_URL: z.url().default("http://localhost:8080"), // Frontend URL (password reset links)
   EMAIL_FROM: z.email(),
   EMAIL_SERVER_HOST: z.string().min(1),
   EMAIL_SERVER_PORT: z.coerce.number(),
@@ -14,6 +19,47 @@ const envSchema = z.object({
   EMAIL_SERVER_PASSWORD: z.string().min(1),
   OPENAI_API_KEY: z.string().min(1, "OPENAI_API_KEY is required"),
   GOOGLE_API_KEY: z.string().min(1, "GEMINI_API_KEY is required"),
+  MARKET_DATA_SOURCE: z.enum(["binance", "replay"]).default("binance"),
+  MARKET_DATA_REPLAY_DIR: z.string().default("test/fixtures/market-data"),
+  BINANCE_API_URL: z.url().default("https://api.binance.com/api/v3"),
+  PAPER_SLIPPAGE_BPS: z.coerce.number().min(0).default(5),
+  PAPER_FEE_RATE: z.coerce.number().min(0).max(0.1).default(0.001),
+  ONEINCH_API_URL: z.url().default("https://api.1inch.dev"),
+  ONEINCH_API_KEY: z.string().optional(),
+  ONEINCH_CHAIN_ID: z.coerce.number().int().positive().default(1),
+  ONEINCH_SLIPPAGE_PCT: z.coerce.number().min(0).max(50).default(1),
+  ONEINCH_MAX_RETRIES: z.coerce.number().int().min(0).default(3),
+  EXECUTION_WALLET_ADDRESS: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid wallet address").optional(),
+  EXECUTION_RPC_URL: z.url().optional(),
+  CHAIN_RPC_URL: z.url().optional(),
+  WETH_TOKEN_ADDRESS: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid token address").default("0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"),
+  CHAIN_MIN_CONFIRMATIONS: z.coerce.number().int().min(1).default(12),
+  // Comma-separated treasury contracts deposits may be sent to; deposits are only credited to these
+  TREASURY_CONTRACT_ADDRESSES: z
+    .string()
+    .default("")
+    .transform(value => value.split(",").map(address => address.trim()).filter(Boolean))
+    .pipe(z.array(z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid treasury contract address"))),
+  IDEMPOTENCY_KEY_TTL_HOURS: z.coerce.number().positive().default(24),
+  IDEMPOTENCY_LOCK_SECONDS: z.coerce.number().positive().default(60),
+  WITHDRAWAL_AUTO_APPROVE_MAX: z.string().regex(/^\d+(\.\d+)?$/, "Invalid WETH amount").default("1"),
+  JOB_WORKER_CONCURRENCY: z.coerce.number().int().min(1).default(2),
+  JOB_POLL_INTERVAL_MS: z.coerce.number().int().positive().default(5000),
+  JOB_LEASE_MS: z.coerce.number().int().positive().default(600000),
+  JOB_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(3),
+  JOB_RETRY_BASE_MS: z.coerce.number().int().positive().default(30000),
+  JOB_RETRY_MAX_MS: z.coerce.number().int().positive().default(900000),
+  ANALYSIS_CANDLE_DELAY_MS: z.coerce.number().int().min(0).default(5000),
+  RISK_MAX_POSITION_PCT: z.coerce.number().positive().max(100).default(100),
+  RISK_MAX_OPEN_TRADES_PER_STRATEGY: z.coerce.number().int().min(1).default(1),
+  RISK_MAX_OPEN_TRADES_PER_USER: z.coerce.number().int().min(1).default(10),
+  RISK_DAILY_LOSS_LIMIT_PCT: z.coerce.number().min(0).max(100).default(5),
+  RISK_MIN_REWARD_RATIO: z.coerce.number().min(0).default(1.5),
+  RISK_MIN_STOP_DISTANCE_PCT: z.coerce.number().min(0).max(100).default(0.2),
+  RISK_MAX_STOP_DISTANCE_PCT: z.coerce.number().min(0).max(100).default(10),
+  RISK_MAX_TAKE_PROFIT_DISTANCE_PCT: z.coerce.number().min(0).default(30),
+  RISK_MAX_ENTRY_DEVIATION_PCT: z.coerce.number().min(0).max(100).default(2),
+  RISK_LOSS_COOLDOWN_MINUTES: z.coerce.number().min(0).default(60),
 });
 
 try {
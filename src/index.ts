@@ -1,7 +1,16 @@
 import app from "./app";
 import { env } from "./env";
 import { connectDB, closeDBConnection } from "./db";
-import { startStrategyAnalysisCron, stopAllCronJobs } from "./workers/cron";
+import {
+  startDepositVerificationCron,
+  startLedgerReconciliationCron,
+  startPositionMonitorCron,
+  startStrategyAnalysisCron,
+  startTradeExecutionCron,
+  startWithdrawalSettlementCron,
+  stopAllCronJobs,
+} from "./workers/cron";
+import { startJobWorker, stopJobWorker } from "./workers/job-worker";
 
 const port = env.PORT;
 
@@ -12,6 +21,12 @@ const startServer = async () => {
 
     // Start cron jobs
     // startStrategyAnalysisCron();
+    startTradeExecutionCron();
+    startPositionMonitorCron();
+    startDepositVerificationCron();
+    startWithdrawalSettlementCron();
+    startLedgerReconciliationCron();
+    startJobWorker();
 
     const server = app.listen(port, () => {
 
@@ -33,6 +48,7 @@ const startServer = async () => {
       
       // Stop cron jobs
       stopAllCronJobs();
+      await stopJobWorker();
       
       server.close(async () => {
         console.log("HTTP server closed.");
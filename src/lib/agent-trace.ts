@@ -0,0 +1,119 @@
+/**
+ * Agent Run Trace
+ *
+ * Collects what happened during one pipeline run from the ADK event
+ * stream: when each agent ran, what it answered, and which tools it
+ * called with which arguments. Events are read structurally, so the
+ * collector has no runtime dependency on the ADK.
+ */
+
+/**
+ * Minimal shape of an ADK event
+ */
+export interface TraceEvent {
+  author: string;
+  content?: {
+    parts?: Array<{
+      text?: string;
+      functionCall?: { id?: string; name?: string; args?: Record<string, unknown> };
+      functionResponse?: { id?: string; name?: string; response?: unknown };
+    }>;
+  };
+}
+
+/**
+ * One agent's turn in the pipeline
+ */
+export interface AgentStageTrace {
+  agent: string;
+  output?: string;
+  startedAt: Date;
+  completedAt: Date;
+  durationMs: number;
+}
+
+/**
+ * One tool invocation
+ */
+export interface ToolCallTrace {
+  agent: string;
+  tool: string;
+  args: Record<string, unknown>;
+  response?: unknown;
+  error?: string;
+  calledAt: Date;
+  durationMs?: number;
+}
+
+export class AgentRunTrace {
+  readonly startedAt = new Date();
+  readonly stages: AgentStageTrace[] = [];
+  readonly toolCalls: ToolCallTrace[] = [];
+
+  private readonly pendingCalls = new Map<string, ToolCallTrace>();
+
+  /**
+   * Record an event as it is emitted. A new author closes the previous
+   * stage; its start is the previous stage's end, since the pipeline is
+   * sequential.
+   */
+  record(event: TraceEvent, now: Date = new Date()) {
+    if (!event.author || event.author === "user") {
+      return;
+    }
+
+    let stage = this.stages[this.stages.length - 1];
+    if (!stage || stage.agent !== event.author) {
+      const startedAt = stage?.completedAt ?? this.startedAt;
+      stage = { agent: event.author, startedAt, completedAt: now, durationMs: 0 };
+      this.stages.push(stage);
+    }
+    stage.completedAt = now;
+    stage.durationMs = now.getTime() - stage.startedAt.getTime();
+
+    for (const part of event.content?.parts ?? []) {
+      if (part.text) {
+        stage.output = (stage.output ?? "") + part.text;
+      }
+
+      if (part.functionCall) {
+        const call: ToolCallTrace = {
+          agent: event.author,
+          tool: part.functionCall.name ?? "unknown",
+          args: part.functionCall.args ?? {},
+          calledAt: now,
+        };
+        this.toolCalls.push(call);
+        this.pendingCalls.set(part.functionCall.id ?? call.tool, call);
+      }
+
+      if (part.functionResponse) {
+        const key = part.functionResponse.id ?? part.functionResponse.name ?? "unknown";
+        const call = this.pendingCalls.get(key);
+        if (call) {
+          const response = part.functionResponse.response;
+          call.response = response;
+          call.durationMs = now.getTime() - call.calledAt.getTime();
+          const error = (response as { error?: unknown } | undefined)?.error;
+          if (error) {
+            call.error = String(error);
+          }
+          this.pendingCalls.delete(key);
+        }
+      }
+    }
+  }
+
+  /**
+   * Replace stage outputs with the values the agents stored in session
+   * state (the structured output, rather than streamed text)
+   */
+  setStageOutputs(outputs: Record<string, string | undefined>) {
+    for (const stage of this.stages) {
+      const output = outputs[stage.agent];
+      if (output !== undefined) {
+        stage.output = output;
+      }
+    }
+  }
+}
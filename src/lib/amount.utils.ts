@@ -0,0 +1,113 @@
+/**
+ * WETH Amount Utilities
+ *
+ * Treasury, transaction, trade and journal amounts are stored as Decimal128
+ * and read as decimal strings ("1000.25"). Arithmetic on them is done in
+ * wei (bigint, 18 decimals) so repeated debits and credits cannot pick up
+ * float error. Numbers are only used where the result is an estimate
+ * anyway (risk percentages, price-based PnL).
+ *
+ * A bigint is always a wei amount; numbers, strings and Decimal128 values
+ * are WETH.
+ */
+
+import mongoose from "mongoose";
+
+export const WETH_DECIMALS = 18;
+
+const WEI_PER_WETH = 10n ** BigInt(WETH_DECIMALS);
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+// Largest power of ten an amount is scaled by; uint256 wei amounts have at most 78 digits
+const MAX_WEI_DIGITS = 78;
+
+/**
+ * A WETH amount in any of the forms the codebase handles
+ */
+export type AmountValue = bigint | number | string | mongoose.Types.Decimal128;
+
+/**
+ * Convert an amount to wei
+ *
+ * Digits beyond 18 decimals are rounded half away from zero.
+ *
+ * @throws If the value is not a finite decimal, or its exponent is out of range
+ */
+export function toWei(value: AmountValue): bigint {
+  if (typeof value === "bigint") {
+    return value;
+  }
+
+  const text = String(value).trim();
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid amount: ${text}`);
+  }
+
+  const [, sign, integer = "", fraction = "", exponent = "0"] = match;
+  const digits = BigInt(`${integer}${fraction}` || "0");
+  const shift = WETH_DECIMALS - fraction.length + Number(exponent);
+  // A huge exponent ("1e300000000") would block the event loop building the bigint
+  if (shift > MAX_WEI_DIGITS) {
+    throw new Error(`Amount out of range: ${text}`);
+  }
+
+  let wei: bigint;
+  if (shift >= 0) {
+    wei = digits * 10n ** BigInt(shift);
+  } else {
+    // Dividing by more than the digits rounds to zero either way
+    const divisor = 10n ** BigInt(Math.min(-shift, integer.length + fraction.length + 1));
+    wei = digits / divisor + ((digits % divisor) * 2n >= divisor ? 1n : 0n);
+  }
+
+  return sign === "-" ? -wei : wei;
+}
+
+/**
+ * Decimal WETH string for a wei amount, without trailing zeros
+ */
+export function fromWei(wei: bigint): string {
+  const negative = wei < 0n;
+  const magnitude = negative ? -wei : wei;
+  const fraction = (magnitude % WEI_PER_WETH).toString().padStart(WETH_DECIMALS, "0").replace(/0+$/, "");
+
+  return `${negative ? "-" : ""}${magnitude / WEI_PER_WETH}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Normalized decimal WETH string ("1000.5")
+ */
+export function toAmountString(value: AmountValue): string {
+  return fromWei(toWei(value));
+}
+
+/**
+ * Amount as a JS number, for estimates and ratios only
+ */
+export function toAmountNumber(value: AmountValue): number {
+  return Number(toAmountString(value));
+}
+
+/**
+ * Amount as a Decimal128 for storage
+ */
+export function toDecimal128(value: AmountValue): mongoose.Types.Decimal128 {
+  return mongoose.Types.Decimal128.fromString(toAmountString(value));
+}
+
+/**
+ * Whether a value parses as a WETH amount
+ */
+export function isAmount(value: unknown): value is AmountValue {
+  if (!["bigint", "number", "string"].includes(typeof value) && !(value instanceof mongoose.Types.Decimal128)) {
+    return false;
+  }
+  try {
+    toWei(value as AmountValue);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,20 +1,36 @@
+import { createHash, randomBytes } from "node:crypto";
 import jwt from "jsonwebtoken";
+import { recoverMessageAddress } from "viem";
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from "viem/siwe";
 import { z } from "zod";
 import { env } from "../env";
-import { User, IUser } from "../db/schema";
+import { AuthToken, Session, SiweNonce, User, IAuthToken, ISession, IUser } from "../db/schema";
+import { emailService } from "../emails/email.util";
+import { TwoFactorService } from "./two-factor.service";
 import logger from "./logger";
 
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // Matches the reset email's copy
+const SIWE_NONCE_TTL_MS = 10 * 60 * 1000;
+const TWO_FACTOR_CHALLENGE_TTL = "5m";
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
 /**
  * Validation Schemas
  */
+const passwordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .regex(/[A-Z]/, "Password must contain at least one uppercase letter")
+  .regex(/[a-z]/, "Password must contain at least one lowercase letter")
+  .regex(/[0-9]/, "Password must contain at least one number");
+
 export const signupSchema = z.object({
   email: z.email("Invalid email address"),
-  password: z
-    .string()
-    .min(8, "Password must be at least 8 characters")
-    .regex(/[A-Z]/, "Password must contain at least one uppercase letter")
-    .regex(/[a-z]/, "Password must contain at least one lowercase letter")
-    .regex(/[0-9]/, "Password must contain at least one number"),
+  password: passwordSchema,
   firstName: z
     .string()
     .min(2, "First name must be at least 2 characters")
@@ -30,8 +46,36 @@ export const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+export const forgotPasswordSchema = z.object({
+  email: z.email("Invalid email address"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  password: passwordSchema,
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Code is required").max(20, "Invalid two-factor code"),
+});
+
+export const twoFactorLoginSchema = twoFactorCodeSchema.extend({
+  challengeToken: z.string().min(1, "Challenge token is required"),
+});
+
+export const siweVerifySchema = z.object({
+  message: z.string().min(1, "Message is required").max(4096, "Message is too long"),
+  signature: z.string().regex(/^0x[a-fA-F0-9]{130}$/, "Invalid signature"),
+  email: z.email("Invalid email address").optional(), // Only used when creating a user
+});
+
 export type SignupInput = z.infer<typeof signupSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
+export type SiweVerifyInput = z.infer<typeof siweVerifySchema>;
 
 /**
  * JWT Token Payload
@@ -39,44 +83,267 @@ export type LoginInput = z.infer<typeof loginSchema>;
 export interface TokenPayload {
   userId: string;
   email: string;
+  sessionId?: string;
+  twoFactorAt?: number; // When the user last passed a 2FA check (seconds since epoch)
   iat?: number;
   exp?: number;
 }
 
+/**
+ * Payload of the token that stands in for a password login until its 2FA
+ * code is checked
+ */
+interface TwoFactorChallengePayload {
+  userId: string;
+  purpose: "2fa_challenge";
+}
+
+/**
+ * Device details recorded on a session
+ */
+export interface SessionMetadata {
+  userAgent?: string;
+  ip?: string;
+}
+
+/**
+ * Access token plus the refresh token that renews it
+ */
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
+/**
+ * Outcome of checking a user's credentials: a session, or a challenge to
+ * complete with a 2FA code when the user has 2FA enabled
+ */
+export type SignInResult =
+  | ({ twoFactorRequired: false } & AuthTokens)
+  | { twoFactorRequired: true; challengeToken: string };
+
 /**
  * Authentication Service
  */
 export class AuthService {
   /**
    * Generate JWT access token
+   *
+   * @param sessionId - Session the token belongs to; it stops working once
+   *   the session is revoked
+   * @param twoFactorAt - When the user passed a 2FA check, for actions
+   *   that require a recent one
    */
-  static generateToken(user: IUser): string {
+  static generateToken(user: IUser, sessionId?: string, twoFactorAt?: Date): string {
     const payload: TokenPayload = {
       userId: user._id.toString(),
       email: user.email,
+      ...(sessionId && { sessionId }),
+      ...(twoFactorAt && { twoFactorAt: Math.floor(twoFactorAt.getTime() / 1000) }),
     };
 
     return jwt.sign(payload, env.JWT_SECRET, {
-      expiresIn: env.JWT_EXPIRES_IN || "7d",
+      expiresIn: env.JWT_EXPIRES_IN || "15m",
+    });
+  }
+
+  /**
+   * Start a session for a user
+   *
+   * @param twoFactorAt - When the user passed 2FA to sign in
+   * @returns An access token and the session's first refresh token
+   */
+  static async createSession(user: IUser, meta: SessionMetadata = {}, twoFactorAt?: Date): Promise<AuthTokens> {
+    const refreshToken = randomBytes(48).toString("hex");
+    const session = await Session.create({
+      userId: user._id,
+      tokenHash: hashToken(refreshToken),
+      userAgent: meta.userAgent?.slice(0, 512),
+      ip: meta.ip,
+      expiresAt: new Date(Date.now() + env.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
     });
+
+    return {
+      token: this.generateToken(user, session._id.toString(), twoFactorAt),
+      refreshToken,
+    };
+  }
+
+  /**
+   * Start a session for a user whose credentials were checked, or
+   * challenge them for a 2FA code first
+   */
+  private static async startSignIn(user: IUser, meta: SessionMetadata): Promise<SignInResult> {
+    if (user.twoFactorEnabled) {
+      const payload: TwoFactorChallengePayload = { userId: user._id.toString(), purpose: "2fa_challenge" };
+      const challengeToken = jwt.sign(payload, env.JWT_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_TTL });
+      return { twoFactorRequired: true, challengeToken };
+    }
+
+    user.lastLogin = new Date();
+    await user.save();
+
+    const tokens = await this.createSession(user, meta);
+    return { twoFactorRequired: false, ...tokens };
+  }
+
+  /**
+   * Finish a sign-in that was challenged for a 2FA code
+   */
+  static async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    meta: SessionMetadata = {},
+  ): Promise<{ user: IUser } & AuthTokens> {
+    let payload: TwoFactorChallengePayload;
+    try {
+      payload = jwt.verify(challengeToken, env.JWT_SECRET) as TwoFactorChallengePayload;
+    } catch {
+      throw new Error("Invalid or expired challenge");
+    }
+    if (payload.purpose !== "2fa_challenge") {
+      throw new Error("Invalid or expired challenge");
+    }
+
+    const user = await this.validateUser(payload.userId);
+    await TwoFactorService.verifyCode(payload.userId, code);
+
+    user.lastLogin = new Date();
+    await user.save();
+
+    logger.info({ userId: user._id }, "User logged in with two-factor authentication");
+
+    const tokens = await this.createSession(user, meta, new Date());
+    return { user, ...tokens };
+  }
+
+  /**
+   * Check a 2FA code for a signed-in user
+   *
+   * @returns An access token for the same session that covers actions
+   *   requiring a recent 2FA check
+   */
+  static async stepUpTwoFactor(userId: string, sessionId: string | undefined, code: string): Promise<string> {
+    const user = await this.validateUser(userId);
+    await TwoFactorService.verifyCode(userId, code);
+
+    return this.generateToken(user, sessionId, new Date());
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   *
+   * Each refresh token works once. Presenting one that was already rotated
+   * out means it was copied, so the session is revoked.
+   */
+  static async refreshSession(refreshToken: string, meta: SessionMetadata = {}): Promise<AuthTokens> {
+    const tokenHash = hashToken(refreshToken);
+    const next = randomBytes(48).toString("hex");
+
+    const session = await Session.findOneAndUpdate(
+      { tokenHash, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+      {
+        $set: {
+          tokenHash: hashToken(next),
+          lastUsedAt: new Date(),
+          ...(meta.userAgent && { userAgent: meta.userAgent.slice(0, 512) }),
+          ...(meta.ip && { ip: meta.ip }),
+        },
+        $push: { previousTokenHashes: tokenHash },
+      },
+      { new: true },
+    );
+
+    if (!session) {
+      const reused = await Session.findOneAndUpdate(
+        { previousTokenHashes: tokenHash, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date(), revokedReason: "TOKEN_REUSE" } },
+      );
+      if (reused) {
+        logger.warn({ sessionId: reused._id, userId: reused.userId }, "Refresh token reuse detected, session revoked");
+        throw new Error("Refresh token reuse detected");
+      }
+      throw new Error("Invalid refresh token");
+    }
+
+    const user = await this.validateUser(session.userId.toString());
+
+    return {
+      token: this.generateToken(user, session._id.toString()),
+      refreshToken: next,
+    };
+  }
+
+  /**
+   * Check an access token's session has not been revoked
+   */
+  static async validateSession(sessionId: string): Promise<void> {
+    const session = await Session.findById(sessionId).select("revokedAt expiresAt");
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new Error("Session has been revoked");
+    }
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   */
+  static async revokeSession(userId: string, sessionId: string): Promise<void> {
+    await Session.updateOne(
+      { _id: sessionId, userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: "LOGOUT" } },
+    );
+  }
+
+  /**
+   * Revoke all of a user's sessions
+   *
+   * @returns Number of sessions revoked
+   */
+  static async revokeAllSessions(
+    userId: IUser["_id"] | string,
+    reason: "LOGOUT_ALL" | "PASSWORD_RESET" = "LOGOUT_ALL",
+  ): Promise<number> {
+    const result = await Session.updateMany(
+      { userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } },
+    );
+
+    logger.info({ userId, reason, revoked: result.modifiedCount }, "Sessions revoked");
+    return result.modifiedCount;
+  }
+
+  /**
+   * A user's active sessions, most recently used first
+   */
+  static async listSessions(userId: string): Promise<ISession[]> {
+    return Session.find({ userId, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } })
+      .sort({ lastUsedAt: -1 });
   }
 
   /**
    * Verify JWT token
    */
   static verifyToken(token: string): TokenPayload {
+    let payload: TokenPayload & { purpose?: string };
     try {
-      return jwt.verify(token, env.JWT_SECRET) as TokenPayload;
+      payload = jwt.verify(token, env.JWT_SECRET) as TokenPayload & { purpose?: string };
     } catch (error) {
       logger.error({ error }, "Token verification failed");
       throw new Error("Invalid or expired token");
     }
+
+    // 2FA challenge tokens are signed with the same secret but are not access tokens
+    if (payload.purpose) {
+      throw new Error("Invalid or expired token");
+    }
+    return payload;
   }
 
   /**
    * Register a new user
    */
-  static async signup(data: SignupInput): Promise<{ user: IUser; token: string }> {
+  static async signup(data: SignupInput, meta: SessionMetadata = {}): Promise<{ user: IUser } & AuthTokens> {
     try {
       // Validate input
       const validatedData = signupSchema.parse(data);
@@ -99,14 +366,18 @@ export class AuthService {
 
       logger.info({ userId: user._id, email: user.email }, "New user registered");
 
-      // Generate token
-      const token = this.generateToken(user);
+      // A failed email does not fail the signup; the user can ask for another
+      await this.sendVerificationEmail(user).catch(error =>
+        logger.error({ error, userId: user._id }, "Failed to send verification email"));
+
+      // Start a session
+      const tokens = await this.createSession(user, meta);
 
       // Remove password from response
       const userObject = user.toObject();
       delete userObject.password;
 
-      return { user: userObject as IUser, token };
+      return { user: userObject as IUser, ...tokens };
     } catch (error) {
       logger.error({ error }, "Signup failed");
       throw error;
@@ -115,8 +386,9 @@ export class AuthService {
 
   /**
    * Login user
+   * Users with 2FA enabled get a challenge instead of a session.
    */
-  static async login(data: LoginInput): Promise<{ user: IUser; token: string }> {
+  static async login(data: LoginInput, meta: SessionMetadata = {}): Promise<{ user: IUser } & SignInResult> {
     try {
       // Validate input
       const validatedData = loginSchema.parse(data);
@@ -139,20 +411,16 @@ export class AuthService {
         throw new Error("Account is deactivated");
       }
 
-      // Update last login
-      user.lastLogin = new Date();
-      await user.save();
-
-      logger.info({ userId: user._id, email: user.email }, "User logged in");
+      // Start a session (updates last login), or ask for a 2FA code
+      const result = await this.startSignIn(user, meta);
 
-      // Generate token
-      const token = this.generateToken(user);
+      logger.info({ userId: user._id, email: user.email, twoFactorRequired: result.twoFactorRequired }, "User logged in");
 
       // Remove password from response
       const userObject = user.toObject();
       delete userObject.password;
 
-      return { user: userObject as IUser, token };
+      return { user: userObject as IUser, ...result };
     } catch (error) {
       logger.error({ error }, "Login failed");
       throw error;
@@ -188,4 +456,278 @@ export class AuthService {
 
     return user;
   }
+
+  /**
+   * Create a single-use token for a user
+   * Earlier unused tokens of the same type stop working.
+   *
+   * @returns The raw token (only its hash is stored)
+   */
+  private static async issueToken(
+    userId: IUser["_id"],
+    type: IAuthToken["type"],
+    ttlMs: number,
+  ): Promise<string> {
+    await AuthToken.deleteMany({ userId, type, usedAt: { $exists: false } });
+
+    const token = randomBytes(32).toString("hex");
+    await AuthToken.create({
+      userId,
+      type,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + ttlMs),
+    });
+    return token;
+  }
+
+  /**
+   * Mark a token as used
+   *
+   * @returns The token's user ID
+   */
+  private static async consumeToken(token: string, type: IAuthToken["type"]) {
+    const consumed = await AuthToken.findOneAndUpdate(
+      {
+        tokenHash: hashToken(token),
+        type,
+        usedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      },
+      { $set: { usedAt: new Date() } },
+      { new: true },
+    );
+
+    if (!consumed) {
+      throw new Error("Invalid or expired token");
+    }
+    return consumed.userId;
+  }
+
+  /**
+   * Email the user a link to verify their address
+   */
+  static async sendVerificationEmail(user: IUser): Promise<void> {
+    const email = user.pendingEmail ?? user.email;
+    if (!email) {
+      throw new Error("No email address on account");
+    }
+    if (user.isEmailVerified && !user.pendingEmail) {
+      throw new Error("Email address is already verified");
+    }
+
+    const token = await this.issueToken(user._id, "EMAIL_VERIFICATION", EMAIL_VERIFICATION_TTL_MS);
+    const url = `${env.API_URL}/api/v1/auth/verify-email?token=${token}`;
+    await emailService.verificationEmail(url, email);
+
+    logger.info({ userId: user._id }, "Verification email sent");
+  }
+
+  /**
+   * Verify a user's email address with the token from their email
+   */
+  static async verifyEmail(token: string): Promise<IUser> {
+    const userId = await this.consumeToken(token, "EMAIL_VERIFICATION");
+
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error("Invalid or expired token");
+    }
+
+    // A wallet user's email only becomes theirs once they prove they own it
+    if (user.pendingEmail) {
+      user.email = user.pendingEmail;
+      user.pendingEmail = undefined;
+    }
+    user.isEmailVerified = true;
+    try {
+      await user.save();
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new Error("User with this email already exists");
+      }
+      throw error;
+    }
+
+    logger.info({ userId: user._id }, "Email address verified");
+    return user;
+  }
+
+  /**
+   * Email a password reset link
+   * Does nothing for unknown or deactivated accounts, so callers cannot
+   * tell which emails are registered.
+   */
+  static async forgotPassword(email: string): Promise<void> {
+    const user = await User.findOne({ email: email.toLowerCase() });
+    if (!user || !user.isActive) {
+      logger.info({ email }, "Password reset requested for unknown account");
+      return;
+    }
+
+    const token = await this.issueToken(user._id, "PASSWORD_RESET", PASSWORD_RESET_TTL_MS);
+    const url = `${env.APP_URL}/reset-password?token=${token}`;
+    await emailService.resetPasswordEmail(url, user.email);
+
+    logger.info({ userId: user._id }, "Password reset email sent");
+  }
+
+  /**
+   * Set a new password with the token from a reset email
+   * The reset also proves the user owns the address, so it is verified.
+   * Wallets linked while it was unverified were not linked by its owner
+   * and are unlinked. Every session is signed out.
+   */
+  static async resetPassword(token: string, password: string): Promise<void> {
+    const userId = await this.consumeToken(token, "PASSWORD_RESET");
+
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error("Invalid or expired token");
+    }
+
+    if (!user.isEmailVerified && user.walletAddresses.length) {
+      logger.warn({ userId: user._id, addresses: user.walletAddresses }, "Unlinking wallets linked before the email was verified");
+      user.walletAddresses = [];
+    }
+
+    user.password = password;
+    user.isEmailVerified = true;
+    await user.save();
+    await this.revokeAllSessions(user._id, "PASSWORD_RESET");
+
+    logger.info({ userId: user._id }, "Password reset");
+  }
+
+  /**
+   * Hand out a nonce for a Sign-In with Ethereum message
+   */
+  static async createSiweNonce(): Promise<string> {
+    const nonce = generateSiweNonce();
+    await SiweNonce.create({ nonce, expiresAt: new Date(Date.now() + SIWE_NONCE_TTL_MS) });
+    return nonce;
+  }
+
+  /**
+   * Check a signed EIP-4361 message and consume its nonce
+   *
+   * The message must be for this app's domain (the host of APP_URL), be
+   * within its validity window and carry a nonce from `createSiweNonce`.
+   * The signer is recovered locally, so only EOA wallets are supported.
+   *
+   * @returns The signer's address, lowercase
+   */
+  static async verifySiweMessage(message: string, signature: string): Promise<string> {
+    const fields = parseSiweMessage(message);
+    if (!validateSiweMessage({ message: fields, domain: new URL(env.APP_URL).host })) {
+      throw new Error("Invalid SIWE message");
+    }
+
+    let signer: string;
+    try {
+      signer = await recoverMessageAddress({ message, signature: signature as `0x${string}` });
+    } catch {
+      throw new Error("Invalid signature");
+    }
+    if (signer.toLowerCase() !== fields.address!.toLowerCase()) {
+      throw new Error("Invalid signature");
+    }
+
+    const consumed = await SiweNonce.findOneAndDelete({ nonce: fields.nonce, expiresAt: { $gt: new Date() } });
+    if (!consumed) {
+      throw new Error("Invalid or expired nonce");
+    }
+
+    return signer.toLowerCase();
+  }
+
+  /**
+   * Sign in with a wallet, creating a user for wallets not linked yet
+   *
+   * A new user can give an email address, which is sent a verification
+   * link and only set as the user's email once verified; addresses that
+   * belong to an account must be linked from it.
+   * Users with 2FA enabled get a challenge instead of a session.
+   */
+  static async signInWithEthereum(
+    data: SiweVerifyInput,
+    meta: SessionMetadata = {},
+  ): Promise<{ user: IUser; created: boolean } & SignInResult> {
+    const address = await this.verifySiweMessage(data.message, data.signature);
+
+    let user = await User.findOne({ walletAddresses: address });
+    const created = !user;
+
+    if (!user) {
+      if (data.email && await User.exists({ email: data.email.toLowerCase() })) {
+        throw new Error("User with this email already exists");
+      }
+
+      user = await User.create({ walletAddresses: [address], pendingEmail: data.email });
+      logger.info({ userId: user._id, address }, "New user registered with wallet");
+
+      if (user.pendingEmail) {
+        await this.sendVerificationEmail(user).catch(error =>
+          logger.error({ error, userId: user!._id }, "Failed to send verification email"));
+      }
+    } else if (!user.isActive) {
+      throw new Error("Account is deactivated");
+    }
+
+    const result = await this.startSignIn(user, meta);
+    return { user, created, ...result };
+  }
+
+  /**
+   * Link the wallet that signed a SIWE message to a user
+   */
+  static async linkWallet(userId: string, message: string, signature: string): Promise<IUser> {
+    const address = await this.verifySiweMessage(message, signature);
+
+    const owner = await User.findOne({ walletAddresses: address }).select("_id");
+    if (owner && owner._id.toString() !== userId) {
+      throw new Error("Wallet is already linked to another account");
+    }
+
+    let user: IUser | null;
+    try {
+      user = await User.findByIdAndUpdate(
+        userId,
+        { $addToSet: { walletAddresses: address } },
+        { new: true },
+      );
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new Error("Wallet is already linked to another account");
+      }
+      throw error;
+    }
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    logger.info({ userId, address }, "Wallet linked");
+    return user;
+  }
+
+  /**
+   * Change a user's role
+   *
+   * @returns The user with the role before the change
+   */
+  static async setUserRole(
+    userId: string,
+    role: IUser["role"],
+  ): Promise<{ user: IUser; previousRole: IUser["role"] }> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const previousRole = user.role;
+    user.role = role;
+    await user.save();
+
+    logger.info({ userId, previousRole, role }, "User role changed");
+    return { user, previousRole };
+  }
 }
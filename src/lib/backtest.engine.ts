@@ -0,0 +1,225 @@
+/**
+ * Backtest Engine
+ *
+ * Pure, deterministic fill simulation. Given candles and the signal
+ * produced at each bar's close, it walks the series bar by bar:
+ *
+ * 1. Orders decided at the previous close fill at this bar's open
+ * 2. Stop loss / take profit are checked against the bar's range
+ *    (stop loss wins when both are touched in the same bar)
+ * 3. This bar's signal is queued for the next open
+ * 4. Equity is marked to market at the close
+ *
+ * Long only: BUY opens a position when flat, SELL closes it.
+ */
+
+import type { Candle } from "../tools/types/common.types";
+import { INTERVAL_MS } from "../tools/types/market-data.types";
+import type {
+  BacktestConfig,
+  BacktestMetrics,
+  BacktestResult,
+  BacktestSignal,
+  BacktestTrade,
+  EquityPoint,
+} from "../types/backtest.types";
+
+const YEAR_MS = 365 * 24 * 60 * 60_000;
+
+interface OpenPosition {
+  entryTime: number;
+  entryPrice: number;
+  quantity: number;
+  cost: number; // Notional plus entry fee
+  entryFee: number;
+}
+
+/**
+ * Replay a signal series over candles and report the results
+ * @param candles - Candles in ascending timestamp order
+ * @param signals - Signal decided at the close of each candle (same length as candles)
+ * @param config - Capital, fees, slippage and exit settings
+ * @param interval - Candle interval, used to annualize the Sharpe ratio
+ */
+export function runBacktest(
+  candles: Candle[],
+  signals: BacktestSignal[],
+  config: BacktestConfig,
+  interval: string,
+): BacktestResult {
+  if (candles.length !== signals.length) {
+    throw new Error("Signals must line up with candles");
+  }
+
+  const slippage = config.slippageBps / 10_000;
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+
+  let cash = config.initialCapital;
+  let position: OpenPosition | null = null;
+  let pending: BacktestSignal = "HOLD";
+
+  const closePosition = (
+    open: OpenPosition,
+    rawPrice: number,
+    timestamp: number,
+    exitReason: BacktestTrade["exitReason"],
+  ) => {
+    const exitPrice = rawPrice * (1 - slippage);
+    const proceeds = open.quantity * exitPrice;
+    const exitFee = proceeds * config.feeRate;
+    cash += proceeds - exitFee;
+
+    const pnl = proceeds - exitFee - open.cost;
+    trades.push({
+      side: "LONG",
+      entryTime: open.entryTime,
+      entryPrice: open.entryPrice,
+      exitTime: timestamp,
+      exitPrice,
+      quantity: open.quantity,
+      fees: open.entryFee + exitFee,
+      pnl,
+      returnPct: (pnl / open.cost) * 100,
+      exitReason,
+    });
+  };
+
+  for (let i = 0; i < candles.length; i++) {
+    const bar = candles[i];
+
+    // 1. Fill the order queued at the previous close
+    if (pending === "BUY" && !position && cash > 0) {
+      const entryPrice = bar.open * (1 + slippage);
+      const quantity = cash / (entryPrice * (1 + config.feeRate));
+      const entryFee = quantity * entryPrice * config.feeRate;
+      const cost = quantity * entryPrice + entryFee;
+      cash -= cost;
+      position = { entryTime: bar.timestamp, entryPrice, quantity, cost, entryFee };
+    } else if (pending === "SELL" && position) {
+      closePosition(position, bar.open, bar.timestamp, "SIGNAL");
+      position = null;
+    }
+    pending = "HOLD";
+
+    // 2. Intrabar exits; a gap through the level fills at the open
+    if (position) {
+      const stopPrice = config.stopLossPct !== undefined
+        ? position.entryPrice * (1 - config.stopLossPct / 100)
+        : undefined;
+      const targetPrice = config.takeProfitPct !== undefined
+        ? position.entryPrice * (1 + config.takeProfitPct / 100)
+        : undefined;
+
+      if (stopPrice !== undefined && bar.low <= stopPrice) {
+        closePosition(position, Math.min(bar.open, stopPrice), bar.timestamp, "STOP_LOSS");
+        position = null;
+      } else if (targetPrice !== undefined && bar.high >= targetPrice) {
+        closePosition(position, Math.max(bar.open, targetPrice), bar.timestamp, "TAKE_PROFIT");
+        position = null;
+      }
+    }
+
+    // 3. Queue this bar's decision for the next open
+    const signal = signals[i];
+    if ((signal === "BUY" && !position) || (signal === "SELL" && position)) {
+      pending = signal;
+    }
+
+    // 4. Mark to market
+    equityCurve.push({
+      timestamp: bar.timestamp,
+      equity: cash + (position ? position.quantity * bar.close : 0),
+    });
+  }
+
+  // Flatten whatever is still open at the final close
+  if (position && candles.length > 0) {
+    const last = candles[candles.length - 1];
+    closePosition(position, last.close, last.timestamp, "END_OF_DATA");
+    position = null;
+    equityCurve[equityCurve.length - 1].equity = cash;
+  }
+
+  return {
+    metrics: calculateMetrics(config.initialCapital, trades, equityCurve, interval),
+    trades,
+    equityCurve,
+  };
+}
+
+/**
+ * Summarize a run from its trades and equity curve
+ */
+export function calculateMetrics(
+  initialCapital: number,
+  trades: BacktestTrade[],
+  equityCurve: EquityPoint[],
+  interval: string,
+): BacktestMetrics {
+  const finalEquity = equityCurve.length > 0
+    ? equityCurve[equityCurve.length - 1].equity
+    : initialCapital;
+
+  const winningTrades = trades.filter(t => t.pnl > 0);
+  const losingTrades = trades.filter(t => t.pnl <= 0);
+  const grossProfit = winningTrades.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = Math.abs(losingTrades.reduce((sum, t) => sum + t.pnl, 0));
+
+  return {
+    initialCapital,
+    finalEquity,
+    totalReturn: initialCapital > 0 ? ((finalEquity - initialCapital) / initialCapital) * 100 : 0,
+    totalTrades: trades.length,
+    winningTrades: winningTrades.length,
+    losingTrades: losingTrades.length,
+    winRate: trades.length > 0 ? (winningTrades.length / trades.length) * 100 : 0,
+    maxDrawdown: calculateMaxDrawdown(equityCurve),
+    sharpeRatio: calculateSharpeRatio(equityCurve, interval),
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    totalFees: trades.reduce((sum, t) => sum + t.fees, 0),
+  };
+}
+
+/**
+ * Largest peak-to-trough decline of the equity curve, in percent
+ */
+export function calculateMaxDrawdown(equityCurve: EquityPoint[]): number {
+  let peak = Number.NEGATIVE_INFINITY;
+  let maxDrawdown = 0;
+
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.equity);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, ((peak - point.equity) / peak) * 100);
+    }
+  }
+
+  return maxDrawdown;
+}
+
+/**
+ * Annualized Sharpe ratio of per-bar returns (risk-free rate of zero)
+ */
+export function calculateSharpeRatio(equityCurve: EquityPoint[], interval: string): number {
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const previous = equityCurve[i - 1].equity;
+    if (previous > 0) {
+      returns.push(equityCurve[i].equity / previous - 1);
+    }
+  }
+  if (returns.length < 2) {
+    return 0;
+  }
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  const stdDev = Math.sqrt(variance);
+  if (stdDev === 0) {
+    return 0;
+  }
+
+  const periodsPerYear = YEAR_MS / (INTERVAL_MS[interval] ?? INTERVAL_MS["1d"]);
+  return (mean / stdDev) * Math.sqrt(periodsPerYear);
+}
@@ -0,0 +1,182 @@
+/**
+ * Double-Entry Ledger Engine
+ *
+ * Turns each treasury movement into balanced postings between ledger
+ * accounts, and derives the treasury's cached balances from them:
+ *
+ * | Movement         | Debit                    | Credit               |
+ * |------------------|--------------------------|----------------------|
+ * | DEPOSIT          | STRATEGY_AVAILABLE       | USER_WALLET          |
+ * | WITHDRAW         | USER_WALLET              | STRATEGY_AVAILABLE   |
+ * | WITHDRAW_HOLD    | STRATEGY_LOCKED          | STRATEGY_AVAILABLE   |
+ * | WITHDRAW_RELEASE | STRATEGY_AVAILABLE       | STRATEGY_LOCKED      |
+ * | TRADE_OPEN       | STRATEGY_LOCKED          | STRATEGY_AVAILABLE   |
+ * | TRADE_CLOSE      | STRATEGY_AVAILABLE       | STRATEGY_LOCKED      |
+ * | PROFIT           | STRATEGY_AVAILABLE, FEES | PNL                  |
+ * | LOSS             | PNL, FEES                | STRATEGY_AVAILABLE   |
+ * | REFUND           | STRATEGY_AVAILABLE       | ADJUSTMENTS          |
+ * | ADJUSTMENT       | STRATEGY_AVAILABLE       | ADJUSTMENTS (signed) |
+ *
+ * A withdrawal is held in STRATEGY_LOCKED while it awaits approval and
+ * settlement; settling releases the hold and posts the WITHDRAW.
+ *
+ * PROFIT / LOSS amounts are net of fees; when the fees are known the PnL
+ * account carries the gross result and the fees are posted separately.
+ * Postings and totals are in wei so they balance exactly.
+ *
+ * Kept free of schema imports so the JournalEntry model can use it.
+ */
+
+import {
+  LEDGER_ACCOUNTS,
+  type AccountBalances,
+  type LedgerAccount,
+  type Posting,
+  type TreasuryTotals,
+} from "../types/ledger.types";
+import type { LedgerEntry } from "../types/reconciliation.types";
+import { fromWei, toWei, type AmountValue } from "./amount.utils";
+
+type MovementType = LedgerEntry["type"];
+
+function abs(wei: bigint): bigint {
+  return wei < 0n ? -wei : wei;
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+/**
+ * Net amount of the postings to one account
+ */
+function postedTo(postings: Posting[], account: LedgerAccount): bigint {
+  return postings.filter(p => p.account === account).reduce((sum, p) => sum + p.amount, 0n);
+}
+
+/**
+ * Postings for a treasury movement
+ *
+ * @param type - Movement type
+ * @param amount - Movement amount (sign is ignored except for ADJUSTMENT)
+ * @param fees - Fees included in a PROFIT / LOSS amount
+ * @returns Balanced postings in wei, without zero amounts
+ */
+export function postingsFor(type: MovementType, amount: AmountValue, fees: AmountValue = 0n): Posting[] {
+  const signed = toWei(amount);
+  const size = abs(signed);
+  const fee = abs(toWei(fees));
+  let postings: Posting[];
+
+  switch (type) {
+    case "DEPOSIT":
+      postings = [
+        { account: "STRATEGY_AVAILABLE", amount: size },
+        { account: "USER_WALLET", amount: -size },
+      ];
+      break;
+    case "WITHDRAW":
+      postings = [
+        { account: "USER_WALLET", amount: size },
+        { account: "STRATEGY_AVAILABLE", amount: -size },
+      ];
+      break;
+    case "WITHDRAW_HOLD":
+    case "TRADE_OPEN":
+      postings = [
+        { account: "STRATEGY_LOCKED", amount: size },
+        { account: "STRATEGY_AVAILABLE", amount: -size },
+      ];
+      break;
+    case "WITHDRAW_RELEASE":
+    case "TRADE_CLOSE":
+      postings = [
+        { account: "STRATEGY_AVAILABLE", amount: size },
+        { account: "STRATEGY_LOCKED", amount: -size },
+      ];
+      break;
+    case "PROFIT":
+      postings = [
+        { account: "STRATEGY_AVAILABLE", amount: size },
+        { account: "FEES", amount: fee },
+        { account: "PNL", amount: -(size + fee) },
+      ];
+      break;
+    case "LOSS":
+      postings = [
+        { account: "PNL", amount: size - fee },
+        { account: "FEES", amount: fee },
+        { account: "STRATEGY_AVAILABLE", amount: -size },
+      ];
+      break;
+    case "REFUND":
+      postings = [
+        { account: "STRATEGY_AVAILABLE", amount: size },
+        { account: "ADJUSTMENTS", amount: -size },
+      ];
+      break;
+    case "ADJUSTMENT":
+      postings = [
+        { account: "STRATEGY_AVAILABLE", amount: signed },
+        { account: "ADJUSTMENTS", amount: -signed },
+      ];
+      break;
+    default:
+      throw new Error(`Unsupported transaction type: ${type}`);
+  }
+
+  return postings.filter(p => p.amount !== 0n);
+}
+
+/**
+ * Whether postings form a valid journal entry: at least one debit and one
+ * credit, summing to zero
+ */
+export function isBalanced(postings: Posting[]): boolean {
+  return (
+    postings.some(p => p.amount > 0n) &&
+    postings.some(p => p.amount < 0n) &&
+    postings.reduce((sum, p) => sum + p.amount, 0n) === 0n
+  );
+}
+
+/**
+ * Apply postings to a treasury's cached balances
+ *
+ * - Available / locked follow their strategy accounts
+ * - A USER_WALLET credit is a deposit, a debit a withdrawal
+ * - The PnL and fee postings together are the realized result (credits
+ *   are profits, debits losses)
+ *
+ * @returns New balances (the input is not modified)
+ */
+export function applyPostings(totals: TreasuryTotals, postings: Posting[]): TreasuryTotals {
+  const wallet = postedTo(postings, "USER_WALLET");
+  const result = -(postedTo(postings, "PNL") + postedTo(postings, "FEES"));
+
+  const totalProfits = totals.totalProfits + max(result, 0n);
+  const totalLosses = totals.totalLosses + max(-result, 0n);
+
+  return {
+    availableBalance: totals.availableBalance + postedTo(postings, "STRATEGY_AVAILABLE"),
+    lockedBalance: totals.lockedBalance + postedTo(postings, "STRATEGY_LOCKED"),
+    totalDeposited: totals.totalDeposited + max(-wallet, 0n),
+    totalWithdrawn: totals.totalWithdrawn + max(wallet, 0n),
+    totalProfits,
+    totalLosses,
+    netProfitLoss: totalProfits - totalLosses,
+  };
+}
+
+/**
+ * Net balance of each account over a set of postings
+ */
+export function accountBalances(postings: { account: LedgerAccount; amount: AmountValue }[]): AccountBalances {
+  const totals = new Map<LedgerAccount, bigint>(LEDGER_ACCOUNTS.map(account => [account, 0n]));
+
+  for (const posting of postings) {
+    totals.set(posting.account, totals.get(posting.account)! + toWei(posting.amount));
+  }
+
+  return Object.fromEntries(LEDGER_ACCOUNTS.map(account => [account, fromWei(totals.get(account)!)])) as AccountBalances;
+}
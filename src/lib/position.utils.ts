@@ -0,0 +1,108 @@
+/**
+ * Position Helper Utilities
+ *
+ * Pure helpers for deciding when an open position exits and what it made
+ */
+
+import type { Candle } from "../tools/types/common.types";
+import type { PositionSide } from "../types/execution.types";
+import { formatAmount } from "./treasury.utils";
+
+/**
+ * Why a position was closed
+ */
+export type CloseReason = "TAKE_PROFIT" | "STOP_LOSS" | "SIGNAL" | "MANUAL";
+
+/**
+ * Exit levels of an open position
+ */
+export interface PositionLevels {
+  openedAt: number; // Fill time (ms); candles before it are ignored
+  takeProfit: number;
+  stopLoss: number;
+  side?: PositionSide; // Defaults to LONG
+}
+
+/**
+ * Price level hit by a candle
+ */
+export interface ExitTrigger {
+  reason: CloseReason;
+  price: number;
+  timestamp: number;
+}
+
+/**
+ * Side of the position an entry signal opens
+ */
+export function positionSideForSignal(signal: "BUY" | "SELL"): PositionSide {
+  return signal === "SELL" ? "SHORT" : "LONG";
+}
+
+/**
+ * Find the first candle that touches the stop loss or take profit
+ *
+ * Candles are walked in order. When one candle touches both levels the
+ * stop loss wins (we cannot know which came first), and a gap through a
+ * level fills at the candle's open. A LONG stops out on the low and takes
+ * profit on the high; a SHORT the other way round.
+ *
+ * @param position - Entry time and exit levels
+ * @param candles - Candles in ascending timestamp order
+ * @returns The exit, or null if neither level was reached
+ */
+export function findExitTrigger(position: PositionLevels, candles: Candle[]): ExitTrigger | null {
+  // Include the candle the fill happened in
+  const span = candleSpan(candles);
+  const relevant = candles.filter(c => c.timestamp >= position.openedAt || c.timestamp + span > position.openedAt);
+
+  for (const candle of relevant) {
+    if (position.side === "SHORT") {
+      if (candle.high >= position.stopLoss) {
+        return { reason: "STOP_LOSS", price: Math.max(candle.open, position.stopLoss), timestamp: candle.timestamp };
+      }
+      if (candle.low <= position.takeProfit) {
+        return { reason: "TAKE_PROFIT", price: Math.min(candle.open, position.takeProfit), timestamp: candle.timestamp };
+      }
+      continue;
+    }
+
+    if (candle.low <= position.stopLoss) {
+      return { reason: "STOP_LOSS", price: Math.min(candle.open, position.stopLoss), timestamp: candle.timestamp };
+    }
+    if (candle.high >= position.takeProfit) {
+      return { reason: "TAKE_PROFIT", price: Math.max(candle.open, position.takeProfit), timestamp: candle.timestamp };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Realized PnL of a position, in the units of `amount`
+ * @param amount - Capital allocated to the position
+ * @param entryPrice - Fill price
+ * @param exitPrice - Close price
+ * @param fees - Fees paid on the position
+ * @param side - LONG gains when the price rises, SHORT when it falls
+ */
+export function calculateRealizedPnl(
+  amount: number,
+  entryPrice: number,
+  exitPrice: number,
+  fees: number = 0,
+  side: PositionSide = "LONG",
+): number {
+  if (entryPrice <= 0) {
+    throw new Error("Entry price must be positive");
+  }
+  const priceChange = exitPrice / entryPrice - 1;
+  return formatAmount(amount * (side === "SHORT" ? -priceChange : priceChange) - fees);
+}
+
+/**
+ * Duration of one candle, inferred from the series
+ */
+function candleSpan(candles: Candle[]): number {
+  return candles.length > 1 ? candles[1].timestamp - candles[0].timestamp : 0;
+}
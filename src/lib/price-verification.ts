@@ -0,0 +1,182 @@
+/**
+ * Price Level Verification
+ *
+ * Checks the entry, take profit and stop loss the validator proposes
+ * against the latest close and the ATR, instead of trusting the model's
+ * numbers:
+ * - The entry must be near the last close; otherwise the levels are moved
+ *   to the last close, keeping the proposed distances
+ * - The stop loss must sit on the losing side of the entry (below for a
+ *   LONG, above for a SHORT), between a minimum and maximum number of
+ *   ATRs; a missing, inverted or out-of-range stop is reset or clamped
+ * - The take profit must sit on the winning side of the entry; an
+ *   inverted one is reset
+ * - The risk/reward ratio is recomputed from the final levels
+ *
+ * Proposals that cannot be repaired (no usable numbers, or both levels on
+ * the wrong side of the entry) are rejected.
+ */
+
+import { atr } from "indicatorts";
+import type { Candle } from "../tools/types/common.types";
+import type { PositionSide } from "../types/execution.types";
+import type { PriceVerification, PriceVerificationSettings, TradeLevels } from "../types/risk.types";
+
+/**
+ * Default tolerances (in ATRs of the strategy's timeframe)
+ */
+export const DEFAULT_PRICE_VERIFICATION_SETTINGS: PriceVerificationSettings = {
+  atrPeriod: 14,
+  maxEntryDeviationAtr: 0.5,
+  minStopAtr: 0.5,
+  maxStopAtr: 5,
+  defaultStopAtr: 1.5,
+  defaultTargetAtr: 3,
+  riskRewardTolerance: 0.05,
+};
+
+function round(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+function isPrice(value: number | null): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Latest ATR of the candles, or null when there are too few
+ */
+export function latestAtr(candles: Candle[], period: number): number | null {
+  if (candles.length <= period) {
+    return null;
+  }
+  const { atrLine } = atr(
+    candles.map(c => c.high),
+    candles.map(c => c.low),
+    candles.map(c => c.close),
+    { period },
+  );
+  const value = atrLine[atrLine.length - 1];
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Verify and, where possible, correct the levels of a proposal
+ *
+ * @param proposal - Levels from the validator
+ * @param lastClose - Latest close on the strategy's timeframe
+ * @param atrValue - Latest ATR on the strategy's timeframe
+ * @param side - LONG for a BUY, SHORT for a SELL
+ */
+export function verifyTradeLevels(
+  proposal: TradeLevels,
+  lastClose: number,
+  atrValue: number,
+  side: PositionSide = "LONG",
+  settings: PriceVerificationSettings = DEFAULT_PRICE_VERIFICATION_SETTINGS,
+): PriceVerification {
+  const original = { ...proposal };
+  const adjustments: string[] = [];
+  const reject = (reason: string): PriceVerification => ({
+    status: "REJECTED",
+    side,
+    original,
+    lastClose,
+    atr: atrValue,
+    adjustments,
+    reason,
+  });
+
+  // +1 for a LONG, -1 for a SHORT: profit is direction * (price - entry)
+  const direction = side === "SHORT" ? -1 : 1;
+  const [lossSide, profitSide] = side === "SHORT" ? ["above", "below"] : ["below", "above"];
+
+  if (!isPrice(proposal.entry) && !isPrice(proposal.exit) && !isPrice(proposal.stopLoss)) {
+    return reject("Proposal has no usable price levels");
+  }
+
+  let entry = isPrice(proposal.entry) ? proposal.entry : lastClose;
+  let exit = isPrice(proposal.exit) ? proposal.exit : null;
+  let stopLoss = isPrice(proposal.stopLoss) ? proposal.stopLoss : null;
+
+  if (!isPrice(proposal.entry)) {
+    adjustments.push(`Entry missing - set to last close ${lastClose}`);
+  }
+
+  if (
+    (exit !== null && direction * (exit - entry) <= 0)
+    && (stopLoss !== null && direction * (entry - stopLoss) <= 0)
+  ) {
+    return reject(`Take profit and stop loss are on the wrong side of the entry for a ${side === "SHORT" ? "SELL" : "BUY"}`);
+  }
+
+  // Entry far from the market: move the whole setup to the last close
+  const deviation = Math.abs(entry - lastClose);
+  if (deviation > settings.maxEntryDeviationAtr * atrValue) {
+    const shift = lastClose - entry;
+    adjustments.push(
+      `Entry ${entry} is ${(deviation / atrValue).toFixed(2)} ATR from last close ${lastClose} - levels moved to last close`,
+    );
+    entry = lastClose;
+    exit = exit !== null ? exit + shift : null;
+    stopLoss = stopLoss !== null ? stopLoss + shift : null;
+  }
+
+  if (stopLoss === null || direction * (entry - stopLoss) <= 0) {
+    const reset = entry - direction * settings.defaultStopAtr * atrValue;
+    adjustments.push(
+      `Stop loss ${stopLoss ?? "missing"} is not ${lossSide} entry - set to ${round(reset)} (${settings.defaultStopAtr} ATR)`,
+    );
+    stopLoss = reset;
+  } else {
+    const stopAtr = (direction * (entry - stopLoss)) / atrValue;
+    if (stopAtr < settings.minStopAtr) {
+      const widened = entry - direction * settings.minStopAtr * atrValue;
+      adjustments.push(`Stop loss ${round(stopLoss)} is within ${stopAtr.toFixed(2)} ATR of entry - widened to ${round(widened)}`);
+      stopLoss = widened;
+    } else if (stopAtr > settings.maxStopAtr) {
+      const tightened = entry - direction * settings.maxStopAtr * atrValue;
+      adjustments.push(`Stop loss ${round(stopLoss)} is ${stopAtr.toFixed(2)} ATR from entry - tightened to ${round(tightened)}`);
+      stopLoss = tightened;
+    }
+  }
+
+  if (stopLoss <= 0) {
+    return reject("Stop loss would be at or below zero");
+  }
+
+  if (exit === null || direction * (exit - entry) <= 0) {
+    const reset = entry + direction * settings.defaultTargetAtr * atrValue;
+    adjustments.push(
+      `Take profit ${exit ?? "missing"} is not ${profitSide} entry - set to ${round(reset)} (${settings.defaultTargetAtr} ATR)`,
+    );
+    exit = reset;
+  }
+
+  if (exit <= 0) {
+    return reject("Take profit would be at or below zero");
+  }
+
+  const riskRewardRatio = Math.round(((exit - entry) / (entry - stopLoss)) * 100) / 100;
+  if (
+    proposal.riskRewardRatio === null
+    || Math.abs(proposal.riskRewardRatio - riskRewardRatio) > settings.riskRewardTolerance
+  ) {
+    adjustments.push(`Risk/reward ${proposal.riskRewardRatio ?? "missing"} recomputed as ${riskRewardRatio}`);
+  }
+
+  return {
+    status: adjustments.length > 0 ? "CORRECTED" : "VERIFIED",
+    side,
+    original,
+    corrected: {
+      entry: round(entry),
+      exit: round(exit),
+      stopLoss: round(stopLoss),
+      riskRewardRatio,
+    },
+    lastClose,
+    atr: atrValue,
+    adjustments,
+  };
+}
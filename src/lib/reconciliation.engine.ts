@@ -0,0 +1,147 @@
+/**
+ * Ledger Reconciliation Engine
+ *
+ * Replays a treasury's transactions in order, applying each one the way
+ * `adjustBalance()` / `deposit()` / `withdraw()` applied it, so the result
+ * can be compared with the balances stored on the treasury. Along the way
+ * it checks the balanceBefore / balanceAfter snapshots form an unbroken
+ * chain. Amounts are compared exactly, in wei.
+ */
+
+import { fromWei, toWei } from "./amount.utils";
+import type {
+  BalanceMismatch,
+  ChainIssue,
+  LedgerBalances,
+  LedgerEntry,
+  LedgerField,
+  LedgerReplay,
+} from "../types/reconciliation.types";
+
+const LEDGER_FIELDS: LedgerField[] = [
+  "availableBalance",
+  "lockedBalance",
+  "totalDeposited",
+  "totalWithdrawn",
+  "netProfitLoss",
+];
+
+type WeiBalances = Record<LedgerField, bigint>;
+
+function emptyWeiBalances(): WeiBalances {
+  return { availableBalance: 0n, lockedBalance: 0n, totalDeposited: 0n, totalWithdrawn: 0n, netProfitLoss: 0n };
+}
+
+/**
+ * Balances of a treasury with no transactions
+ */
+export function emptyBalances(): LedgerBalances {
+  return { availableBalance: "0", lockedBalance: "0", totalDeposited: "0", totalWithdrawn: "0", netProfitLoss: "0" };
+}
+
+/**
+ * Apply one entry to the balances
+ */
+function applyEntry(balances: WeiBalances, entry: LedgerEntry): void {
+  const amount = toWei(entry.amount);
+  const size = amount < 0n ? -amount : amount;
+
+  switch (entry.type) {
+    case "DEPOSIT":
+      balances.totalDeposited += size;
+      balances.availableBalance += size;
+      break;
+    case "WITHDRAW":
+      balances.totalWithdrawn += size;
+      balances.availableBalance -= size;
+      break;
+    case "WITHDRAW_HOLD":
+    case "TRADE_OPEN":
+      balances.availableBalance -= size;
+      balances.lockedBalance += size;
+      break;
+    case "WITHDRAW_RELEASE":
+    case "TRADE_CLOSE":
+      balances.lockedBalance -= size;
+      balances.availableBalance += size;
+      break;
+    case "PROFIT":
+      balances.netProfitLoss += size;
+      balances.availableBalance += size;
+      break;
+    case "LOSS":
+      balances.netProfitLoss -= size;
+      balances.availableBalance -= size;
+      break;
+    case "REFUND":
+      balances.availableBalance += size;
+      break;
+    case "ADJUSTMENT":
+      balances.availableBalance += amount;
+      break;
+    default:
+      throw new Error(`Unsupported transaction type: ${entry.type}`);
+  }
+}
+
+/**
+ * Change an entry makes to the available balance
+ */
+function availableEffect(entry: LedgerEntry): bigint {
+  const balances = emptyWeiBalances();
+  applyEntry(balances, entry);
+  return balances.availableBalance;
+}
+
+/**
+ * Replay ledger entries and check their balance snapshots
+ *
+ * @param entries - Entries in the order they were applied
+ * @returns Replayed balances and any breaks in the snapshot chain
+ */
+export function replayLedger(entries: LedgerEntry[]): LedgerReplay {
+  const balances = emptyWeiBalances();
+  const chainIssues: ChainIssue[] = [];
+  let previousAfter = 0n;
+
+  for (const entry of entries) {
+    const issue = { transactionId: entry.id, type: entry.type, createdAt: entry.createdAt };
+    const balanceBefore = toWei(entry.balanceBefore);
+    const balanceAfter = toWei(entry.balanceAfter);
+
+    if (balanceBefore !== previousAfter) {
+      chainIssues.push({ ...issue, kind: "GAP", expected: fromWei(previousAfter), recorded: fromWei(balanceBefore) });
+    }
+
+    const expectedAfter = balanceBefore + availableEffect(entry);
+    if (balanceAfter !== expectedAfter) {
+      chainIssues.push({ ...issue, kind: "MISMATCH", expected: fromWei(expectedAfter), recorded: fromWei(balanceAfter) });
+    }
+
+    applyEntry(balances, entry);
+    previousAfter = balanceAfter;
+  }
+
+  const replayed = emptyBalances();
+  for (const field of LEDGER_FIELDS) {
+    replayed[field] = fromWei(balances[field]);
+  }
+
+  return { balances: replayed, entries: entries.length, chainIssues };
+}
+
+/**
+ * Compare the stored balances with the replayed ones
+ *
+ * @returns One mismatch per field that differs (empty when they agree)
+ */
+export function compareBalances(expected: LedgerBalances, actual: LedgerBalances): BalanceMismatch[] {
+  return LEDGER_FIELDS
+    .filter(field => toWei(actual[field]) !== toWei(expected[field]))
+    .map(field => ({
+      field,
+      expected: fromWei(toWei(expected[field])),
+      actual: fromWei(toWei(actual[field])),
+      difference: fromWei(toWei(actual[field]) - toWei(expected[field])),
+    }));
+}
@@ -0,0 +1,173 @@
+/**
+ * Risk Engine
+ *
+ * Deterministic pre-trade checks applied to the validator's proposal
+ * before a trade is saved. Every rule is evaluated (so the trail shows
+ * all of them), and the first failure becomes the rejection reason.
+ */
+
+import { calculateTradeSize, formatAmount } from "./treasury.utils";
+import type {
+  RiskAssessment,
+  RiskCheck,
+  RiskContext,
+  RiskLimitOverrides,
+  RiskLimits,
+  TradeProposal,
+} from "../types/risk.types";
+
+/**
+ * Apply a strategy's overrides on top of the global limits
+ */
+export function resolveRiskLimits(defaults: RiskLimits, overrides?: RiskLimitOverrides | null): RiskLimits {
+  const resolved = { ...defaults };
+  for (const [key, value] of Object.entries(overrides ?? {})) {
+    if (typeof value === "number") {
+      resolved[key as keyof RiskLimits] = value;
+    }
+  }
+  return resolved;
+}
+
+function distancePct(price: number, reference: number): number {
+  return (Math.abs(price - reference) / reference) * 100;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Check a LONG or SHORT trade proposal against the limits
+ *
+ * @param proposal - Levels and amount from the validator / strategy
+ * @param context - Current price and account state
+ * @param limits - Resolved limits for the strategy
+ * @returns Whether the trade may be saved, its size and the check trail
+ */
+export function evaluateRisk(proposal: TradeProposal, context: RiskContext, limits: RiskLimits): RiskAssessment {
+  const checks: RiskCheck[] = [];
+  const { entry, takeProfit, stopLoss } = proposal;
+  const isShort = proposal.side === "SHORT";
+
+  // Position size: never more than maxPositionPct of the treasury
+  const amount = calculateTradeSize(context.availableBalance, limits.maxPositionPct, proposal.requestedAmount);
+  checks.push({
+    rule: "POSITION_SIZE",
+    passed: amount > 0,
+    value: amount,
+    limit: formatAmount((context.availableBalance * limits.maxPositionPct) / 100),
+    reason: amount > 0 ? undefined : "No treasury balance available for a new position",
+  });
+
+  checks.push({
+    rule: "MAX_OPEN_TRADES_STRATEGY",
+    passed: context.openTradesForStrategy < limits.maxOpenTradesPerStrategy,
+    value: context.openTradesForStrategy,
+    limit: limits.maxOpenTradesPerStrategy,
+    reason: `Strategy already has ${context.openTradesForStrategy} open trade(s) (max ${limits.maxOpenTradesPerStrategy})`,
+  });
+
+  checks.push({
+    rule: "MAX_OPEN_TRADES_USER",
+    passed: context.openTradesForUser < limits.maxOpenTradesPerUser,
+    value: context.openTradesForUser,
+    limit: limits.maxOpenTradesPerUser,
+    reason: `User already has ${context.openTradesForUser} open trade(s) (max ${limits.maxOpenTradesPerUser})`,
+  });
+
+  // Daily loss: measured against equity at the start of the day
+  const lossToday = Math.max(0, -context.realizedPnlToday);
+  const startOfDayEquity = context.userEquity - context.realizedPnlToday;
+  const maxLoss = (startOfDayEquity * limits.dailyLossLimitPct) / 100;
+  checks.push({
+    rule: "DAILY_LOSS_LIMIT",
+    passed: lossToday === 0 || lossToday < maxLoss,
+    value: formatAmount(lossToday),
+    limit: formatAmount(maxLoss),
+    reason: `Daily loss limit reached (${formatAmount(lossToday)} of ${formatAmount(maxLoss)})`,
+  });
+
+  const levelsValid = isShort
+    ? takeProfit < entry && entry < stopLoss
+    : stopLoss < entry && entry < takeProfit;
+  checks.push({
+    rule: "PRICE_LEVELS",
+    passed: levelsValid,
+    reason: isShort
+      ? "Stop loss must be above entry and take profit below entry for a SHORT"
+      : "Stop loss must be below entry and take profit above entry",
+  });
+
+  const riskRewardRatio = levelsValid ? round((takeProfit - entry) / (entry - stopLoss)) : undefined;
+  checks.push({
+    rule: "RISK_REWARD",
+    passed: riskRewardRatio !== undefined && riskRewardRatio >= limits.minRiskReward,
+    value: riskRewardRatio,
+    limit: limits.minRiskReward,
+    reason: `Risk/reward ${riskRewardRatio ?? "n/a"} is below ${limits.minRiskReward}`,
+  });
+
+  // Stop loss on the losing side of the current price, take profit on the winning side
+  const stopOnLossSide = isShort ? stopLoss > context.currentPrice : stopLoss < context.currentPrice;
+  const stopDistance = round(distancePct(stopLoss, context.currentPrice));
+  checks.push({
+    rule: "STOP_DISTANCE",
+    passed: stopOnLossSide
+      && stopDistance >= limits.minStopDistancePct
+      && stopDistance <= limits.maxStopDistancePct,
+    value: stopDistance,
+    limit: limits.maxStopDistancePct,
+    reason: stopOnLossSide
+      ? `Stop loss is ${stopDistance}% from the current price (allowed ${limits.minStopDistancePct}-${limits.maxStopDistancePct}%)`
+      : `Stop loss is at or ${isShort ? "below" : "above"} the current price`,
+  });
+
+  const takeProfitOnProfitSide = isShort ? takeProfit < context.currentPrice : takeProfit > context.currentPrice;
+  const takeProfitDistance = round(distancePct(takeProfit, context.currentPrice));
+  checks.push({
+    rule: "TAKE_PROFIT_DISTANCE",
+    passed: takeProfitOnProfitSide && takeProfitDistance <= limits.maxTakeProfitDistancePct,
+    value: takeProfitDistance,
+    limit: limits.maxTakeProfitDistancePct,
+    reason: takeProfitOnProfitSide
+      ? `Take profit is ${takeProfitDistance}% from the current price (max ${limits.maxTakeProfitDistancePct}%)`
+      : `Take profit is at or ${isShort ? "above" : "below"} the current price`,
+  });
+
+  const entryDeviation = round(distancePct(entry, context.currentPrice));
+  checks.push({
+    rule: "ENTRY_DEVIATION",
+    passed: entryDeviation <= limits.maxEntryDeviationPct,
+    value: entryDeviation,
+    limit: limits.maxEntryDeviationPct,
+    reason: `Entry is ${entryDeviation}% from the current price (max ${limits.maxEntryDeviationPct}%)`,
+  });
+
+  const minutesSinceLoss = context.lastLossAt
+    ? (context.now.getTime() - context.lastLossAt.getTime()) / 60_000
+    : undefined;
+  checks.push({
+    rule: "LOSS_COOLDOWN",
+    passed: minutesSinceLoss === undefined || minutesSinceLoss >= limits.lossCooldownMinutes,
+    value: minutesSinceLoss === undefined ? undefined : Math.floor(minutesSinceLoss),
+    limit: limits.lossCooldownMinutes,
+    reason: `Cooling down after a loss (${Math.floor(minutesSinceLoss ?? 0)} of ${limits.lossCooldownMinutes} minutes)`,
+  });
+
+  // Reasons are only kept on failed checks
+  for (const check of checks) {
+    if (check.passed) {
+      delete check.reason;
+    }
+  }
+
+  const failed = checks.find(check => !check.passed);
+  return {
+    approved: !failed,
+    amount: failed ? 0 : amount,
+    riskRewardRatio,
+    reason: failed?.reason,
+    checks,
+  };
+}
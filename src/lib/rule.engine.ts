@@ -0,0 +1,387 @@
+/**
+ * Strategy Rule Engine
+ *
+ * Validates and evaluates the JSON rule grammar in types/rule.types.ts.
+ * Evaluation is pure: indicator series are computed from the candles
+ * with indicatorts, so the same candles always produce the same
+ * decision and every condition's values are returned for auditing.
+ */
+
+import { z } from "zod";
+import {
+  atr,
+  bollingerBands,
+  cmf,
+  ema,
+  macd,
+  mfi,
+  obv,
+  roc,
+  rsi,
+  sma,
+  stochasticOscillator,
+  williamsR,
+} from "indicatorts";
+import type { Candle } from "../tools/types/common.types";
+import {
+  COMPARISON_OPERATORS,
+  PRICE_FIELDS,
+  RULE_INDICATOR_OUTPUTS,
+  RULE_INDICATORS,
+} from "../types/rule.types";
+import type {
+  ComparisonOperator,
+  ConditionEvaluation,
+  IndicatorParams,
+  RuleCondition,
+  RuleEvaluation,
+  RuleGroup,
+  RuleIndicator,
+  RuleOperand,
+  StrategyRules,
+} from "../types/rule.types";
+
+/**
+ * Rule grammar schemas
+ */
+
+const periodSchema = z.number().int().min(1).max(500);
+
+const indicatorParamsSchema = z.object({
+  period: periodSchema.optional().describe("Lookback period"),
+  fastPeriod: periodSchema.optional().describe("Fast period (MACD)"),
+  slowPeriod: periodSchema.optional().describe("Slow period (MACD)"),
+  signalPeriod: periodSchema.optional().describe("Signal period (MACD)"),
+  kPeriod: periodSchema.optional().describe("%K period (STOCH)"),
+  dPeriod: periodSchema.optional().describe("%D period (STOCH)"),
+});
+
+export const ruleOperandSchema = z.union([
+  z.object({
+    type: z.literal("indicator"),
+    indicator: z.enum(RULE_INDICATORS),
+    params: indicatorParamsSchema.optional(),
+    output: z.string().optional().describe("Indicator output, e.g. signal for MACD, upper for BB"),
+  }).refine(
+    operand => !operand.output || RULE_INDICATOR_OUTPUTS[operand.indicator].includes(operand.output),
+    { message: "Unknown indicator output", path: ["output"] },
+  ),
+  z.object({
+    type: z.literal("price"),
+    field: z.enum(PRICE_FIELDS),
+  }),
+  z.object({
+    type: z.literal("constant"),
+    value: z.number(),
+  }),
+]);
+
+export const ruleConditionSchema = z.union([
+  z.object({
+    type: z.literal("compare"),
+    left: ruleOperandSchema,
+    operator: z.enum(COMPARISON_OPERATORS),
+    right: ruleOperandSchema,
+  }),
+  z.object({
+    type: z.literal("cross"),
+    left: ruleOperandSchema,
+    direction: z.enum(["above", "below"]),
+    right: ruleOperandSchema,
+  }),
+]);
+
+export const ruleGroupSchema = z.object({
+  combinator: z.enum(["AND", "OR"]),
+  conditions: z
+    .array(z.union([
+      ruleConditionSchema,
+      z.object({
+        combinator: z.enum(["AND", "OR"]),
+        conditions: z.array(ruleConditionSchema).min(1).max(10),
+      }),
+    ]))
+    .min(1, "A rule group needs at least one condition")
+    .max(10, "A rule group cannot have more than 10 conditions"),
+});
+
+export const strategyRulesSchema = z.object({
+  entry: ruleGroupSchema.describe("Conditions that open a long position"),
+  exit: ruleGroupSchema.describe("Conditions that close the position"),
+});
+
+/**
+ * Default parameters per indicator (mirror the indicator tools)
+ */
+const BASE_PARAMS = { period: 14, fastPeriod: 12, slowPeriod: 26, signalPeriod: 9, kPeriod: 14, dPeriod: 3 };
+
+const DEFAULT_PARAMS: Record<RuleIndicator, Required<IndicatorParams>> = {
+  SMA: { ...BASE_PARAMS, period: 20 },
+  EMA: { ...BASE_PARAMS, period: 20 },
+  RSI: BASE_PARAMS,
+  MACD: BASE_PARAMS,
+  BB: { ...BASE_PARAMS, period: 20 },
+  ATR: BASE_PARAMS,
+  STOCH: BASE_PARAMS,
+  WILLR: BASE_PARAMS,
+  ROC: { ...BASE_PARAMS, period: 12 },
+  MFI: BASE_PARAMS,
+  CMF: { ...BASE_PARAMS, period: 20 },
+  OBV: BASE_PARAMS,
+};
+
+/**
+ * Operand parameters merged over the indicator defaults
+ */
+function resolveParams(indicator: RuleIndicator, params: IndicatorParams = {}): Required<IndicatorParams> {
+  const overrides = Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined));
+  return { ...DEFAULT_PARAMS[indicator], ...overrides };
+}
+
+interface PriceArrays {
+  open: number[];
+  high: number[];
+  low: number[];
+  close: number[];
+  volume: number[];
+}
+
+/**
+ * Compute every output of an indicator over the full candle series
+ */
+function computeIndicator(
+  indicator: RuleIndicator,
+  p: Required<IndicatorParams>,
+  { high, low, close, volume }: PriceArrays,
+): Record<string, number[]> {
+  switch (indicator) {
+    case "SMA":
+      return { value: sma(close, { period: p.period }) };
+    case "EMA":
+      return { value: ema(close, { period: p.period }) };
+    case "RSI":
+      return { value: rsi(close, { period: p.period }) };
+    case "MACD": {
+      const result = macd(close, { fast: p.fastPeriod, slow: p.slowPeriod, signal: p.signalPeriod });
+      return {
+        macd: result.macdLine,
+        signal: result.signalLine,
+        histogram: result.macdLine.map((value, i) => value - result.signalLine[i]),
+      };
+    }
+    case "BB": {
+      const result = bollingerBands(close, { period: p.period });
+      return { middle: result.middle, upper: result.upper, lower: result.lower };
+    }
+    case "ATR":
+      return { value: atr(high, low, close, { period: p.period }).atrLine };
+    case "STOCH": {
+      const result = stochasticOscillator(high, low, close, { kPeriod: p.kPeriod, dPeriod: p.dPeriod });
+      return { k: result.k, d: result.d };
+    }
+    case "WILLR":
+      return { value: williamsR(high, low, close, { period: p.period }) };
+    case "ROC":
+      return { value: roc(close, { period: p.period }) };
+    case "MFI":
+      return { value: mfi(high, low, close, volume, { period: p.period }) };
+    case "CMF":
+      return { value: cmf(high, low, close, volume, { period: p.period }) };
+    case "OBV":
+      return { value: obv(close, volume) };
+  }
+}
+
+/**
+ * Candles plus the indicator series computed from them so far
+ */
+export interface RuleContext {
+  candles: Candle[];
+  prices: PriceArrays;
+  series: Map<string, number[]>;
+}
+
+/**
+ * Prepare candles for evaluation. Reuse the context to evaluate many bars
+ * of the same series; indicator series are computed once and cached.
+ */
+export function createRuleContext(candles: Candle[]): RuleContext {
+  return {
+    candles,
+    prices: {
+      open: candles.map(c => c.open),
+      high: candles.map(c => c.high),
+      low: candles.map(c => c.low),
+      close: candles.map(c => c.close),
+      volume: candles.map(c => c.volume),
+    },
+    series: new Map(),
+  };
+}
+
+/**
+ * Human-readable form of an operand, e.g. "MACD(12,26,9).signal"
+ */
+export function describeOperand(operand: RuleOperand): string {
+  switch (operand.type) {
+    case "constant":
+      return String(operand.value);
+    case "price":
+      return operand.field;
+    case "indicator": {
+      const p = resolveParams(operand.indicator, operand.params);
+      const args = operand.indicator === "MACD"
+        ? [p.fastPeriod, p.slowPeriod, p.signalPeriod]
+        : operand.indicator === "STOCH"
+          ? [p.kPeriod, p.dPeriod]
+          : operand.indicator === "OBV" ? [] : [p.period];
+      const output = operand.output && operand.output !== RULE_INDICATOR_OUTPUTS[operand.indicator][0]
+        ? `.${operand.output}`
+        : "";
+      return `${operand.indicator}(${args.join(",")})${output}`;
+    }
+  }
+}
+
+/**
+ * Human-readable form of a condition, e.g. "RSI(14) crosses above 30"
+ */
+export function describeCondition(condition: RuleCondition): string {
+  const left = describeOperand(condition.left);
+  const right = describeOperand(condition.right);
+  return condition.type === "cross"
+    ? `${left} crosses ${condition.direction} ${right}`
+    : `${left} ${condition.operator} ${right}`;
+}
+
+/**
+ * Value of an operand at a bar, or null when it is not available yet
+ */
+function operandValue(operand: RuleOperand, context: RuleContext, index: number): number | null {
+  if (index < 0 || index >= context.candles.length) {
+    return null;
+  }
+  if (operand.type === "constant") {
+    return operand.value;
+  }
+
+  let values: number[] | undefined;
+  if (operand.type === "price") {
+    values = context.prices[operand.field];
+  } else {
+    const outputs = RULE_INDICATOR_OUTPUTS[operand.indicator];
+    const output = operand.output ?? outputs[0];
+    if (!outputs.includes(output)) {
+      throw new Error(`Unknown output "${output}" for ${operand.indicator}`);
+    }
+
+    const params = resolveParams(operand.indicator, operand.params);
+    const key = `${operand.indicator}:${JSON.stringify(params)}`;
+    if (!context.series.has(`${key}.${output}`)) {
+      const computed = computeIndicator(operand.indicator, params, context.prices);
+      for (const [name, series] of Object.entries(computed)) {
+        context.series.set(`${key}.${name}`, series);
+      }
+    }
+    values = context.series.get(`${key}.${output}`);
+  }
+
+  const value = values?.[index];
+  return value !== undefined && Number.isFinite(value) ? value : null;
+}
+
+function compare(left: number, operator: ComparisonOperator, right: number): boolean {
+  switch (operator) {
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+  }
+}
+
+/**
+ * Evaluate one condition at a bar
+ */
+export function evaluateCondition(condition: RuleCondition, context: RuleContext, index: number): ConditionEvaluation {
+  const left = operandValue(condition.left, context, index);
+  const right = operandValue(condition.right, context, index);
+  let matched = false;
+
+  if (left !== null && right !== null) {
+    if (condition.type === "compare") {
+      matched = compare(left, condition.operator, right);
+    } else {
+      const previousLeft = operandValue(condition.left, context, index - 1);
+      const previousRight = operandValue(condition.right, context, index - 1);
+      if (previousLeft !== null && previousRight !== null) {
+        matched = condition.direction === "above"
+          ? previousLeft <= previousRight && left > right
+          : previousLeft >= previousRight && left < right;
+      }
+    }
+  }
+
+  return { condition: describeCondition(condition), matched, left, right };
+}
+
+/**
+ * Evaluate a rule group at a bar (defaults to the latest candle).
+ * Every condition is evaluated, even after the outcome is known, so the
+ * returned trail is complete.
+ */
+export function evaluateRuleGroup(
+  group: RuleGroup,
+  context: RuleContext,
+  index: number = context.candles.length - 1,
+): RuleEvaluation {
+  const conditions: ConditionEvaluation[] = [];
+
+  const results = group.conditions.map((item) => {
+    if ("combinator" in item) {
+      const nested = item.conditions.map(condition => evaluateCondition(condition, context, index));
+      conditions.push(...nested);
+      return item.combinator === "AND"
+        ? nested.every(result => result.matched)
+        : nested.some(result => result.matched);
+    }
+    const result = evaluateCondition(item, context, index);
+    conditions.push(result);
+    return result.matched;
+  });
+
+  return {
+    matched: group.combinator === "AND" ? results.every(Boolean) : results.some(Boolean),
+    timestamp: context.candles[index]?.timestamp ?? 0,
+    conditions,
+  };
+}
+
+/**
+ * Indicators referenced anywhere in a rule set
+ */
+export function getRuleIndicators(rules: StrategyRules): RuleIndicator[] {
+  const found = new Set<RuleIndicator>();
+  const visit = (group: RuleGroup) => {
+    for (const item of group.conditions) {
+      const conditions = "combinator" in item ? item.conditions : [item];
+      for (const condition of conditions) {
+        for (const operand of [condition.left, condition.right]) {
+          if (operand.type === "indicator") {
+            found.add(operand.indicator);
+          }
+        }
+      }
+    }
+  };
+  visit(rules.entry);
+  visit(rules.exit);
+  return [...found];
+}
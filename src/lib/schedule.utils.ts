@@ -0,0 +1,64 @@
+/**
+ * Schedule Helper Utilities
+ *
+ * Pure helpers for running a strategy once per candle of its timeframe.
+ * Candle boundaries follow Binance: aligned to UTC, weekly candles open
+ * on Monday 00:00.
+ */
+
+import { INTERVAL_MS } from "../tools/types/market-data.types";
+
+/**
+ * Offset of candle boundaries from the Unix epoch (a Thursday)
+ */
+const WEEK_OFFSET_MS = 4 * 24 * 60 * 60_000;
+
+function boundaryOffset(timeframe: string): number {
+  return timeframe === "1w" ? WEEK_OFFSET_MS : 0;
+}
+
+function intervalMs(timeframe: string): number {
+  const ms = INTERVAL_MS[timeframe];
+  if (!ms) {
+    throw new Error(`Unsupported timeframe: ${timeframe}`);
+  }
+  return ms;
+}
+
+/**
+ * Open time of the most recent fully closed candle
+ *
+ * @param timeframe - Candle interval, e.g. "4h"
+ * @param now - Current time (ms)
+ */
+export function lastClosedCandle(timeframe: string, now: number): Date {
+  const ms = intervalMs(timeframe);
+  const offset = boundaryOffset(timeframe);
+  const currentOpen = Math.floor((now - offset) / ms) * ms + offset;
+  return new Date(currentOpen - ms);
+}
+
+/**
+ * Close time of a candle
+ */
+export function candleCloseTime(timeframe: string, openTime: Date): Date {
+  return new Date(openTime.getTime() + intervalMs(timeframe));
+}
+
+/**
+ * Whether a candle has closed that the strategy has not evaluated yet
+ *
+ * @param lastEvaluated - Open time of the last evaluated candle, if any
+ * @returns The candle to evaluate, or null when the strategy is up to date
+ */
+export function nextCandleToEvaluate(
+  timeframe: string,
+  lastEvaluated: Date | null | undefined,
+  now: number
+): Date | null {
+  const candle = lastClosedCandle(timeframe, now);
+  if (lastEvaluated && lastEvaluated.getTime() >= candle.getTime()) {
+    return null;
+  }
+  return candle;
+}
@@ -1,8 +1,24 @@
 import mongoose from "mongoose";
-import { Strategy, Indicator, IStrategy } from "../db/schema";
+import { Strategy, Indicator, IStrategy, Treasury, Trade } from "../db/schema";
 import { CreateStrategyInput, UpdateStrategyInput } from "./validations";
+import { toAmountString, toWei } from "./amount.utils";
+import { releaseTradeLock } from "../workers/trade-executor";
 import logger from "./logger";
 
+type StrategyStatus = IStrategy["status"];
+
+/**
+ * Lifecycle transitions: the statuses each target status can be reached from.
+ * ARCHIVED is final.
+ */
+const STRATEGY_TRANSITIONS: Record<"ACTIVE" | "PAUSED" | "ARCHIVED", StrategyStatus[]> = {
+  ACTIVE: ["INACTIVE", "PAUSED"],
+  PAUSED: ["ACTIVE"],
+  ARCHIVED: ["INACTIVE", "ACTIVE", "PAUSED"],
+};
+
+const TRANSITION_VERBS = { ACTIVE: "activate", PAUSED: "pause", ARCHIVED: "archive" } as const;
+
 export class StrategyService {
   /**
    * Create a new strategy
@@ -123,6 +139,122 @@ export class StrategyService {
     }
   }
 
+  /**
+   * Activate a strategy (from INACTIVE or PAUSED)
+   *
+   * Requires an initialized treasury holding at least the strategy's
+   * trade amount.
+   */
+  static async activateStrategy(strategyId: string, userId: string) {
+    try {
+      const strategy = await StrategyService.getStrategyById(strategyId, userId);
+      StrategyService.assertTransition(strategy, "ACTIVE");
+
+      const treasury = await Treasury.findOne({ strategyId, userId });
+      if (!treasury) {
+        throw new Error("Treasury not initialized");
+      }
+      if (toWei(treasury.availableBalance) < toWei(strategy.amount)) {
+        throw new Error(
+          `Insufficient treasury balance. Available: ${toAmountString(treasury.availableBalance)}, required: ${strategy.amount}`,
+        );
+      }
+
+      const activated = await StrategyService.transition(strategy, "ACTIVE");
+      logger.info({ strategyId, userId }, "Strategy activated");
+      return activated;
+    } catch (error) {
+      logger.error(error, "Error activating strategy");
+      throw error;
+    }
+  }
+
+  /**
+   * Pause an ACTIVE strategy and cancel its pending trades
+   */
+  static async pauseStrategy(strategyId: string, userId: string) {
+    try {
+      const strategy = await StrategyService.getStrategyById(strategyId, userId);
+      StrategyService.assertTransition(strategy, "PAUSED");
+
+      const paused = await StrategyService.transition(strategy, "PAUSED");
+      const cancelledTrades = await StrategyService.cancelPendingTrades(strategy);
+
+      logger.info({ strategyId, userId, cancelledTrades }, "Strategy paused");
+      return { strategy: paused, cancelledTrades };
+    } catch (error) {
+      logger.error(error, "Error pausing strategy");
+      throw error;
+    }
+  }
+
+  /**
+   * Archive a strategy for good and cancel its pending trades
+   *
+   * Open positions are left to the position monitor.
+   */
+  static async archiveStrategy(strategyId: string, userId: string) {
+    try {
+      const strategy = await StrategyService.getStrategyById(strategyId, userId);
+      StrategyService.assertTransition(strategy, "ARCHIVED");
+
+      const archived = await StrategyService.transition(strategy, "ARCHIVED");
+      const cancelledTrades = await StrategyService.cancelPendingTrades(strategy);
+
+      logger.info({ strategyId, userId, cancelledTrades }, "Strategy archived");
+      return { strategy: archived, cancelledTrades };
+    } catch (error) {
+      logger.error(error, "Error archiving strategy");
+      throw error;
+    }
+  }
+
+  private static assertTransition(strategy: IStrategy, to: keyof typeof STRATEGY_TRANSITIONS) {
+    if (!STRATEGY_TRANSITIONS[to].includes(strategy.status)) {
+      throw new Error(`Cannot ${TRANSITION_VERBS[to]} a strategy that is ${strategy.status}`);
+    }
+  }
+
+  /**
+   * Move to the target status, unless the status changed since it was read
+   */
+  private static async transition(strategy: IStrategy, to: keyof typeof STRATEGY_TRANSITIONS) {
+    const updated = await Strategy.findOneAndUpdate(
+      { _id: strategy._id, status: strategy.status },
+      { $set: { status: to } },
+      { new: true },
+    ).populate("indicators");
+
+    if (!updated) {
+      throw new Error("Strategy status changed, please retry");
+    }
+    return updated;
+  }
+
+  /**
+   * Cancel the strategy's PENDING trades, releasing any funds already locked
+   *
+   * @returns Number of trades cancelled
+   */
+  private static async cancelPendingTrades(strategy: IStrategy): Promise<number> {
+    const trades = await Trade.find({ strategyId: strategy._id, status: "PENDING" });
+    let cancelled = 0;
+
+    for (const trade of trades) {
+      const updated = await Trade.findOneAndUpdate(
+        { _id: trade._id, status: "PENDING" },
+        { $set: { status: "CANCELLED" } },
+      );
+      if (!updated) {
+        continue;
+      }
+      cancelled++;
+      await releaseTradeLock(trade, `Released funds for cancelled ${trade.symbol} trade`);
+    }
+
+    return cancelled;
+  }
+
   /**
    * Get all indicators
    */
@@ -6,9 +6,11 @@
 
 import mongoose from "mongoose";
 import { Treasury } from "../db/schema";
+import { fromWei, toAmountNumber, toAmountString, toWei, type AmountValue } from "./amount.utils";
 
 /**
  * Format amount to 8 decimal places (standard for crypto)
+ * For estimates only - stored WETH amounts use amount.utils
  */
 export function formatAmount(amount: number): number {
   return Math.round(amount * 100000000) / 100000000;
@@ -46,17 +48,17 @@ export function formatTreasuryResponse(treasury: any) {
   return {
     id: treasury._id,
     strategyId: treasury.strategyId,
-    availableBalance: formatAmount(treasury.availableBalance),
-    lockedBalance: formatAmount(treasury.lockedBalance),
-    totalDeposited: formatAmount(treasury.totalDeposited),
-    totalWithdrawn: formatAmount(treasury.totalWithdrawn),
-    totalProfits: formatAmount(treasury.totalProfits),
-    totalLosses: formatAmount(treasury.totalLosses),
-    netProfitLoss: formatAmount(treasury.netProfitLoss),
+    availableBalance: toAmountString(treasury.availableBalance),
+    lockedBalance: toAmountString(treasury.lockedBalance),
+    totalDeposited: toAmountString(treasury.totalDeposited),
+    totalWithdrawn: toAmountString(treasury.totalWithdrawn),
+    totalProfits: toAmountString(treasury.totalProfits),
+    totalLosses: toAmountString(treasury.totalLosses),
+    netProfitLoss: toAmountString(treasury.netProfitLoss),
     profitLossPercentage: formatAmount(
       calculatePercentageChange(
-        treasury.totalProfits,
-        treasury.totalDeposited || 1,
+        toAmountNumber(treasury.totalProfits),
+        toAmountNumber(treasury.totalDeposited) || 1,
       ),
     ),
     contractAddress: treasury.contractAddress,
@@ -74,9 +76,9 @@ export function formatTransactionResponse(transaction: any) {
   return {
     id: transaction._id,
     type: transaction.type,
-    amount: formatAmount(transaction.amount),
-    balanceBefore: formatAmount(transaction.balanceBefore),
-    balanceAfter: formatAmount(transaction.balanceAfter),
+    amount: toAmountString(transaction.amount),
+    balanceBefore: toAmountString(transaction.balanceBefore),
+    balanceAfter: toAmountString(transaction.balanceAfter),
     description: transaction.description,
     txHash: transaction.txHash,
     tradeId: transaction.tradeId,
@@ -91,12 +93,12 @@ export function formatTransactionResponse(transaction: any) {
  */
 export async function checkTradeBalance(
   strategyId: mongoose.Types.ObjectId | string,
-  requiredAmount: number,
+  requiredAmount: AmountValue,
 ): Promise<{
   hasBalance: boolean;
-  availableBalance: number;
-  requiredAmount: number;
-  deficit: number;
+  availableBalance: string;
+  requiredAmount: string;
+  deficit: string;
 }> {
   const strategyObjectId =
     typeof strategyId === "string"
@@ -104,24 +106,26 @@ export async function checkTradeBalance(
       : strategyId;
 
   const treasury = await Treasury.findOne({ strategyId: strategyObjectId });
+  const required = toWei(requiredAmount);
 
   if (!treasury) {
     return {
       hasBalance: false,
-      availableBalance: 0,
-      requiredAmount,
-      deficit: requiredAmount,
+      availableBalance: "0",
+      requiredAmount: fromWei(required),
+      deficit: fromWei(required),
     };
   }
 
-  const hasBalance = treasury.availableBalance >= requiredAmount;
-  const deficit = hasBalance ? 0 : requiredAmount - treasury.availableBalance;
+  const available = toWei(treasury.availableBalance);
+  const hasBalance = available >= required;
+  const deficit = hasBalance ? 0n : required - available;
 
   return {
     hasBalance,
-    availableBalance: treasury.availableBalance,
-    requiredAmount,
-    deficit,
+    availableBalance: fromWei(available),
+    requiredAmount: fromWei(required),
+    deficit: fromWei(deficit),
   };
 }
 
@@ -132,8 +136,8 @@ export async function getTreasuryHealth(
   strategyId: mongoose.Types.ObjectId | string,
 ): Promise<{
   status: "HEALTHY" | "WARNING" | "CRITICAL" | "EMPTY";
-  availableBalance: number;
-  lockedBalance: number;
+  availableBalance: string;
+  lockedBalance: string;
   utilizationRate: number; // Percentage of balance that is locked
   profitMargin: number; // Net P/L as percentage of total deposited
   message: string;
@@ -148,20 +152,24 @@ export async function getTreasuryHealth(
   if (!treasury) {
     return {
       status: "EMPTY",
-      availableBalance: 0,
-      lockedBalance: 0,
+      availableBalance: "0",
+      lockedBalance: "0",
       utilizationRate: 0,
       profitMargin: 0,
       message: "Treasury not initialized",
     };
   }
 
-  const totalBalance = treasury.availableBalance + treasury.lockedBalance;
+  // Ratios only need float precision
+  const availableBalance = toAmountNumber(treasury.availableBalance);
+  const lockedBalance = toAmountNumber(treasury.lockedBalance);
+  const totalDeposited = toAmountNumber(treasury.totalDeposited);
+  const totalBalance = availableBalance + lockedBalance;
   const utilizationRate =
-    totalBalance > 0 ? (treasury.lockedBalance / totalBalance) * 100 : 0;
+    totalBalance > 0 ? (lockedBalance / totalBalance) * 100 : 0;
   const profitMargin =
-    treasury.totalDeposited > 0
-      ? (treasury.netProfitLoss / treasury.totalDeposited) * 100
+    totalDeposited > 0
+      ? (toAmountNumber(treasury.netProfitLoss) / totalDeposited) * 100
       : 0;
 
   let status: "HEALTHY" | "WARNING" | "CRITICAL" | "EMPTY";
@@ -170,7 +178,7 @@ export async function getTreasuryHealth(
   if (totalBalance === 0) {
     status = "EMPTY";
     message = "Treasury has no funds";
-  } else if (treasury.availableBalance < 10) {
+  } else if (availableBalance < 10) {
     status = "CRITICAL";
     message = "Available balance critically low";
   } else if (utilizationRate > 80) {
@@ -183,8 +191,8 @@ export async function getTreasuryHealth(
 
   return {
     status,
-    availableBalance: treasury.availableBalance,
-    lockedBalance: treasury.lockedBalance,
+    availableBalance: toAmountString(treasury.availableBalance),
+    lockedBalance: toAmountString(treasury.lockedBalance),
     utilizationRate: formatAmount(utilizationRate),
     profitMargin: formatAmount(profitMargin),
     message,
@@ -0,0 +1,163 @@
+import { createHash, randomBytes } from "node:crypto";
+import { env } from "../env";
+import { User } from "../db/schema";
+import { generateTotpSecret, totpUri, verifyTotp } from "./totp";
+import logger from "./logger";
+
+const BACKUP_CODE_COUNT = 10;
+
+/**
+ * Hash of a backup code, ignoring case, dashes and spaces
+ */
+function hashBackupCode(code: string): string {
+  return createHash("sha256").update(code.toLowerCase().replace(/[^0-9a-f]/g, "")).digest("hex");
+}
+
+/**
+ * Two-Factor Authentication Service
+ *
+ * TOTP enrollment and backup codes. Enrollment takes two steps: `setup`
+ * creates a secret for the authenticator app, and `enable` turns 2FA on once
+ * the app produces a valid code for it.
+ */
+export class TwoFactorService {
+  /**
+   * New backup codes, e.g. "3f9a1-0c27e"
+   *
+   * @returns The codes to show the user, and the hashes to store
+   */
+  private static generateBackupCodes(): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString("hex");
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+    return { codes, hashes: codes.map(hashBackupCode) };
+  }
+
+  /**
+   * Start enrollment with a new secret
+   * Replaces any secret that was set up but never confirmed.
+   */
+  static async setup(userId: string): Promise<{ secret: string; otpauthUri: string }> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    if (user.twoFactorEnabled) {
+      throw new Error("Two-factor authentication is already enabled");
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = secret;
+    await user.save();
+
+    const account = user.email ?? user.walletAddresses[0];
+    return { secret, otpauthUri: totpUri(secret, account, env.TWO_FACTOR_ISSUER) };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   *
+   * @returns Backup codes, shown to the user only this once
+   */
+  static async enable(userId: string, code: string): Promise<string[]> {
+    const user = await User.findById(userId).select("+twoFactorPendingSecret");
+    if (!user) {
+      throw new Error("User not found");
+    }
+    if (user.twoFactorEnabled) {
+      throw new Error("Two-factor authentication is already enabled");
+    }
+    if (!user.twoFactorPendingSecret) {
+      throw new Error("Two-factor setup has not been started");
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) {
+      throw new Error("Invalid two-factor code");
+    }
+
+    const { codes, hashes } = this.generateBackupCodes();
+    user.twoFactorEnabled = true;
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorBackupCodes = hashes;
+    user.twoFactorLastStep = step;
+    await user.save();
+
+    logger.info({ userId }, "Two-factor authentication enabled");
+    return codes;
+  }
+
+  /**
+   * Check a TOTP or backup code for a user with 2FA enabled
+   *
+   * A TOTP code works once, and a backup code is used up.
+   */
+  static async verifyCode(userId: string, code: string): Promise<void> {
+    const user = await User.findById(userId).select("+twoFactorSecret");
+    if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+      throw new Error("Two-factor authentication is not enabled");
+    }
+
+    const trimmed = code.trim();
+    const step = verifyTotp(user.twoFactorSecret, trimmed);
+    if (step !== null) {
+      // Only one use per code, even when requests race
+      const used = await User.updateOne(
+        {
+          _id: user._id,
+          $or: [{ twoFactorLastStep: { $lt: step } }, { twoFactorLastStep: { $exists: false } }],
+        },
+        { $set: { twoFactorLastStep: step } },
+      );
+      if (used.modifiedCount === 1) {
+        return;
+      }
+      throw new Error("Invalid two-factor code");
+    }
+
+    const hash = hashBackupCode(trimmed);
+    const consumed = await User.updateOne(
+      { _id: user._id, twoFactorBackupCodes: hash },
+      { $pull: { twoFactorBackupCodes: hash } },
+    );
+    if (consumed.modifiedCount !== 1) {
+      throw new Error("Invalid two-factor code");
+    }
+
+    logger.info({ userId }, "Backup code used");
+  }
+
+  /**
+   * Turn 2FA off, after checking a current code
+   */
+  static async disable(userId: string, code: string): Promise<void> {
+    await this.verifyCode(userId, code);
+
+    await User.updateOne(
+      { _id: userId },
+      {
+        $set: { twoFactorEnabled: false, twoFactorBackupCodes: [] },
+        $unset: { twoFactorSecret: "", twoFactorPendingSecret: "", twoFactorLastStep: "" },
+      },
+    );
+
+    logger.info({ userId }, "Two-factor authentication disabled");
+  }
+
+  /**
+   * Replace the backup codes, after checking a current code
+   *
+   * @returns The new backup codes
+   */
+  static async regenerateBackupCodes(userId: string, code: string): Promise<string[]> {
+    await this.verifyCode(userId, code);
+
+    const { codes, hashes } = this.generateBackupCodes();
+    await User.updateOne({ _id: userId }, { $set: { twoFactorBackupCodes: hashes } });
+
+    logger.info({ userId }, "Backup codes regenerated");
+    return codes;
+  }
+}
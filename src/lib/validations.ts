@@ -1,4 +1,25 @@
 import { z } from "zod";
+import { DEFAULT_SYMBOL, SUPPORTED_SYMBOLS } from "../tools/types/market-data.types";
+import { strategyRulesSchema } from "./rule.engine";
+import { DEFAULT_EXECUTION_MODE, EXECUTION_MODES } from "../types/execution.types";
+
+const riskPct = z.number().min(0).max(100);
+
+/**
+ * Per-strategy overrides of the global risk limits (any subset)
+ */
+export const riskLimitOverridesSchema = z.object({
+  maxPositionPct: riskPct.positive("maxPositionPct must be positive"),
+  maxOpenTradesPerStrategy: z.number().int().min(1),
+  maxOpenTradesPerUser: z.number().int().min(1),
+  dailyLossLimitPct: riskPct,
+  minRiskReward: z.number().min(0),
+  minStopDistancePct: riskPct,
+  maxStopDistancePct: riskPct,
+  maxTakeProfitDistancePct: z.number().min(0),
+  maxEntryDeviationPct: riskPct,
+  lossCooldownMinutes: z.number().min(0),
+}).partial().strict();
 
 /**
  * Strategy Validation Schemas
@@ -19,6 +40,16 @@ export const createStrategySchema = z.object({
     .array(z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid indicator ID"))
     .min(1, "At least one indicator is required")
     .max(20, "Cannot select more than 20 indicators"),
+  symbol: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .pipe(z.enum(SUPPORTED_SYMBOLS, {
+      message: `Symbol must be one of: ${SUPPORTED_SYMBOLS.join(", ")}`,
+    }))
+    .default(DEFAULT_SYMBOL),
+  rules: strategyRulesSchema.optional(),
+  riskLimits: riskLimitOverridesSchema.optional(),
   timeframe: z.enum(["1m", "5m", "15m", "30m", "1h", "4h", "1d", "1w"], {
     message: "Invalid timeframe",
   }),
@@ -27,6 +58,10 @@ export const createStrategySchema = z.object({
     .default(0),
     // .positive("Amount must be positive")
     // .min(1, "Amount must be at least 1"),
+  executionMode: z
+    .enum(EXECUTION_MODES, { message: "Execution mode must be either PAPER or LIVE" })
+    .default(DEFAULT_EXECUTION_MODE),
+  allowShorts: z.boolean().default(false),
 });
 
 export const updateStrategySchema = z.object({
@@ -46,6 +81,16 @@ export const updateStrategySchema = z.object({
     .min(1, "At least one indicator is required")
     .max(20, "Cannot select more than 20 indicators")
     .optional(),
+  symbol: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .pipe(z.enum(SUPPORTED_SYMBOLS, {
+      message: `Symbol must be one of: ${SUPPORTED_SYMBOLS.join(", ")}`,
+    }))
+    .optional(),
+  rules: strategyRulesSchema.nullable().optional(),
+  riskLimits: riskLimitOverridesSchema.nullable().optional(),
   timeframe: z
     .enum(["1m", "5m", "15m", "30m", "1h", "4h", "1d", "1w"], {
       message: "Invalid timeframe",
@@ -56,8 +101,12 @@ export const updateStrategySchema = z.object({
     .positive("Amount must be positive")
     .min(1, "Amount must be at least 1")
     .optional(),
-  status: z.enum(["ACTIVE", "INACTIVE"], {
-    message: "Status must be either ACTIVE or INACTIVE",
+  executionMode: z
+    .enum(EXECUTION_MODES, { message: "Execution mode must be either PAPER or LIVE" })
+    .optional(),
+  allowShorts: z.boolean().optional(),
+  status: z.never({
+    message: "Status cannot be updated directly. Use the activate, pause or archive endpoints",
   }).optional(),
 });
 
@@ -65,6 +114,57 @@ export const getIndicatorsByCategorySchema = z.object({
   category: z.enum(["Trend", "Momentum", "Volatility", "Volume"]).optional(),
 });
 
+export const backtestSchema = z
+  .object({
+    startDate: z.coerce.date({ message: "Invalid start date" }),
+    endDate: z.coerce.date({ message: "Invalid end date" }),
+    initialCapital: z
+      .number()
+      .positive("Initial capital must be positive")
+      .optional(),
+    feeRate: z
+      .number()
+      .min(0, "Fee rate cannot be negative")
+      .max(0.1, "Fee rate cannot exceed 10%")
+      .default(0.001),
+    slippageBps: z
+      .number()
+      .min(0, "Slippage cannot be negative")
+      .max(1000, "Slippage cannot exceed 1000 bps")
+      .default(5),
+    stopLossPct: z
+      .number()
+      .positive("Stop loss must be positive")
+      .max(100, "Stop loss cannot exceed 100%")
+      .optional(),
+    takeProfitPct: z
+      .number()
+      .positive("Take profit must be positive")
+      .optional(),
+  })
+  .refine((data) => data.startDate < data.endDate, {
+    message: "Start date must be before end date",
+    path: ["endDate"],
+  })
+  .refine((data) => data.endDate.getTime() <= Date.now(), {
+    message: "End date cannot be in the future",
+    path: ["endDate"],
+  });
+
+export const agentRunsQuerySchema = z.object({
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, "Limit must be at least 1")
+    .max(100, "Limit cannot exceed 100")
+    .default(20),
+  status: z.enum(["COMPLETED", "SKIPPED", "FAILED"], {
+    message: "Status must be COMPLETED, SKIPPED or FAILED",
+  }).optional(),
+});
+
 export type CreateStrategyInput = z.infer<typeof createStrategySchema>;
 export type UpdateStrategyInput = z.infer<typeof updateStrategySchema>;
 export type GetIndicatorsByCategoryInput = z.infer<typeof getIndicatorsByCategorySchema>;
+export type BacktestInput = z.infer<typeof backtestSchema>;
+export type AgentRunsQuery = z.infer<typeof agentRunsQuerySchema>;
@@ -3,10 +3,12 @@ import type { NextFunction, Request, Response } from "express";
 import type ErrorResponse from "./interfaces/error-response";
 
 import { env } from "./env";
+import { User, IUser } from "./db/schema";
 import { AuthService } from "./lib/auth";
 import logger from "./lib/logger";
 
 export * from './middlewares/rate-limiter';
+export * from './middlewares/idempotency';
 
 /**
  * Extended Request interface to include user data
@@ -15,12 +17,44 @@ export interface AuthRequest extends Request {
   user?: {
     userId: string;
     email: string;
+    sessionId?: string;
+    twoFactorAt?: number; // From the token: when the user last passed 2FA (seconds since epoch)
+    role?: IUser["role"];
+  };
+}
+
+/**
+ * Check an access token, its session and its user
+ *
+ * @throws If the token is invalid, its session was revoked or the user is
+ * gone or deactivated
+ */
+async function verifyAccessToken(token: string): Promise<NonNullable<AuthRequest["user"]>> {
+  const payload = AuthService.verifyToken(token);
+
+  // Validate user still exists and is active
+  const user = await AuthService.validateUser(payload.userId);
+
+  // Every sign-in creates a session; tokens without one could never be revoked
+  if (!payload.sessionId) {
+    throw new Error("Invalid or expired token");
+  }
+
+  // Tokens from a revoked session (logout) stop working right away
+  await AuthService.validateSession(payload.sessionId);
+
+  return {
+    userId: payload.userId,
+    email: payload.email,
+    sessionId: payload.sessionId,
+    twoFactorAt: payload.twoFactorAt,
+    role: user.role,
   };
 }
 
 /**
  * Authentication middleware
- * Validates JWT token and attaches user to request
+ * Validates JWT token and its session, and attaches user to request
  */
 export async function authenticate(
   req: Request,
@@ -40,17 +74,8 @@ export async function authenticate(
 
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
 
-    // Verify token
-    const payload = AuthService.verifyToken(token);
-
-    // Validate user still exists and is active
-    await AuthService.validateUser(payload.userId);
-
     // Attach user to request
-    (req as AuthRequest).user = {
-      userId: payload.userId,
-      email: payload.email,
-    };
+    (req as AuthRequest).user = await verifyAccessToken(token);
 
     next();
   } catch (error) {
@@ -72,7 +97,8 @@ export async function authenticate(
 
 /**
  * Optional authentication middleware
- * Attaches user to request if token is valid, but doesn't fail if not present
+ * Attaches user to request if the token passes the same checks as
+ * `authenticate`, but doesn't fail if it is missing or invalid
  */
 export async function optionalAuth(
   req: Request,
@@ -83,13 +109,7 @@ export async function optionalAuth(
     const authHeader = req.headers.authorization;
 
     if (authHeader && authHeader.startsWith("Bearer ")) {
-      const token = authHeader.substring(7);
-      const payload = AuthService.verifyToken(token);
-
-      (req as AuthRequest).user = {
-        userId: payload.userId,
-        email: payload.email,
-      };
+      (req as AuthRequest).user = await verifyAccessToken(authHeader.substring(7));
     }
 
     next();
@@ -99,6 +119,97 @@ export async function optionalAuth(
   }
 }
 
+/**
+ * Role authorization middleware
+ * Must run after `authenticate`, which loads the user's current role (roles
+ * are not kept in tokens, so a change applies to the next request).
+ * Responds 403 unless the user has one of the roles.
+ *
+ * @example router.post("/withdrawals/:id/approve", authenticate, authorize("admin"), handler)
+ */
+export function authorize(...roles: IUser["role"][]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as AuthRequest).user;
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+    }
+
+    if (!user.role || !roles.includes(user.role)) {
+      return res.status(403).json({
+        success: false,
+        message: "Insufficient permissions",
+      });
+    }
+
+    next();
+  };
+}
+
+/**
+ * Verified email middleware
+ * Must run after `authenticate`. Rejects users who have not verified their
+ * email address with 403.
+ */
+export async function requireVerifiedEmail(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const user = await User.findById((req as AuthRequest).user?.userId).select("isEmailVerified");
+
+    if (!user?.isEmailVerified) {
+      return res.status(403).json({
+        success: false,
+        message: "Please verify your email address first",
+      });
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Recent two-factor check middleware
+ * Must run after `authenticate`. For users with 2FA enabled, requires an
+ * access token from a 2FA login or step-up within the last
+ * TWO_FACTOR_STEP_UP_MINUTES; otherwise responds 403 with
+ * `twoFactorRequired: true`. Users without 2FA are let through.
+ */
+export async function requireRecentTwoFactor(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  try {
+    const { userId, twoFactorAt } = (req as AuthRequest).user ?? {};
+    const user = await User.findById(userId).select("twoFactorEnabled");
+
+    if (!user?.twoFactorEnabled) {
+      return next();
+    }
+
+    const maxAgeMs = env.TWO_FACTOR_STEP_UP_MINUTES * 60 * 1000;
+    if (twoFactorAt && Date.now() - twoFactorAt * 1000 <= maxAgeMs) {
+      return next();
+    }
+
+    return res.status(403).json({
+      success: false,
+      message: "Two-factor verification required",
+      twoFactorRequired: true,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 export function notFound(req: Request, res: Response, next: NextFunction) {
   res.status(404);
   const error = new Error(`🔍 - Not Found - ${req.originalUrl}`);
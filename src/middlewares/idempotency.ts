@@ -0,0 +1,139 @@
+import { createHash } from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+import { env } from "../env";
+import { IdempotencyKey } from "../db/schema";
+import logger from "../lib/logger";
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * JSON with object keys sorted, so payloads that only differ in key order
+ * hash the same
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Hash identifying a request: same method, path and body give the same hash
+ */
+export function hashRequest(method: string, path: string, body: unknown): string {
+  return createHash("sha256").update(`${method} ${path} ${canonicalJson(body ?? {})}`).digest("hex");
+}
+
+/**
+ * Idempotency middleware for mutations
+ * Must run after `authenticate`: keys are scoped to the user.
+ *
+ * With an `Idempotency-Key` header, the first request is processed and its
+ * response stored; repeats with the same payload get the stored response
+ * (with `Idempotent-Replayed: true`) without being processed again. The
+ * same key with a different payload, or while the first request is still
+ * running, is rejected with 409. A running request holds the key for
+ * `IDEMPOTENCY_LOCK_SECONDS`; once that lapses (e.g. the process died
+ * mid-request) a retry takes the key over and is processed. Server errors
+ * (5xx) are not stored, so the request can be retried with the same key.
+ * Requests without the header are processed normally.
+ */
+export async function idempotent(req: Request, res: Response, next: NextFunction) {
+  const key = req.get("Idempotency-Key");
+  const userId = (req as Request & { user?: { userId: string } }).user?.userId;
+  if (key === undefined || !userId) {
+    return next();
+  }
+
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      message: `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+    });
+  }
+
+  const path = req.baseUrl + req.path;
+  const requestHash = hashRequest(req.method, path, req.body);
+  const lockedUntil = new Date(Date.now() + env.IDEMPOTENCY_LOCK_SECONDS * 1000);
+  const expiresAt = new Date(Date.now() + env.IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000);
+
+  try {
+    await IdempotencyKey.create({ userId, key, method: req.method, path, requestHash, lockedUntil, expiresAt });
+  } catch (error) {
+    if ((error as { code?: number }).code !== 11000) {
+      return next(error);
+    }
+
+    const existing = await IdempotencyKey.findOne({ userId, key });
+    if (!existing) {
+      return next(error);
+    }
+    if (existing.requestHash !== requestHash) {
+      return res.status(409).json({
+        success: false,
+        message: "Idempotency-Key has already been used with a different request",
+      });
+    }
+    if (existing.status === "COMPLETED") {
+      res.set("Idempotent-Replayed", "true");
+      return res.status(existing.responseStatus!).json(existing.responseBody);
+    }
+
+    // Take over a key whose request stopped holding it
+    const takenOver = await IdempotencyKey.findOneAndUpdate(
+      { userId, key, requestHash, status: "IN_PROGRESS", lockedUntil: { $not: { $gt: new Date() } } },
+      { $set: { lockedUntil, expiresAt } },
+    );
+    if (!takenOver) {
+      return res.status(409).json({
+        success: false,
+        message: "A request with this Idempotency-Key is still being processed",
+      });
+    }
+    logger.warn({ key, lockedUntil: takenOver.lockedUntil }, "Took over an expired idempotency key lock");
+  }
+
+  // Only the request holding the lock settles the key
+  const held = { userId, key, status: "IN_PROGRESS", lockedUntil };
+
+  // Store the response before sending it, so an immediate retry replays it
+  let settled = false;
+  const send = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    settled = true;
+    const store = res.statusCode < 500
+      ? IdempotencyKey.updateOne(
+        held,
+        {
+          $set: {
+            status: "COMPLETED",
+            responseStatus: res.statusCode,
+            responseBody: body === undefined ? undefined : JSON.parse(JSON.stringify(body)),
+          },
+          $unset: { lockedUntil: 1 },
+        },
+      )
+      : IdempotencyKey.deleteOne(held);
+
+    store
+      .catch(error => logger.error({ error, key }, "Failed to store idempotent response"))
+      .finally(() => send(body));
+    return res;
+  };
+
+  // Responses not sent as JSON are not stored; release the key
+  res.on("finish", () => {
+    if (!settled) {
+      IdempotencyKey.deleteOne(held).catch(error =>
+        logger.error({ error, key }, "Failed to release idempotency key"));
+    }
+  });
+
+  next();
+}
@@ -0,0 +1,39 @@
+/**
+ * Ledger Backfill Script
+ *
+ * Posts double-entry journal entries for treasury transactions booked
+ * before the journal existed, then prints the trial balance.
+ *
+ * Usage:
+ *   pnpm backfill-ledger
+ */
+
+import { connectDB, closeDBConnection } from "../db";
+import { backfillJournal, getTrialBalance } from "../services/ledger.service";
+import logger from "../lib/logger";
+
+async function backfillLedger() {
+  await connectDB();
+
+  try {
+    const posted = await backfillJournal();
+    const trialBalance = await getTrialBalance();
+
+    logger.info({ posted, trialBalance }, "Ledger backfilled");
+    return trialBalance;
+  } finally {
+    await closeDBConnection();
+  }
+}
+
+// Run the backfill
+if (require.main === module) {
+  backfillLedger()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      logger.error(error, "Failed to backfill ledger");
+      process.exit(1);
+    });
+}
+
+export { backfillLedger };
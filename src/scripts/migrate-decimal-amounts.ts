@@ -0,0 +1,130 @@
+/**
+ * Decimal Amount Migration Script
+ *
+ * Converts WETH amounts stored as JS numbers (doubles) to Decimal128 on
+ * treasuries, transactions, trades and journal entries. Each number is
+ * converted from its shortest decimal form (0.1 stays 0.1), so values are
+ * preserved as they were displayed; any float drift already in a balance
+ * is kept and shows up in the ledger reconciliation.
+ *
+ * Safe to re-run: documents without numeric amounts are skipped.
+ *
+ * Usage:
+ *   pnpm migrate-decimal-amounts
+ */
+
+import type { mongo } from "mongoose";
+import { connectDB, closeDBConnection } from "../db";
+import { JournalEntry, Trade, Transaction, Treasury } from "../db/schema";
+import { toDecimal128 } from "../lib/amount.utils";
+import logger from "../lib/logger";
+
+const NUMERIC_TYPES = ["double", "int", "long"];
+const BATCH_SIZE = 500;
+
+/**
+ * Amount fields of each collection
+ */
+const AMOUNT_FIELDS: { collection: mongo.Collection; fields: string[] }[] = [
+  {
+    collection: Treasury.collection,
+    fields: [
+      "totalDeposited",
+      "totalWithdrawn",
+      "availableBalance",
+      "lockedBalance",
+      "totalProfits",
+      "totalLosses",
+      "netProfitLoss",
+    ],
+  },
+  { collection: Transaction.collection, fields: ["amount", "balanceBefore", "balanceAfter"] },
+  { collection: Trade.collection, fields: ["amount", "realizedPnl"] },
+];
+
+async function flush(collection: mongo.Collection, operations: mongo.AnyBulkWriteOperation[]): Promise<number> {
+  if (operations.length === 0) {
+    return 0;
+  }
+  const result = await collection.bulkWrite(operations.splice(0), { ordered: false });
+  return result.modifiedCount;
+}
+
+/**
+ * Convert the numeric amount fields of one collection
+ */
+async function migrateFields(collection: mongo.Collection, fields: string[]): Promise<number> {
+  const cursor = collection.find({ $or: fields.map(field => ({ [field]: { $type: NUMERIC_TYPES } })) });
+  const operations: mongo.AnyBulkWriteOperation[] = [];
+  let migrated = 0;
+
+  for await (const doc of cursor) {
+    const update: Record<string, unknown> = {};
+    for (const field of fields) {
+      if (typeof doc[field] === "number") {
+        update[field] = toDecimal128(doc[field]);
+      }
+    }
+
+    operations.push({ updateOne: { filter: { _id: doc._id }, update: { $set: update } } });
+    if (operations.length >= BATCH_SIZE) {
+      migrated += await flush(collection, operations);
+    }
+  }
+
+  return migrated + (await flush(collection, operations));
+}
+
+/**
+ * Convert numeric posting amounts on journal entries
+ */
+async function migratePostings(collection: mongo.Collection): Promise<number> {
+  const cursor = collection.find({ "postings.amount": { $type: NUMERIC_TYPES } });
+  const operations: mongo.AnyBulkWriteOperation[] = [];
+  let migrated = 0;
+
+  for await (const doc of cursor) {
+    const postings = (doc.postings as { account: string; amount: unknown }[]).map(posting => ({
+      ...posting,
+      amount: typeof posting.amount === "number" ? toDecimal128(posting.amount) : posting.amount,
+    }));
+
+    operations.push({ updateOne: { filter: { _id: doc._id }, update: { $set: { postings } } } });
+    if (operations.length >= BATCH_SIZE) {
+      migrated += await flush(collection, operations);
+    }
+  }
+
+  return migrated + (await flush(collection, operations));
+}
+
+/**
+ * Migrate every collection
+ *
+ * @returns Documents converted per collection
+ */
+async function migrateDecimalAmounts(): Promise<Record<string, number>> {
+  const migrated: Record<string, number> = {};
+
+  for (const { collection, fields } of AMOUNT_FIELDS) {
+    migrated[collection.collectionName] = await migrateFields(collection, fields);
+  }
+  migrated[JournalEntry.collection.collectionName] = await migratePostings(JournalEntry.collection);
+
+  logger.info({ migrated }, "Decimal amount migration complete");
+  return migrated;
+}
+
+// Run the migration
+if (require.main === module) {
+  connectDB()
+    .then(() => migrateDecimalAmounts())
+    .then(() => closeDBConnection())
+    .then(() => process.exit(0))
+    .catch((error) => {
+      logger.error(error, "Failed to migrate amounts to Decimal128");
+      process.exit(1);
+    });
+}
+
+export { migrateDecimalAmounts };
@@ -0,0 +1,48 @@
+/**
+ * Market Data Recording Script
+ *
+ * Captures live Binance candles into a JSON fixture that the replay
+ * market data source can serve offline.
+ *
+ * Usage:
+ *   pnpm record-market-data <interval> [limit] [outputDir] [symbol]
+ *   pnpm record-market-data 15m 500 test/fixtures/market-data SOLUSDT
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { env } from "../env";
+import { DEFAULT_SYMBOL } from "../tools/types/market-data.types";
+import { BinanceMarketDataSource } from "../tools/sources";
+import logger from "../lib/logger";
+
+async function recordMarketData(
+  interval: string = "15m",
+  limit: number = 500,
+  outputDir: string = env.MARKET_DATA_REPLAY_DIR,
+  symbol: string = DEFAULT_SYMBOL,
+) {
+  const source = new BinanceMarketDataSource(env.BINANCE_API_URL);
+  const candles = await source.getCandles({ symbol, interval, limit });
+
+  await mkdir(outputDir, { recursive: true });
+  const filePath = path.join(outputDir, `${symbol}-${interval}.json`);
+  await writeFile(filePath, `${JSON.stringify(candles, null, 2)}\n`);
+
+  logger.info({ filePath, candleCount: candles.length }, "Market data recorded");
+  return filePath;
+}
+
+// Run the recorder
+if (require.main === module) {
+  const [interval, limit, outputDir, symbol] = process.argv.slice(2);
+
+  recordMarketData(interval, limit ? Number(limit) : undefined, outputDir, symbol)
+    .then(() => process.exit(0))
+    .catch((error) => {
+      logger.error(error, "Failed to record market data");
+      process.exit(1);
+    });
+}
+
+export { recordMarketData };
@@ -0,0 +1,55 @@
+/**
+ * Set User Role Script
+ *
+ * Gives a user the user, support or admin role. Admins can change roles
+ * through the admin API; this script is how the first admin is created.
+ *
+ * Usage:
+ *   pnpm set-user-role <email> <user|support|admin>
+ */
+
+import { connectDB, closeDBConnection } from "../db";
+import { User, IUser } from "../db/schema";
+import { AuthService } from "../lib/auth";
+import logger from "../lib/logger";
+
+const ROLES: IUser["role"][] = ["user", "support", "admin"];
+
+async function setUserRole(email: string, role: string) {
+  if (!ROLES.includes(role as IUser["role"])) {
+    throw new Error(`Invalid role. Expected one of: ${ROLES.join(", ")}`);
+  }
+
+  await connectDB();
+
+  try {
+    const user = await User.findOne({ email: email.toLowerCase() });
+    if (!user) {
+      throw new Error(`No user with email ${email}`);
+    }
+
+    const { previousRole } = await AuthService.setUserRole(user._id.toString(), role as IUser["role"]);
+    logger.info({ email, previousRole, role }, "Role set");
+  } finally {
+    await closeDBConnection();
+  }
+}
+
+// Run the script
+if (require.main === module) {
+  const [email, role] = process.argv.slice(2);
+
+  if (!email || !role) {
+    logger.error("Usage: pnpm set-user-role <email> <user|support|admin>");
+    process.exit(1);
+  }
+
+  setUserRole(email, role)
+    .then(() => process.exit(0))
+    .catch((error) => {
+      logger.error(error, "Failed to set user role");
+      process.exit(1);
+    });
+}
+
+export { setUserRole };
@@ -0,0 +1,87 @@
+/**
+ * Admin Audit Service
+ *
+ * Records who did what through the admin API. Entries are written after
+ * the action succeeds; a failed write is logged but does not undo or fail
+ * the action.
+ */
+
+import mongoose from "mongoose";
+import { AdminAuditLog, IAdminAuditLog } from "../db/schema";
+import logger from "../lib/logger";
+
+export interface AdminActor {
+  userId: string;
+  email?: string;
+  role: IAdminAuditLog["actorRole"];
+  ip?: string;
+}
+
+export interface AdminActionTarget {
+  type: string;
+  id?: string;
+}
+
+export interface AdminAuditQueryOptions {
+  actorId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  limit?: number;
+  skip?: number;
+}
+
+/**
+ * Record an action taken by an admin or support user
+ */
+export async function recordAdminAction(
+  actor: AdminActor,
+  action: string,
+  target?: AdminActionTarget,
+  details?: Record<string, unknown>,
+): Promise<void> {
+  try {
+    await AdminAuditLog.create({
+      actorId: actor.userId,
+      actorEmail: actor.email,
+      actorRole: actor.role,
+      action,
+      targetType: target?.type,
+      targetId: target?.id,
+      details,
+      ip: actor.ip,
+    });
+  } catch (error) {
+    logger.error({ error, actorId: actor.userId, action, target }, "Failed to record admin action");
+  }
+}
+
+/**
+ * Audit log entries matching the filters, newest first
+ */
+export async function listAdminActions(
+  options: AdminAuditQueryOptions = {},
+): Promise<{ entries: IAdminAuditLog[]; total: number }> {
+  const { actorId, action, targetType, targetId, limit = 50, skip = 0 } = options;
+
+  const query: any = {};
+  if (actorId) {
+    query.actorId = new mongoose.Types.ObjectId(actorId);
+  }
+  if (action) {
+    query.action = action;
+  }
+  if (targetType) {
+    query.targetType = targetType;
+  }
+  if (targetId) {
+    query.targetId = targetId;
+  }
+
+  const [entries, total] = await Promise.all([
+    AdminAuditLog.find(query).sort({ createdAt: -1 }).limit(limit).skip(skip),
+    AdminAuditLog.countDocuments(query),
+  ]);
+
+  return { entries, total };
+}
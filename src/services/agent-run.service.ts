@@ -0,0 +1,86 @@
+/**
+ * Agent Run Service
+ *
+ * Persists every strategy evaluation of the trading cycle (including
+ * HOLD, REJECT, skipped and failed runs) with the prompt, each agent's
+ * output, tool calls and timings.
+ */
+
+import mongoose from "mongoose";
+import { AgentRun, IAgentRun, Strategy } from "../db/schema";
+import type { AgentRunTrace } from "../lib/agent-trace";
+import type { AgentRunsQuery } from "../lib/validations";
+import type { RuleEvaluation } from "../types/rule.types";
+import type { PriceVerification, RiskAssessment } from "../types/risk.types";
+import logger from "../lib/logger";
+
+/**
+ * Outcome of one strategy evaluation
+ */
+export interface AgentRunRecord {
+  userId: string;
+  strategyId: string;
+  status: IAgentRun["status"];
+  startedAt: Date;
+  sessionId?: string;
+  input?: string;
+  trace?: AgentRunTrace;
+  ruleEvaluation?: RuleEvaluation;
+  priceVerification?: PriceVerification;
+  riskAssessment?: RiskAssessment;
+  decision?: IAgentRun["decision"];
+  signal?: IAgentRun["signal"];
+  tradeId?: string;
+  error?: string;
+}
+
+/**
+ * Save a run. Never throws: losing the audit record must not fail the cycle.
+ */
+export async function recordAgentRun(record: AgentRunRecord): Promise<IAgentRun | null> {
+  const completedAt = new Date();
+
+  try {
+    return await AgentRun.create({
+      userId: record.userId,
+      strategyId: record.strategyId,
+      sessionId: record.sessionId,
+      status: record.status,
+      input: record.input,
+      stages: record.trace?.stages ?? [],
+      toolCalls: record.trace?.toolCalls ?? [],
+      ruleEvaluation: record.ruleEvaluation,
+      priceVerification: record.priceVerification,
+      riskAssessment: record.riskAssessment,
+      decision: record.decision,
+      signal: record.signal,
+      tradeId: record.tradeId ? new mongoose.Types.ObjectId(record.tradeId) : undefined,
+      error: record.error,
+      startedAt: record.startedAt,
+      completedAt,
+      durationMs: completedAt.getTime() - record.startedAt.getTime(),
+    });
+  } catch (error) {
+    logger.error({ error, strategyId: record.strategyId }, "Failed to record agent run");
+    return null;
+  }
+}
+
+/**
+ * List a strategy's runs, newest first
+ */
+export async function getStrategyRuns(strategyId: string, userId: string, query: AgentRunsQuery) {
+  const strategy = await Strategy.exists({ _id: strategyId, userId });
+  if (!strategy) {
+    throw new Error("Strategy not found");
+  }
+
+  const filter: Record<string, unknown> = { strategyId, userId };
+  if (query.status) {
+    filter.status = query.status;
+  }
+
+  return AgentRun.find(filter)
+    .sort({ createdAt: -1 })
+    .limit(query.limit);
+}
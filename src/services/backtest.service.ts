@@ -0,0 +1,287 @@
+/**
+ * Backtest Service
+ *
+ * Replays a stored strategy over historical candles and persists the
+ * result as a Backtest document.
+ *
+ * Strategies with structured rules are evaluated with the rule engine,
+ * exactly as the live executor does. Otherwise the strategy's indicators
+ * are evaluated with the same tools the live analyzer uses and combined
+ * by majority vote. Each tool runs against an in-memory source whose
+ * clock is stepped bar by bar, so no indicator can see a candle that had
+ * not closed yet at the bar being evaluated.
+ */
+
+import { Backtest, IIndicator, Strategy } from "../db/schema";
+import {
+  accumulationDistributionTool,
+  aroonTool,
+  atrTool,
+  awesomeOscillatorTool,
+  bollingerBandsTool,
+  bollingerBandWidthTool,
+  chaikinMoneyFlowTool,
+  chandelierExitTool,
+  donchianChannelTool,
+  easeOfMovementTool,
+  exponentialMovingAverageTool,
+  forceIndexTool,
+  keltnerChannelTool,
+  macdTool,
+  moneyFlowIndexTool,
+  onBalanceVolumeTool,
+  parabolicSarTool,
+  ppoTool,
+  rocTool,
+  rsiTool,
+  simpleMovingAverageTool,
+  stochasticTool,
+  vwapTool,
+  williamsRTool,
+  InMemoryMarketDataSource,
+  INTERVAL_MS,
+  marketDataProvider,
+  withMarketDataSource,
+  SUPPORTED_SYMBOLS,
+} from "../tools";
+import type { Candle, TradingPair, TradingSignal } from "../tools";
+import type { IndicatorTool } from "../tools/indicator-tool";
+import { runBacktest } from "../lib/backtest.engine";
+import { createRuleContext, evaluateRuleGroup, getRuleIndicators } from "../lib/rule.engine";
+import type { BacktestInput } from "../lib/validations";
+import type { BacktestSignal } from "../types/backtest.types";
+import type { StrategyRules } from "../types/rule.types";
+import logger from "../lib/logger";
+
+/**
+ * Intervals the indicator tools accept
+ */
+const BACKTEST_TIMEFRAMES = ["1m", "5m", "15m", "1h", "4h", "1d"] as const;
+
+type BacktestTimeframe = typeof BACKTEST_TIMEFRAMES[number];
+
+function isBacktestTimeframe(timeframe: string): timeframe is BacktestTimeframe {
+  return BACKTEST_TIMEFRAMES.some(supported => supported === timeframe);
+}
+
+function isTradingPair(symbol: string): symbol is TradingPair {
+  return SUPPORTED_SYMBOLS.some(supported => supported === symbol);
+}
+
+/**
+ * Indicator abbreviation -> tool that computes it
+ */
+const BACKTEST_TOOLS: Record<string, IndicatorTool<{ interval: BacktestTimeframe; symbol: TradingPair }, { signal: TradingSignal }>> = {
+  SMA: simpleMovingAverageTool,
+  EMA: exponentialMovingAverageTool,
+  MACD: macdTool,
+  PSAR: parabolicSarTool,
+  AROON: aroonTool,
+  RSI: rsiTool,
+  STOCH: stochasticTool,
+  WILLR: williamsRTool,
+  ROC: rocTool,
+  AO: awesomeOscillatorTool,
+  PPO: ppoTool,
+  AD: accumulationDistributionTool,
+  CMF: chaikinMoneyFlowTool,
+  EMV: easeOfMovementTool,
+  FI: forceIndexTool,
+  MFI: moneyFlowIndexTool,
+  OBV: onBalanceVolumeTool,
+  VWAP: vwapTool,
+  ATR: atrTool,
+  BB: bollingerBandsTool,
+  BBW: bollingerBandWidthTool,
+  KC: keltnerChannelTool,
+  DC: donchianChannelTool,
+  CE: chandelierExitTool,
+};
+
+/**
+ * Candles loaded before the start date so indicators are warmed up on the first bar
+ */
+const WARMUP_CANDLES = 150;
+
+/**
+ * Upper bound on candles replayed in one run
+ */
+export const MAX_BACKTEST_CANDLES = 5000;
+
+/**
+ * Combine the per-indicator signals for one bar into a decision.
+ * A strict majority of BUY votes enters, a strict majority of SELL votes exits.
+ */
+export function majoritySignal(votes: BacktestSignal[]): BacktestSignal {
+  if (votes.length === 0) {
+    return "HOLD";
+  }
+  const buys = votes.filter(v => v === "BUY").length;
+  const sells = votes.filter(v => v === "SELL").length;
+  if (buys * 2 > votes.length) return "BUY";
+  if (sells * 2 > votes.length) return "SELL";
+  return "HOLD";
+}
+
+/**
+ * Decide each bar from structured rules: entry opens, exit closes
+ * @param rules - Strategy rules
+ * @param history - Warm-up candles followed by the backtest range
+ * @param firstIndex - Index of the first candle in the range
+ */
+export function ruleSignals(rules: StrategyRules, history: Candle[], firstIndex: number): BacktestSignal[] {
+  const context = createRuleContext(history);
+  const signals: BacktestSignal[] = [];
+
+  for (let i = firstIndex; i < history.length; i++) {
+    if (evaluateRuleGroup(rules.exit, context, i).matched) {
+      signals.push("SELL");
+    } else if (evaluateRuleGroup(rules.entry, context, i).matched) {
+      signals.push("BUY");
+    } else {
+      signals.push("HOLD");
+    }
+  }
+  return signals;
+}
+
+/**
+ * Decide each bar by majority vote of the strategy's indicator tools
+ */
+async function toolSignals(
+  indicators: string[],
+  history: Candle[],
+  candles: Candle[],
+  symbol: TradingPair,
+  timeframe: BacktestTimeframe,
+): Promise<BacktestSignal[]> {
+  // Step the replay clock through the range, one decision per closed bar
+  const replay = new InMemoryMarketDataSource();
+  replay.setSeries(symbol, timeframe, history);
+
+  return withMarketDataSource(replay, async () => {
+    const decisions: BacktestSignal[] = [];
+    for (const candle of candles) {
+      replay.seek(candle.timestamp);
+
+      const votes: BacktestSignal[] = [];
+      for (const abbr of indicators) {
+        try {
+          const result = await BACKTEST_TOOLS[abbr].analyze({ interval: timeframe, symbol });
+          votes.push(result.signal);
+        } catch {
+          // A tool that fails (e.g. not enough history yet) abstains
+        }
+      }
+      decisions.push(majoritySignal(votes));
+    }
+    return decisions;
+  });
+}
+
+/**
+ * Run a backtest for a strategy owned by the user
+ */
+export async function runStrategyBacktest(strategyId: string, userId: string, input: BacktestInput) {
+  const strategy = await Strategy.findOne({ _id: strategyId, userId }).populate<{ indicators: IIndicator[] }>("indicators");
+  if (!strategy) {
+    throw new Error("Strategy not found");
+  }
+
+  const { symbol, timeframe } = strategy;
+  if (!isBacktestTimeframe(timeframe)) {
+    throw new Error(`Timeframe ${timeframe} is not supported for backtesting`);
+  }
+  if (!isTradingPair(symbol)) {
+    throw new Error(`Symbol ${symbol} is not supported for backtesting`);
+  }
+
+  const rules = strategy.rules ?? null;
+  const abbreviations = strategy.indicators.map(indicator => indicator.abbreviation);
+  const indicatorsUsed: string[] = rules
+    ? getRuleIndicators(rules)
+    : abbreviations.filter(abbr => BACKTEST_TOOLS[abbr]);
+  const indicatorsSkipped = rules ? [] : abbreviations.filter(abbr => !BACKTEST_TOOLS[abbr]);
+  if (!rules && indicatorsUsed.length === 0) {
+    throw new Error("Strategy has no indicators that can be backtested");
+  }
+
+  const startTime = input.startDate.getTime();
+  const endTime = input.endDate.getTime();
+  const intervalMs = INTERVAL_MS[timeframe];
+  if ((endTime - startTime) / intervalMs > MAX_BACKTEST_CANDLES) {
+    throw new Error(`Backtest range exceeds ${MAX_BACKTEST_CANDLES} candles`);
+  }
+
+  const history = await marketDataProvider.getHistoricalCandles(
+    symbol,
+    timeframe,
+    startTime - WARMUP_CANDLES * intervalMs,
+    endTime,
+    MAX_BACKTEST_CANDLES + WARMUP_CANDLES,
+  );
+  const candles = history.filter(c => c.timestamp >= startTime);
+  if (candles.length === 0) {
+    throw new Error("No market data available for the requested range");
+  }
+
+  logger.info(
+    { strategyId, userId, symbol, timeframe, candleCount: candles.length, indicatorsUsed, hasRules: !!rules },
+    "Starting backtest",
+  );
+
+  const signals = rules
+    ? ruleSignals(rules, history, history.length - candles.length)
+    : await toolSignals(indicatorsUsed, history, candles, symbol, timeframe);
+
+  const config = {
+    initialCapital: input.initialCapital ?? (strategy.amount > 0 ? strategy.amount : 1000),
+    feeRate: input.feeRate,
+    slippageBps: input.slippageBps,
+    stopLossPct: input.stopLossPct,
+    takeProfitPct: input.takeProfitPct,
+  };
+  const result = runBacktest(candles, signals, config, timeframe);
+
+  const backtest = await Backtest.create({
+    userId,
+    strategyId: strategy._id,
+    symbol,
+    timeframe,
+    startDate: input.startDate,
+    endDate: input.endDate,
+    config,
+    signalSource: rules ? "RULES" : "INDICATOR_VOTES",
+    indicatorsUsed,
+    indicatorsSkipped,
+    candleCount: candles.length,
+    metrics: result.metrics,
+    trades: result.trades.map(trade => ({
+      ...trade,
+      entryTime: new Date(trade.entryTime),
+      exitTime: new Date(trade.exitTime),
+    })),
+    equityCurve: result.equityCurve.map(point => ({
+      timestamp: new Date(point.timestamp),
+      equity: point.equity,
+    })),
+  });
+
+  logger.info({ backtestId: backtest._id, strategyId, metrics: result.metrics }, "Backtest completed");
+  return backtest;
+}
+
+/**
+ * List previous backtests for a strategy owned by the user (without trades or equity curve)
+ */
+export async function getStrategyBacktests(strategyId: string, userId: string, limit: number = 20) {
+  const strategy = await Strategy.exists({ _id: strategyId, userId });
+  if (!strategy) {
+    throw new Error("Strategy not found");
+  }
+
+  return Backtest.find({ strategyId, userId })
+    .select("-trades -equityCurve")
+    .sort({ createdAt: -1 })
+    .limit(limit);
+}
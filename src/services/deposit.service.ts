@@ -0,0 +1,170 @@
+/**
+ * Deposit Service
+ *
+ * Deposits reported by the frontend are recorded as PENDING transactions
+ * and only credited once the TransferVerifier finds the WETH transfer to
+ * the treasury contract on chain with enough confirmations. The contract
+ * must be one of TREASURY_CONTRACT_ADDRESSES, and the WETH must come from
+ * one of the depositing user's linked wallets. Deposits that
+ * are not confirmed yet are checked again by the deposit verification
+ * cron; rejected ones are marked FAILED. Without CHAIN_RPC_URL no verifier
+ * is registered and deposits stay PENDING.
+ */
+
+import mongoose from "mongoose";
+import { Transaction, Treasury, User, ITransaction, ITreasury } from "../db/schema";
+import { completeDeposit, failDeposit, isTreasuryContract, recordDeposit } from "./treasury.service";
+import { getTransferVerifier } from "./transfer.verifier";
+import { toAmountString, type AmountValue } from "../lib/amount.utils";
+import type { TransferVerification } from "../types/transfer.types";
+import logger from "../lib/logger";
+
+/**
+ * Outcome of checking one deposit
+ */
+export interface DepositCheckResult {
+  treasury: ITreasury;
+  transaction: ITransaction; // PENDING, COMPLETED or FAILED
+  verification?: TransferVerification; // Missing when not checked (no verifier or RPC failure)
+  message: string;
+}
+
+/**
+ * Check a PENDING deposit on chain, and credit or reject it
+ *
+ * RPC failures leave the deposit PENDING for the next run.
+ */
+export async function verifyDeposit(pending: ITransaction): Promise<DepositCheckResult> {
+  const treasury = await Treasury.findById(pending.treasuryId);
+  if (!treasury) {
+    throw new Error("Treasury not found");
+  }
+
+  const awaiting = (verification?: TransferVerification): DepositCheckResult => ({
+    treasury,
+    transaction: pending,
+    verification,
+    message: `Deposit of ${toAmountString(pending.amount)} WETH is awaiting on-chain confirmation`,
+  });
+
+  const verifier = getTransferVerifier();
+  if (!verifier) {
+    return awaiting();
+  }
+
+  const reject = async (reason: string): Promise<DepositCheckResult> => {
+    const failed = await failDeposit(pending._id as mongoose.Types.ObjectId, reason);
+    return {
+      treasury,
+      transaction: failed ?? pending,
+      verification: { status: "REJECTED", reason, confirmations: 0 },
+      message: `Deposit rejected: ${reason}`,
+    };
+  };
+
+  // The address came from the client: only credit transfers to a known treasury contract
+  if (!isTreasuryContract(treasury.contractAddress)) {
+    return reject(`${treasury.contractAddress} is not an allow-listed treasury contract`);
+  }
+
+  // Treasury contracts are shared, so the transfer must come from the depositor
+  const user = await User.findById(treasury.userId).select("walletAddresses");
+  if (!user?.walletAddresses.length) {
+    return reject("Deposits must be sent from a wallet linked to the account");
+  }
+
+  let verification: TransferVerification;
+  try {
+    verification = await verifier.verify({
+      txHash: pending.txHash!,
+      to: treasury.contractAddress,
+      amount: toAmountString(pending.amount),
+      from: user.walletAddresses,
+    });
+  } catch (error) {
+    logger.warn({ error, transactionId: pending._id, txHash: pending.txHash }, "Deposit verification failed, will retry");
+    return awaiting();
+  }
+
+  if (verification.status === "PENDING") {
+    return awaiting(verification);
+  }
+
+  if (verification.status === "REJECTED") {
+    const failed = await failDeposit(pending._id as mongoose.Types.ObjectId, verification.reason!);
+    return {
+      treasury,
+      transaction: failed ?? pending,
+      verification,
+      message: `Deposit rejected: ${verification.reason}`,
+    };
+  }
+
+  const details = {
+    confirmations: verification.confirmations,
+    blockNumber: verification.blockNumber,
+    from: verification.from,
+  };
+
+  try {
+    const result = await completeDeposit(pending._id as mongoose.Types.ObjectId, details);
+    return { treasury: result.treasury, transaction: result.transaction, verification, message: result.message };
+  } catch (error) {
+    // Another deposit with this txHash was credited first
+    if (error instanceof Error && error.message === "Deposit transaction has already been credited") {
+      const failed = await failDeposit(pending._id as mongoose.Types.ObjectId, error.message);
+      return {
+        treasury,
+        transaction: failed ?? pending,
+        verification: { ...verification, status: "REJECTED", reason: error.message },
+        message: `Deposit rejected: ${error.message}`,
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Record a deposit reported by the user and check it on chain right away
+ *
+ * Confirmed deposits are credited immediately; others are left PENDING
+ * (or FAILED when rejected).
+ */
+export async function notifyDeposit(
+  strategyId: mongoose.Types.ObjectId | string,
+  userId: mongoose.Types.ObjectId | string,
+  amount: AmountValue,
+  txHash: string,
+  contractAddress: string,
+): Promise<DepositCheckResult> {
+  const { transaction } = await recordDeposit(strategyId, userId, amount, txHash, contractAddress);
+  return verifyDeposit(transaction);
+}
+
+/**
+ * Check every PENDING deposit, oldest first
+ */
+export async function verifyPendingDeposits(): Promise<{
+  pending: number;
+  completed: number;
+  failed: number;
+}> {
+  const deposits = await Transaction.find({ type: "DEPOSIT", status: "PENDING" }).sort({ createdAt: 1 });
+  let completed = 0;
+  let failed = 0;
+
+  for (const pending of deposits) {
+    try {
+      const result = await verifyDeposit(pending);
+      if (result.transaction.status === "COMPLETED") {
+        completed++;
+      } else if (result.transaction.status === "FAILED") {
+        failed++;
+      }
+    } catch (error) {
+      logger.error({ error, transactionId: pending._id }, "Failed to verify deposit");
+    }
+  }
+
+  return { pending: deposits.length, completed, failed };
+}
@@ -0,0 +1,48 @@
+/**
+ * Execution Adapters
+ *
+ * - PAPER: simulated fills against market data (default)
+ * - LIVE: 1inch swaps, registered once the 1inch API key, execution wallet
+ *   and RPC URL are configured (until then LIVE trades stay PENDING)
+ */
+
+import { env } from "../../env";
+import type { ExecutionAdapter, ExecutionMode } from "../../types/execution.types";
+import { OneInchExecutor } from "./oneinch.executor";
+import { PaperExecutor } from "./paper.executor";
+
+export { MAINNET_SWAP_PAIRS, OneInchExecutor, fromBaseUnits, toBaseUnits } from "./oneinch.executor";
+export { PaperExecutor } from "./paper.executor";
+
+const adapters = new Map<ExecutionMode, ExecutionAdapter>([
+  ["PAPER", new PaperExecutor({ slippageBps: env.PAPER_SLIPPAGE_BPS, feeRate: env.PAPER_FEE_RATE })],
+]);
+
+if (env.ONEINCH_API_KEY && env.EXECUTION_WALLET_ADDRESS && env.EXECUTION_RPC_URL) {
+  adapters.set("LIVE", new OneInchExecutor({
+    baseUrl: env.ONEINCH_API_URL,
+    apiKey: env.ONEINCH_API_KEY,
+    chainId: env.ONEINCH_CHAIN_ID,
+    walletAddress: env.EXECUTION_WALLET_ADDRESS,
+    rpcUrl: env.EXECUTION_RPC_URL,
+    slippagePct: env.ONEINCH_SLIPPAGE_PCT,
+    maxRetries: env.ONEINCH_MAX_RETRIES,
+    retryDelayMs: 1000,
+    receiptPollMs: 3000,
+    receiptTimeoutMs: 5 * 60 * 1000,
+  }));
+}
+
+/**
+ * Adapter that fills trades for an execution mode, or null if none is configured
+ */
+export function getExecutionAdapter(mode: ExecutionMode): ExecutionAdapter | null {
+  return adapters.get(mode) ?? null;
+}
+
+/**
+ * Replace the adapter for an execution mode (mainly for tests)
+ */
+export function setExecutionAdapter(adapter: ExecutionAdapter) {
+  adapters.set(adapter.mode, adapter);
+}
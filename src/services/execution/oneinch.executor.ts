@@ -0,0 +1,267 @@
+import axios, { type AxiosInstance } from "axios";
+import logger from "../../lib/logger";
+import { findTransfers, type TransactionReceipt } from "../transfer.verifier";
+import { ORDER_REVERTED } from "../../types/execution.types";
+import type { ExecutionAdapter, ExecutionFill, ExecutionOrder } from "../../types/execution.types";
+
+/**
+ * ERC-20 token the executor swaps
+ */
+export interface SwapToken {
+  address: string;
+  decimals: number;
+}
+
+/**
+ * On-chain tokens for a trading pair: `quote` is spent on BUY, `base` on SELL
+ */
+export interface SwapPair {
+  base: SwapToken;
+  quote: SwapToken;
+}
+
+const USDT: SwapToken = { address: "0xdAC17F958D2ee523a2206206994597C13D831ec7", decimals: 6 };
+const WETH: SwapToken = { address: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", decimals: 18 };
+const WBTC: SwapToken = { address: "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599", decimals: 8 };
+
+/**
+ * Ethereum mainnet tokens for the supported pairs (ETH/BTC pairs trade the wrapped tokens)
+ */
+export const MAINNET_SWAP_PAIRS: Record<string, SwapPair> = {
+  WETHUSDT: { base: WETH, quote: USDT },
+  ETHUSDT: { base: WETH, quote: USDT },
+  WBTCUSDT: { base: WBTC, quote: USDT },
+  BTCUSDT: { base: WBTC, quote: USDT },
+};
+
+export interface OneInchExecutorOptions {
+  baseUrl: string; // 1inch API root, e.g. https://api.1inch.dev
+  apiKey?: string;
+  chainId: number;
+  walletAddress: string; // Account the swap is sent from
+  rpcUrl: string; // Node that signs and broadcasts for walletAddress (eth_sendTransaction)
+  slippagePct: number; // Max slippage accepted by 1inch, in percent
+  maxRetries: number; // Extra attempts for quote/swap requests
+  retryDelayMs: number; // First retry delay; doubles on every attempt
+  receiptPollMs: number; // Delay between receipt checks once the swap is sent
+  receiptTimeoutMs: number; // How long to wait for the swap to be mined
+  pairs?: Record<string, SwapPair>;
+  http?: AxiosInstance; // Replaces the default client (tests)
+}
+
+/**
+ * Transaction returned by the 1inch swap endpoint
+ */
+interface SwapTransaction {
+  from: string;
+  to: string;
+  data: string;
+  value: string;
+  gas: number;
+  gasPrice: string;
+}
+
+/**
+ * Live execution through the 1inch swap API
+ *
+ * For every order it requests a quote, builds the swap transaction for
+ * the configured wallet, broadcasts it through `rpcUrl` and waits for its
+ * receipt. The fill is what the receipt's Transfer events paid the
+ * wallet, not the quote. Quote and swap requests are retried on network
+ * errors, 429 and 5xx; the broadcast is never retried so a swap cannot be
+ * sent twice. A reverted swap throws `ORDER_REVERTED`; any other error
+ * after the broadcast leaves the outcome unknown. Spot swaps
+ * cannot borrow, so SHORT positions are not supported.
+ */
+export class OneInchExecutor implements ExecutionAdapter {
+  readonly mode = "LIVE";
+  readonly supportsShorts = false;
+
+  private readonly http: AxiosInstance;
+  private readonly pairs: Record<string, SwapPair>;
+
+  constructor(private readonly options: OneInchExecutorOptions) {
+    this.pairs = options.pairs ?? MAINNET_SWAP_PAIRS;
+    this.http = options.http ?? axios.create({
+      baseURL: options.baseUrl,
+      timeout: 15000,
+      headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : undefined,
+    });
+  }
+
+  async execute(order: ExecutionOrder): Promise<ExecutionFill> {
+    const pair = this.pairs[order.symbol];
+    if (!pair) {
+      throw new Error(`${order.symbol} is not tradable on chain ${this.options.chainId}`);
+    }
+    if (order.amount <= 0) {
+      throw new Error("Order amount must be positive");
+    }
+
+    const [src, dst] = order.side === "BUY" ? [pair.quote, pair.base] : [pair.base, pair.quote];
+    const amount = toBaseUnits(order.amount, src.decimals);
+    const path = `/swap/v6.0/${this.options.chainId}`;
+
+    const quote = await this.request<{ dstAmount: string }>("quote", () =>
+      this.http.get(`${path}/quote`, { params: { src: src.address, dst: dst.address, amount } }));
+
+    const swap = await this.request<{ dstAmount: string; tx: SwapTransaction }>("swap", () =>
+      this.http.get(`${path}/swap`, {
+        params: {
+          src: src.address,
+          dst: dst.address,
+          amount,
+          from: this.options.walletAddress,
+          origin: this.options.walletAddress,
+          slippage: this.options.slippagePct,
+        },
+      }));
+
+    // Validate before broadcasting: once the swap is sent, nothing may throw
+    const spent = fromBaseUnits(amount, src.decimals);
+    const received = fromBaseUnits(swap.dstAmount ?? quote.dstAmount, dst.decimals);
+    if (!(received > 0)) {
+      throw new Error("1inch returned an empty swap");
+    }
+
+    const txHash = await this.broadcast(swap.tx);
+
+    logger.info({ tradeId: order.tradeId, symbol: order.symbol, side: order.side, txHash }, "1inch swap sent");
+    await order.onSubmitted?.(txHash);
+
+    const receipt = await this.waitForReceipt(txHash);
+    if (BigInt(receipt.status) !== 1n) {
+      throw new Error(ORDER_REVERTED);
+    }
+
+    // Settle on what the chain paid out, which can differ from the quote within the slippage
+    const paid = findTransfers(receipt.logs, dst.address, this.options.walletAddress)
+      .reduce((sum, transfer) => sum + transfer.value, 0n);
+    if (paid === 0n) {
+      throw new Error(`Swap receipt has no transfer to ${this.options.walletAddress}`);
+    }
+    const filled = fromBaseUnits(paid.toString(), dst.decimals);
+
+    return {
+      price: order.side === "BUY" ? spent / filled : filled / spent,
+      quantity: order.side === "BUY" ? filled : spent,
+      fee: 0,
+      executedAt: new Date(),
+      txHash,
+    };
+  }
+
+  /**
+   * Poll for a sent transaction's receipt
+   * RPC errors are retried until the timeout.
+   */
+  private async waitForReceipt(txHash: string): Promise<TransactionReceipt> {
+    const deadline = Date.now() + this.options.receiptTimeoutMs;
+
+    for (;;) {
+      try {
+        const receipt = await this.rpc<TransactionReceipt | null>("eth_getTransactionReceipt", [txHash]);
+        if (receipt) {
+          return receipt;
+        }
+      } catch (error) {
+        logger.warn({ txHash, error: describeError(error) }, "Failed to fetch swap receipt");
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(`Swap transaction ${txHash} was not mined within ${this.options.receiptTimeoutMs}ms`);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.options.receiptPollMs));
+    }
+  }
+
+  /**
+   * Call the 1inch API, retrying transient failures with exponential backoff
+   */
+  private async request<T>(name: string, send: () => Promise<{ data: T }>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await send();
+        return response.data;
+      } catch (error) {
+        if (!isRetryable(error) || attempt >= this.options.maxRetries) {
+          throw new Error(`1inch ${name} request failed: ${describeError(error)}`);
+        }
+
+        const delay = this.options.retryDelayMs * 2 ** attempt;
+        logger.warn({ attempt: attempt + 1, delay, error: describeError(error) }, `Retrying 1inch ${name} request`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Send the swap transaction from the execution wallet
+   *
+   * @returns Transaction hash
+   */
+  private async broadcast(tx: SwapTransaction): Promise<string> {
+    let txHash: string | undefined;
+    try {
+      txHash = await this.rpc<string>("eth_sendTransaction", [{
+        from: tx.from,
+        to: tx.to,
+        data: tx.data,
+        value: toHex(tx.value),
+        gas: toHex(tx.gas),
+        gasPrice: toHex(tx.gasPrice),
+      }]);
+    } catch (error) {
+      throw new Error(`Swap broadcast failed: ${describeError(error)}`);
+    }
+
+    if (!/^0x[a-fA-F0-9]{64}$/.test(txHash ?? "")) {
+      throw new Error("Swap broadcast returned an invalid transaction hash");
+    }
+    return txHash;
+  }
+
+  private async rpc<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await axios.post(this.options.rpcUrl, { jsonrpc: "2.0", id: 1, method, params }, { timeout: 30000 });
+
+    if (response.data.error) {
+      throw new Error(response.data.error.message);
+    }
+    return response.data.result;
+  }
+}
+
+/**
+ * Decimal amount as an integer string in the token's smallest unit
+ */
+export function toBaseUnits(amount: number, decimals: number): string {
+  const [whole, fraction = ""] = amount.toFixed(decimals).split(".");
+  return BigInt(whole + fraction).toString();
+}
+
+/**
+ * Integer string in the token's smallest unit as a decimal amount
+ */
+export function fromBaseUnits(amount: string, decimals: number): number {
+  return Number(BigInt(amount)) / 10 ** decimals;
+}
+
+function toHex(value: string | number): string {
+  return `0x${BigInt(value).toString(16)}`;
+}
+
+function isRetryable(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+function describeError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const description = error.response?.data?.description ?? error.response?.data?.error;
+    return error.response ? `${error.response.status} ${description ?? error.message}` : error.message;
+  }
+  return error instanceof Error ? error.message : "Unknown error";
+}
@@ -0,0 +1,50 @@
+import { getMarketData } from "../../tools/marketData";
+import { formatAmount } from "../../lib/treasury.utils";
+import type { ExecutionAdapter, ExecutionFill, ExecutionOrder } from "../../types/execution.types";
+
+export interface PaperExecutorOptions {
+  slippageBps: number; // Adverse price move applied to every fill, in basis points
+  feeRate: number; // Fraction of the order amount charged as fee
+}
+
+/**
+ * Simulated exchange
+ *
+ * Fills orders at the latest 1m close from the configured market data
+ * source, moved against the order by `slippageBps`, and charges
+ * `feeRate` on the order amount. Nothing is sent on-chain, so short
+ * positions can be simulated as well.
+ */
+export class PaperExecutor implements ExecutionAdapter {
+  readonly mode = "PAPER";
+  readonly supportsShorts = true;
+
+  constructor(private readonly options: PaperExecutorOptions) {
+    if (options.slippageBps < 0 || options.feeRate < 0 || options.feeRate >= 1) {
+      throw new Error("Invalid paper execution settings");
+    }
+  }
+
+  async execute(order: ExecutionOrder): Promise<ExecutionFill> {
+    if (order.amount <= 0) {
+      throw new Error("Order amount must be positive");
+    }
+
+    const candles = await getMarketData("1m", 1, order.symbol);
+    const last = candles[candles.length - 1];
+    if (!last) {
+      throw new Error(`No market price available for ${order.symbol}`);
+    }
+
+    const slippage = this.options.slippageBps / 10_000;
+    const price = order.side === "BUY" ? last.close * (1 + slippage) : last.close * (1 - slippage);
+    const fee = formatAmount(order.amount * this.options.feeRate);
+
+    return {
+      price,
+      quantity: formatAmount((order.amount - fee) / price),
+      fee,
+      executedAt: new Date(),
+    };
+  }
+}
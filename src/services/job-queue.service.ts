@@ -0,0 +1,229 @@
+/**
+ * Job Queue Service
+ *
+ * Mongo-backed queue for background work:
+ * - One active (QUEUED/RUNNING) job per target, enforced by `dedupeKey`
+ * - Workers claim jobs atomically and hold a lease while running them;
+ *   a job whose lease expires (crashed worker) is claimed again
+ * - Failed jobs are retried with exponential backoff, then moved to DEAD
+ */
+
+import mongoose from "mongoose";
+import { Job, IJob } from "../db/schema";
+import logger from "../lib/logger";
+
+export type JobType = IJob["type"];
+
+export interface EnqueueJobOptions {
+  strategyId?: mongoose.Types.ObjectId | string;
+  payload?: Record<string, unknown>;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+export interface RetryPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Delay before the next attempt: baseDelayMs * 2^(attempts - 1), capped at maxDelayMs
+ *
+ * @param attempts - Attempts made so far (>= 1)
+ */
+export function calculateBackoff(attempts: number, policy: RetryPolicy): number {
+  return Math.min(policy.baseDelayMs * 2 ** Math.max(0, attempts - 1), policy.maxDelayMs);
+}
+
+function dedupeKeyFor(type: JobType, options: EnqueueJobOptions): string | undefined {
+  return options.strategyId ? `${type}:${options.strategyId.toString()}` : undefined;
+}
+
+/**
+ * Queue a job
+ *
+ * @returns The job, or null if the same target already has a QUEUED/RUNNING job
+ */
+export async function enqueueJob(type: JobType, options: EnqueueJobOptions = {}): Promise<IJob | null> {
+  try {
+    return await Job.create({
+      type,
+      strategyId: options.strategyId,
+      payload: options.payload,
+      dedupeKey: dedupeKeyFor(type, options),
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      runAt: options.runAt ?? new Date(),
+    });
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Atomically claim the next due job and take a lease on it
+ *
+ * Picks QUEUED jobs whose `runAt` has passed and RUNNING jobs whose lease
+ * expired. A reclaimed job that has used up its attempts goes to DEAD and
+ * the next job is tried.
+ *
+ * @param workerId - Lease owner
+ * @param leaseMs - How long the worker may hold the job before it can be reclaimed
+ */
+export async function claimNextJob(workerId: string, leaseMs: number, types?: JobType[]): Promise<IJob | null> {
+  for (;;) {
+    const now = new Date();
+    const job = await Job.findOneAndUpdate(
+      {
+        ...(types ? { type: { $in: types } } : {}),
+        $or: [
+          { status: "QUEUED", runAt: { $lte: now } },
+          { status: "RUNNING", leaseExpiresAt: { $lt: now } },
+        ],
+      },
+      {
+        $set: {
+          status: "RUNNING",
+          leaseOwner: workerId,
+          leaseExpiresAt: new Date(now.getTime() + leaseMs),
+          startedAt: now,
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { runAt: 1 }, new: true },
+    );
+
+    if (!job) {
+      return null;
+    }
+
+    // A worker died on this job after its last allowed attempt
+    if (job.attempts > job.maxAttempts) {
+      await moveToDeadLetter(job, job.lastError ?? "Lease expired");
+      continue;
+    }
+
+    return job;
+  }
+}
+
+/**
+ * Extend the lease on a job the worker is still running
+ *
+ * @returns false if the worker no longer holds the lease
+ */
+export async function extendLease(job: IJob, workerId: string, leaseMs: number): Promise<boolean> {
+  const result = await Job.updateOne(
+    { _id: job._id, status: "RUNNING", leaseOwner: workerId },
+    { $set: { leaseExpiresAt: new Date(Date.now() + leaseMs) } },
+  );
+  return result.modifiedCount === 1;
+}
+
+/**
+ * Mark a job COMPLETED and free its target for new jobs
+ */
+export async function completeJob(job: IJob, workerId: string, result?: Record<string, unknown>): Promise<boolean> {
+  const update = await Job.updateOne(
+    { _id: job._id, status: "RUNNING", leaseOwner: workerId },
+    {
+      $set: { status: "COMPLETED", result, completedAt: new Date() },
+      $unset: { dedupeKey: 1, leaseOwner: 1, leaseExpiresAt: 1 },
+    },
+  );
+  return update.modifiedCount === 1;
+}
+
+/**
+ * Record a failed attempt: requeue with backoff, or dead-letter the job
+ * once it has used all its attempts
+ *
+ * @returns The job's new status, or null if the worker no longer holds the lease
+ */
+export async function failJob(
+  job: IJob,
+  workerId: string,
+  errorMessage: string,
+  policy: RetryPolicy,
+): Promise<"QUEUED" | "DEAD" | null> {
+  if (job.attempts >= job.maxAttempts) {
+    return (await moveToDeadLetter(job, errorMessage, workerId)) ? "DEAD" : null;
+  }
+
+  const delay = calculateBackoff(job.attempts, policy);
+  const update = await Job.updateOne(
+    { _id: job._id, status: "RUNNING", leaseOwner: workerId },
+    {
+      $set: { status: "QUEUED", lastError: errorMessage, runAt: new Date(Date.now() + delay) },
+      $unset: { leaseOwner: 1, leaseExpiresAt: 1 },
+    },
+  );
+
+  if (update.modifiedCount !== 1) {
+    return null;
+  }
+
+  logger.warn({ jobId: job._id, type: job.type, attempts: job.attempts, delay, error: errorMessage }, "Job failed - retry scheduled");
+  return "QUEUED";
+}
+
+async function moveToDeadLetter(job: IJob, errorMessage: string, workerId?: string): Promise<boolean> {
+  const update = await Job.updateOne(
+    { _id: job._id, status: "RUNNING", ...(workerId ? { leaseOwner: workerId } : {}) },
+    {
+      $set: { status: "DEAD", lastError: errorMessage, completedAt: new Date() },
+      $unset: { dedupeKey: 1, leaseOwner: 1, leaseExpiresAt: 1 },
+    },
+  );
+
+  if (update.modifiedCount === 1) {
+    logger.error({ jobId: job._id, type: job.type, attempts: job.attempts, error: errorMessage }, "Job moved to dead letter");
+  }
+  return update.modifiedCount === 1;
+}
+
+/**
+ * List jobs, newest first
+ */
+export async function listJobs(status?: IJob["status"], limit: number = 50) {
+  return Job.find(status ? { status } : {})
+    .sort({ updatedAt: -1 })
+    .limit(limit);
+}
+
+/**
+ * Put a DEAD job back on the queue with a fresh set of attempts
+ */
+export async function retryDeadJob(jobId: string): Promise<IJob> {
+  const job = await Job.findOne({ _id: jobId, status: "DEAD" });
+  if (!job) {
+    throw new Error("Dead job not found");
+  }
+
+  const dedupeKey = dedupeKeyFor(job.type, { strategyId: job.strategyId });
+
+  try {
+    const requeued = await Job.findOneAndUpdate(
+      { _id: jobId, status: "DEAD" },
+      {
+        $set: { status: "QUEUED", attempts: 0, runAt: new Date(), ...(dedupeKey ? { dedupeKey } : {}) },
+        $unset: { completedAt: 1 },
+      },
+      { new: true },
+    );
+
+    if (!requeued) {
+      throw new Error("Dead job not found");
+    }
+    return requeued;
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      throw new Error("Target already has an active job");
+    }
+    throw error;
+  }
+}
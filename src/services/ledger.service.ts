@@ -0,0 +1,151 @@
+/**
+ * Ledger Service
+ *
+ * Read side of the double-entry journal that treasury movements are posted
+ * to (see treasury.service), plus a backfill for transactions booked
+ * before the journal existed.
+ */
+
+import mongoose from "mongoose";
+import { JournalEntry, Transaction, IJournalEntry } from "../db/schema";
+import { accountBalances, postingsFor } from "../lib/ledger.engine";
+import { fromWei, toWei, type AmountValue } from "../lib/amount.utils";
+import type { AccountBalances, LedgerAccount, TrialBalance } from "../types/ledger.types";
+import logger from "../lib/logger";
+
+/**
+ * Account totals of the journal entries matching a filter
+ */
+async function aggregateAccounts(match: Record<string, any>): Promise<{
+  accounts: AccountBalances;
+  debits: bigint;
+  credits: bigint;
+  entries: number;
+}> {
+  // Decimal128 sums stay exact in MongoDB
+  const [rows, entries] = await Promise.all([
+    JournalEntry.aggregate<{ _id: LedgerAccount; debits: AmountValue; credits: AmountValue }>([
+      { $match: match },
+      { $unwind: "$postings" },
+      {
+        $group: {
+          _id: "$postings.account",
+          debits: { $sum: { $cond: [{ $gt: ["$postings.amount", 0] }, "$postings.amount", 0] } },
+          credits: { $sum: { $cond: [{ $lt: ["$postings.amount", 0] }, { $abs: "$postings.amount" }, 0] } },
+        },
+      },
+    ]),
+    JournalEntry.countDocuments(match),
+  ]);
+
+  return {
+    accounts: accountBalances(rows.map(row => ({ account: row._id, amount: toWei(row.debits) - toWei(row.credits) }))),
+    debits: rows.reduce((sum, row) => sum + toWei(row.debits), 0n),
+    credits: rows.reduce((sum, row) => sum + toWei(row.credits), 0n),
+    entries,
+  };
+}
+
+/**
+ * Journal entries of a strategy, newest first
+ */
+export async function getJournalEntries(
+  strategyId: mongoose.Types.ObjectId | string,
+  userId?: mongoose.Types.ObjectId | string,
+  options?: {
+    limit?: number;
+    skip?: number;
+  },
+): Promise<{ entries: IJournalEntry[]; total: number }> {
+  const query: any = { strategyId: new mongoose.Types.ObjectId(strategyId) };
+  if (userId) {
+    query.userId = new mongoose.Types.ObjectId(userId);
+  }
+
+  const limit = options?.limit || 50;
+  const skip = options?.skip || 0;
+
+  const [entries, total] = await Promise.all([
+    JournalEntry.find(query).sort({ createdAt: -1, _id: -1 }).limit(limit).skip(skip),
+    JournalEntry.countDocuments(query),
+  ]);
+
+  return { entries, total };
+}
+
+/**
+ * Net balance of each ledger account for a strategy
+ */
+export async function getAccountBalances(
+  strategyId: mongoose.Types.ObjectId | string,
+  userId?: mongoose.Types.ObjectId | string,
+): Promise<AccountBalances> {
+  const match: any = { strategyId: new mongoose.Types.ObjectId(strategyId) };
+  if (userId) {
+    match.userId = new mongoose.Types.ObjectId(userId);
+  }
+
+  const { accounts } = await aggregateAccounts(match);
+  return accounts;
+}
+
+/**
+ * Trial balance across the journal (or one strategy's entries)
+ *
+ * Every entry balances on its own, so total debits must equal total
+ * credits; anything else means the journal was written around the service.
+ */
+export async function getTrialBalance(strategyId?: string): Promise<TrialBalance> {
+  const match = strategyId ? { strategyId: new mongoose.Types.ObjectId(strategyId) } : {};
+  const { accounts, debits, credits, entries } = await aggregateAccounts(match);
+
+  return {
+    accounts,
+    debits: fromWei(debits),
+    credits: fromWei(credits),
+    entries,
+    balanced: debits === credits,
+  };
+}
+
+/**
+ * Post journal entries for transactions that do not have one
+ *
+ * Covers transactions booked before the journal existed. Uses the same
+ * transactions the treasury balances reflect: COMPLETED ones, PENDING
+ * withdrawals and REVERSED withdrawal releases.
+ *
+ * @returns Number of entries posted
+ */
+export async function backfillJournal(): Promise<number> {
+  const journaled = await JournalEntry.distinct("transactionId");
+  const transactions = await Transaction.find({
+    _id: { $nin: journaled },
+    $or: [
+      { status: "COMPLETED" },
+      { status: "PENDING", type: "WITHDRAW" },
+      { status: "REVERSED", type: "WITHDRAW_RELEASE" },
+    ],
+  }).sort({ createdAt: 1, _id: 1 });
+
+  let posted = 0;
+  for (const transaction of transactions) {
+    await JournalEntry.create({
+      userId: transaction.userId,
+      strategyId: transaction.strategyId,
+      treasuryId: transaction.treasuryId,
+      transactionId: transaction._id,
+      tradeId: transaction.tradeId,
+      type: transaction.type,
+      description: transaction.description,
+      postings: postingsFor(transaction.type, transaction.amount, transaction.metadata?.fees ?? 0).map(p => ({
+        account: p.account,
+        amount: fromWei(p.amount),
+      })),
+    });
+    posted += 1;
+  }
+
+  logger.info({ posted }, "Journal backfill complete");
+  return posted;
+}
@@ -0,0 +1,252 @@
+/**
+ * Reconciliation Service
+ *
+ * Checks each treasury against its transaction ledger. The ledger is the
+ * treasury's COMPLETED transactions plus PENDING direct withdrawals (the
+ * balance is debited when they are recorded) and the REVERSED releases of
+ * rejected withdrawal holds, replayed in the order they were posted.
+ *
+ * Drift in the available balance can be booked as a correcting ADJUSTMENT
+ * that records the unexplained difference, so later replays reproduce the
+ * stored balance. Other fields (locked, deposited, withdrawn, PnL) cannot
+ * be represented by an ADJUSTMENT and are left for manual review, as are
+ * breaks in the balance chain (transactions are never rewritten).
+ */
+
+import mongoose from "mongoose";
+import { Treasury, Transaction, JournalEntry, ITreasury, ITransaction } from "../db/schema";
+import { compareBalances, replayLedger } from "../lib/reconciliation.engine";
+import { postingsFor } from "../lib/ledger.engine";
+import { fromWei, toAmountString, toWei } from "../lib/amount.utils";
+import type { BalanceMismatch, ChainIssue, LedgerBalances, LedgerEntry } from "../types/reconciliation.types";
+import logger from "../lib/logger";
+
+/**
+ * Reconciliation outcome for one treasury
+ */
+export interface TreasuryReconciliation {
+  treasuryId: string;
+  strategyId: string;
+  userId: string;
+  transactions: number;
+  expected?: LedgerBalances; // Replayed from the ledger (missing if the replay failed)
+  actual: LedgerBalances; // Stored on the treasury
+  mismatches: BalanceMismatch[];
+  chainIssues: ChainIssue[];
+  reconciled: boolean; // No mismatches and an unbroken chain
+  correction?: ITransaction; // ADJUSTMENT booked for available balance drift
+  error?: string; // Why the replay or the correction failed
+}
+
+export interface ReconciliationOptions {
+  strategyId?: string; // Only this strategy's treasury (all when omitted)
+  correct?: boolean; // Book correcting ADJUSTMENT entries
+}
+
+/**
+ * Ledger entries of a treasury, in the order they were applied
+ */
+async function loadLedger(treasuryId: mongoose.Types.ObjectId): Promise<LedgerEntry[]> {
+  const transactions = await Transaction.find({
+    treasuryId,
+    $or: [
+      { status: "COMPLETED" },
+      { status: "PENDING", type: "WITHDRAW" },
+      { status: "REVERSED", type: "WITHDRAW_RELEASE" },
+    ],
+  }).sort({ createdAt: 1, _id: 1 });
+
+  // Deposits are posted when verified, which can be after later transactions were created
+  const postedAt = (t: ITransaction) => (t.postedAt ?? t.createdAt).getTime();
+  transactions.sort((a, b) => postedAt(a) - postedAt(b));
+
+  return transactions.map(t => ({
+    id: (t._id as mongoose.Types.ObjectId).toString(),
+    type: t.type,
+    amount: toAmountString(t.amount),
+    balanceBefore: toAmountString(t.balanceBefore),
+    balanceAfter: toAmountString(t.balanceAfter),
+    createdAt: t.createdAt,
+  }));
+}
+
+function storedBalances(treasury: ITreasury): LedgerBalances {
+  return {
+    availableBalance: toAmountString(treasury.availableBalance),
+    lockedBalance: toAmountString(treasury.lockedBalance),
+    totalDeposited: toAmountString(treasury.totalDeposited),
+    totalWithdrawn: toAmountString(treasury.totalWithdrawn),
+    netProfitLoss: toAmountString(treasury.netProfitLoss),
+  };
+}
+
+/**
+ * Book the available balance drift as an ADJUSTMENT
+ *
+ * The treasury already holds the drifted balance, so only the transaction
+ * and its journal entry are written. Like any other movement it gets a
+ * `postedAt`, so later replays apply it in order.
+ *
+ * Runs in a MongoDB transaction that also checks the treasury still holds
+ * the balance that was reconciled, so a concurrent trade or withdrawal
+ * cannot be folded into the correction.
+ */
+async function bookCorrection(treasury: ITreasury, mismatch: BalanceMismatch, detectedAt: Date): Promise<ITransaction> {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const unchanged = await Treasury.findOneAndUpdate(
+      { _id: treasury._id, availableBalance: treasury.availableBalance, lockedBalance: treasury.lockedBalance },
+      { $currentDate: { updatedAt: true } },
+      { session },
+    );
+    if (!unchanged) {
+      throw new Error("Treasury changed during reconciliation, please retry");
+    }
+
+    const [correction] = await Transaction.create(
+      [
+        {
+          userId: treasury.userId,
+          strategyId: treasury.strategyId,
+          treasuryId: treasury._id,
+          type: "ADJUSTMENT",
+          amount: mismatch.difference,
+          balanceBefore: mismatch.expected,
+          balanceAfter: mismatch.actual,
+          description: `Reconciliation adjustment: available balance drifted by ${mismatch.difference} from the ledger`,
+          metadata: { reconciliation: true, expected: mismatch.expected, actual: mismatch.actual, detectedAt },
+          status: "COMPLETED",
+          postedAt: new Date(),
+        },
+      ],
+      { session },
+    );
+
+    await JournalEntry.create(
+      [
+        {
+          userId: treasury.userId,
+          strategyId: treasury.strategyId,
+          treasuryId: treasury._id,
+          transactionId: correction._id,
+          type: "ADJUSTMENT",
+          description: correction.description,
+          postings: postingsFor("ADJUSTMENT", mismatch.difference).map(p => ({
+            account: p.account,
+            amount: fromWei(p.amount),
+          })),
+        },
+      ],
+      { session },
+    );
+
+    await session.commitTransaction();
+    return correction;
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+}
+
+/**
+ * Reconcile one treasury against its ledger
+ *
+ * @param treasury - Treasury to check
+ * @param correct - Book an ADJUSTMENT for available balance drift
+ */
+export async function reconcileTreasury(treasury: ITreasury, correct: boolean = false): Promise<TreasuryReconciliation> {
+  const treasuryId = treasury._id as mongoose.Types.ObjectId;
+  const checkedAt = new Date();
+  const replay = replayLedger(await loadLedger(treasuryId));
+  const actual = storedBalances(treasury);
+  const mismatches = compareBalances(replay.balances, actual);
+
+  const result: TreasuryReconciliation = {
+    treasuryId: treasuryId.toString(),
+    strategyId: treasury.strategyId.toString(),
+    userId: treasury.userId.toString(),
+    transactions: replay.entries,
+    expected: replay.balances,
+    actual,
+    mismatches,
+    chainIssues: replay.chainIssues,
+    reconciled: mismatches.length === 0 && replay.chainIssues.length === 0,
+  };
+
+  if (!result.reconciled) {
+    logger.warn(
+      { treasuryId, mismatches, chainIssues: replay.chainIssues.length },
+      "Treasury does not match its ledger",
+    );
+  }
+
+  const availableDrift = mismatches.find(m => m.field === "availableBalance");
+  if (correct && availableDrift) {
+    if (toWei(availableDrift.expected) < 0n) {
+      result.error = "Ledger replays to a negative available balance - correct manually";
+    } else {
+      try {
+        result.correction = await bookCorrection(treasury, availableDrift, checkedAt);
+        logger.info(
+          { treasuryId, transactionId: result.correction._id, amount: availableDrift.difference },
+          "Booked reconciliation adjustment",
+        );
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : "Unknown error";
+        logger.error({ treasuryId, error: result.error }, "Failed to book reconciliation adjustment");
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reconcile every treasury (or one strategy's)
+ *
+ * A treasury that fails to reconcile is reported with its error and does
+ * not stop the others.
+ */
+export async function reconcileTreasuries(options: ReconciliationOptions = {}): Promise<{
+  checked: number;
+  reconciled: number;
+  mismatched: number;
+  corrected: number;
+  results: TreasuryReconciliation[];
+}> {
+  const filter = options.strategyId ? { strategyId: new mongoose.Types.ObjectId(options.strategyId) } : {};
+  const treasuries = await Treasury.find(filter).sort({ createdAt: 1 });
+  const results: TreasuryReconciliation[] = [];
+
+  for (const treasury of treasuries) {
+    try {
+      results.push(await reconcileTreasury(treasury, options.correct));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      logger.error({ treasuryId: treasury._id, error: errorMessage }, "Failed to reconcile treasury");
+      results.push({
+        treasuryId: (treasury._id as mongoose.Types.ObjectId).toString(),
+        strategyId: treasury.strategyId.toString(),
+        userId: treasury.userId.toString(),
+        transactions: 0,
+        actual: storedBalances(treasury),
+        mismatches: [],
+        chainIssues: [],
+        reconciled: false,
+        error: errorMessage,
+      });
+    }
+  }
+
+  return {
+    checked: results.length,
+    reconciled: results.filter(r => r.reconciled).length,
+    mismatched: results.filter(r => !r.reconciled).length,
+    corrected: results.filter(r => r.correction).length,
+    results,
+  };
+}
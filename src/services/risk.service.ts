@@ -0,0 +1,119 @@
+/**
+ * Risk Service
+ *
+ * Loads the account state a trade proposal is checked against (treasury,
+ * open trades, today's realized PnL, last loss, current price) and runs
+ * the risk engine.
+ */
+
+import mongoose from "mongoose";
+import { Trade, Treasury } from "../db/schema";
+import { evaluateRisk, resolveRiskLimits } from "../lib/risk.engine";
+import { positionSideForSignal } from "../lib/position.utils";
+import { toAmountNumber, toDecimal128, type AmountValue } from "../lib/amount.utils";
+import { getMarketData } from "../tools/marketData";
+import type { ValidatorAgentOutput } from "../agents/types";
+import type { RiskAssessment, RiskLimitOverrides, RiskLimits } from "../types/risk.types";
+import { env } from "../env";
+import logger from "../lib/logger";
+
+/**
+ * Strategy fields the risk check needs
+ */
+export interface RiskStrategy {
+  _id: mongoose.Types.ObjectId | string;
+  userId: mongoose.Types.ObjectId | string;
+  symbol: string;
+  amount: number;
+  riskLimits?: RiskLimitOverrides | null;
+}
+
+/**
+ * Global limits from the environment
+ */
+export function getDefaultRiskLimits(): RiskLimits {
+  return {
+    maxPositionPct: env.RISK_MAX_POSITION_PCT,
+    maxOpenTradesPerStrategy: env.RISK_MAX_OPEN_TRADES_PER_STRATEGY,
+    maxOpenTradesPerUser: env.RISK_MAX_OPEN_TRADES_PER_USER,
+    dailyLossLimitPct: env.RISK_DAILY_LOSS_LIMIT_PCT,
+    minRiskReward: env.RISK_MIN_REWARD_RATIO,
+    minStopDistancePct: env.RISK_MIN_STOP_DISTANCE_PCT,
+    maxStopDistancePct: env.RISK_MAX_STOP_DISTANCE_PCT,
+    maxTakeProfitDistancePct: env.RISK_MAX_TAKE_PROFIT_DISTANCE_PCT,
+    maxEntryDeviationPct: env.RISK_MAX_ENTRY_DEVIATION_PCT,
+    lossCooldownMinutes: env.RISK_LOSS_COOLDOWN_MINUTES,
+  };
+}
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/**
+ * Check an EXECUTE BUY (LONG) or SELL (SHORT) decision before its trade is saved
+ *
+ * @param strategy - Strategy the trade belongs to
+ * @param validatorOutput - Validator decision with signal, entry, exit and stop loss
+ * @returns Approval, the trade size to use, and the check trail
+ */
+export async function assessTradeRisk(
+  strategy: RiskStrategy,
+  validatorOutput: ValidatorAgentOutput,
+  now: Date = new Date(),
+): Promise<RiskAssessment> {
+  const { signal, entry, exit, stopLoss } = validatorOutput;
+  if (signal === "HOLD" || !entry || !exit || !stopLoss) {
+    const reason = "Trade is missing entry, take profit or stop loss";
+    return { approved: false, amount: 0, reason, checks: [{ rule: "PRICE_LEVELS", passed: false, reason }] };
+  }
+
+  const strategyId = new mongoose.Types.ObjectId(strategy._id.toString());
+  const userId = new mongoose.Types.ObjectId(strategy.userId.toString());
+  const limits = resolveRiskLimits(getDefaultRiskLimits(), strategy.riskLimits);
+
+  const [candles, treasury, openTradesForStrategy, openTradesForUser, equity, pnlToday, lastLoss] = await Promise.all([
+    getMarketData("1m", 1, strategy.symbol),
+    Treasury.findOne({ strategyId, userId }),
+    Trade.countDocuments({ strategyId, status: { $in: ["PENDING", "EXECUTING", "PLACED", "CLOSING"] } }),
+    Trade.countDocuments({ userId, status: { $in: ["PENDING", "EXECUTING", "PLACED", "CLOSING"] } }),
+    Treasury.aggregate<{ total: AmountValue }>([
+      { $match: { userId } },
+      { $group: { _id: null, total: { $sum: { $add: ["$availableBalance", "$lockedBalance"] } } } },
+    ]),
+    Trade.aggregate<{ total: AmountValue }>([
+      { $match: { userId, status: "CLOSED", closedAt: { $gte: startOfUtcDay(now) } } },
+      { $group: { _id: null, total: { $sum: "$realizedPnl" } } },
+    ]),
+    Trade.findOne({ strategyId, status: "CLOSED", realizedPnl: { $lt: toDecimal128(0) } })
+      .sort({ closedAt: -1 })
+      .select("closedAt"),
+  ]);
+
+  const currentPrice = candles[candles.length - 1]?.close;
+  if (!currentPrice) {
+    throw new Error(`No market price available for ${strategy.symbol}`);
+  }
+
+  const assessment = evaluateRisk(
+    { side: positionSideForSignal(signal), entry, takeProfit: exit, stopLoss, requestedAmount: strategy.amount },
+    {
+      currentPrice,
+      // Risk limits are percentages, so balances are compared as numbers
+      availableBalance: treasury ? toAmountNumber(treasury.availableBalance) : 0,
+      openTradesForStrategy,
+      openTradesForUser,
+      userEquity: equity[0] ? toAmountNumber(equity[0].total) : 0,
+      realizedPnlToday: pnlToday[0] ? toAmountNumber(pnlToday[0].total) : 0,
+      lastLossAt: lastLoss?.closedAt,
+      now,
+    },
+    limits,
+  );
+
+  if (!assessment.approved) {
+    logger.warn({ strategyId, signal, reason: assessment.reason }, "Trade rejected by risk checks");
+  }
+
+  return assessment;
+}
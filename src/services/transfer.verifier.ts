@@ -0,0 +1,161 @@
+import axios, { type AxiosInstance } from "axios";
+import { env } from "../env";
+import { fromWei, toWei } from "../lib/amount.utils";
+import type { TransferClaim, TransferVerification } from "../types/transfer.types";
+
+/**
+ * keccak256("Transfer(address,address,uint256)")
+ */
+export const TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+/**
+ * WETH on Ethereum mainnet
+ */
+export const MAINNET_WETH_ADDRESS = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+
+export interface TransferVerifierOptions {
+  rpcUrl: string; // JSON-RPC node of the treasury chain
+  tokenAddress: string; // WETH contract on that chain
+  minConfirmations: number; // Blocks (including the transfer's) before a transfer counts
+  http?: AxiosInstance; // Replaces the default client (tests)
+}
+
+/**
+ * Log entry of an eth_getTransactionReceipt result
+ */
+export interface ReceiptLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+export interface TransactionReceipt {
+  status: string; // 0x1 success, 0x0 reverted
+  blockNumber: string;
+  logs: ReceiptLog[];
+}
+
+/**
+ * An ERC-20 Transfer event
+ */
+export interface TokenTransfer {
+  from: string;
+  to: string;
+  value: bigint; // Token base units (wei for WETH)
+}
+
+/**
+ * Checks WETH transfers (deposits and withdrawals) against an EVM JSON-RPC node
+ *
+ * A transfer is confirmed when its transaction succeeded, emitted WETH
+ * `Transfer` events to the claimed address adding up to the claimed
+ * amount, and is at least `minConfirmations` blocks deep. RPC failures
+ * are thrown so the caller can retry; they never reject a transfer.
+ */
+export class TransferVerifier {
+  private readonly http: AxiosInstance;
+
+  constructor(private readonly options: TransferVerifierOptions) {
+    this.http = options.http ?? axios.create({ timeout: 15000 });
+  }
+
+  async verify(claim: TransferClaim): Promise<TransferVerification> {
+    const receipt = await this.call<TransactionReceipt | null>("eth_getTransactionReceipt", [claim.txHash]);
+    if (!receipt) {
+      return { status: "PENDING", reason: "Transaction not mined yet", confirmations: 0 };
+    }
+
+    const blockNumber = Number(BigInt(receipt.blockNumber));
+    if (BigInt(receipt.status) !== 1n) {
+      return { status: "REJECTED", reason: "Transaction reverted", confirmations: 0, blockNumber };
+    }
+
+    const senders = claim.from?.map(address => address.toLowerCase());
+    const transfers = findTransfers(receipt.logs, this.options.tokenAddress, claim.to)
+      .filter(transfer => !senders || senders.includes(transfer.from));
+    if (transfers.length === 0) {
+      const reason = senders ? `No WETH transfer to ${claim.to} from ${claim.from!.join(" or ")}` : `No WETH transfer to ${claim.to}`;
+      return { status: "REJECTED", reason, confirmations: 0, blockNumber };
+    }
+
+    const received = transfers.reduce((sum, transfer) => sum + transfer.value, 0n);
+    if (received !== toWei(claim.amount)) {
+      return {
+        status: "REJECTED",
+        reason: `Transaction transferred ${fromWei(received)} WETH, not ${claim.amount} WETH`,
+        confirmations: 0,
+        blockNumber,
+      };
+    }
+
+    const latest = Number(BigInt(await this.call<string>("eth_blockNumber", [])));
+    const confirmations = Math.max(latest - blockNumber + 1, 0);
+    const from = transfers[0].from;
+    if (confirmations < this.options.minConfirmations) {
+      return {
+        status: "PENDING",
+        reason: `${confirmations} of ${this.options.minConfirmations} confirmations`,
+        confirmations,
+        blockNumber,
+        from,
+      };
+    }
+
+    return { status: "CONFIRMED", confirmations, blockNumber, from };
+  }
+
+  private async call<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await this.http.post(this.options.rpcUrl, { jsonrpc: "2.0", id: 1, method, params });
+
+    if (response.data.error) {
+      throw new Error(`RPC ${method} failed: ${response.data.error.message}`);
+    }
+    return response.data.result;
+  }
+}
+
+/**
+ * Transfers of a token to an address among a receipt's logs
+ */
+export function findTransfers(logs: ReceiptLog[], tokenAddress: string, to: string): TokenTransfer[] {
+  return logs
+    .filter(log =>
+      log.address.toLowerCase() === tokenAddress.toLowerCase() &&
+      log.topics.length === 3 &&
+      log.topics[0].toLowerCase() === TRANSFER_TOPIC)
+    .map(log => ({
+      from: topicToAddress(log.topics[1]),
+      to: topicToAddress(log.topics[2]),
+      value: BigInt(log.data),
+    }))
+    .filter(transfer => transfer.to === to.toLowerCase());
+}
+
+/**
+ * Address stored in an indexed event topic (left-padded to 32 bytes)
+ */
+function topicToAddress(topic: string): string {
+  return `0x${topic.slice(-40)}`.toLowerCase();
+}
+
+let verifier: TransferVerifier | null = env.CHAIN_RPC_URL
+  ? new TransferVerifier({
+    rpcUrl: env.CHAIN_RPC_URL,
+    tokenAddress: env.WETH_TOKEN_ADDRESS,
+    minConfirmations: env.CHAIN_MIN_CONFIRMATIONS,
+  })
+  : null;
+
+/**
+ * Verifier for deposits and withdrawals, or null without CHAIN_RPC_URL
+ */
+export function getTransferVerifier(): TransferVerifier | null {
+  return verifier;
+}
+
+/**
+ * Replace the transfer verifier (mainly for tests); null disables verification
+ */
+export function setTransferVerifier(next: TransferVerifier | null) {
+  verifier = next;
+}
@@ -7,12 +7,28 @@
  * Key Features:
  * - Atomic operations with MongoDB transactions
  * - Complete audit trail
+ * - Double-entry journal: every movement is posted as balanced entries
+ *   between ledger accounts, and the treasury balances are a cache of them
+ * - Exact amounts: balances are Decimal128, calculated in wei
  * - Balance validation and protection
  * - Thread-safe concurrent operations
  */
 
 import mongoose from "mongoose";
-import { Treasury, Transaction, Strategy, ITreasury, ITransaction } from "../db/schema";
+import {
+  Treasury,
+  Transaction,
+  JournalEntry,
+  Strategy,
+  Withdrawal,
+  ITreasury,
+  ITransaction,
+  IWithdrawal,
+} from "../db/schema";
+import { applyPostings, postingsFor } from "../lib/ledger.engine";
+import { fromWei, toWei, type AmountValue } from "../lib/amount.utils";
+import type { TreasuryTotals } from "../types/ledger.types";
+import { env } from "../env";
 import logger from "../lib/logger";
 
 /**
@@ -21,6 +37,8 @@ import logger from "../lib/logger";
 export type TransactionType = 
   | "DEPOSIT" 
   | "WITHDRAW" 
+  | "WITHDRAW_HOLD" 
+  | "WITHDRAW_RELEASE" 
   | "TRADE_OPEN" 
   | "TRADE_CLOSE" 
   | "PROFIT" 
@@ -30,6 +48,37 @@ export type TransactionType =
 
 export type TransactionStatus = "PENDING" | "COMPLETED" | "FAILED" | "REVERSED";
 
+/**
+ * Treasury contracts deposits can be credited to (lowercase)
+ */
+let treasuryContracts = new Set(env.TREASURY_CONTRACT_ADDRESSES.map(address => address.toLowerCase()));
+
+/**
+ * Whether deposits to this address can be credited
+ */
+export function isTreasuryContract(address: string): boolean {
+  return treasuryContracts.has(address.toLowerCase());
+}
+
+/**
+ * Replace the allow-listed treasury contracts (mainly for tests)
+ */
+export function setTreasuryContracts(addresses: string[]) {
+  treasuryContracts = new Set(addresses.map(address => address.toLowerCase()));
+}
+
+/**
+ * Reject a contract address from the client that is not allow-listed
+ *
+ * Without an allow-list any address is recorded, but verifyDeposit
+ * credits nothing.
+ */
+function assertTreasuryContract(address: string) {
+  if (treasuryContracts.size > 0 && !isTreasuryContract(address)) {
+    throw new Error("Unknown treasury contract address");
+  }
+}
+
 /**
  * Treasury Operation Result
  */
@@ -40,16 +89,117 @@ export interface TreasuryOperationResult {
   message: string;
 }
 
+/**
+ * Result of a withdrawal step that moves funds
+ */
+export interface WithdrawalOperationResult extends TreasuryOperationResult {
+  withdrawal: IWithdrawal;
+}
+
 /**
  * Balance Adjustment Options
  */
 export interface BalanceAdjustmentOptions {
-  amount: number;
+  amount: AmountValue;
   type: TransactionType;
   description: string;
   tradeId?: mongoose.Types.ObjectId;
   txHash?: string;
   metadata?: Record<string, any>;
+  fees?: AmountValue; // Fees included in a PROFIT / LOSS amount (posted to the FEES account)
+}
+
+/**
+ * A treasury movement to post
+ */
+interface Movement {
+  type: TransactionType;
+  amount: bigint; // Wei
+  description: string;
+  status?: TransactionStatus;
+  tradeId?: mongoose.Types.ObjectId;
+  txHash?: string;
+  metadata?: Record<string, any>;
+  fees?: AmountValue;
+}
+
+/**
+ * A treasury's cached balances in wei
+ */
+function treasuryTotals(treasury: ITreasury): TreasuryTotals {
+  return {
+    availableBalance: toWei(treasury.availableBalance),
+    lockedBalance: toWei(treasury.lockedBalance),
+    totalDeposited: toWei(treasury.totalDeposited),
+    totalWithdrawn: toWei(treasury.totalWithdrawn),
+    totalProfits: toWei(treasury.totalProfits),
+    totalLosses: toWei(treasury.totalLosses),
+    netProfitLoss: toWei(treasury.netProfitLoss),
+  };
+}
+
+/**
+ * Post a movement to the ledger and update the treasury's cached balances
+ *
+ * Writes the Transaction and its balanced JournalEntry in the caller's
+ * MongoDB session, so the balances, the audit trail and the journal commit
+ * or roll back together. A `pending` transaction (a deposit awaiting
+ * verification) is completed instead of creating a new one.
+ */
+async function postMovement(
+  treasury: ITreasury,
+  movement: Movement,
+  session: mongoose.ClientSession,
+  pending?: ITransaction,
+): Promise<ITransaction> {
+  const postings = postingsFor(movement.type, movement.amount, movement.fees);
+  const balanceBefore = treasury.availableBalance;
+
+  const totals = applyPostings(treasuryTotals(treasury), postings);
+  treasury.set(Object.fromEntries(Object.entries(totals).map(([field, wei]) => [field, fromWei(wei)])));
+  await treasury.save({ session });
+
+  const fields = {
+    userId: treasury.userId,
+    strategyId: treasury.strategyId,
+    treasuryId: treasury._id,
+    type: movement.type,
+    amount: fromWei(movement.amount),
+    balanceBefore,
+    balanceAfter: treasury.availableBalance,
+    tradeId: movement.tradeId,
+    txHash: movement.txHash,
+    description: movement.description,
+    metadata: movement.metadata,
+    status: movement.status ?? "COMPLETED",
+    postedAt: new Date(),
+  };
+
+  let transaction: ITransaction;
+  if (pending) {
+    pending.set(fields);
+    transaction = await pending.save({ session });
+  } else {
+    [transaction] = await Transaction.create([fields], { session });
+  }
+
+  await JournalEntry.create(
+    [
+      {
+        userId: treasury.userId,
+        strategyId: treasury.strategyId,
+        treasuryId: treasury._id,
+        transactionId: transaction._id,
+        tradeId: movement.tradeId,
+        type: movement.type,
+        description: movement.description,
+        postings: postings.map(p => ({ account: p.account, amount: fromWei(p.amount) })),
+      },
+    ],
+    { session },
+  );
+
+  return transaction;
 }
 
 /**
@@ -64,13 +214,6 @@ export async function initializeTreasury(
   const strategyObjectId = typeof strategyId === "string" ? new mongoose.Types.ObjectId(strategyId) : strategyId;
   const userObjectId = typeof userId === "string" ? new mongoose.Types.ObjectId(userId) : userId;
 
-  // Check if treasury already exists
-  const existing = await Treasury.findOne({ strategyId: strategyObjectId });
-  if (existing) {
-    logger.info({ strategyId: strategyObjectId.toString() }, "Treasury already exists");
-    return existing;
-  }
-
   // Verify strategy exists and belongs to user
   const strategy = await Strategy.findOne({
     _id: strategyObjectId,
@@ -81,6 +224,15 @@ export async function initializeTreasury(
     throw new Error("Strategy not found or does not belong to user");
   }
 
+  // Check if treasury already exists
+  const existing = await Treasury.findOne({ strategyId: strategyObjectId });
+  if (existing) {
+    logger.info({ strategyId: strategyObjectId.toString() }, "Treasury already exists");
+    return existing;
+  }
+
+  assertTreasuryContract(contractAddress);
+
   // Create new treasury
   const treasury = await Treasury.create({
     strategyId: strategyObjectId,
@@ -108,13 +260,19 @@ export async function initializeTreasury(
 }
 
 /**
- * Deposit funds into a strategy's treasury
- * Called when user deposits WETH to the contract
+ * Record a deposit reported by the user
+ *
+ * Creates the treasury if needed and a PENDING DEPOSIT transaction; the
+ * balance is only credited by completeDeposit once the transfer is
+ * verified on chain (see deposit.service). Only the strategy's owner can
+ * deposit, and a new treasury's contract address must be allow-listed
+ * (TREASURY_CONTRACT_ADDRESSES). A txHash can back one deposit: it is
+ * rejected while another deposit with it is pending or credited.
  */
-export async function deposit(
+export async function recordDeposit(
   strategyId: mongoose.Types.ObjectId | string,
   userId: mongoose.Types.ObjectId | string,
-  amount: number,
+  amount: AmountValue,
   txHash: string,
   contractAddress: string,
 ): Promise<TreasuryOperationResult> {
@@ -124,17 +282,40 @@ export async function deposit(
   try {
     const strategyObjectId = typeof strategyId === "string" ? new mongoose.Types.ObjectId(strategyId) : strategyId;
     const userObjectId = typeof userId === "string" ? new mongoose.Types.ObjectId(userId) : userId;
+    const hash = txHash.toLowerCase();
 
     // Validate amount
-    if (amount <= 0) {
+    const amountWei = toWei(amount);
+    if (amountWei <= 0n) {
       throw new Error("Deposit amount must be positive");
     }
+    const weth = fromWei(amountWei);
+
+    // Only the strategy's owner can fund it
+    const strategy = await Strategy.findOne({ _id: strategyObjectId, userId: userObjectId }).session(session);
+    if (!strategy) {
+      throw new Error("Strategy not found or does not belong to user");
+    }
+
+    // Reject a transfer that already backs a deposit
+    const existing = await Transaction.findOne({
+      txHash: hash,
+      type: "DEPOSIT",
+      status: { $in: ["PENDING", "COMPLETED"] },
+    }).session(session);
+    if (existing?.status === "COMPLETED") {
+      throw new Error("Deposit transaction has already been credited");
+    }
+    if (existing) {
+      throw new Error("Deposit transaction is already awaiting confirmation");
+    }
 
     // Get or create treasury
     let treasury = await Treasury.findOne({ strategyId: strategyObjectId }).session(session);
     
     if (!treasury) {
       // Initialize treasury if it doesn't exist
+      assertTreasuryContract(contractAddress);
       const createdTreasuries = await Treasury.create(
         [
           {
@@ -155,36 +336,27 @@ export async function deposit(
       treasury = createdTreasuries[0];
     }
 
-    // Capture balance before
-    const balanceBefore = treasury.availableBalance;
-
-    // Update treasury
-    treasury.totalDeposited += amount;
-    treasury.availableBalance += amount;
-    treasury.lastDepositTxHash = txHash;
-    await treasury.save({ session });
-
-    // Create transaction record
-    const transaction = await Transaction.create(
+    // Balances are unchanged until the deposit is credited
+    const [transaction] = await Transaction.create(
       [
         {
-          userId: userObjectId,
-          strategyId: strategyObjectId,
+          userId: treasury.userId,
+          strategyId: treasury.strategyId,
           treasuryId: treasury._id,
           type: "DEPOSIT",
-          amount,
-          balanceBefore,
+          amount: weth,
+          balanceBefore: treasury.availableBalance,
           balanceAfter: treasury.availableBalance,
-          txHash,
-          description: `Deposit of ${amount} WETH from blockchain`,
-          status: "COMPLETED",
+          txHash: hash,
+          description: `Deposit of ${weth} WETH from blockchain`,
           metadata: {
             contractAddress,
           },
+          status: "PENDING",
         },
       ],
       { session },
-    ).then((docs) => docs[0]);
+    );
 
     await session.commitTransaction();
 
@@ -192,8 +364,85 @@ export async function deposit(
       {
         treasuryId: treasury._id.toString(),
         strategyId: strategyObjectId.toString(),
-        amount,
-        txHash,
+        transactionId: transaction._id.toString(),
+        amount: weth,
+        txHash: hash,
+      },
+      "Deposit recorded, awaiting verification",
+    );
+
+    return {
+      success: true,
+      treasury,
+      transaction,
+      message: `Deposit of ${weth} WETH is awaiting on-chain confirmation`,
+    };
+  } catch (error) {
+    await session.abortTransaction();
+    logger.error({ error, strategyId, amount, txHash }, "Recording deposit failed");
+    throw error;
+  } finally {
+    session.endSession();
+  }
+}
+
+/**
+ * Credit a PENDING deposit
+ *
+ * Posts the deposit to the ledger and completes its transaction. A unique
+ * index on credited deposits makes a second credit of the same txHash fail.
+ *
+ * @param metadata - Verification details kept on the transaction
+ */
+export async function completeDeposit(
+  transactionId: mongoose.Types.ObjectId | string,
+  metadata?: Record<string, any>,
+): Promise<TreasuryOperationResult> {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const pending = await Transaction.findOne({
+      _id: transactionId,
+      type: "DEPOSIT",
+      status: "PENDING",
+    }).session(session);
+
+    if (!pending) {
+      throw new Error("Pending deposit not found");
+    }
+
+    const treasury = await Treasury.findById(pending.treasuryId).session(session);
+    if (!treasury) {
+      throw new Error("Treasury not found");
+    }
+
+    const amountWei = toWei(pending.amount);
+    const weth = fromWei(amountWei);
+    treasury.lastDepositTxHash = pending.txHash;
+
+    // Post to the ledger
+    const transaction = await postMovement(
+      treasury,
+      {
+        type: "DEPOSIT",
+        amount: amountWei,
+        txHash: pending.txHash,
+        description: pending.description,
+        metadata: { ...pending.metadata, ...metadata },
+      },
+      session,
+      pending,
+    );
+
+    await session.commitTransaction();
+
+    logger.info(
+      {
+        treasuryId: treasury._id.toString(),
+        strategyId: treasury.strategyId.toString(),
+        amount: weth,
+        txHash: pending.txHash,
         newBalance: treasury.availableBalance,
       },
       "Deposit completed successfully",
@@ -203,25 +452,70 @@ export async function deposit(
       success: true,
       treasury,
       transaction,
-      message: `Successfully deposited ${amount} WETH`,
+      message: `Successfully deposited ${weth} WETH`,
     };
   } catch (error) {
     await session.abortTransaction();
-    logger.error({ error, strategyId, amount, txHash }, "Deposit failed");
+    logger.error({ error, transactionId }, "Deposit failed");
+    if ((error as { code?: number }).code === 11000) {
+      throw new Error("Deposit transaction has already been credited");
+    }
     throw error;
   } finally {
     session.endSession();
   }
 }
 
+/**
+ * Mark a PENDING deposit as FAILED
+ *
+ * @returns The failed transaction, or null if it was no longer pending
+ */
+export async function failDeposit(
+  transactionId: mongoose.Types.ObjectId | string,
+  reason: string,
+): Promise<ITransaction | null> {
+  const transaction = await Transaction.findOneAndUpdate(
+    { _id: transactionId, type: "DEPOSIT", status: "PENDING" },
+    { $set: { status: "FAILED", "metadata.failureReason": reason } },
+    { new: true },
+  );
+
+  if (transaction) {
+    logger.warn({ transactionId: transaction._id.toString(), txHash: transaction.txHash, reason }, "Deposit rejected");
+  }
+  return transaction;
+}
+
+/**
+ * Record and credit a deposit in one step
+ *
+ * Skips on-chain verification, so it is only for deposits confirmed
+ * elsewhere (scripts, tests); the API goes through notifyDeposit.
+ */
+export async function deposit(
+  strategyId: mongoose.Types.ObjectId | string,
+  userId: mongoose.Types.ObjectId | string,
+  amount: AmountValue,
+  txHash: string,
+  contractAddress: string,
+): Promise<TreasuryOperationResult> {
+  const { transaction } = await recordDeposit(strategyId, userId, amount, txHash, contractAddress);
+  return completeDeposit(transaction._id as mongoose.Types.ObjectId);
+}
+
 /**
  * Withdraw funds from a strategy's treasury
  * Returns funds to user's wallet
+ *
+ * Debits the balance directly, so it is only for withdrawals settled
+ * elsewhere (scripts, tests); the API goes through the withdrawal request
+ * workflow (withdrawal.service).
  */
 export async function withdraw(
   strategyId: mongoose.Types.ObjectId | string,
   userId: mongoose.Types.ObjectId | string,
-  amount: number,
+  amount: AmountValue,
   txHash?: string,
 ): Promise<TreasuryOperationResult> {
   const session = await mongoose.startSession();
@@ -232,9 +526,11 @@ export async function withdraw(
     const userObjectId = typeof userId === "string" ? new mongoose.Types.ObjectId(userId) : userId;
 
     // Validate amount
-    if (amount <= 0) {
+    const amountWei = toWei(amount);
+    if (amountWei <= 0n) {
       throw new Error("Withdrawal amount must be positive");
     }
+    const weth = fromWei(amountWei);
 
     // Get treasury
     const treasury = await Treasury.findOne({
@@ -247,41 +543,28 @@ export async function withdraw(
     }
 
     // Check available balance
-    if (treasury.availableBalance < amount) {
+    if (toWei(treasury.availableBalance) < amountWei) {
       throw new Error(
-        `Insufficient balance. Available: ${treasury.availableBalance} WETH, Requested: ${amount} WETH`,
+        `Insufficient balance. Available: ${treasury.availableBalance} WETH, Requested: ${weth} WETH`,
       );
     }
 
-    // Capture balance before
-    const balanceBefore = treasury.availableBalance;
-
-    // Update treasury
-    treasury.totalWithdrawn += amount;
-    treasury.availableBalance -= amount;
     if (txHash) {
       treasury.lastWithdrawTxHash = txHash;
     }
-    await treasury.save({ session });
 
-    // Create transaction record
-    const transaction = await Transaction.create(
-      [
-        {
-          userId: userObjectId,
-          strategyId: strategyObjectId,
-          treasuryId: treasury._id,
-          type: "WITHDRAW",
-          amount: -amount, // Negative to indicate outflow
-          balanceBefore,
-          balanceAfter: treasury.availableBalance,
-          txHash,
-          description: `Withdrawal of ${amount} WETH to user wallet`,
-          status: txHash ? "COMPLETED" : "PENDING",
-        },
-      ],
-      { session },
-    ).then((docs) => docs[0]);
+    // Post to the ledger
+    const transaction = await postMovement(
+      treasury,
+      {
+        type: "WITHDRAW",
+        amount: -amountWei, // Negative to indicate outflow
+        txHash,
+        description: `Withdrawal of ${weth} WETH to user wallet`,
+        status: txHash ? "COMPLETED" : "PENDING",
+      },
+      session,
+    );
 
     await session.commitTransaction();
 
@@ -289,7 +572,7 @@ export async function withdraw(
       {
         treasuryId: treasury._id.toString(),
         strategyId: strategyObjectId.toString(),
-        amount,
+        amount: weth,
         txHash,
         newBalance: treasury.availableBalance,
       },
@@ -300,7 +583,7 @@ export async function withdraw(
       success: true,
       treasury,
       transaction,
-      message: `Successfully withdrew ${amount} WETH`,
+      message: `Successfully withdrew ${weth} WETH`,
     };
   } catch (error) {
     await session.abortTransaction();
@@ -312,14 +595,18 @@ export async function withdraw(
 }
 
 /**
- * Adjust balance for various operations
- * Generic function for trade execution, profit/loss recording, etc.
+ * Request a withdrawal and hold its amount
+ *
+ * Creates the REQUESTED withdrawal and moves the amount from the available
+ * to the locked balance (WITHDRAW_HOLD), so it cannot be traded or
+ * withdrawn twice while the request is pending.
  */
-export async function adjustBalance(
+export async function holdWithdrawal(
   strategyId: mongoose.Types.ObjectId | string,
   userId: mongoose.Types.ObjectId | string,
-  options: BalanceAdjustmentOptions,
-): Promise<TreasuryOperationResult> {
+  amount: AmountValue,
+  toAddress: string,
+): Promise<WithdrawalOperationResult> {
   const session = await mongoose.startSession();
   session.startTransaction();
 
@@ -327,12 +614,12 @@ export async function adjustBalance(
     const strategyObjectId = typeof strategyId === "string" ? new mongoose.Types.ObjectId(strategyId) : strategyId;
     const userObjectId = typeof userId === "string" ? new mongoose.Types.ObjectId(userId) : userId;
 
-    const { amount, type, description, tradeId, txHash, metadata } = options;
-
     // Validate amount
-    if (amount === 0) {
-      throw new Error("Adjustment amount cannot be zero");
+    const amountWei = toWei(amount);
+    if (amountWei <= 0n) {
+      throw new Error("Withdrawal amount must be positive");
     }
+    const weth = fromWei(amountWei);
 
     // Get treasury
     const treasury = await Treasury.findOne({
@@ -344,79 +631,286 @@ export async function adjustBalance(
       throw new Error("Treasury not found");
     }
 
-    // Capture balance before
-    const balanceBefore = treasury.availableBalance;
-
-    // Apply adjustment based on type
-    switch (type) {
-      case "TRADE_OPEN":
-        // Lock funds when opening a trade
-        if (treasury.availableBalance < Math.abs(amount)) {
-          throw new Error("Insufficient available balance to open trade");
-        }
-        treasury.availableBalance -= Math.abs(amount);
-        treasury.lockedBalance += Math.abs(amount);
-        break;
+    // Check available balance
+    if (toWei(treasury.availableBalance) < amountWei) {
+      throw new Error(
+        `Insufficient balance. Available: ${treasury.availableBalance} WETH, Requested: ${weth} WETH`,
+      );
+    }
 
-      case "TRADE_CLOSE":
-        // Unlock funds when closing a trade
-        treasury.lockedBalance -= Math.abs(amount);
-        treasury.availableBalance += Math.abs(amount);
-        break;
+    const withdrawal = new Withdrawal({
+      userId: treasury.userId,
+      strategyId: treasury.strategyId,
+      treasuryId: treasury._id,
+      amount: weth,
+      toAddress,
+      status: "REQUESTED",
+    });
+
+    // Post to the ledger
+    const transaction = await postMovement(
+      treasury,
+      {
+        type: "WITHDRAW_HOLD",
+        amount: -amountWei, // Leaves the available balance
+        description: `Hold of ${weth} WETH for withdrawal to ${withdrawal.toAddress}`,
+        metadata: { withdrawalId: withdrawal._id },
+      },
+      session,
+    );
 
-      case "PROFIT":
-        // Record profit
-        treasury.totalProfits += Math.abs(amount);
-        treasury.availableBalance += Math.abs(amount);
-        treasury.netProfitLoss = treasury.totalProfits - treasury.totalLosses;
-        break;
+    withdrawal.holdTransactionId = transaction._id as mongoose.Types.ObjectId;
+    await withdrawal.save({ session });
 
-      case "LOSS":
-        // Record loss
-        treasury.totalLosses += Math.abs(amount);
-        treasury.availableBalance -= Math.abs(amount);
-        treasury.netProfitLoss = treasury.totalProfits - treasury.totalLosses;
-        break;
+    await session.commitTransaction();
 
-      case "REFUND":
-        // Refund (positive adjustment)
-        treasury.availableBalance += Math.abs(amount);
-        break;
+    logger.info(
+      {
+        treasuryId: treasury._id.toString(),
+        strategyId: strategyObjectId.toString(),
+        withdrawalId: withdrawal._id.toString(),
+        amount: weth,
+        newBalance: treasury.availableBalance,
+      },
+      "Withdrawal requested",
+    );
 
-      case "ADJUSTMENT":
-        // Manual adjustment (can be positive or negative)
-        treasury.availableBalance += amount;
-        if (treasury.availableBalance < 0) {
-          throw new Error("Adjustment would result in negative balance");
-        }
-        break;
+    return {
+      success: true,
+      treasury,
+      transaction,
+      withdrawal,
+      message: `Withdrawal of ${weth} WETH requested`,
+    };
+  } catch (error) {
+    await session.abortTransaction();
+    logger.error({ error, strategyId, amount }, "Withdrawal request failed");
+    throw error;
+  } finally {
+    session.endSession();
+  }
+}
 
-      default:
-        throw new Error(`Unsupported transaction type: ${type}`);
+/**
+ * Settle a BROADCAST withdrawal confirmed on chain
+ *
+ * Releases the hold and posts the WITHDRAW with the transfer's txHash in
+ * one MongoDB transaction, and marks the withdrawal CONFIRMED.
+ *
+ * @param details - Confirmation details kept on the withdrawal
+ */
+export async function settleWithdrawal(
+  withdrawalId: mongoose.Types.ObjectId | string,
+  details: { confirmations?: number; blockNumber?: number } = {},
+): Promise<WithdrawalOperationResult> {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const withdrawal = await Withdrawal.findOne({ _id: withdrawalId, status: "BROADCAST" }).session(session);
+    if (!withdrawal) {
+      throw new Error("Broadcast withdrawal not found");
     }
 
-    await treasury.save({ session });
+    const treasury = await Treasury.findById(withdrawal.treasuryId).session(session);
+    if (!treasury) {
+      throw new Error("Treasury not found");
+    }
 
-    // Create transaction record
-    const transaction = await Transaction.create(
-      [
-        {
-          userId: userObjectId,
-          strategyId: strategyObjectId,
-          treasuryId: treasury._id,
-          type,
-          amount,
-          balanceBefore,
-          balanceAfter: treasury.availableBalance,
-          tradeId,
-          txHash,
-          description,
-          metadata,
-          status: "COMPLETED",
-        },
-      ],
-      { session },
-    ).then((docs) => docs[0]);
+    const amountWei = toWei(withdrawal.amount);
+    const weth = fromWei(amountWei);
+    const metadata = { withdrawalId: withdrawal._id };
+    treasury.lastWithdrawTxHash = withdrawal.txHash;
+
+    // Post to the ledger
+    const release = await postMovement(
+      treasury,
+      {
+        type: "WITHDRAW_RELEASE",
+        amount: amountWei,
+        description: `Release of ${weth} WETH held for withdrawal`,
+        metadata,
+      },
+      session,
+    );
+    const transaction = await postMovement(
+      treasury,
+      {
+        type: "WITHDRAW",
+        amount: -amountWei, // Negative to indicate outflow
+        txHash: withdrawal.txHash,
+        description: `Withdrawal of ${weth} WETH to ${withdrawal.toAddress}`,
+        metadata: { ...metadata, ...details },
+      },
+      session,
+    );
+
+    withdrawal.set({
+      status: "CONFIRMED",
+      confirmations: details.confirmations,
+      blockNumber: details.blockNumber,
+      releaseTransactionId: release._id,
+      withdrawTransactionId: transaction._id,
+      completedAt: new Date(),
+    });
+    await withdrawal.save({ session });
+
+    await session.commitTransaction();
+
+    logger.info(
+      {
+        treasuryId: treasury._id.toString(),
+        withdrawalId: withdrawal._id.toString(),
+        amount: weth,
+        txHash: withdrawal.txHash,
+        newBalance: treasury.availableBalance,
+      },
+      "Withdrawal completed successfully",
+    );
+
+    return {
+      success: true,
+      treasury,
+      transaction,
+      withdrawal,
+      message: `Successfully withdrew ${weth} WETH`,
+    };
+  } catch (error) {
+    await session.abortTransaction();
+    logger.error({ error, withdrawalId }, "Withdrawal settlement failed");
+    throw error;
+  } finally {
+    session.endSession();
+  }
+}
+
+/**
+ * Reverse a withdrawal that will not be settled
+ *
+ * Releases the hold back to the available balance with a REVERSED
+ * WITHDRAW_RELEASE and marks the withdrawal REJECTED or FAILED.
+ *
+ * @param from - Statuses the withdrawal may be reversed from
+ */
+export async function reverseWithdrawal(
+  withdrawalId: mongoose.Types.ObjectId | string,
+  status: "REJECTED" | "FAILED",
+  reason: string,
+  from: IWithdrawal["status"][],
+): Promise<WithdrawalOperationResult> {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const withdrawal = await Withdrawal.findOne({ _id: withdrawalId, status: { $in: from } }).session(session);
+    if (!withdrawal) {
+      throw new Error(`Withdrawal not found or not ${from.join(" / ")}`);
+    }
+
+    const treasury = await Treasury.findById(withdrawal.treasuryId).session(session);
+    if (!treasury) {
+      throw new Error("Treasury not found");
+    }
+
+    const amountWei = toWei(withdrawal.amount);
+    const weth = fromWei(amountWei);
+
+    // Post to the ledger
+    const transaction = await postMovement(
+      treasury,
+      {
+        type: "WITHDRAW_RELEASE",
+        amount: amountWei,
+        txHash: withdrawal.txHash,
+        description: `Reversal of withdrawal of ${weth} WETH: ${reason}`.slice(0, 500),
+        metadata: { withdrawalId: withdrawal._id, reason },
+        status: "REVERSED",
+      },
+      session,
+    );
+
+    withdrawal.set({
+      status,
+      reason,
+      releaseTransactionId: transaction._id,
+      completedAt: new Date(),
+    });
+    await withdrawal.save({ session });
+
+    await session.commitTransaction();
+
+    logger.warn(
+      {
+        treasuryId: treasury._id.toString(),
+        withdrawalId: withdrawal._id.toString(),
+        amount: weth,
+        status,
+        reason,
+      },
+      "Withdrawal reversed",
+    );
+
+    return {
+      success: true,
+      treasury,
+      transaction,
+      withdrawal,
+      message: `Withdrawal of ${weth} WETH ${status.toLowerCase()}, funds returned`,
+    };
+  } catch (error) {
+    await session.abortTransaction();
+    logger.error({ error, withdrawalId, status }, "Withdrawal reversal failed");
+    throw error;
+  } finally {
+    session.endSession();
+  }
+}
+
+/**
+ * Adjust balance for various operations
+ * Generic function for trade execution, profit/loss recording, etc.
+ */
+export async function adjustBalance(
+  strategyId: mongoose.Types.ObjectId | string,
+  userId: mongoose.Types.ObjectId | string,
+  options: BalanceAdjustmentOptions,
+): Promise<TreasuryOperationResult> {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const strategyObjectId = typeof strategyId === "string" ? new mongoose.Types.ObjectId(strategyId) : strategyId;
+    const userObjectId = typeof userId === "string" ? new mongoose.Types.ObjectId(userId) : userId;
+
+    const { type } = options;
+    const amount = toWei(options.amount);
+
+    // Validate amount
+    if (amount === 0n) {
+      throw new Error("Adjustment amount cannot be zero");
+    }
+
+    // Get treasury
+    const treasury = await Treasury.findOne({
+      strategyId: strategyObjectId,
+      userId: userObjectId,
+    }).session(session);
+
+    if (!treasury) {
+      throw new Error("Treasury not found");
+    }
+
+    // Guard movements the balances cannot absorb
+    const available = toWei(treasury.availableBalance);
+    if (type === "TRADE_OPEN" && available < (amount < 0n ? -amount : amount)) {
+      throw new Error("Insufficient available balance to open trade");
+    }
+    if (type === "ADJUSTMENT" && available + amount < 0n) {
+      throw new Error("Adjustment would result in negative balance");
+    }
+
+    // Post to the ledger
+    const transaction = await postMovement(treasury, { ...options, amount }, session);
 
     await session.commitTransaction();
 
@@ -425,7 +919,7 @@ export async function adjustBalance(
         treasuryId: treasury._id.toString(),
         strategyId: strategyObjectId.toString(),
         type,
-        amount,
+        amount: fromWei(amount),
         newBalance: treasury.availableBalance,
       },
       "Balance adjustment completed",
@@ -537,10 +1031,10 @@ export async function getTransactionSummary(
   strategyId: mongoose.Types.ObjectId | string,
   userId?: mongoose.Types.ObjectId | string,
 ): Promise<{
-  totalDeposits: number;
-  totalWithdrawals: number;
-  totalProfits: number;
-  totalLosses: number;
+  totalDeposits: string;
+  totalWithdrawals: string;
+  totalProfits: string;
+  totalLosses: string;
   transactionCount: number;
 }> {
   const strategyObjectId = typeof strategyId === "string" ? new mongoose.Types.ObjectId(strategyId) : strategyId;
@@ -567,28 +1061,32 @@ export async function getTransactionSummary(
   ]);
 
   const result = {
-    totalDeposits: 0,
-    totalWithdrawals: 0,
-    totalProfits: 0,
-    totalLosses: 0,
+    totalDeposits: "0",
+    totalWithdrawals: "0",
+    totalProfits: "0",
+    totalLosses: "0",
     transactionCount: 0,
   };
 
   summary.forEach((item) => {
     result.transactionCount += item.count;
-    
+
+    // Totals of Decimal128 amounts come back as Decimal128
+    const total = toWei(item.total);
+    const size = fromWei(total < 0n ? -total : total);
+
     switch (item._id) {
       case "DEPOSIT":
-        result.totalDeposits = item.total;
+        result.totalDeposits = size;
         break;
       case "WITHDRAW":
-        result.totalWithdrawals = Math.abs(item.total);
+        result.totalWithdrawals = size;
         break;
       case "PROFIT":
-        result.totalProfits = item.total;
+        result.totalProfits = size;
         break;
       case "LOSS":
-        result.totalLosses = Math.abs(item.total);
+        result.totalLosses = size;
         break;
     }
   });
@@ -601,7 +1099,7 @@ export async function getTransactionSummary(
  */
 export async function validateSufficientBalance(
   strategyId: mongoose.Types.ObjectId | string,
-  requiredAmount: number,
+  requiredAmount: AmountValue,
 ): Promise<boolean> {
   const strategyObjectId = typeof strategyId === "string" ? new mongoose.Types.ObjectId(strategyId) : strategyId;
 
@@ -611,5 +1109,5 @@ export async function validateSufficientBalance(
     return false;
   }
 
-  return treasury.availableBalance >= requiredAmount;
+  return toWei(treasury.availableBalance) >= toWei(requiredAmount);
 }
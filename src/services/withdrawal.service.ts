@@ -0,0 +1,288 @@
+/**
+ * Withdrawal Service
+ *
+ * Withdrawals go through a request workflow instead of debiting the
+ * treasury directly:
+ *
+ *   REQUESTED -> APPROVED -> BROADCAST -> CONFIRMED | FAILED
+ *
+ * - Requesting holds the amount in the locked balance. Users who have
+ *   linked wallets (Sign-In with Ethereum) can only withdraw to them
+ * - Requests up to WITHDRAWAL_AUTO_APPROVE_MAX WETH are approved right
+ *   away; larger ones wait for an admin, who can also reject them
+ * - Once the transfer is sent, its txHash is recorded (BROADCAST) and the
+ *   settlement tracker checks it on chain with the TransferVerifier:
+ *   confirmed transfers settle the withdrawal, rejected ones fail it
+ * - Rejected and failed withdrawals release the hold with a REVERSED
+ *   transaction
+ *
+ * The user is emailed at each step. Email failures are logged and never
+ * interrupt the workflow.
+ */
+
+import mongoose from "mongoose";
+import { env } from "../env";
+import { Strategy, User, Withdrawal, IWithdrawal } from "../db/schema";
+import { holdWithdrawal, reverseWithdrawal, settleWithdrawal } from "./treasury.service";
+import { getTransferVerifier } from "./transfer.verifier";
+import { emailService } from "../emails/email.util";
+import { toAmountString, toWei, type AmountValue } from "../lib/amount.utils";
+import logger from "../lib/logger";
+
+export type WithdrawalStatus = IWithdrawal["status"];
+
+export interface WithdrawalQueryOptions {
+  status?: WithdrawalStatus;
+  strategyId?: string;
+  limit?: number;
+  skip?: number;
+}
+
+/**
+ * Email the user the withdrawal's current status
+ */
+async function notifyUser(withdrawal: IWithdrawal): Promise<void> {
+  try {
+    const [user, strategy] = await Promise.all([
+      User.findById(withdrawal.userId).select("email"),
+      Strategy.findById(withdrawal.strategyId).select("name"),
+    ]);
+    if (!user) {
+      return;
+    }
+
+    await emailService.withdrawalStatusEmail(user.email, {
+      status: withdrawal.status,
+      amount: toAmountString(withdrawal.amount),
+      toAddress: withdrawal.toAddress,
+      strategyName: strategy?.name ?? "your strategy",
+      txHash: withdrawal.txHash,
+      reason: withdrawal.reason,
+    });
+  } catch (error) {
+    logger.warn(
+      { error, withdrawalId: withdrawal._id, status: withdrawal.status },
+      "Failed to send withdrawal status email",
+    );
+  }
+}
+
+/**
+ * Load a withdrawal and check it is in one of the expected statuses
+ */
+async function findWithdrawal(
+  withdrawalId: mongoose.Types.ObjectId | string,
+  expected: WithdrawalStatus[],
+  action: string,
+): Promise<IWithdrawal> {
+  if (!mongoose.Types.ObjectId.isValid(withdrawalId)) {
+    throw new Error("Withdrawal not found");
+  }
+
+  const withdrawal = await Withdrawal.findById(withdrawalId);
+  if (!withdrawal) {
+    throw new Error("Withdrawal not found");
+  }
+  if (!expected.includes(withdrawal.status)) {
+    throw new Error(`Withdrawal cannot be ${action} while ${withdrawal.status}`);
+  }
+  return withdrawal;
+}
+
+/**
+ * Request a withdrawal to the user's wallet
+ *
+ * Holds the amount and approves the request right away when it is at most
+ * WITHDRAWAL_AUTO_APPROVE_MAX WETH. When the user has linked wallets,
+ * `toAddress` must be one of them.
+ */
+export async function requestWithdrawal(
+  strategyId: mongoose.Types.ObjectId | string,
+  userId: mongoose.Types.ObjectId | string,
+  amount: AmountValue,
+  toAddress: string,
+): Promise<IWithdrawal> {
+  const user = await User.findById(userId).select("walletAddresses");
+  if (user?.walletAddresses.length && !user.walletAddresses.includes(toAddress.toLowerCase())) {
+    throw new Error("Withdrawals can only be sent to a linked wallet");
+  }
+
+  const { withdrawal } = await holdWithdrawal(strategyId, userId, amount, toAddress);
+  await notifyUser(withdrawal);
+
+  if (toWei(withdrawal.amount) <= toWei(env.WITHDRAWAL_AUTO_APPROVE_MAX)) {
+    return approveWithdrawal(withdrawal._id as mongoose.Types.ObjectId, "AUTO");
+  }
+  return withdrawal;
+}
+
+/**
+ * Approve a REQUESTED withdrawal so its transfer can be sent
+ */
+export async function approveWithdrawal(
+  withdrawalId: mongoose.Types.ObjectId | string,
+  approvedBy: "AUTO" | "ADMIN" = "ADMIN",
+): Promise<IWithdrawal> {
+  await findWithdrawal(withdrawalId, ["REQUESTED"], "approved");
+
+  const withdrawal = await Withdrawal.findOneAndUpdate(
+    { _id: withdrawalId, status: "REQUESTED" },
+    { $set: { status: "APPROVED", approvedBy, approvedAt: new Date() } },
+    { new: true },
+  );
+  if (!withdrawal) {
+    // Changed since it was loaded
+    return findWithdrawal(withdrawalId, ["REQUESTED"], "approved");
+  }
+
+  logger.info({ withdrawalId: withdrawal._id.toString(), approvedBy }, "Withdrawal approved");
+  await notifyUser(withdrawal);
+  return withdrawal;
+}
+
+/**
+ * Reject a withdrawal that has not been sent, returning the held funds
+ */
+export async function rejectWithdrawal(
+  withdrawalId: mongoose.Types.ObjectId | string,
+  reason: string,
+): Promise<IWithdrawal> {
+  const from: WithdrawalStatus[] = ["REQUESTED", "APPROVED"];
+  await findWithdrawal(withdrawalId, from, "rejected");
+
+  const { withdrawal } = await reverseWithdrawal(withdrawalId, "REJECTED", reason, from);
+  await notifyUser(withdrawal);
+  return withdrawal;
+}
+
+/**
+ * Record the transaction that sends an APPROVED withdrawal, and check it on
+ * chain right away
+ */
+export async function markWithdrawalBroadcast(
+  withdrawalId: mongoose.Types.ObjectId | string,
+  txHash: string,
+): Promise<IWithdrawal> {
+  await findWithdrawal(withdrawalId, ["APPROVED"], "broadcast");
+
+  let withdrawal: IWithdrawal | null;
+  try {
+    withdrawal = await Withdrawal.findOneAndUpdate(
+      { _id: withdrawalId, status: "APPROVED" },
+      { $set: { status: "BROADCAST", txHash: txHash.toLowerCase(), broadcastAt: new Date() } },
+      { new: true, runValidators: true },
+    );
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      throw new Error("Transaction already settles another withdrawal");
+    }
+    throw error;
+  }
+  if (!withdrawal) {
+    return findWithdrawal(withdrawalId, ["APPROVED"], "broadcast");
+  }
+
+  logger.info({ withdrawalId: withdrawal._id.toString(), txHash: withdrawal.txHash }, "Withdrawal broadcast");
+  await notifyUser(withdrawal);
+  return checkWithdrawalSettlement(withdrawal);
+}
+
+/**
+ * Check a BROADCAST withdrawal's transfer on chain, and settle or fail it
+ *
+ * Transfers that are not confirmed yet, RPC failures and a missing
+ * verifier leave the withdrawal BROADCAST for the next run.
+ */
+export async function checkWithdrawalSettlement(withdrawal: IWithdrawal): Promise<IWithdrawal> {
+  const verifier = getTransferVerifier();
+  if (!verifier) {
+    return withdrawal;
+  }
+
+  const withdrawalId = withdrawal._id as mongoose.Types.ObjectId;
+  let verification;
+  try {
+    verification = await verifier.verify({
+      txHash: withdrawal.txHash!,
+      to: withdrawal.toAddress,
+      amount: toAmountString(withdrawal.amount),
+    });
+  } catch (error) {
+    logger.warn({ error, withdrawalId, txHash: withdrawal.txHash }, "Withdrawal verification failed, will retry");
+    return withdrawal;
+  }
+
+  if (verification.status === "PENDING") {
+    withdrawal.confirmations = verification.confirmations;
+    return withdrawal.save();
+  }
+
+  const result =
+    verification.status === "CONFIRMED"
+      ? await settleWithdrawal(withdrawalId, {
+        confirmations: verification.confirmations,
+        blockNumber: verification.blockNumber,
+      })
+      : await reverseWithdrawal(withdrawalId, "FAILED", verification.reason!, ["BROADCAST"]);
+
+  await notifyUser(result.withdrawal);
+  return result.withdrawal;
+}
+
+/**
+ * Check every BROADCAST withdrawal, oldest first
+ */
+export async function trackBroadcastWithdrawals(): Promise<{
+  pending: number;
+  confirmed: number;
+  failed: number;
+}> {
+  const withdrawals = await Withdrawal.find({ status: "BROADCAST" }).sort({ broadcastAt: 1 });
+  let confirmed = 0;
+  let failed = 0;
+
+  for (const broadcast of withdrawals) {
+    try {
+      const result = await checkWithdrawalSettlement(broadcast);
+      if (result.status === "CONFIRMED") {
+        confirmed++;
+      } else if (result.status === "FAILED") {
+        failed++;
+      }
+    } catch (error) {
+      logger.error({ error, withdrawalId: broadcast._id }, "Failed to track withdrawal");
+    }
+  }
+
+  return { pending: withdrawals.length, confirmed, failed };
+}
+
+/**
+ * Withdrawals matching the filters, newest first
+ *
+ * @param userId - Only this user's withdrawals (all users when omitted)
+ */
+export async function listWithdrawals(
+  options: WithdrawalQueryOptions = {},
+  userId?: mongoose.Types.ObjectId | string,
+): Promise<{ withdrawals: IWithdrawal[]; total: number }> {
+  const { status, strategyId, limit = 50, skip = 0 } = options;
+
+  const query: any = {};
+  if (userId) {
+    query.userId = typeof userId === "string" ? new mongoose.Types.ObjectId(userId) : userId;
+  }
+  if (strategyId) {
+    query.strategyId = new mongoose.Types.ObjectId(strategyId);
+  }
+  if (status) {
+    query.status = status;
+  }
+
+  const [withdrawals, total] = await Promise.all([
+    Withdrawal.find(query).sort({ createdAt: -1 }).limit(limit).skip(skip),
+    Withdrawal.countDocuments(query),
+  ]);
+
+  return { withdrawals, total };
+}
@@ -2,10 +2,12 @@
  * Technical Indicator Tools for AI Agents
  * 
  * This module exports all technical indicator tools that can be used by AI agents
- * to analyze WETHUSDT market data and provide trading insights.
+ * to analyze market data for any supported trading pair (WETHUSDT, WBTCUSDT,
+ * SOLUSDT, ...) and provide trading insights.
  * 
- * All tools automatically fetch market data from Binance API and return
- * human-readable trading context rather than raw mathematical values.
+ * All tools automatically fetch market data from the configured market data
+ * source (Binance API or a recorded replay) and return human-readable
+ * trading context rather than raw mathematical values.
  */
 
 // Import all tool categories
@@ -13,6 +15,7 @@ import { trendIndicatorTools } from "./trend.indicators";
 import { momentumIndicatorTools } from "./momentum.indicators";
 import { volumeIndicatorTools } from "./volume.indicators";
 import { volatilityIndicatorTools } from "./volatility.indicators";
+import { DEFAULT_SYMBOL, SUPPORTED_SYMBOLS } from "./types/market-data.types";
 
 // Export individual tool categories
 export { trendIndicatorTools } from "./trend.indicators";
@@ -66,9 +69,22 @@ export * from "./types/trend.types";
 export * from "./types/momentum.types";
 export * from "./types/volume.types";
 export * from "./types/volatility.types";
+export * from "./types/market-data.types";
 
 // Export market data utilities
-export { getMarketData, getOHLCArrays } from "./marketData";
+export {
+  getMarketData,
+  getOHLCArrays,
+  setMarketDataSource,
+  withMarketDataSource,
+  marketDataProvider,
+} from "./marketData";
+export {
+  BinanceMarketDataSource,
+  InMemoryMarketDataSource,
+  ReplayMarketDataSource,
+  createMarketDataSource,
+} from "./sources";
 
 /**
  * All technical indicator tools combined
@@ -115,7 +131,8 @@ export const toolMetadata = {
     volume: volumeIndicatorTools.length,
     volatility: volatilityIndicatorTools.length,
   },
-  marketPair: "WETHUSDT",
-  dataSource: "Binance API",
+  supportedPairs: SUPPORTED_SYMBOLS,
+  defaultPair: DEFAULT_SYMBOL,
+  dataSource: "Binance API or recorded replay (MARKET_DATA_SOURCE)",
   cacheDuration: "60 seconds",
 };
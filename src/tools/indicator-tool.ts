@@ -0,0 +1,42 @@
+import { createTool } from "@iqai/adk";
+import type { BaseTool } from "@iqai/adk";
+import type { z } from "zod";
+
+/**
+ * An indicator tool that can also be run outside an agent
+ */
+export type IndicatorTool<Params = Record<string, unknown>, Result = unknown> = BaseTool & {
+  /**
+   * Validate the params (applying schema defaults) and run the calculation
+   *
+   * Unlike `runAsync`, needs no tool context, and throws instead of
+   * returning `{ error }`.
+   */
+  analyze: (params: Params) => Promise<Result>;
+};
+
+interface IndicatorToolConfig<Params extends Record<string, any>, Input, Result> {
+  name: string;
+  description: string;
+  schema: z.ZodType<Params, Input>;
+  fn: (params: Params) => Promise<Result>;
+}
+
+/**
+ * Create an agent tool for an indicator, keeping its calculation callable
+ * directly (e.g. by the backtester)
+ */
+export function createIndicatorTool<Params extends Record<string, any>, Input, Result>(
+  config: IndicatorToolConfig<Params, Input, Result>,
+): IndicatorTool<Input, Result> {
+  const tool = createTool<Params>({
+    name: config.name,
+    description: config.description,
+    schema: config.schema,
+    fn: params => config.fn(params),
+  });
+
+  return Object.assign(tool, {
+    analyze: (params: Input) => config.fn(config.schema.parse(params)),
+  });
+}
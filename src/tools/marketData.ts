@@ -1,18 +1,29 @@
-import axios from "axios";
+import { AsyncLocalStorage } from "node:async_hooks";
 import type { Candle } from "./types/common.types";
+import { DEFAULT_SYMBOL, type MarketDataSource } from "./types/market-data.types";
 import logger from "../lib/logger";
+import { createMarketDataSource } from "./sources";
 
 /**
- * Market data provider for fetching WETHUSDT data
- * This is a singleton that provides market data to all indicator tools
+ * Per-call source override (see withMarketDataSource)
+ */
+const scopedSource = new AsyncLocalStorage<MarketDataSource>();
+
+/**
+ * Market data provider for fetching candles for any supported trading pair
+ * This is a singleton that provides market data to all indicator tools.
+ * Candles come from a pluggable MarketDataSource (Binance by default,
+ * or a recorded replay for offline runs).
  */
 class MarketDataProvider {
   private static instance: MarketDataProvider;
   private cache: Map<string, { data: Candle[]; timestamp: number }> = new Map();
   private readonly CACHE_DURATION = 60000; // 1 minute cache
-  private readonly BINANCE_API = "https://api.binance.com/api/v3";
+  private source: MarketDataSource;
 
-  private constructor() {}
+  private constructor() {
+    this.source = createMarketDataSource();
+  }
 
   /**
    * Get singleton instance
@@ -25,64 +36,117 @@ class MarketDataProvider {
   }
 
   /**
-   * Fetch WETHUSDT market data from Binance
+   * Swap the underlying data source (e.g. a replay source in tests)
+   */
+  setSource(source: MarketDataSource) {
+    this.source = source;
+    this.clearCache();
+    logger.info({ source: source.name }, "Market data source changed");
+  }
+
+  /**
+   * Get the active data source (a scoped override wins over the global one)
+   */
+  getSource(): MarketDataSource {
+    return scopedSource.getStore() ?? this.source;
+  }
+
+  /**
+   * Fetch market data for a trading pair from the active source
    * @param interval - Timeframe interval (e.g., "1m", "5m", "15m", "1h", "4h", "1d")
    * @param limit - Number of candles to fetch (max 1000)
+   * @param symbol - Trading pair symbol (e.g., "WETHUSDT", "SOLUSDT")
    * @returns Array of candles with OHLCV data
    */
-  async getMarketData(interval: string = "15m", limit: number = 100): Promise<Candle[]> {
-    const cacheKey = `WETHUSDT-${interval}-${limit}`;
-    const cached = this.cache.get(cacheKey);
+  async getMarketData(interval: string = "15m", limit: number = 100, symbol: string = DEFAULT_SYMBOL): Promise<Candle[]> {
+    const source = this.getSource();
+    const cacheKey = `${source.name}:${symbol}-${interval}-${limit}`;
+    const cached = source.cacheable ? this.cache.get(cacheKey) : undefined;
 
     // Return cached data if it's still valid
     if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
-      logger.debug({ interval, limit }, "Returning cached market data");
+      logger.debug({ symbol, interval, limit }, "Returning cached market data");
       return cached.data;
     }
 
     try {
-      logger.info({ interval, limit }, "Fetching market data from Binance");
-
-      const response = await axios.get(`${this.BINANCE_API}/klines`, {
-        params: {
-          symbol: "WETHUSDT",
-          interval,
-          limit,
-        },
-        timeout: 10000,
-      });
+      logger.info({ symbol, interval, limit, source: source.name }, "Fetching market data");
 
-      const candles: Candle[] = response.data.map((kline: any[]) => ({
-        timestamp: kline[0],
-        open: parseFloat(kline[1]),
-        high: parseFloat(kline[2]),
-        low: parseFloat(kline[3]),
-        close: parseFloat(kline[4]),
-        volume: parseFloat(kline[5]),
-      }));
+      const candles = await source.getCandles({
+        symbol,
+        interval,
+        limit,
+      });
 
       // Cache the data
-      this.cache.set(cacheKey, {
-        data: candles,
-        timestamp: Date.now(),
-      });
+      if (source.cacheable) {
+        this.cache.set(cacheKey, {
+          data: candles,
+          timestamp: Date.now(),
+        });
+      }
 
       logger.info({ candleCount: candles.length }, "Market data fetched successfully");
       return candles;
     } catch (error) {
-      logger.error({ error, interval, limit }, "Failed to fetch market data");
+      logger.error({ error, symbol, interval, limit }, "Failed to fetch market data");
       throw new Error(`Failed to fetch market data: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
   }
 
+  /**
+   * Fetch every candle in a time range, paging through the active source
+   * @param symbol - Trading pair symbol
+   * @param interval - Timeframe interval
+   * @param startTime - First candle open time (ms)
+   * @param endTime - Last candle open time (ms)
+   * @param maxCandles - Safety cap on the number of candles returned
+   */
+  async getHistoricalCandles(
+    symbol: string,
+    interval: string,
+    startTime: number,
+    endTime: number,
+    maxCandles: number = 10000,
+  ): Promise<Candle[]> {
+    const source = this.getSource();
+    const candles: Candle[] = [];
+    let cursor = startTime;
+
+    while (cursor <= endTime && candles.length < maxCandles) {
+      const page = await source.getCandles({
+        symbol,
+        interval,
+        startTime: cursor,
+        endTime,
+        limit: Math.min(1000, maxCandles - candles.length),
+      });
+
+      const fresh = page.filter(c => c.timestamp >= cursor);
+      if (fresh.length === 0) {
+        break;
+      }
+
+      candles.push(...fresh);
+      cursor = fresh[fresh.length - 1].timestamp + 1;
+    }
+
+    logger.info(
+      { symbol, interval, startTime, endTime, candleCount: candles.length, source: source.name },
+      "Historical market data fetched",
+    );
+    return candles;
+  }
+
   /**
    * Get OHLC arrays for indicator calculations
    * @param interval - Timeframe interval
    * @param limit - Number of candles to fetch
+   * @param symbol - Trading pair symbol
    * @returns Object with separate arrays for open, high, low, close, volume
    */
-  async getOHLCArrays(interval: string = "15m", limit: number = 100) {
-    const candles = await this.getMarketData(interval, limit);
+  async getOHLCArrays(interval: string = "15m", limit: number = 100, symbol: string = DEFAULT_SYMBOL) {
+    const candles = await this.getMarketData(interval, limit, symbol);
 
     return {
       open: candles.map(c => c.open),
@@ -112,16 +176,37 @@ export const marketDataProvider = MarketDataProvider.getInstance();
  * Helper function to get market data (used by all indicator tools)
  * @param interval - Timeframe interval
  * @param limit - Number of candles
+ * @param symbol - Trading pair symbol
  */
-export async function getMarketData(interval: string = "15m", limit: number = 100): Promise<Candle[]> {
-  return marketDataProvider.getMarketData(interval, limit);
+export async function getMarketData(interval: string = "15m", limit: number = 100, symbol: string = DEFAULT_SYMBOL): Promise<Candle[]> {
+  return marketDataProvider.getMarketData(interval, limit, symbol);
 }
 
 /**
  * Helper function to get OHLC arrays (used by indicator calculations)
  * @param interval - Timeframe interval
  * @param limit - Number of candles
+ * @param symbol - Trading pair symbol
+ */
+export async function getOHLCArrays(interval: string = "15m", limit: number = 100, symbol: string = DEFAULT_SYMBOL) {
+  return marketDataProvider.getOHLCArrays(interval, limit, symbol);
+}
+
+/**
+ * Run `fn` with a different market data source without touching the global one.
+ * Indicator tools called inside `fn` (and anything it awaits) read from `source`,
+ * so a backtest never leaks into concurrent live analysis.
+ * @param source - Data source for this call chain
+ * @param fn - Work to run
+ */
+export function withMarketDataSource<T>(source: MarketDataSource, fn: () => Promise<T>): Promise<T> {
+  return scopedSource.run(source, fn);
+}
+
+/**
+ * Replace the market data source used by all indicator tools
+ * @param source - Data source implementation
  */
-export async function getOHLCArrays(interval: string = "15m", limit: number = 100) {
-  return marketDataProvider.getOHLCArrays(interval, limit);
+export function setMarketDataSource(source: MarketDataSource) {
+  marketDataProvider.setSource(source);
 }
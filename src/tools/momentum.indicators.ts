@@ -1,4 +1,4 @@
-import { createTool } from "@iqai/adk";
+import { createIndicatorTool } from "./indicator-tool";
 import { z } from "zod";
 import {
   rsi,
@@ -11,6 +11,7 @@ import {
   ichimokuCloud,
 } from "indicatorts";
 import { getOHLCArrays, getMarketData } from "./marketData";
+import { DEFAULT_SYMBOL, SUPPORTED_SYMBOLS } from "./types/market-data.types";
 import logger from "../lib/logger";
 import type {
   RelativeStrengthIndexResult,
@@ -27,19 +28,20 @@ import type { SignalStrength, TrendDirection } from "./types/common.types";
 /**
  * RSI (Relative Strength Index) tool
  */
-export const rsiTool = createTool({
+export const rsiTool = createIndicatorTool({
   name: "relativeStrengthIndex",
   description: "Measures momentum and identifies overbought/oversold conditions using RSI. Values above 70 suggest overbought, below 30 suggest oversold.",
   schema: z.object({
     period: z.number().min(2).max(50).default(14).describe("RSI period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<RelativeStrengthIndexResult> => {
     try {
-      const { period, interval } = params;
+      const { period, interval, symbol } = params;
       const limit = period * 3;
-      const { close } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { close } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const rsiValues = rsi(close, { period });
       const currentRsi = rsiValues[rsiValues.length - 1];
@@ -108,20 +110,21 @@ export const rsiTool = createTool({
 /**
  * Stochastic Oscillator tool
  */
-export const stochasticTool = createTool({
+export const stochasticTool = createIndicatorTool({
   name: "stochasticOscillator",
   description: "Identifies momentum and overbought/oversold conditions using Stochastic Oscillator. Compares closing price to price range.",
   schema: z.object({
     kPeriod: z.number().default(14).describe("%K period"),
     dPeriod: z.number().default(3).describe("%D period (signal line)"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<StochasticOscillatorResult> => {
     try {
-      const { kPeriod, dPeriod, interval } = params;
+      const { kPeriod, dPeriod, interval, symbol } = params;
       const limit = kPeriod + dPeriod + 50;
-      const { high, low, close } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { high, low, close } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const stochResult = stochasticOscillator(high, low, close, { kPeriod, dPeriod });
       const kValue = stochResult.k[stochResult.k.length - 1];
@@ -196,19 +199,20 @@ export const stochasticTool = createTool({
 /**
  * Williams %R tool
  */
-export const williamsRTool = createTool({
+export const williamsRTool = createIndicatorTool({
   name: "williamsR",
   description: "Measures momentum and identifies overbought/oversold levels using Williams %R. Similar to Stochastic but inverted scale.",
   schema: z.object({
     period: z.number().min(5).max(50).default(14).describe("Williams %R period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<WilliamsRResult> => {
     try {
-      const { period, interval } = params;
+      const { period, interval, symbol } = params;
       const limit = period + 50;
-      const { high, low, close } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { high, low, close } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const wrValues = williamsR( high, low, close, { period });
       const williamsRValue = wrValues[wrValues.length - 1];
@@ -269,19 +273,20 @@ export const williamsRTool = createTool({
 /**
  * ROC (Rate of Change) tool
  */
-export const rocTool = createTool({
+export const rocTool = createIndicatorTool({
   name: "rateOfChange",
   description: "Measures momentum by calculating rate of change in price over a period. Positive values indicate upward momentum.",
   schema: z.object({
     period: z.number().min(5).max(50).default(12).describe("ROC period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<RateOfChangeResult> => {
     try {
-      const { period, interval } = params;
+      const { period, interval, symbol } = params;
       const limit = period + 50;
-      const { close } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { close } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const rocValues = roc( close, { period });
       const rocValue = rocValues[rocValues.length - 1];
@@ -340,20 +345,21 @@ export const rocTool = createTool({
 /**
  * Awesome Oscillator tool
  */
-export const awesomeOscillatorTool = createTool({
+export const awesomeOscillatorTool = createIndicatorTool({
   name: "awesomeOscillator",
   description: "Measures market momentum using Awesome Oscillator. Identifies saucer patterns and zero-line crossovers.",
   schema: z.object({
     shortPeriod: z.number().default(5).describe("Short SMA period"),
     longPeriod: z.number().default(34).describe("Long SMA period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<AwesomeOscillatorResult> => {
     try {
-      const { shortPeriod, longPeriod, interval } = params;
+      const { shortPeriod, longPeriod, interval, symbol } = params;
       const limit = longPeriod + 50;
-      const { high, low } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { high, low } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const aoValues = awesomeOscillator( high, low, { slow: shortPeriod, fast: longPeriod });
       const aoValue = aoValues[aoValues.length - 1];
@@ -417,7 +423,7 @@ export const awesomeOscillatorTool = createTool({
 /**
  * PPO (Percentage Price Oscillator) tool
  */
-export const ppoTool = createTool({
+export const ppoTool = createIndicatorTool({
   name: "percentagePriceOscillator",
   description: "Measures momentum using Percentage Price Oscillator. Similar to MACD but normalized as percentage.",
   schema: z.object({
@@ -425,13 +431,14 @@ export const ppoTool = createTool({
     slowPeriod: z.number().default(26).describe("Slow EMA period"),
     signalPeriod: z.number().default(9).describe("Signal line period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<PercentagePriceOscillatorResult> => {
     try {
-      const { fastPeriod, slowPeriod, signalPeriod, interval } = params;
+      const { fastPeriod, slowPeriod, signalPeriod, interval, symbol } = params;
       const limit = Math.max(slowPeriod, fastPeriod) + signalPeriod + 50;
-      const { close } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { close } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const ppoResult = ppo(close, {fast: fastPeriod, slow: slowPeriod, signal: signalPeriod});
       const ppoValue = ppoResult.ppoResult[ppoResult.ppoResult.length - 1];
@@ -0,0 +1,35 @@
+import axios from "axios";
+import type { Candle } from "../types/common.types";
+import type { CandleQuery, MarketDataSource } from "../types/market-data.types";
+
+/**
+ * Live market data from the Binance public klines endpoint
+ */
+export class BinanceMarketDataSource implements MarketDataSource {
+  readonly name = "binance";
+  readonly cacheable = true;
+
+  constructor(private readonly baseUrl: string = "https://api.binance.com/api/v3") {}
+
+  async getCandles(query: CandleQuery): Promise<Candle[]> {
+    const response = await axios.get(`${this.baseUrl}/klines`, {
+      params: {
+        symbol: query.symbol,
+        interval: query.interval,
+        limit: query.limit,
+        startTime: query.startTime,
+        endTime: query.endTime,
+      },
+      timeout: 10000,
+    });
+
+    return response.data.map((kline: any[]) => ({
+      timestamp: kline[0],
+      open: parseFloat(kline[1]),
+      high: parseFloat(kline[2]),
+      low: parseFloat(kline[3]),
+      close: parseFloat(kline[4]),
+      volume: parseFloat(kline[5]),
+    }));
+  }
+}
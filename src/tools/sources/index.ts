@@ -0,0 +1,26 @@
+/**
+ * Market Data Sources
+ *
+ * - binance: live klines from api.binance.com (default)
+ * - replay: recorded CSV/JSON fixtures for offline, deterministic runs
+ * - memory: in-process series stepped bar by bar (backtests)
+ */
+
+import { env } from "../../env";
+import type { MarketDataSource } from "../types/market-data.types";
+import { BinanceMarketDataSource } from "./binance.source";
+import { ReplayMarketDataSource } from "./replay.source";
+
+export { BinanceMarketDataSource } from "./binance.source";
+export { InMemoryMarketDataSource } from "./memory.source";
+export { ReplayMarketDataSource, parseCsvCandles, parseJsonCandles } from "./replay.source";
+
+/**
+ * Build the market data source configured through the environment
+ */
+export function createMarketDataSource(): MarketDataSource {
+  if (env.MARKET_DATA_SOURCE === "replay") {
+    return new ReplayMarketDataSource(env.MARKET_DATA_REPLAY_DIR);
+  }
+  return new BinanceMarketDataSource(env.BINANCE_API_URL);
+}
@@ -0,0 +1,84 @@
+import type { Candle } from "../types/common.types";
+import type { CandleQuery, MarketDataSource } from "../types/market-data.types";
+
+/**
+ * Serves candles from series held in memory
+ *
+ * Used to step through history bar by bar (backtests, replays). The
+ * replay clock (`seek`) caps which candles are visible, so indicator
+ * tools only ever see data up to the bar being evaluated.
+ */
+export class InMemoryMarketDataSource implements MarketDataSource {
+  readonly name: string = "memory";
+  readonly cacheable = false;
+
+  protected series: Map<string, Candle[]> = new Map();
+  private cursor?: number;
+
+  /**
+   * Register the full series for a symbol/interval
+   */
+  setSeries(symbol: string, interval: string, candles: Candle[]) {
+    const sorted = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+    this.series.set(`${symbol}-${interval}`, sorted);
+  }
+
+  /**
+   * Move the replay clock. Candles opened after `timestamp` are hidden.
+   * Pass `undefined` to expose the whole series again.
+   */
+  seek(timestamp?: number) {
+    this.cursor = timestamp;
+  }
+
+  /**
+   * Current replay clock, if set
+   */
+  getCursor(): number | undefined {
+    return this.cursor;
+  }
+
+  async getCandles(query: CandleQuery): Promise<Candle[]> {
+    const candles = await this.loadSeries(query.symbol, query.interval);
+
+    const bounds = [query.endTime, this.cursor].filter((t): t is number => t !== undefined);
+    const endTime = bounds.length > 0 ? Math.min(...bounds) : Number.POSITIVE_INFINITY;
+    const end = upperBound(candles, endTime);
+
+    // Same semantics as Binance klines: startTime pages forward, otherwise return the latest candles
+    if (query.startTime !== undefined) {
+      const start = upperBound(candles, query.startTime - 1);
+      return candles.slice(start, Math.min(end, start + query.limit));
+    }
+    return candles.slice(Math.max(0, end - query.limit), end);
+  }
+
+  /**
+   * Get the complete series for a symbol/interval
+   */
+  async loadSeries(symbol: string, interval: string): Promise<Candle[]> {
+    const key = `${symbol}-${interval}`;
+    const series = this.series.get(key);
+    if (!series) {
+      throw new Error(`No market data loaded for ${key}`);
+    }
+    return series;
+  }
+}
+
+/**
+ * Index of the first candle opened after `timestamp` (series is sorted)
+ */
+function upperBound(candles: Candle[], timestamp: number): number {
+  let low = 0;
+  let high = candles.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (candles[mid].timestamp <= timestamp) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
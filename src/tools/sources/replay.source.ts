@@ -0,0 +1,122 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { Candle } from "../types/common.types";
+import { InMemoryMarketDataSource } from "./memory.source";
+
+/**
+ * Replays recorded candles from CSV/JSON fixtures on disk
+ *
+ * Files are looked up as `<directory>/<SYMBOL>-<interval>.json` and then
+ * `<directory>/<SYMBOL>-<interval>.csv`.
+ *
+ * Supported formats:
+ * - JSON array of candle objects ({ timestamp, open, high, low, close, volume })
+ * - JSON array of raw Binance klines ([openTime, "open", "high", "low", "close", "volume", ...])
+ * - CSV with a `timestamp,open,high,low,close,volume` header
+ *
+ * The replay clock (`seek`) caps which candles are visible, so the same
+ * fixture can be stepped through bar by bar.
+ */
+export class ReplayMarketDataSource extends InMemoryMarketDataSource {
+  readonly name = "replay";
+
+  constructor(private readonly directory: string) {
+    super();
+  }
+
+  /**
+   * Load the complete recorded series for a symbol/interval
+   */
+  async loadSeries(symbol: string, interval: string): Promise<Candle[]> {
+    const key = `${symbol}-${interval}`;
+    const cached = this.series.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const jsonPath = path.join(this.directory, `${key}.json`);
+    const csvPath = path.join(this.directory, `${key}.csv`);
+
+    let candles: Candle[];
+    if (existsSync(jsonPath)) {
+      candles = parseJsonCandles(await readFile(jsonPath, "utf8"));
+    } else if (existsSync(csvPath)) {
+      candles = parseCsvCandles(await readFile(csvPath, "utf8"));
+    } else {
+      throw new Error(`No replay data for ${key} in ${this.directory}`);
+    }
+
+    this.setSeries(symbol, interval, candles);
+    return this.series.get(key)!;
+  }
+}
+
+/**
+ * Parse a JSON fixture (candle objects or raw Binance klines)
+ */
+export function parseJsonCandles(content: string): Candle[] {
+  const rows = JSON.parse(content);
+  if (!Array.isArray(rows)) {
+    throw new TypeError("Replay JSON must be an array of candles");
+  }
+
+  return rows.map((row: any) => {
+    if (Array.isArray(row)) {
+      return toCandle(row[0], row[1], row[2], row[3], row[4], row[5]);
+    }
+    return toCandle(row.timestamp, row.open, row.high, row.low, row.close, row.volume);
+  });
+}
+
+/**
+ * Parse a CSV fixture with a timestamp,open,high,low,close,volume header
+ */
+export function parseCsvCandles(content: string): Candle[] {
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const header = lines[0].split(",").map(h => h.trim().toLowerCase());
+  const columns = ["timestamp", "open", "high", "low", "close", "volume"].map((name) => {
+    const index = header.indexOf(name);
+    if (index === -1) {
+      throw new Error(`Replay CSV is missing the "${name}" column`);
+    }
+    return index;
+  });
+
+  return lines.slice(1).map((line) => {
+    const cells = line.split(",");
+    const [timestamp, open, high, low, close, volume] = columns.map(i => cells[i]);
+    return toCandle(timestamp, open, high, low, close, volume);
+  });
+}
+
+function toCandle(
+  timestamp: unknown,
+  open: unknown,
+  high: unknown,
+  low: unknown,
+  close: unknown,
+  volume: unknown,
+): Candle {
+  const toNumber = (value: unknown) =>
+    typeof value === "string" && value.trim() === "" ? Number.NaN : Number(value ?? Number.NaN);
+
+  const candle = {
+    timestamp: toNumber(timestamp),
+    open: toNumber(open),
+    high: toNumber(high),
+    low: toNumber(low),
+    close: toNumber(close),
+    volume: toNumber(volume),
+  };
+
+  if (Object.values(candle).some(v => !Number.isFinite(v))) {
+    throw new Error(`Invalid candle in replay data: ${JSON.stringify([timestamp, open, high, low, close, volume])}`);
+  }
+
+  return candle;
+}
@@ -1,4 +1,4 @@
-import { createTool } from "@iqai/adk";
+import { createIndicatorTool } from "./indicator-tool";
 
 import { z } from "zod";
 import {
@@ -17,6 +17,7 @@ import {
   vwma,
 } from "indicatorts";
 import { getOHLCArrays, getMarketData } from "./marketData";
+import { DEFAULT_SYMBOL, SUPPORTED_SYMBOLS } from "./types/market-data.types";
 import logger from "../lib/logger";
 import type {
   SimpleMovingAverageResult,
@@ -40,19 +41,20 @@ import type { TrendDirection, SignalStrength } from "./types/common.types";
  * Simple Moving Average (SMA) tool
  * Analyzes trend direction using SMA
  */
-export const simpleMovingAverageTool = createTool({
+export const simpleMovingAverageTool = createIndicatorTool({
   name: "simpleMovingAverage",
   description: "Analyzes price trend using Simple Moving Average (SMA). Identifies trend direction, price position relative to SMA, and potential crossovers.",
   schema: z.object({
     period: z.number().min(2).max(200).default(20).describe("SMA period (e.g., 20, 50, 200)"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m").describe("Time interval"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<SimpleMovingAverageResult> => {
     try {
-      const { period, interval } = params;
+      const { period, interval, symbol } = params;
       const limit = period + 50; // Extra candles for analysis
-      const { close } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { close } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const smaValues = sma(close, {period});
       const currentPrice = close[close.length - 1];
@@ -123,19 +125,20 @@ export const simpleMovingAverageTool = createTool({
 /**
  * Exponential Moving Average (EMA) tool
  */
-export const exponentialMovingAverageTool = createTool({
+export const exponentialMovingAverageTool = createIndicatorTool({
   name: "exponentialMovingAverage",
   description: "Analyzes price trend using Exponential Moving Average (EMA). More responsive to recent price changes than SMA.",
   schema: z.object({
     period: z.number().min(2).max(200).default(20).describe("EMA period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<ExponentialMovingAverageResult> => {
     try {
-      const { period, interval } = params;
+      const { period, interval, symbol } = params;
       const limit = period + 50;
-      const { close } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { close } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const emaValues = ema(close, {period});
       const currentPrice = close[close.length - 1];
@@ -204,7 +207,7 @@ export const exponentialMovingAverageTool = createTool({
 /**
  * MACD (Moving Average Convergence Divergence) tool
  */
-export const macdTool = createTool({
+export const macdTool = createIndicatorTool({
   name: "movingAverageConvergenceDivergence",
   description: "Analyzes momentum and trend using MACD. Identifies trend changes, momentum shifts, and divergences.",
   schema: z.object({
@@ -212,13 +215,14 @@ export const macdTool = createTool({
     slowPeriod: z.number().default(26).describe("Slow EMA period"),
     signalPeriod: z.number().default(9).describe("Signal line period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<MovingAverageConvergenceDivergenceResult> => {
     try {
-      const { fastPeriod, slowPeriod, signalPeriod, interval } = params;
+      const { fastPeriod, slowPeriod, signalPeriod, interval, symbol } = params;
       const limit = Math.max(slowPeriod, fastPeriod) + signalPeriod + 50;
-      const { close } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { close } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const macdResult = macd(close, {fast: fastPeriod, slow: slowPeriod, signal: signalPeriod, });
       const macdLine = macdResult.macdLine[macdResult.macdLine.length - 1];
@@ -291,20 +295,21 @@ export const macdTool = createTool({
 /**
  * Parabolic SAR tool
  */
-export const parabolicSarTool = createTool({
+export const parabolicSarTool = createIndicatorTool({
   name: "parabolicSAR",
   description: "Identifies potential trend reversals using Parabolic Stop and Reverse (SAR). Shows stop-loss levels and reversal points.",
   schema: z.object({
     accelerationFactor: z.number().default(0.02).describe("Acceleration factor"),
     maxAcceleration: z.number().default(0.2).describe("Maximum acceleration"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<ParabolicSARResult> => {
     try {
-      const { accelerationFactor, maxAcceleration, interval } = params;
+      const { accelerationFactor, maxAcceleration, interval, symbol } = params;
       const limit = 100;
-      const { high, low, close } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { high, low, close } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const sarValues = parabolicSAR( high, low, close, {step: accelerationFactor, max: maxAcceleration} );
       const currentPrice = close[close.length - 1];
@@ -364,19 +369,20 @@ export const parabolicSarTool = createTool({
 /**
  * Aroon Indicator tool
  */
-export const aroonTool = createTool({
+export const aroonTool = createIndicatorTool({
   name: "aroonIndicator",
   description: "Identifies trend strength and potential reversals using Aroon Up and Aroon Down indicators.",
   schema: z.object({
     period: z.number().min(5).max(50).default(25).describe("Aroon period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<AroonIndicatorResult> => {
     try {
-      const { period, interval } = params;
+      const { period, interval, symbol } = params;
       const limit = period + 50;
-      const { high, low } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { high, low } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const aroonResult = aroon( high, low, {period} );
       const aroonUp = aroonResult.up[aroonResult.up.length - 1];
@@ -0,0 +1,54 @@
+/**
+ * Market data source types
+ */
+
+import type { Candle } from "./common.types";
+
+/**
+ * Query for a window of candles
+ */
+export interface CandleQuery {
+  symbol: string;
+  interval: string;
+  limit: number;
+  startTime?: number; // Return the first `limit` candles opened at or after this timestamp (ms)
+  endTime?: number; // Only return candles opened at or before this timestamp (ms)
+}
+
+/**
+ * Pluggable source of OHLCV candles
+ *
+ * Implementations must return candles in ascending timestamp order,
+ * with the most recent candle last.
+ */
+export interface MarketDataSource {
+  readonly name: string;
+  readonly cacheable: boolean; // Whether the provider may cache responses from this source
+  getCandles(query: CandleQuery): Promise<Candle[]>;
+}
+
+/**
+ * Trading pairs strategies can run on (Binance symbol format)
+ */
+export const SUPPORTED_SYMBOLS = ["WETHUSDT", "ETHUSDT", "WBTCUSDT", "BTCUSDT", "SOLUSDT"] as const;
+
+export type TradingPair = typeof SUPPORTED_SYMBOLS[number];
+
+/**
+ * Pair used when a strategy or tool call does not specify one
+ */
+export const DEFAULT_SYMBOL: TradingPair = "WETHUSDT";
+
+/**
+ * Candle duration in milliseconds for each supported interval
+ */
+export const INTERVAL_MS: Record<string, number> = {
+  "1m": 60_000,
+  "5m": 5 * 60_000,
+  "15m": 15 * 60_000,
+  "30m": 30 * 60_000,
+  "1h": 60 * 60_000,
+  "4h": 4 * 60 * 60_000,
+  "1d": 24 * 60 * 60_000,
+  "1w": 7 * 24 * 60 * 60_000,
+};
@@ -1,4 +1,4 @@
-import { createTool } from "@iqai/adk";
+import { createIndicatorTool } from "./indicator-tool";
 import { z } from "zod";
 import {
   atr,
@@ -14,6 +14,7 @@ import {
   ulcerIndex,
 } from "indicatorts";
 import { getOHLCArrays, getMarketData } from "./marketData";
+import { DEFAULT_SYMBOL, SUPPORTED_SYMBOLS } from "./types/market-data.types";
 import logger from "../lib/logger";
 import type {
   AverageTrueRangeResult,
@@ -33,19 +34,20 @@ import type { SignalStrength, TrendDirection, VolatilityLevel } from "./types/co
 /**
  * ATR (Average True Range) tool
  */
-export const atrTool = createTool({
+export const atrTool = createIndicatorTool({
   name: "averageTrueRange",
   description: "Measures market volatility using Average True Range. High ATR indicates high volatility, low ATR indicates low volatility.",
   schema: z.object({
     period: z.number().min(5).max(50).default(14).describe("ATR period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<AverageTrueRangeResult> => {
     try {
-      const { period, interval } = params;
+      const { period, interval, symbol } = params;
       const limit = period * 2;
-      const { high, low, close } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { high, low, close } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const atrValues = atr(high, low, close, {period});
       const atrValue = atrValues.atrLine[atrValues.atrLine.length - 1];
@@ -98,19 +100,20 @@ export const atrTool = createTool({
 /**
  * Bollinger Bands tool
  */
-export const bollingerBandsTool = createTool({
+export const bollingerBandsTool = createIndicatorTool({
   name: "bollingerBands",
   description: "Volatility bands around moving average. Price at upper band suggests overbought, at lower band suggests oversold. Squeeze indicates low volatility.",
   schema: z.object({
     period: z.number().min(5).max(50).default(20).describe("BB period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<BollingerBandsResult> => {
     try {
-      const { period, interval } = params;
+      const { period, interval, symbol } = params;
       const limit = period + 50;
-      const { close } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { close } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const bb = bollingerBands( close, { period,  } );
       const currentPrice = close[close.length - 1];
@@ -189,19 +192,20 @@ export const bollingerBandsTool = createTool({
 /**
  * Bollinger Band Width tool
  */
-export const bollingerBandWidthTool = createTool({
+export const bollingerBandWidthTool = createIndicatorTool({
   name: "bollingerBandWidth",
   description: "Measures Bollinger Band width to identify volatility levels. Low bandwidth suggests squeeze and potential breakout.",
   schema: z.object({
     period: z.number().min(5).max(50).default(20).describe("BB period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<BollingerBandWidthResult> => {
     try {
-      const { period,  interval } = params;
+      const { period,  interval, symbol } = params;
       const limit = period + 50;
-      const { close } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { close } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
       const bb = bollingerBands( close, { period,  } );
 
       const bbw = bollingerBandsWidth( bb, { period  } );
@@ -260,20 +264,21 @@ export const bollingerBandWidthTool = createTool({
 /**
  * Keltner Channel tool
  */
-export const keltnerChannelTool = createTool({
+export const keltnerChannelTool = createIndicatorTool({
   name: "keltnerChannel",
   description: "Volatility-based channel using EMA and ATR. Price above upper channel suggests strong uptrend, below lower suggests strong downtrend.",
   schema: z.object({
     period: z.number().min(5).max(50).default(20).describe("EMA period"),
     atrPeriod: z.number().default(10).describe("ATR period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<KeltnerChannelResult> => {
     try {
-      const { period, atrPeriod,  interval } = params;
+      const { period, atrPeriod,  interval, symbol } = params;
       const limit = Math.max(period, atrPeriod) + 50;
-      const { high, low, close } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { high, low, close } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const kc = keltnerChannel(high, low, close, { period });
       const currentPrice = close[close.length - 1];
@@ -349,19 +354,20 @@ export const keltnerChannelTool = createTool({
 /**
  * Donchian Channel tool
  */
-export const donchianChannelTool = createTool({
+export const donchianChannelTool = createIndicatorTool({
   name: "donchianChannel",
   description: "Shows highest high and lowest low over period. Breakouts above/below channel signal strong trends.",
   schema: z.object({
     period: z.number().min(5).max(100).default(20).describe("Donchian period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<DonchianChannelResult> => {
     try {
-      const { period, interval } = params;
+      const { period, interval, symbol } = params;
       const limit = period + 50;
-      const { high, low, close } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { high, low, close } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const dc = donchianChannel(close, { period });
       const currentPrice = close[close.length - 1];
@@ -429,19 +435,20 @@ export const donchianChannelTool = createTool({
 /**
  * Chandelier Exit tool
  */
-export const chandelierExitTool = createTool({
+export const chandelierExitTool = createIndicatorTool({
   name: "chandelierExit",
   description: "Provides trailing stop-loss levels based on ATR. Helps manage risk and protect profits in trending markets.",
   schema: z.object({
     period: z.number().min(5).max(50).default(22).describe("ATR period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<ChandelierExitResult> => {
     try {
-      const { period,  interval } = params;
+      const { period,  interval, symbol } = params;
       const limit = period + 50;
-      const { high, low, close } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { high, low, close } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const ce = chandelierExit( high, low, close, { period });
       const longExit = ce.long[ce.long.length - 1];
@@ -1,4 +1,4 @@
-import { createTool } from "@iqai/adk";
+import { createIndicatorTool } from "./indicator-tool";
 import { z } from "zod";
 import {
   ad,
@@ -12,6 +12,7 @@ import {
   vwap as vwapIndicator,
 } from "indicatorts";
 import { getOHLCArrays, getMarketData } from "./marketData";
+import { DEFAULT_SYMBOL, SUPPORTED_SYMBOLS } from "./types/market-data.types";
 import logger from "../lib/logger";
 import type {
   AccumulationDistributionResult,
@@ -29,18 +30,19 @@ import type { SignalStrength, TrendDirection, VolumeLevel } from "./types/common
 /**
  * Accumulation/Distribution tool
  */
-export const accumulationDistributionTool = createTool({
+export const accumulationDistributionTool = createIndicatorTool({
   name: "accumulationDistribution",
   description: "Measures cumulative flow of money into and out of the asset. Rising AD line indicates accumulation (buying pressure).",
   schema: z.object({
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<AccumulationDistributionResult> => {
     try {
-      const { interval } = params;
+      const { interval, symbol } = params;
       const limit = 100;
-      const { high, low, close, volume } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { high, low, close, volume } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const adValues = ad(high, low, close, volume);
       const adValue = adValues[adValues.length - 1];
@@ -106,19 +108,20 @@ export const accumulationDistributionTool = createTool({
 /**
  * Chaikin Money Flow tool
  */
-export const chaikinMoneyFlowTool = createTool({
+export const chaikinMoneyFlowTool = createIndicatorTool({
   name: "chaikinMoneyFlow",
   description: "Measures buying and selling pressure over a period. Positive values indicate buying pressure, negative values indicate selling pressure.",
   schema: z.object({
     period: z.number().min(5).max(50).default(20).describe("CMF period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<ChaikinMoneyFlowResult> => {
     try {
-      const { period, interval } = params;
+      const { period, interval, symbol } = params;
       const limit = period + 50;
-      const { high, low, close, volume } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { high, low, close, volume } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const cmfValues = cmf(high, low, close, volume, { period });
       const cmfValue = cmfValues[cmfValues.length - 1];
@@ -185,19 +188,20 @@ export const chaikinMoneyFlowTool = createTool({
 /**
  * Ease of Movement tool
  */
-export const easeOfMovementTool = createTool({
+export const easeOfMovementTool = createIndicatorTool({
   name: "easeOfMovement",
   description: "Relates price change to volume, showing how easily price moves. High values suggest easy price movement with low volume.",
   schema: z.object({
     period: z.number().min(5).max(50).default(14).describe("EMV period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<EaseOfMovementResult> => {
     try {
-      const { period, interval } = params;
+      const { period, interval, symbol } = params;
       const limit = period + 50;
-      const { high, low, volume } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { high, low, volume } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const emvValues = emv( high, low, volume, { period });
       const emvValue = emvValues[emvValues.length - 1];
@@ -260,19 +264,20 @@ export const easeOfMovementTool = createTool({
 /**
  * Force Index tool
  */
-export const forceIndexTool = createTool({
+export const forceIndexTool = createIndicatorTool({
   name: "forceIndex",
   description: "Combines price and volume to measure buying/selling force. Positive values show buying force, negative shows selling force.",
   schema: z.object({
     period: z.number().min(1).max(50).default(13).describe("Force Index smoothing period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<ForceIndexResult> => {
     try {
-      const { period, interval } = params;
+      const { period, interval, symbol } = params;
       const limit = period + 50;
-      const { close, volume } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { close, volume } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const fiValues = forceIndex( close, volume, { period });
       const forceValue = fiValues[fiValues.length - 1];
@@ -342,19 +347,20 @@ export const forceIndexTool = createTool({
 /**
  * Money Flow Index tool
  */
-export const moneyFlowIndexTool = createTool({
+export const moneyFlowIndexTool = createIndicatorTool({
   name: "moneyFlowIndex",
   description: "Volume-weighted RSI that identifies overbought/oversold conditions. Above 80 is overbought, below 20 is oversold.",
   schema: z.object({
     period: z.number().min(5).max(50).default(14).describe("MFI period"),
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<MoneyFlowIndexResult> => {
     try {
-      const { period, interval } = params;
+      const { period, interval, symbol } = params;
       const limit = period + 50;
-      const { high, low, close, volume } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { high, low, close, volume } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const mfiValues = mfi( high, low, close, volume, { period });
       const mfiValue = mfiValues[mfiValues.length - 1];
@@ -416,18 +422,19 @@ export const moneyFlowIndexTool = createTool({
 /**
  * On Balance Volume tool
  */
-export const onBalanceVolumeTool = createTool({
+export const onBalanceVolumeTool = createIndicatorTool({
   name: "onBalanceVolume",
   description: "Cumulative volume indicator that shows buying/selling pressure. Rising OBV confirms uptrend, falling OBV confirms downtrend.",
   schema: z.object({
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<OnBalanceVolumeResult> => {
     try {
-      const { interval } = params;
+      const { interval, symbol } = params;
       const limit = 100;
-      const { close, volume } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { close, volume } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const obvValues = obv(close, volume);
       const obvValue = obvValues[obvValues.length - 1];
@@ -480,18 +487,19 @@ export const onBalanceVolumeTool = createTool({
 /**
  * VWAP tool
  */
-export const vwapTool = createTool({
+export const vwapTool = createIndicatorTool({
   name: "volumeWeightedAveragePrice",
   description: "Shows average price weighted by volume. Used by institutions. Price above VWAP suggests bullish bias, below suggests bearish.",
   schema: z.object({
     interval: z.enum(["1m", "5m", "15m", "1h", "4h", "1d"]).default("15m"),
+    symbol: z.enum(SUPPORTED_SYMBOLS).default(DEFAULT_SYMBOL).describe("Trading pair symbol"),
   }),
   fn: async (params): Promise<VWAPResult> => {
     try {
-      const { interval } = params;
+      const { interval, symbol } = params;
       const limit = 100;
-      const { close, volume } = await getOHLCArrays(interval, limit);
-      const candles = await getMarketData(interval, limit);
+      const { close, volume } = await getOHLCArrays(interval, limit, symbol);
+      const candles = await getMarketData(interval, limit, symbol);
 
       const vwapValues = vwapIndicator(close, volume);
       const vwapValue = vwapValues[vwapValues.length - 1];
@@ -0,0 +1,69 @@
+/**
+ * Backtest Types
+ */
+
+/**
+ * Decision produced for a bar once it has closed
+ */
+export type BacktestSignal = "BUY" | "SELL" | "HOLD";
+
+/**
+ * Fill simulation settings
+ */
+export interface BacktestConfig {
+  initialCapital: number;
+  feeRate: number; // Fraction of notional charged per fill, e.g. 0.001 = 0.1%
+  slippageBps: number; // Adverse price move applied to every fill, in basis points
+  stopLossPct?: number; // Close when price falls this % below entry
+  takeProfitPct?: number; // Close when price rises this % above entry
+}
+
+/**
+ * A completed round trip
+ */
+export interface BacktestTrade {
+  side: "LONG";
+  entryTime: number;
+  entryPrice: number;
+  exitTime: number;
+  exitPrice: number;
+  quantity: number;
+  fees: number;
+  pnl: number;
+  returnPct: number;
+  exitReason: "SIGNAL" | "STOP_LOSS" | "TAKE_PROFIT" | "END_OF_DATA";
+}
+
+/**
+ * Equity marked to market at a bar close
+ */
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+}
+
+/**
+ * Summary statistics for a run
+ */
+export interface BacktestMetrics {
+  initialCapital: number;
+  finalEquity: number;
+  totalReturn: number; // Percent
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number; // Percent
+  maxDrawdown: number; // Percent, peak to trough
+  sharpeRatio: number; // Annualized, risk-free rate of zero
+  profitFactor: number | null; // Gross profit / gross loss, null when there are no losses
+  totalFees: number;
+}
+
+/**
+ * Engine output
+ */
+export interface BacktestResult {
+  metrics: BacktestMetrics;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+}
@@ -0,0 +1,61 @@
+/**
+ * Trade Execution Types
+ */
+
+/**
+ * How a strategy's trades are filled
+ * - PAPER: simulated fills against market data, no funds leave the treasury
+ * - LIVE: on-chain swaps
+ */
+export const EXECUTION_MODES = ["PAPER", "LIVE"] as const;
+
+export type ExecutionMode = typeof EXECUTION_MODES[number];
+
+export const DEFAULT_EXECUTION_MODE: ExecutionMode = "PAPER";
+
+/**
+ * Direction of a position
+ * - LONG: opened by a BUY, profits when the price rises
+ * - SHORT: opened by a SELL, profits when the price falls
+ */
+export const POSITION_SIDES = ["LONG", "SHORT"] as const;
+
+export type PositionSide = typeof POSITION_SIDES[number];
+
+/**
+ * Order handed to an execution adapter
+ */
+export interface ExecutionOrder {
+  tradeId: string;
+  symbol: string; // Trading pair, e.g. WETHUSDT
+  side: "BUY" | "SELL";
+  amount: number; // Quote amount to trade
+  onSubmitted?: (txHash: string) => Promise<void>; // Called once an on-chain order is broadcast, before it is mined
+}
+
+/**
+ * Result of a filled order
+ */
+export interface ExecutionFill {
+  price: number; // Average fill price, including slippage
+  quantity: number; // Base asset received (BUY) or sold (SELL)
+  fee: number; // Fee paid, in quote units
+  executedAt: Date;
+  txHash?: string; // On-chain fills only
+}
+
+/**
+ * Error message of an on-chain order that was sent but reverted, so
+ * nothing was traded. Any other error after `onSubmitted` means the order
+ * may have filled.
+ */
+export const ORDER_REVERTED = "Order transaction reverted";
+
+/**
+ * Fills orders for one execution mode
+ */
+export interface ExecutionAdapter {
+  readonly mode: ExecutionMode;
+  readonly supportsShorts?: boolean; // Can open SHORT positions (defaults to false)
+  execute(order: ExecutionOrder): Promise<ExecutionFill>;
+}
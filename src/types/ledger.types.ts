@@ -0,0 +1,71 @@
+/**
+ * Double-Entry Ledger Types
+ */
+
+import type mongoose from "mongoose";
+
+/**
+ * Accounts every treasury movement is posted between
+ * - USER_WALLET: funds held by the user outside the strategy
+ * - STRATEGY_AVAILABLE: strategy funds free to trade or withdraw
+ * - STRATEGY_LOCKED: strategy funds committed to open positions
+ * - FEES: execution fees paid on closed positions
+ * - PNL: realized trading results (gross of fees)
+ * - ADJUSTMENTS: refunds and manual / reconciliation corrections
+ */
+export const LEDGER_ACCOUNTS = [
+  "USER_WALLET",
+  "STRATEGY_AVAILABLE",
+  "STRATEGY_LOCKED",
+  "FEES",
+  "PNL",
+  "ADJUSTMENTS",
+] as const;
+
+export type LedgerAccount = (typeof LEDGER_ACCOUNTS)[number];
+
+/**
+ * One side of a journal entry, in wei
+ * Debits are positive and credits negative, so a balanced entry sums to zero
+ */
+export interface Posting {
+  account: LedgerAccount;
+  amount: bigint;
+}
+
+/**
+ * A posting as stored on a JournalEntry
+ */
+export interface JournalPosting {
+  account: LedgerAccount;
+  amount: mongoose.Types.Decimal128; // WETH
+}
+
+/**
+ * Net balance (debits - credits) of each account, as decimal WETH strings
+ */
+export type AccountBalances = Record<LedgerAccount, string>;
+
+/**
+ * Treasury fields cached from the ledger, in wei
+ */
+export interface TreasuryTotals {
+  availableBalance: bigint;
+  lockedBalance: bigint;
+  totalDeposited: bigint;
+  totalWithdrawn: bigint;
+  totalProfits: bigint;
+  totalLosses: bigint;
+  netProfitLoss: bigint;
+}
+
+/**
+ * Account totals across journal entries (should net to zero)
+ */
+export interface TrialBalance {
+  accounts: AccountBalances;
+  debits: string;
+  credits: string;
+  entries: number;
+  balanced: boolean;
+}
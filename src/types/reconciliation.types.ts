@@ -0,0 +1,72 @@
+/**
+ * Ledger Reconciliation Types
+ */
+
+/**
+ * Treasury fields that the ledger must reproduce (decimal WETH strings)
+ */
+export interface LedgerBalances {
+  availableBalance: string;
+  lockedBalance: string;
+  totalDeposited: string;
+  totalWithdrawn: string;
+  netProfitLoss: string;
+}
+
+export type LedgerField = keyof LedgerBalances;
+
+/**
+ * Transaction fields used by the replay
+ */
+export interface LedgerEntry {
+  id: string;
+  type:
+    | "DEPOSIT"
+    | "WITHDRAW"
+    | "WITHDRAW_HOLD"
+    | "WITHDRAW_RELEASE"
+    | "TRADE_OPEN"
+    | "TRADE_CLOSE"
+    | "PROFIT"
+    | "LOSS"
+    | "REFUND"
+    | "ADJUSTMENT";
+  amount: string;
+  balanceBefore: string;
+  balanceAfter: string;
+  createdAt: Date;
+}
+
+/**
+ * A break in the balance snapshots recorded on the transactions
+ * - GAP: balanceBefore differs from the previous entry's balanceAfter
+ *   (a missing entry, or the balance was changed without one)
+ * - MISMATCH: balanceAfter differs from balanceBefore plus the entry's effect
+ */
+export interface ChainIssue {
+  transactionId: string;
+  type: LedgerEntry["type"];
+  kind: "GAP" | "MISMATCH";
+  expected: string;
+  recorded: string;
+  createdAt: Date;
+}
+
+/**
+ * A treasury field that differs from the replayed ledger
+ */
+export interface BalanceMismatch {
+  field: LedgerField;
+  expected: string; // From the ledger
+  actual: string; // Stored on the treasury
+  difference: string; // actual - expected
+}
+
+/**
+ * Result of replaying a treasury's ledger
+ */
+export interface LedgerReplay {
+  balances: LedgerBalances;
+  entries: number;
+  chainIssues: ChainIssue[];
+}
@@ -0,0 +1,122 @@
+/**
+ * Risk Management Types
+ */
+
+import type { PositionSide } from "./execution.types";
+
+/**
+ * Limits a trade must pass before it is saved
+ */
+export interface RiskLimits {
+  maxPositionPct: number; // Largest trade as % of the strategy's available treasury balance
+  maxOpenTradesPerStrategy: number; // PENDING + PLACED trades per strategy
+  maxOpenTradesPerUser: number; // PENDING + PLACED trades across the user's strategies
+  dailyLossLimitPct: number; // Realized loss since 00:00 UTC, as % of the user's start-of-day equity
+  minRiskReward: number; // |take profit - entry| / |entry - stop loss|
+  minStopDistancePct: number; // Stop loss distance from the current price
+  maxStopDistancePct: number;
+  maxTakeProfitDistancePct: number; // Take profit distance from the current price
+  maxEntryDeviationPct: number; // Entry distance from the current price
+  lossCooldownMinutes: number; // No new trades for this long after a losing trade closes
+}
+
+/**
+ * Per-strategy overrides of the global limits
+ */
+export type RiskLimitOverrides = Partial<RiskLimits>;
+
+export type RiskRule =
+  | "POSITION_SIZE"
+  | "MAX_OPEN_TRADES_STRATEGY"
+  | "MAX_OPEN_TRADES_USER"
+  | "DAILY_LOSS_LIMIT"
+  | "PRICE_LEVELS"
+  | "RISK_REWARD"
+  | "STOP_DISTANCE"
+  | "TAKE_PROFIT_DISTANCE"
+  | "ENTRY_DEVIATION"
+  | "LOSS_COOLDOWN";
+
+/**
+ * Outcome of one risk rule
+ */
+export interface RiskCheck {
+  rule: RiskRule;
+  passed: boolean;
+  value?: number;
+  limit?: number;
+  reason?: string;
+}
+
+/**
+ * Trade levels proposed by the validator
+ */
+export interface TradeProposal {
+  side: PositionSide;
+  entry: number;
+  takeProfit: number;
+  stopLoss: number;
+  requestedAmount: number; // The strategy's configured trade amount
+}
+
+/**
+ * Account state the rules are evaluated against
+ */
+export interface RiskContext {
+  currentPrice: number;
+  availableBalance: number; // Strategy treasury
+  openTradesForStrategy: number;
+  openTradesForUser: number;
+  userEquity: number; // Available + locked across the user's treasuries
+  realizedPnlToday: number; // Across the user's strategies, since 00:00 UTC
+  lastLossAt?: Date; // Most recent losing close for the strategy
+  now: Date;
+}
+
+/**
+ * Result of the pre-trade risk check
+ */
+export interface RiskAssessment {
+  approved: boolean;
+  amount: number; // Trade size after the position limit (0 when rejected)
+  riskRewardRatio?: number; // Computed from the proposed levels
+  reason?: string; // First failed check
+  checks: RiskCheck[];
+}
+
+/**
+ * Tolerances for checking the validator's price levels
+ */
+export interface PriceVerificationSettings {
+  atrPeriod: number;
+  maxEntryDeviationAtr: number; // Entry may differ from the last close by this many ATRs
+  minStopAtr: number; // Stop loss distance from entry, in ATRs
+  maxStopAtr: number;
+  defaultStopAtr: number; // Used when the stop loss is missing or inverted
+  defaultTargetAtr: number; // Used when the take profit is missing or inverted
+  riskRewardTolerance: number; // Reported ratio may differ from the computed one by this much
+}
+
+/**
+ * Trade levels as proposed or as corrected
+ */
+export interface TradeLevels {
+  entry: number | null;
+  exit: number | null;
+  stopLoss: number | null;
+  riskRewardRatio: number | null;
+}
+
+/**
+ * Result of checking the validator's price levels against market data
+ */
+export interface PriceVerification {
+  status: "VERIFIED" | "CORRECTED" | "REJECTED";
+  side: PositionSide;
+  original: TradeLevels;
+  corrected?: { entry: number; exit: number; stopLoss: number; riskRewardRatio: number };
+  lastClose: number;
+  atr: number;
+  adjustments: string[]; // What was changed and why
+  reason?: string; // Why the proposal was rejected
+}
@@ -0,0 +1,130 @@
+/**
+ * Strategy Rule Types
+ *
+ * Typed grammar for entry/exit conditions. Rules are emitted by the
+ * refiner agent (or supplied through the API), stored on the strategy
+ * and evaluated deterministically against candles.
+ */
+
+/**
+ * Indicators the rule evaluator can compute
+ */
+export const RULE_INDICATORS = [
+  "SMA",
+  "EMA",
+  "RSI",
+  "MACD",
+  "BB",
+  "ATR",
+  "STOCH",
+  "WILLR",
+  "ROC",
+  "MFI",
+  "CMF",
+  "OBV",
+] as const;
+
+export type RuleIndicator = typeof RULE_INDICATORS[number];
+
+/**
+ * Named outputs per indicator (the first one is the default)
+ */
+export const RULE_INDICATOR_OUTPUTS: Record<RuleIndicator, readonly string[]> = {
+  SMA: ["value"],
+  EMA: ["value"],
+  RSI: ["value"],
+  MACD: ["macd", "signal", "histogram"],
+  BB: ["middle", "upper", "lower"],
+  ATR: ["value"],
+  STOCH: ["k", "d"],
+  WILLR: ["value"],
+  ROC: ["value"],
+  MFI: ["value"],
+  CMF: ["value"],
+  OBV: ["value"],
+};
+
+export const PRICE_FIELDS = ["open", "high", "low", "close", "volume"] as const;
+
+export type PriceField = typeof PRICE_FIELDS[number];
+
+export const COMPARISON_OPERATORS = [">", ">=", "<", "<=", "==", "!="] as const;
+
+export type ComparisonOperator = typeof COMPARISON_OPERATORS[number];
+
+/**
+ * Indicator parameters (unset values fall back to the indicator's defaults)
+ */
+export interface IndicatorParams {
+  period?: number;
+  fastPeriod?: number;
+  slowPeriod?: number;
+  signalPeriod?: number;
+  kPeriod?: number;
+  dPeriod?: number;
+}
+
+/**
+ * Value a condition reads
+ */
+export type RuleOperand =
+  | { type: "indicator"; indicator: RuleIndicator; params?: IndicatorParams; output?: string }
+  | { type: "price"; field: PriceField }
+  | { type: "constant"; value: number };
+
+/**
+ * `left <operator> right` on the evaluated bar
+ */
+export interface CompareCondition {
+  type: "compare";
+  left: RuleOperand;
+  operator: ComparisonOperator;
+  right: RuleOperand;
+}
+
+/**
+ * `left` crossed `right` between the previous bar and the evaluated bar
+ */
+export interface CrossCondition {
+  type: "cross";
+  left: RuleOperand;
+  direction: "above" | "below";
+  right: RuleOperand;
+}
+
+export type RuleCondition = CompareCondition | CrossCondition;
+
+/**
+ * Conditions joined by AND/OR. Groups nest one level deep.
+ */
+export interface RuleGroup {
+  combinator: "AND" | "OR";
+  conditions: Array<RuleCondition | { combinator: "AND" | "OR"; conditions: RuleCondition[] }>;
+}
+
+/**
+ * Entry and exit rules stored on a strategy
+ */
+export interface StrategyRules {
+  entry: RuleGroup;
+  exit: RuleGroup;
+}
+
+/**
+ * Outcome of a single condition, kept for auditing
+ */
+export interface ConditionEvaluation {
+  condition: string; // Human-readable form, e.g. "RSI(14) crosses above 30"
+  matched: boolean;
+  left: number | null;
+  right: number | null;
+}
+
+/**
+ * Outcome of a rule group on one bar
+ */
+export interface RuleEvaluation {
+  matched: boolean;
+  timestamp: number; // Open time of the evaluated candle
+  conditions: ConditionEvaluation[];
+}
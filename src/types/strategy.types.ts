@@ -2,9 +2,15 @@
  * Strategy Types and Enums
  */
 
+import type { ExecutionMode } from "./execution.types";
+import type { StrategyRules } from "./rule.types";
+import type { RiskLimitOverrides } from "./risk.types";
+
 export enum StrategyStatus {
   INACTIVE = "INACTIVE",
   ACTIVE = "ACTIVE",
+  PAUSED = "PAUSED",
+  ARCHIVED = "ARCHIVED",
 }
 
 export enum IndicatorCategory {
@@ -47,9 +53,15 @@ export interface IStrategy {
   name: string;
   description?: string;
   indicators: string[]; // Array of indicator IDs
+  rules?: StrategyRules | null; // Structured entry/exit rules
+  riskLimits?: RiskLimitOverrides | null; // Overrides of the global risk limits
+  symbol: string; // Trading pair, e.g. WETHUSDT
   timeframe: Timeframe;
   amount: number;
+  executionMode: ExecutionMode;
+  allowShorts: boolean; // SELL signals open SHORT positions
   status: StrategyStatus;
+  lastEvaluatedCandle?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -61,17 +73,26 @@ export interface CreateStrategyDTO {
   name: string;
   description?: string;
   indicators: string[];
+  rules?: StrategyRules;
+  riskLimits?: RiskLimitOverrides;
+  symbol?: string;
   timeframe: Timeframe;
   amount: number;
+  executionMode?: ExecutionMode;
+  allowShorts?: boolean;
 }
 
 export interface UpdateStrategyDTO {
   name?: string;
   description?: string;
   indicators?: string[];
+  rules?: StrategyRules | null;
+  riskLimits?: RiskLimitOverrides | null;
+  symbol?: string;
   timeframe?: Timeframe;
   amount?: number;
-  status?: StrategyStatus;
+  executionMode?: ExecutionMode;
+  allowShorts?: boolean;
 }
 
 export interface StrategyResponseDTO {
@@ -80,9 +101,15 @@ export interface StrategyResponseDTO {
   name: string;
   description?: string;
   indicators: IIndicator[];
+  rules?: StrategyRules | null;
+  riskLimits?: RiskLimitOverrides | null;
+  symbol: string;
   timeframe: Timeframe;
   amount: number;
+  executionMode: ExecutionMode;
+  allowShorts: boolean; // SELL signals open SHORT positions
   status: StrategyStatus;
+  lastEvaluatedCandle?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -0,0 +1,29 @@
+/**
+ * On-Chain Transfer Verification Types
+ */
+
+/**
+ * A WETH transfer to check against the chain: a deposit to a treasury
+ * contract, or a withdrawal to the user's wallet
+ */
+export interface TransferClaim {
+  txHash: string;
+  to: string; // Address the WETH must be sent to
+  amount: string; // WETH
+  from?: string[]; // Senders the WETH must come from (any sender when omitted)
+}
+
+/**
+ * Outcome of checking a transfer on chain
+ * - CONFIRMED: the transfer is there with enough confirmations
+ * - PENDING: not mined yet or too few confirmations; check again later
+ * - REJECTED: the transaction cannot back the transfer (reverted, no WETH
+ *   transfer to the address or from the senders, different amount)
+ */
+export interface TransferVerification {
+  status: "CONFIRMED" | "PENDING" | "REJECTED";
+  reason?: string; // Why the transfer is still pending or was rejected
+  confirmations: number;
+  blockNumber?: number;
+  from?: string; // Sender of the transfer
+}
@@ -2,40 +2,188 @@
  * Cron Job Scheduler
  * 
  * Schedules automated execution of the trading strategy analysis cycle
- * Runs every 3 minutes to analyze all active strategies
+ * Every minute it queues an analysis job for each active strategy whose
+ * candle has closed (run by the job worker with a concurrency limit),
+ * fills pending trades and checks open positions against their stop
+ * loss / take profit, verifies pending deposits on chain and tracks the
+ * settlement of broadcast withdrawals. Once a day it
+ * reconciles every treasury against its transaction ledger
  */
 
 import cron from "node-cron";
-import { executeStrategyAnalysisCycle } from "./strategy-executor";
+import { enqueueStrategyAnalysisJobs } from "./job-worker";
+import { monitorOpenPositions } from "./position-monitor";
+import { executePendingTrades } from "./trade-executor";
+import { reconcileTreasuries } from "../services/reconciliation.service";
+import { verifyPendingDeposits } from "../services/deposit.service";
+import { trackBroadcastWithdrawals } from "../services/withdrawal.service";
 import logger from "../lib/logger";
 
 /**
  * Start the strategy analysis cron job
- * Runs every 3 minutes
+ * Runs every minute and queues an analysis job for each active strategy
+ * whose candle has closed; the job worker runs them (see job-worker.ts)
  */
 export function startStrategyAnalysisCron() {
-  // Cron expression: */3 * * * * = every 3 minutes
-  cron.schedule("*/3 * * * *", async () => {
-    logger.info("🔄 Starting scheduled strategy analysis cycle");
-    
+  cron.schedule("* * * * *", async () => {
     try {
-      const results = await executeStrategyAnalysisCycle();
-      
-      logger.info(
-        {
-          totalStrategies: results.totalStrategies,
-          successful: results.successful,
-          failed: results.failed,
-          tradesCreated: results.tradesCreated,
-        },
-        "✅ Scheduled analysis cycle completed",
-      );
+      const results = await enqueueStrategyAnalysisJobs();
+
+      if (results.enqueued > 0) {
+        logger.info(
+          {
+            totalStrategies: results.strategies,
+            due: results.due,
+            enqueued: results.enqueued,
+          },
+          "✅ Strategy analysis jobs queued",
+        );
+      }
+    } catch (error) {
+      logger.error({ error }, "❌ Failed to queue strategy analysis jobs");
+    }
+  });
+
+  logger.info("⏰ Strategy analysis cron job started (runs every minute, analyzes each strategy once per candle)");
+}
+
+/**
+ * Start the trade execution cron job
+ * Runs every minute
+ */
+export function startTradeExecutionCron() {
+  cron.schedule("* * * * *", async () => {
+    try {
+      const results = await executePendingTrades();
+
+      if (results.pending > 0) {
+        logger.info(
+          {
+            pending: results.pending,
+            placed: results.placed,
+            failed: results.failed,
+          },
+          "✅ Scheduled trade execution completed",
+        );
+      }
+    } catch (error) {
+      logger.error({ error }, "❌ Scheduled trade execution failed");
+    }
+  });
+
+  logger.info("⏰ Trade execution cron job started (runs every minute)");
+}
+
+/**
+ * Start the position monitor cron job
+ * Runs every minute
+ */
+export function startPositionMonitorCron() {
+  cron.schedule("* * * * *", async () => {
+    try {
+      const results = await monitorOpenPositions();
+
+      if (results.checked > 0) {
+        logger.info(
+          {
+            checked: results.checked,
+            closed: results.closed,
+            failed: results.failed,
+          },
+          "✅ Scheduled position monitoring completed",
+        );
+      }
+    } catch (error) {
+      logger.error({ error }, "❌ Scheduled position monitoring failed");
+    }
+  });
+
+  logger.info("⏰ Position monitor cron job started (runs every minute)");
+}
+
+/**
+ * Start the deposit verification cron job
+ * Runs every minute and credits deposits that reached enough confirmations
+ */
+export function startDepositVerificationCron() {
+  cron.schedule("* * * * *", async () => {
+    try {
+      const results = await verifyPendingDeposits();
+
+      if (results.pending > 0) {
+        logger.info(
+          {
+            pending: results.pending,
+            completed: results.completed,
+            failed: results.failed,
+          },
+          "✅ Scheduled deposit verification completed",
+        );
+      }
     } catch (error) {
-      logger.error({ error }, "❌ Scheduled analysis cycle failed");
+      logger.error({ error }, "❌ Scheduled deposit verification failed");
     }
   });
 
-  logger.info("⏰ Strategy analysis cron job started (runs every 3 minutes)");
+  logger.info("⏰ Deposit verification cron job started (runs every minute)");
+}
+
+/**
+ * Start the withdrawal settlement cron job
+ * Runs every minute and settles or fails broadcast withdrawals once their
+ * transfer is confirmed or rejected on chain
+ */
+export function startWithdrawalSettlementCron() {
+  cron.schedule("* * * * *", async () => {
+    try {
+      const results = await trackBroadcastWithdrawals();
+
+      if (results.pending > 0) {
+        logger.info(
+          {
+            pending: results.pending,
+            confirmed: results.confirmed,
+            failed: results.failed,
+          },
+          "✅ Scheduled withdrawal settlement tracking completed",
+        );
+      }
+    } catch (error) {
+      logger.error({ error }, "❌ Scheduled withdrawal settlement tracking failed");
+    }
+  });
+
+  logger.info("⏰ Withdrawal settlement cron job started (runs every minute)");
+}
+
+/**
+ * Start the ledger reconciliation cron job
+ * Runs daily at 03:00 UTC and only reports: corrections are booked through
+ * POST /api/v1/admin/reconciliation
+ */
+export function startLedgerReconciliationCron() {
+  cron.schedule("0 3 * * *", async () => {
+    try {
+      const results = await reconcileTreasuries();
+
+      if (results.mismatched > 0) {
+        logger.warn(
+          {
+            checked: results.checked,
+            mismatched: results.mismatched,
+            treasuries: results.results.filter(r => !r.reconciled).map(r => r.treasuryId),
+          },
+          "⚠️ Treasuries do not match their ledger",
+        );
+      } else {
+        logger.info({ checked: results.checked }, "✅ Ledger reconciliation completed");
+      }
+    } catch (error) {
+      logger.error({ error }, "❌ Ledger reconciliation failed");
+    }
+  }, { timezone: "UTC" });
+
+  logger.info("⏰ Ledger reconciliation cron job started (runs daily at 03:00 UTC)");
 }
 
 /**
@@ -0,0 +1,219 @@
+/**
+ * Job Worker - Queue Consumer
+ *
+ * Runs `JOB_WORKER_CONCURRENCY` loops that claim jobs from the queue and
+ * run them:
+ * 1. Claim the next due job (taking a lease on it)
+ * 2. Keep extending the lease while the job runs
+ * 3. Complete the job, or record the failure for retry / dead letter
+ *
+ * A strategy has at most one active job, so overlapping cycles never
+ * analyze the same strategy twice. Jobs are queued once per closed candle
+ * of the strategy's timeframe, and `lastEvaluatedCandle` keeps a candle
+ * from being analyzed again. A candle whose job is dead-lettered is not
+ * queued again, so a failing strategy waits for its next candle.
+ */
+
+import os from "node:os";
+import { Job, Strategy, IJob } from "../db/schema";
+import {
+  enqueueJob,
+  claimNextJob,
+  extendLease,
+  completeJob,
+  failJob,
+  RetryPolicy,
+} from "../services/job-queue.service";
+import { executeSingleStrategy } from "./strategy-executor";
+import { candleCloseTime, nextCandleToEvaluate } from "../lib/schedule.utils";
+import { env } from "../env";
+import logger from "../lib/logger";
+
+type JobHandler = (job: IJob) => Promise<Record<string, unknown>>;
+
+const handlers: Record<IJob["type"], JobHandler> = {
+  STRATEGY_ANALYSIS: runStrategyAnalysisJob,
+};
+
+let running = false;
+let loops: Promise<void>[] = [];
+let wakeUp: Array<() => void> = [];
+
+/**
+ * Queue an analysis job for every ACTIVE strategy with a newly closed candle
+ *
+ * Each job runs `ANALYSIS_CANDLE_DELAY_MS` after its candle closes.
+ * Strategies that already evaluated their latest closed candle, whose job
+ * for it went to the dead letter, or that still have a queued or running
+ * job, are skipped.
+ *
+ * @param now - Current time (ms)
+ * @returns Number of active strategies, strategies due and jobs queued
+ */
+export async function enqueueStrategyAnalysisJobs(now: number = Date.now()): Promise<{
+  strategies: number;
+  due: number;
+  enqueued: number;
+}> {
+  const strategies = await Strategy.find({ status: "ACTIVE" }).select("timeframe lastEvaluatedCandle");
+  let due = 0;
+  let enqueued = 0;
+
+  for (const strategy of strategies) {
+    const candle = nextCandleToEvaluate(strategy.timeframe, strategy.lastEvaluatedCandle, now);
+    if (!candle) {
+      continue;
+    }
+
+    // A dead-lettered candle is only run again when an admin requeues its job
+    const dead = await Job.exists({
+      type: "STRATEGY_ANALYSIS",
+      strategyId: strategy._id,
+      status: "DEAD",
+      "payload.candle": candle,
+    });
+    if (dead) {
+      continue;
+    }
+    due++;
+
+    const job = await enqueueJob("STRATEGY_ANALYSIS", {
+      strategyId: strategy._id,
+      payload: { candle },
+      maxAttempts: env.JOB_MAX_ATTEMPTS,
+      runAt: new Date(candleCloseTime(strategy.timeframe, candle).getTime() + env.ANALYSIS_CANDLE_DELAY_MS),
+    });
+    if (job) {
+      enqueued++;
+    }
+  }
+
+  return { strategies: strategies.length, due, enqueued };
+}
+
+/**
+ * Analyze the job's strategy on its candle and mark the candle evaluated.
+ * Throws on failure so the job is retried.
+ */
+async function runStrategyAnalysisJob(job: IJob): Promise<Record<string, unknown>> {
+  const strategy = await Strategy.findById(job.strategyId).select("status lastEvaluatedCandle");
+  if (!strategy || strategy.status !== "ACTIVE") {
+    return { skipped: true, reason: strategy ? `Strategy is ${strategy.status}` : "Strategy not found" };
+  }
+
+  const candle = job.payload?.candle ? new Date(job.payload.candle as string | Date) : undefined;
+  if (candle && strategy.lastEvaluatedCandle && strategy.lastEvaluatedCandle.getTime() >= candle.getTime()) {
+    return { skipped: true, reason: "Candle already evaluated" };
+  }
+
+  const result = await executeSingleStrategy(job.strategyId!.toString());
+  if (!result.success) {
+    throw new Error(result.error ?? "Strategy analysis failed");
+  }
+
+  if (candle) {
+    await Strategy.updateOne(
+      {
+        _id: strategy._id,
+        $or: [{ lastEvaluatedCandle: null }, { lastEvaluatedCandle: { $lt: candle } }],
+      },
+      { $set: { lastEvaluatedCandle: candle } },
+    );
+  }
+
+  return {
+    candle,
+    decision: result.decision,
+    signal: result.signal,
+    tradeId: result.tradeId,
+    executionTime: result.executionTime,
+  };
+}
+
+/**
+ * Run one claimed job while holding its lease
+ */
+export async function processJob(job: IJob, workerId: string): Promise<void> {
+  const policy: RetryPolicy = { baseDelayMs: env.JOB_RETRY_BASE_MS, maxDelayMs: env.JOB_RETRY_MAX_MS };
+  const heartbeat = setInterval(() => {
+    extendLease(job, workerId, env.JOB_LEASE_MS).catch((error) => {
+      logger.warn({ error, jobId: job._id }, "Failed to extend job lease");
+    });
+  }, Math.max(1000, Math.floor(env.JOB_LEASE_MS / 3)));
+
+  try {
+    const result = await handlers[job.type](job);
+    if (!(await completeJob(job, workerId, result))) {
+      logger.warn({ jobId: job._id, workerId }, "Job lease lost before completion");
+    }
+  } catch (error: any) {
+    const message = error?.message ?? String(error);
+    const status = await failJob(job, workerId, message, policy);
+    if (!status) {
+      logger.warn({ jobId: job._id, workerId }, "Job lease lost before failure was recorded");
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      wakeUp = wakeUp.filter(fn => fn !== done);
+      resolve();
+    }
+    wakeUp.push(done);
+  });
+}
+
+async function workerLoop(workerId: string): Promise<void> {
+  while (running) {
+    try {
+      const job = await claimNextJob(workerId, env.JOB_LEASE_MS);
+      if (!job) {
+        await sleep(env.JOB_POLL_INTERVAL_MS);
+        continue;
+      }
+
+      logger.debug({ jobId: job._id, type: job.type, attempts: job.attempts, workerId }, "Job claimed");
+      await processJob(job, workerId);
+    } catch (error) {
+      logger.error({ error, workerId }, "Job worker loop error");
+      await sleep(env.JOB_POLL_INTERVAL_MS);
+    }
+  }
+}
+
+/**
+ * Start the queue workers
+ */
+export function startJobWorker() {
+  if (running) {
+    return;
+  }
+
+  running = true;
+  const prefix = `${os.hostname()}:${process.pid}`;
+  loops = Array.from({ length: env.JOB_WORKER_CONCURRENCY }, (_, i) => workerLoop(`${prefix}:${i}`));
+
+  logger.info({ concurrency: env.JOB_WORKER_CONCURRENCY }, "⚙️ Job worker started");
+}
+
+/**
+ * Stop claiming jobs and wait for running ones to finish
+ */
+export async function stopJobWorker() {
+  if (!running) {
+    return;
+  }
+
+  running = false;
+  [...wakeUp].forEach(fn => fn());
+  await Promise.all(loops);
+  loops = [];
+
+  logger.info("🛑 Job worker stopped");
+}
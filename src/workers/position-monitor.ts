@@ -0,0 +1,315 @@
+/**
+ * Position Monitor - Open Trade Worker
+ *
+ * Watches PLACED trades (LONG and SHORT) and closes them when:
+ * 1. Price touches the stop loss (trade.stopLoss)
+ * 2. Price touches the take profit (trade.exit)
+ * 3. The strategy's exit rules match (LONG positions only), or the agents
+ *    emit an EXECUTE signal in the opposite direction
+ *
+ * Closing claims the trade (CLOSING), then settles the treasury: the
+ * locked position is released with TRADE_CLOSE and the realized PnL is
+ * booked as PROFIT or LOSS.
+ * Prices come from the configured market data source, so the monitor
+ * runs the same against live Binance data or a recorded replay.
+ */
+
+import mongoose from "mongoose";
+import { Strategy, Trade, Transaction, ITrade } from "../db/schema";
+import { getMarketData } from "../tools/marketData";
+import { adjustBalance } from "../services/treasury.service";
+import { toAmountNumber, toAmountString, toWei } from "../lib/amount.utils";
+import { createRuleContext, evaluateRuleGroup } from "../lib/rule.engine";
+import { calculateRealizedPnl, findExitTrigger, CloseReason, ExitTrigger } from "../lib/position.utils";
+import type { Candle } from "../tools/types/common.types";
+import type { PositionSide } from "../types/execution.types";
+import logger from "../lib/logger";
+
+/**
+ * Candles used to detect stop loss / take profit touches
+ */
+const MONITOR_INTERVAL = "1m";
+const MONITOR_LOOKBACK_CANDLES = 180;
+
+/**
+ * Candles fetched to evaluate exit rules (covers indicator warm-up)
+ */
+const RULE_LOOKBACK_CANDLES = 300;
+
+/**
+ * Outcome for a single monitored trade
+ */
+export interface PositionCheckResult {
+  tradeId: string;
+  closed: boolean;
+  reason?: CloseReason;
+  closePrice?: number;
+  realizedPnl?: string; // WETH
+  error?: string;
+}
+
+/**
+ * Check every open position once
+ *
+ * @returns Summary of the monitoring pass
+ */
+export async function monitorOpenPositions(): Promise<{
+  checked: number;
+  closed: number;
+  failed: number;
+  results: PositionCheckResult[];
+}> {
+  const results = await settleClosingTrades();
+  const trades = await Trade.find({ status: "PLACED" }).sort({ executedAt: 1 });
+
+  if (trades.length === 0 && results.length === 0) {
+    return { checked: 0, closed: 0, failed: 0, results };
+  }
+
+  logger.info({ count: trades.length }, "Monitoring open positions");
+
+  // One fetch per symbol / strategy per pass
+  const priceCandles = new Map<string, Promise<Candle[]>>();
+  const exitSignals = new Map<string, Promise<ExitTrigger | null>>();
+
+  for (const trade of trades) {
+    const tradeId = trade._id.toString();
+
+    try {
+      if (!priceCandles.has(trade.symbol)) {
+        priceCandles.set(trade.symbol, getMarketData(MONITOR_INTERVAL, MONITOR_LOOKBACK_CANDLES, trade.symbol));
+      }
+      const candles = await priceCandles.get(trade.symbol)!;
+
+      let trigger = findExitTrigger(
+        {
+          openedAt: (trade.executedAt ?? trade.createdAt).getTime(),
+          takeProfit: trade.exit,
+          stopLoss: trade.stopLoss,
+          side: trade.side,
+        },
+        candles,
+      );
+
+      // Exit rules are written for long positions; shorts rely on their levels and opposite signals
+      if (!trigger && trade.side !== "SHORT") {
+        const strategyId = trade.strategyId.toString();
+        if (!exitSignals.has(strategyId)) {
+          exitSignals.set(strategyId, checkExitRules(strategyId));
+        }
+        trigger = await exitSignals.get(strategyId)!;
+      }
+
+      if (!trigger) {
+        results.push({ tradeId, closed: false });
+        continue;
+      }
+
+      const closed = await closePosition(trade, trigger.price, trigger.reason);
+      results.push({
+        tradeId,
+        closed: true,
+        reason: trigger.reason,
+        closePrice: closed.closePrice,
+        realizedPnl: closed.realizedPnl && toAmountString(closed.realizedPnl),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      results.push({ tradeId, closed: false, error: errorMessage });
+      logger.error({ tradeId, error: errorMessage }, "Failed to monitor position");
+    }
+  }
+
+  const closed = results.filter(r => r.closed).length;
+  const failed = results.filter(r => r.error).length;
+
+  logger.info({ checked: results.length, closed, failed }, "Position monitoring pass complete");
+
+  return { checked: results.length, closed, failed, results };
+}
+
+/**
+ * Finish closes whose treasury settlement failed on an earlier pass
+ */
+async function settleClosingTrades(): Promise<PositionCheckResult[]> {
+  const trades = await Trade.find({ status: "CLOSING" }).sort({ updatedAt: 1 });
+  const results: PositionCheckResult[] = [];
+
+  for (const trade of trades) {
+    const tradeId = trade._id.toString();
+
+    try {
+      const closed = await settleClosingTrade(trade);
+      results.push({
+        tradeId,
+        closed: true,
+        reason: closed.closeReason,
+        closePrice: closed.closePrice,
+        realizedPnl: closed.realizedPnl && toAmountString(closed.realizedPnl),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      results.push({ tradeId, closed: false, error: errorMessage });
+      logger.error({ tradeId, error: errorMessage }, "Failed to settle closing position");
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Evaluate a strategy's exit rules on its own timeframe (they exit LONG positions)
+ *
+ * @returns A SIGNAL exit at the latest close, or null when there are no rules or they do not match
+ */
+async function checkExitRules(strategyId: string): Promise<ExitTrigger | null> {
+  const strategy = await Strategy.findById(strategyId).select("rules symbol timeframe");
+  if (!strategy?.rules) {
+    return null;
+  }
+
+  const candles = await getMarketData(strategy.timeframe, RULE_LOOKBACK_CANDLES, strategy.symbol);
+  const evaluation = evaluateRuleGroup(strategy.rules.exit, createRuleContext(candles));
+  if (!evaluation.matched) {
+    return null;
+  }
+
+  logger.info({ strategyId, conditions: evaluation.conditions }, "Exit rules matched");
+  const last = candles[candles.length - 1];
+  return { reason: "SIGNAL", price: last.close, timestamp: last.timestamp };
+}
+
+/**
+ * Close an open position and settle the treasury
+ *
+ * The trade is first claimed (PLACED -> CLOSING) with its close price,
+ * reason and PnL, so concurrent closes (a monitor pass and an opposite
+ * agent signal) cannot both settle it. A close that fails during
+ * settlement leaves the trade CLOSING, and the next monitor pass finishes
+ * it with the same figures.
+ *
+ * @param trade - PLACED trade
+ * @param closePrice - Price the position exits at
+ * @param reason - Why the position is closed
+ * @returns The closed trade
+ */
+export async function closePosition(
+  trade: ITrade,
+  closePrice: number,
+  reason: CloseReason,
+): Promise<ITrade> {
+  const entryPrice = trade.executedPrice ?? trade.entry;
+  // Priced off float close / entry prices, so an estimate; it is booked in exact wei from here on
+  const realizedPnl = toAmountString(
+    calculateRealizedPnl(toAmountNumber(trade.amount), entryPrice, closePrice, trade.fees, trade.side),
+  );
+
+  const closing = await Trade.findOneAndUpdate(
+    { _id: trade._id, status: "PLACED" },
+    { $set: { status: "CLOSING", closePrice, closeReason: reason, realizedPnl } },
+    { new: true },
+  );
+
+  if (!closing) {
+    throw new Error(`Trade is not open: ${trade._id}`);
+  }
+
+  return settleClosingTrade(closing);
+}
+
+/**
+ * Settle a CLOSING trade with the treasury and mark it CLOSED
+ *
+ * Each treasury step is skipped if a transaction for it already exists
+ * (and a unique index rejects duplicates), so settlement can be retried.
+ *
+ * @param trade - CLOSING trade
+ * @returns The closed trade
+ */
+async function settleClosingTrade(trade: ITrade): Promise<ITrade> {
+  const tradeId = trade._id as mongoose.Types.ObjectId;
+  const entryPrice = trade.executedPrice ?? trade.entry;
+  const closePrice = trade.closePrice!;
+  const reason = trade.closeReason!;
+  const realizedPnl = toAmountString(trade.realizedPnl ?? "0");
+  const pnlWei = toWei(realizedPnl);
+
+  // Only positions that locked treasury funds on open are settled against it
+  const settled = await Transaction.find({ tradeId, status: "COMPLETED" }).select("type");
+  const settledTypes = new Set(settled.map(t => t.type));
+
+  if (settledTypes.has("TRADE_OPEN")) {
+    if (!settledTypes.has("TRADE_CLOSE")) {
+      await adjustBalance(trade.strategyId, trade.userId, {
+        amount: trade.amount,
+        type: "TRADE_CLOSE",
+        description: `Closed ${trade.symbol} ${trade.side} position (${reason})`,
+        tradeId,
+        metadata: { side: trade.side, entryPrice, closePrice, reason },
+      });
+    }
+
+    if (pnlWei !== 0n && !settledTypes.has("PROFIT") && !settledTypes.has("LOSS")) {
+      await adjustBalance(trade.strategyId, trade.userId, {
+        amount: realizedPnl,
+        type: pnlWei > 0n ? "PROFIT" : "LOSS",
+        description: `Realized ${pnlWei > 0n ? "profit" : "loss"} on ${trade.symbol} ${trade.side} position`,
+        tradeId,
+        fees: trade.fees,
+        metadata: { side: trade.side, entryPrice, closePrice, reason, fees: trade.fees },
+      });
+    }
+  } else {
+    logger.warn({ tradeId }, "Trade has no TRADE_OPEN lock - closing without treasury settlement");
+  }
+
+  const closed = await Trade.findOneAndUpdate(
+    { _id: tradeId, status: "CLOSING" },
+    { $set: { status: "CLOSED", closedAt: new Date() } },
+    { new: true },
+  );
+
+  if (!closed) {
+    throw new Error(`Trade is not closing: ${trade._id}`);
+  }
+
+  logger.info(
+    { tradeId, symbol: trade.symbol, side: trade.side, entryPrice, closePrice, reason, realizedPnl },
+    "✅ Position closed",
+  );
+
+  return closed;
+}
+
+/**
+ * Close open positions of a strategy at the latest price
+ *
+ * Used when the agents emit an EXECUTE decision against the direction
+ * the strategy is holding (SELL closes LONGs, BUY closes SHORTs).
+ *
+ * @param strategyId - Strategy whose positions are closed
+ * @param reason - Why the positions are closed
+ * @param side - Only close positions on this side (all when omitted)
+ * @returns Closed trades
+ */
+export async function closeStrategyPositions(
+  strategyId: string,
+  reason: CloseReason = "SIGNAL",
+  side?: PositionSide,
+): Promise<ITrade[]> {
+  // Trades saved before shorts were supported have no side and are LONG
+  const sideFilter = side === "SHORT" ? { side } : side === "LONG" ? { side: { $ne: "SHORT" } } : {};
+  const trades = await Trade.find({ strategyId, status: "PLACED", ...sideFilter });
+  const closed: ITrade[] = [];
+  const prices = new Map<string, number>();
+
+  for (const trade of trades) {
+    if (!prices.has(trade.symbol)) {
+      const candles = await getMarketData(MONITOR_INTERVAL, 1, trade.symbol);
+      prices.set(trade.symbol, candles[candles.length - 1].close);
+    }
+    closed.push(await closePosition(trade, prices.get(trade.symbol)!, reason));
+  }
+
+  return closed;
+}
@@ -3,9 +3,15 @@
  * 
  * Main worker that orchestrates the AI trading cycle:
  * 1. Fetch all ACTIVE strategies from database
- * 2. For each strategy, run through the trading agent pipeline
- * 3. Save any BUY signals as PENDING trades
- * 4. Log execution results and errors
+ * 2. For each strategy, check structured entry rules (if any) without an LLM
+ * 3. Run the trading agent pipeline when the rules are met (or absent)
+ * 4. On an EXECUTE signal, close positions held the other way (SELL closes
+ *    longs, BUY closes shorts), then verify the new position's price levels
+ *    against market data and ATR, run pre-trade risk checks, and save
+ *    approved ones as PENDING trades (SELL opens a short only when the
+ *    strategy allows shorts)
+ * 5. Record every evaluation as an AgentRun (prompt, stage outputs, tool calls)
+ * 6. Log execution results and errors
  * 
  * This can be run as:
  * - Scheduled cron job (e.g., every 15 minutes)
@@ -22,6 +28,18 @@ import {
 import { parseValidatorOutput, saveTrade } from "../agents/validator.agent";
 import { parseAnalyzerOutput } from "../agents/analyzer.agent";
 import { needsRefinement, parseRefinerOutput } from "../agents/refiner.agent";
+import { closeStrategyPositions } from "./position-monitor";
+import { recordAgentRun } from "../services/agent-run.service";
+import { assessTradeRisk } from "../services/risk.service";
+import { AgentRunTrace } from "../lib/agent-trace";
+import { getMarketData } from "../tools/marketData";
+import { createRuleContext, evaluateRuleGroup } from "../lib/rule.engine";
+import { DEFAULT_PRICE_VERIFICATION_SETTINGS, latestAtr, verifyTradeLevels } from "../lib/price-verification";
+import { positionSideForSignal } from "../lib/position.utils";
+import type { RuleEvaluation, StrategyRules } from "../types/rule.types";
+import type { PriceVerification, RiskAssessment } from "../types/risk.types";
+import type { ValidatorAgentOutput } from "../agents/types";
+import type { PositionSide } from "../types/execution.types";
 import logger from "../lib/logger";
 
 /**
@@ -34,10 +52,128 @@ export interface StrategyExecutionResult {
   decision?: "EXECUTE" | "HOLD" | "REJECT";
   signal?: "BUY" | "SELL" | "HOLD";
   tradeId?: string;
+  ruleEvaluation?: RuleEvaluation; // Entry rule trail for strategies with structured rules
+  priceVerification?: PriceVerification; // Price level checks for EXECUTE entry decisions
+  riskAssessment?: RiskAssessment; // Pre-trade risk checks for EXECUTE entry decisions
   error?: string;
   executionTime: number; // milliseconds
 }
 
+/**
+ * Candles fetched to evaluate structured rules (covers indicator warm-up)
+ */
+const RULE_LOOKBACK_CANDLES = 300;
+
+/**
+ * Evaluate a strategy's entry rules on the latest candles
+ *
+ * Deterministic: the same candles always give the same answer, and the
+ * returned trail records every condition's values for auditing.
+ */
+export async function evaluateEntryRules(
+  rules: StrategyRules,
+  symbol: string,
+  timeframe: string
+): Promise<RuleEvaluation> {
+  const candles = await getMarketData(timeframe, RULE_LOOKBACK_CANDLES, symbol);
+  return evaluateRuleGroup(rules.entry, createRuleContext(candles));
+}
+
+/**
+ * Check the validator's entry / take profit / stop loss against the latest
+ * close and ATR on the strategy's timeframe, correcting them where possible
+ */
+export async function verifyProposedLevels(
+  validatorOutput: ValidatorAgentOutput,
+  side: PositionSide,
+  symbol: string,
+  timeframe: string
+): Promise<PriceVerification> {
+  const candles = await getMarketData(timeframe, RULE_LOOKBACK_CANDLES, symbol);
+  const lastClose = candles[candles.length - 1]?.close;
+  const atrValue = latestAtr(candles, DEFAULT_PRICE_VERIFICATION_SETTINGS.atrPeriod);
+
+  if (!lastClose || !atrValue) {
+    throw new Error(`Not enough ${symbol} ${timeframe} market data to verify trade levels`);
+  }
+
+  return verifyTradeLevels(validatorOutput, lastClose, atrValue, side);
+}
+
+/**
+ * Close the strategy's open positions on the side an EXECUTE signal exits
+ * (SELL closes LONGs, BUY closes SHORTs)
+ */
+async function closeOpposingPositions(
+  strategy: InstanceType<typeof Strategy>,
+  validatorOutput: ValidatorAgentOutput
+) {
+  if (validatorOutput.decision !== "EXECUTE" || validatorOutput.signal === "HOLD") {
+    return;
+  }
+
+  const side: PositionSide = validatorOutput.signal === "SELL" ? "LONG" : "SHORT";
+  await closeStrategyPositions(strategy._id.toString(), "SIGNAL", side);
+}
+
+/**
+ * Save an EXECUTE BUY (LONG) or SELL (SHORT) decision as a PENDING trade if
+ * its price levels hold up and it passes the risk checks
+ *
+ * A SELL only opens a position when the strategy allows shorts. The trade
+ * uses the verified levels (keeping the validator's originals in
+ * `priceVerification`) and the amount sized by the risk engine.
+ */
+async function saveRiskCheckedTrade(
+  strategy: InstanceType<typeof Strategy>,
+  validatorOutput: ValidatorAgentOutput,
+  marketAnalysis: string,
+  ruleEvaluation?: RuleEvaluation
+): Promise<{ tradeId?: string; priceVerification?: PriceVerification; riskAssessment?: RiskAssessment }> {
+  if (validatorOutput.decision !== "EXECUTE" || validatorOutput.signal === "HOLD") {
+    return {};
+  }
+  if (validatorOutput.signal === "SELL" && !strategy.allowShorts) {
+    return {};
+  }
+
+  const priceVerification = await verifyProposedLevels(
+    validatorOutput,
+    positionSideForSignal(validatorOutput.signal),
+    strategy.symbol,
+    strategy.timeframe
+  );
+  if (!priceVerification.corrected) {
+    logger.warn({ strategyId: strategy._id, reason: priceVerification.reason }, "Trade rejected by price verification");
+    return { priceVerification };
+  }
+  const verifiedOutput = { ...validatorOutput, ...priceVerification.corrected };
+
+  const userId = strategy.userId._id.toString();
+  const riskAssessment = await assessTradeRisk(
+    { _id: strategy._id, userId, symbol: strategy.symbol, amount: strategy.amount, riskLimits: strategy.riskLimits },
+    verifiedOutput
+  );
+  if (!riskAssessment.approved) {
+    return { priceVerification, riskAssessment };
+  }
+
+  const analyzedData = parseAnalyzerOutput(marketAnalysis);
+  const trade = await saveTrade(
+    verifiedOutput,
+    userId,
+    strategy._id.toString(),
+    riskAssessment.amount,
+    analyzedData.marketCondition,
+    analyzedData.toolsExecuted,
+    strategy.symbol,
+    ruleEvaluation,
+    priceVerification
+  );
+
+  return { tradeId: trade?._id.toString(), priceVerification, riskAssessment };
+}
+
 /**
  * Execute the trading cycle for all active strategies
  * 
@@ -84,17 +220,51 @@ export async function executeStrategyAnalysisCycle(): Promise<{
     // Process each strategy
     for (const strategy of strategies) {
       const strategyStartTime = Date.now();
+      const run = {
+        userId: strategy.userId._id.toString(),
+        strategyId: strategy._id.toString(),
+        startedAt: new Date(strategyStartTime),
+        trace: new AgentRunTrace(),
+      };
+      let strategyInput: string | undefined;
+      let sessionId: string | undefined;
 
       try {
         logger.info(
           {
             strategyId: strategy._id,
             name: strategy.name,
+            symbol: strategy.symbol,
             userId: strategy.userId,
           },
           "Processing strategy"
         );
 
+        // Structured rules decide entry on their own; skip the LLM when they are not met
+        let ruleEvaluation: RuleEvaluation | undefined;
+        if (strategy.rules) {
+          ruleEvaluation = await evaluateEntryRules(strategy.rules, strategy.symbol, strategy.timeframe);
+          if (!ruleEvaluation.matched) {
+            const executionTime = Date.now() - strategyStartTime;
+            results.push({
+              strategyId: strategy._id.toString(),
+              strategyName: strategy.name,
+              success: true,
+              decision: "HOLD",
+              signal: "HOLD",
+              ruleEvaluation,
+              executionTime,
+            });
+            await recordAgentRun({ ...run, status: "SKIPPED", ruleEvaluation, decision: "HOLD", signal: "HOLD" });
+
+            logger.info(
+              { strategyId: strategy._id, conditions: ruleEvaluation.conditions },
+              "Entry rules not met - skipping agent pipeline"
+            );
+            continue;
+          }
+        }
+
         // Prepare strategy input
         const indicators = strategy.indicators as unknown as Array<{
           name: string;
@@ -102,21 +272,23 @@ export async function executeStrategyAnalysisCycle(): Promise<{
           category: string;
         }>;
 
-        const strategyInput = prepareStrategyInput(
+        strategyInput = prepareStrategyInput(
           {
             name: strategy.name,
             description: strategy.description,
             refinedDescription: strategy.refinedDescription,
+            symbol: strategy.symbol,
             timeframe: strategy.timeframe,
             amount: strategy.amount,
+            allowShorts: strategy.allowShorts,
           },
           indicators
         );
 
         // Execute trading pipeline
-        const sessionId = `strategy_${strategy._id}_${Date.now()}`;
+        sessionId = `strategy_${strategy._id}_${Date.now()}`;
         const { result, refinedStrategy, marketAnalysis, tradeDecision } =
-          await executeTradingPipelineWithState(strategyInput, sessionId);
+          await executeTradingPipelineWithState(strategyInput, sessionId, run.trace);
 
         // Parse validator output
         const validatorOutput = tradeDecision
@@ -127,6 +299,9 @@ export async function executeStrategyAnalysisCycle(): Promise<{
         if (refinedStrategy && needsRefinement(strategy)) {
           const refinedData = parseRefinerOutput(refinedStrategy);
           strategy.refinedDescription = refinedData.refinedDescription;
+          if (!strategy.rules && refinedData.rules) {
+            strategy.rules = refinedData.rules;
+          }
           await strategy.save();
           logger.info(
             { strategyId: strategy._id },
@@ -134,24 +309,16 @@ export async function executeStrategyAnalysisCycle(): Promise<{
           );
         }
 
-        // Save trade if decision is EXECUTE + BUY
-        let tradeId: string | undefined;
-        if (validatorOutput && marketAnalysis) {
-          const analyzedData = parseAnalyzerOutput(marketAnalysis);
-          const trade = await saveTrade(
-            validatorOutput,
-            strategy.userId.toString(),
-            strategy._id.toString(),
-            strategy.amount,
-            analyzedData.marketCondition,
-            analyzedData.toolsExecuted
-          );
-
-          if (trade) {
-            tradeId = trade._id.toString();
-          }
+        // An EXECUTE signal first exits positions held the other way
+        if (validatorOutput) {
+          await closeOpposingPositions(strategy, validatorOutput);
         }
 
+        // Save trade if decision is EXECUTE + BUY (or SELL with shorts allowed) and it passes the risk checks
+        const { tradeId, priceVerification, riskAssessment } = validatorOutput && marketAnalysis
+          ? await saveRiskCheckedTrade(strategy, validatorOutput, marketAnalysis, ruleEvaluation)
+          : {};
+
         // Record success
         const executionTime = Date.now() - strategyStartTime;
         results.push({
@@ -161,8 +328,23 @@ export async function executeStrategyAnalysisCycle(): Promise<{
           decision: validatorOutput?.decision,
           signal: validatorOutput?.signal,
           tradeId,
+          ruleEvaluation,
+          priceVerification,
+          riskAssessment,
           executionTime,
         });
+        await recordAgentRun({
+          ...run,
+          status: "COMPLETED",
+          sessionId,
+          input: strategyInput,
+          ruleEvaluation,
+          priceVerification,
+          riskAssessment,
+          decision: validatorOutput?.decision,
+          signal: validatorOutput?.signal,
+          tradeId,
+        });
 
         logger.info(
           {
@@ -187,6 +369,7 @@ export async function executeStrategyAnalysisCycle(): Promise<{
           error: errorMessage,
           executionTime,
         });
+        await recordAgentRun({ ...run, status: "FAILED", sessionId, input: strategyInput, error: errorMessage });
 
         logger.error(
           {
@@ -242,6 +425,10 @@ export async function executeSingleStrategy(
   strategyId: string
 ): Promise<StrategyExecutionResult> {
   const startTime = Date.now();
+  const trace = new AgentRunTrace();
+  let run: { userId: string; strategyId: string; startedAt: Date; trace: AgentRunTrace } | undefined;
+  let strategyInput: string | undefined;
+  let sessionId: string | undefined;
 
   try {
     logger.info({ strategyId }, "Executing single strategy analysis");
@@ -259,6 +446,35 @@ export async function executeSingleStrategy(
       throw new Error(`Strategy is not active: ${strategyId}`);
     }
 
+    run = {
+      userId: strategy.userId._id.toString(),
+      strategyId: strategy._id.toString(),
+      startedAt: new Date(startTime),
+      trace,
+    };
+
+    // Structured rules decide entry on their own; skip the LLM when they are not met
+    let ruleEvaluation: RuleEvaluation | undefined;
+    if (strategy.rules) {
+      ruleEvaluation = await evaluateEntryRules(strategy.rules, strategy.symbol, strategy.timeframe);
+      if (!ruleEvaluation.matched) {
+        logger.info(
+          { strategyId, conditions: ruleEvaluation.conditions },
+          "Entry rules not met - skipping agent pipeline"
+        );
+        await recordAgentRun({ ...run, status: "SKIPPED", ruleEvaluation, decision: "HOLD", signal: "HOLD" });
+        return {
+          strategyId: strategy._id.toString(),
+          strategyName: strategy.name,
+          success: true,
+          decision: "HOLD",
+          signal: "HOLD",
+          ruleEvaluation,
+          executionTime: Date.now() - startTime,
+        };
+      }
+    }
+
     // Prepare input
     const indicators = strategy.indicators as unknown as Array<{
       name: string;
@@ -266,21 +482,23 @@ export async function executeSingleStrategy(
       category: string;
     }>;
 
-    const strategyInput = prepareStrategyInput(
+    strategyInput = prepareStrategyInput(
       {
         name: strategy.name,
         description: strategy.description,
         refinedDescription: strategy.refinedDescription,
+        symbol: strategy.symbol,
         timeframe: strategy.timeframe,
         amount: strategy.amount,
+        allowShorts: strategy.allowShorts,
       },
       indicators
     );
 
     // Execute pipeline
-    const sessionId = `strategy_${strategy._id}_${Date.now()}`;
+    sessionId = `strategy_${strategy._id}_${Date.now()}`;
     const { result, refinedStrategy, marketAnalysis, tradeDecision } =
-      await executeTradingPipelineWithState(strategyInput, sessionId);
+      await executeTradingPipelineWithState(strategyInput, sessionId, trace);
 
     // Parse output
     const validatorOutput = tradeDecision
@@ -291,27 +509,22 @@ export async function executeSingleStrategy(
     if (refinedStrategy && needsRefinement(strategy)) {
       const refinedData = parseRefinerOutput(refinedStrategy);
       strategy.refinedDescription = refinedData.refinedDescription;
+      if (!strategy.rules && refinedData.rules) {
+        strategy.rules = refinedData.rules;
+      }
       await strategy.save();
     }
 
-    // Save trade if applicable
-    let tradeId: string | undefined;
-    if (validatorOutput && marketAnalysis) {
-      const analyzedData = parseAnalyzerOutput(marketAnalysis);
-      const trade = await saveTrade(
-        validatorOutput,
-        strategy.userId.toString(),
-        strategy._id.toString(),
-        strategy.amount,
-        analyzedData.marketCondition,
-        analyzedData.toolsExecuted
-      );
-
-      if (trade) {
-        tradeId = trade._id.toString();
-      }
+    // An EXECUTE signal first exits positions held the other way
+    if (validatorOutput) {
+      await closeOpposingPositions(strategy, validatorOutput);
     }
 
+    // Save trade if applicable and it passes the risk checks
+    const { tradeId, priceVerification, riskAssessment } = validatorOutput && marketAnalysis
+      ? await saveRiskCheckedTrade(strategy, validatorOutput, marketAnalysis, ruleEvaluation)
+      : {};
+
     const executionTime = Date.now() - startTime;
 
     logger.info(
@@ -325,6 +538,19 @@ export async function executeSingleStrategy(
       "✅ Single strategy execution complete"
     );
 
+    await recordAgentRun({
+      ...run,
+      status: "COMPLETED",
+      sessionId,
+      input: strategyInput,
+      ruleEvaluation,
+      priceVerification,
+      riskAssessment,
+      decision: validatorOutput?.decision,
+      signal: validatorOutput?.signal,
+      tradeId,
+    });
+
     return {
       strategyId: strategy._id.toString(),
       strategyName: strategy.name,
@@ -332,6 +558,9 @@ export async function executeSingleStrategy(
       decision: validatorOutput?.decision,
       signal: validatorOutput?.signal,
       tradeId,
+      ruleEvaluation,
+      priceVerification,
+      riskAssessment,
       executionTime,
     };
   } catch (error) {
@@ -347,6 +576,10 @@ export async function executeSingleStrategy(
       "❌ Single strategy execution failed"
     );
 
+    if (run) {
+      await recordAgentRun({ ...run, status: "FAILED", sessionId, input: strategyInput, error: errorMessage });
+    }
+
     return {
       strategyId,
       strategyName: "Unknown",
@@ -372,7 +605,7 @@ export async function getPendingTrades(userId: string) {
       userId,
       status: "PENDING",
     })
-      .populate("strategyId", "name description timeframe")
+      .populate("strategyId", "name description symbol timeframe")
       .sort({ createdAt: -1 });
 
     return trades;
@@ -395,7 +628,7 @@ export async function getExecutionHistory(limit: number = 50) {
   try {
     const trades = await Trade.find()
       .populate("userId", "email firstName lastName")
-      .populate("strategyId", "name description timeframe")
+      .populate("strategyId", "name description symbol timeframe")
       .sort({ createdAt: -1 })
       .limit(limit);
 
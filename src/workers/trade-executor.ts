@@ -0,0 +1,299 @@
+/**
+ * Trade Executor - Pending Trade Worker
+ *
+ * Fills PENDING trades through the execution adapter for the strategy's
+ * `executionMode`:
+ * 1. Claim the trade (EXECUTING) so no other pass fills it too
+ * 2. Lock the trade amount in the treasury (TRADE_OPEN) - for a SHORT
+ *    it is the collateral backing the position
+ * 3. Fill the order (simulated for PAPER, on-chain for LIVE): BUY for a
+ *    LONG, SELL for a SHORT
+ * 4. Record the fill and move the trade to PLACED
+ *
+ * A trade whose funds cannot be locked or whose fill fails is marked
+ * FAILED and any lock is released. Once an on-chain order is sent its
+ * txHash is saved, and the trade is only failed if the order reverted: if
+ * its outcome is unknown, or the fill cannot be placed, the trade keeps
+ * its lock (and fill details) for review. A claim is a lease: a trade
+ * still EXECUTING after `EXECUTION_LEASE_MS` without a sent order (the
+ * process died mid-fill) is marked FAILED and its lock released by the
+ * next pass. Trades for a mode without a configured adapter (LIVE
+ * without 1inch credentials) stay PENDING, and SHORT trades fail on
+ * adapters that cannot open shorts.
+ */
+
+import mongoose from "mongoose";
+import { Strategy, Trade, Transaction, ITrade } from "../db/schema";
+import { adjustBalance } from "../services/treasury.service";
+import { toAmountNumber } from "../lib/amount.utils";
+import { getExecutionAdapter } from "../services/execution";
+import { DEFAULT_EXECUTION_MODE, ORDER_REVERTED } from "../types/execution.types";
+import type { ExecutionFill, ExecutionMode } from "../types/execution.types";
+import logger from "../lib/logger";
+
+/**
+ * How long a claimed trade may stay EXECUTING; longer than any fill takes
+ * (including waiting for a LIVE swap's receipt)
+ */
+export const EXECUTION_LEASE_MS = 15 * 60 * 1000;
+
+/**
+ * Outcome for a single pending trade
+ */
+export interface TradeExecutionResult {
+  tradeId: string;
+  status: "PLACED" | "FAILED" | "SKIPPED";
+  executedPrice?: number;
+  error?: string;
+}
+
+/**
+ * Fill every pending trade once
+ *
+ * @returns Summary of the execution pass
+ */
+export async function executePendingTrades(): Promise<{
+  pending: number;
+  placed: number;
+  failed: number;
+  results: TradeExecutionResult[];
+}> {
+  const results = await recoverExecutingTrades();
+  const trades = await Trade.find({ status: "PENDING", signal: { $in: ["BUY", "SELL"] } }).sort({ createdAt: 1 });
+
+  for (const trade of trades) {
+    results.push(await executeTrade(trade));
+  }
+
+  const placed = results.filter(r => r.status === "PLACED").length;
+  const failed = results.filter(r => r.status === "FAILED").length;
+
+  if (results.length > 0) {
+    logger.info({ pending: trades.length, placed, failed }, "Trade execution pass complete");
+  }
+
+  return { pending: trades.length, placed, failed, results };
+}
+
+/**
+ * Fail trades whose execution was abandoned and release their funds
+ *
+ * Only trades whose lease ran out before an order was sent are
+ * recovered; a sent order (txHash) may have filled and is left for review.
+ */
+async function recoverExecutingTrades(): Promise<TradeExecutionResult[]> {
+  const abandoned = {
+    status: "EXECUTING",
+    txHash: { $exists: false },
+    executionLeaseUntil: { $not: { $gt: new Date() } },
+  };
+  const trades = await Trade.find(abandoned).sort({ updatedAt: 1 });
+  const results: TradeExecutionResult[] = [];
+
+  for (const trade of trades) {
+    const tradeId = trade._id as mongoose.Types.ObjectId;
+
+    try {
+      const failed = await Trade.findOneAndUpdate({ _id: tradeId, ...abandoned }, { $set: { status: "FAILED" } });
+      if (!failed) {
+        continue;
+      }
+
+      await releaseTradeLock(trade, `Released funds for abandoned ${trade.symbol} trade`);
+      logger.warn({ tradeId, leaseUntil: trade.executionLeaseUntil }, "Recovered an abandoned trade execution");
+      results.push({ tradeId: tradeId.toString(), status: "FAILED", error: "Trade execution was abandoned" });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      logger.error({ tradeId, error: errorMessage }, "Failed to recover abandoned trade execution");
+      results.push({ tradeId: tradeId.toString(), status: "FAILED", error: errorMessage });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Lock funds for a pending trade and fill it
+ *
+ * The trade is claimed first (PENDING -> EXECUTING), so an overlapping
+ * execution pass cannot send the order a second time.
+ *
+ * @param trade - PENDING trade
+ * @returns What happened to the trade
+ */
+export async function executeTrade(trade: ITrade): Promise<TradeExecutionResult> {
+  const tradeId = trade._id as mongoose.Types.ObjectId;
+
+  if (trade.status !== "PENDING") {
+    return { tradeId: tradeId.toString(), status: "SKIPPED", error: "Trade is not pending" };
+  }
+
+  const strategy = await Strategy.findById(trade.strategyId).select("executionMode");
+  const mode = strategy?.executionMode ?? DEFAULT_EXECUTION_MODE;
+  const adapter = getExecutionAdapter(mode);
+
+  if (!adapter) {
+    logger.debug({ tradeId, mode }, "No execution adapter configured - trade stays pending");
+    return { tradeId: tradeId.toString(), status: "SKIPPED", error: `No execution adapter for ${mode} mode` };
+  }
+
+  const claimed = await Trade.findOneAndUpdate(
+    { _id: tradeId, status: "PENDING" },
+    { $set: { status: "EXECUTING", executionMode: mode, executionLeaseUntil: new Date(Date.now() + EXECUTION_LEASE_MS) } },
+  );
+  if (!claimed) {
+    return { tradeId: tradeId.toString(), status: "SKIPPED", error: "Trade is not pending" };
+  }
+
+  let locked = Boolean(await Transaction.exists({ tradeId, type: "TRADE_OPEN", status: "COMPLETED" }));
+  let submitted: string | undefined;
+  let fill: ExecutionFill;
+
+  try {
+    if (trade.side === "SHORT" && !adapter.supportsShorts) {
+      throw new Error(`${mode} execution does not support short positions`);
+    }
+
+    if (!locked) {
+      await adjustBalance(trade.strategyId, trade.userId, {
+        amount: trade.amount,
+        type: "TRADE_OPEN",
+        description: `Opened ${trade.symbol} ${trade.side} position (${mode})`,
+        tradeId,
+        metadata: { executionMode: mode, side: trade.side },
+      });
+      locked = true;
+    }
+
+    fill = await adapter.execute({
+      tradeId: tradeId.toString(),
+      symbol: trade.symbol,
+      side: trade.side === "SHORT" ? "SELL" : "BUY",
+      amount: toAmountNumber(trade.amount),
+      onSubmitted: async (txHash) => {
+        submitted = txHash;
+        await Trade.updateOne({ _id: tradeId }, { $set: { txHash } });
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+    // A sent order may have filled; only a revert proves it did not
+    if (submitted && errorMessage !== ORDER_REVERTED) {
+      logger.error(
+        { tradeId, mode, txHash: submitted, error: errorMessage },
+        "Order was sent but its outcome is unknown - trade stays EXECUTING with its funds locked",
+      );
+      return { tradeId: tradeId.toString(), status: "FAILED", error: errorMessage };
+    }
+
+    logger.error({ tradeId, mode, error: errorMessage }, "Failed to execute trade");
+    await failTrade(trade, locked);
+
+    return { tradeId: tradeId.toString(), status: "FAILED", error: errorMessage };
+  }
+
+  return recordFill(trade, mode, fill);
+}
+
+/**
+ * Record a fill and move the trade to PLACED
+ *
+ * The order has been executed by now, so nothing here fails the trade or
+ * releases its lock. If the trade is no longer EXECUTING, the fill (and
+ * txHash) is still saved on it and the funds stay locked for review.
+ */
+async function recordFill(trade: ITrade, mode: ExecutionMode, fill: ExecutionFill): Promise<TradeExecutionResult> {
+  const tradeId = trade._id as mongoose.Types.ObjectId;
+  const fillFields = {
+    executionMode: mode,
+    txHash: fill.txHash,
+    executedAt: fill.executedAt,
+    executedPrice: fill.price,
+    executedQuantity: fill.quantity,
+    fees: fill.fee,
+  };
+
+  try {
+    const placed = await Trade.findOneAndUpdate(
+      { _id: tradeId, status: "EXECUTING" },
+      { $set: { status: "PLACED", ...fillFields } },
+      { new: true },
+    );
+
+    if (!placed) {
+      await Trade.updateOne({ _id: tradeId }, { $set: fillFields });
+      throw new Error(`Trade is not executing: ${tradeId}`);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    logger.error(
+      { tradeId, mode, txHash: fill.txHash, fill, error: errorMessage },
+      "Trade was filled but could not be placed - funds stay locked",
+    );
+    return { tradeId: tradeId.toString(), status: "FAILED", executedPrice: fill.price, error: errorMessage };
+  }
+
+  logger.info(
+    { tradeId, symbol: trade.symbol, side: trade.side, mode, price: fill.price, fee: fill.fee },
+    "✅ Trade placed",
+  );
+
+  return { tradeId: tradeId.toString(), status: "PLACED", executedPrice: fill.price };
+}
+
+/**
+ * Mark a claimed trade FAILED and release its treasury lock
+ */
+async function failTrade(trade: ITrade, locked: boolean) {
+  const tradeId = trade._id as mongoose.Types.ObjectId;
+
+  try {
+    const failed = await Trade.findOneAndUpdate(
+      { _id: tradeId, status: "EXECUTING" },
+      { $set: { status: "FAILED" } },
+    );
+
+    if (locked && failed) {
+      await releaseTradeLock(trade, `Released funds for failed ${trade.symbol} trade`);
+    }
+  } catch (error) {
+    logger.error({ tradeId, error }, "Failed to roll back trade execution");
+  }
+}
+
+/**
+ * Return a trade's locked funds to the available balance
+ *
+ * Does nothing if the trade never locked funds or already released them,
+ * including when a concurrent release wins the race (the unique
+ * (tradeId, type) index rejects the second TRADE_CLOSE).
+ *
+ * @returns true if funds were released
+ */
+export async function releaseTradeLock(trade: ITrade, description: string): Promise<boolean> {
+  const tradeId = trade._id as mongoose.Types.ObjectId;
+
+  const [opened, released] = await Promise.all([
+    Transaction.exists({ tradeId, type: "TRADE_OPEN", status: "COMPLETED" }),
+    Transaction.exists({ tradeId, type: "TRADE_CLOSE", status: "COMPLETED" }),
+  ]);
+  if (!opened || released) {
+    return false;
+  }
+
+  try {
+    await adjustBalance(trade.strategyId, trade.userId, {
+      amount: trade.amount,
+      type: "TRADE_CLOSE",
+      description,
+      tradeId,
+    });
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      return false;
+    }
+    throw error;
+  }
+  return true;
+}
@@ -0,0 +1,88 @@
+/**
+ * Agent Run Trace Tests
+ *
+ * Builds per-stage timings, outputs and tool calls from a recorded
+ * sequence of ADK-shaped events.
+ */
+
+import { AgentRunTrace } from "../src/lib/agent-trace";
+
+const at = (ms: number) => new Date(Date.UTC(2025, 0, 1) + ms);
+
+describe("AgentRunTrace", () => {
+  function recordPipeline() {
+    const trace = new AgentRunTrace();
+
+    trace.record({ author: "user", content: { parts: [{ text: "Analyze WETHUSDT" }] } }, at(0));
+    trace.record({ author: "refiner_agent", content: { parts: [{ text: "{\"refinedDescription\":" }] } }, at(1000));
+    trace.record({ author: "refiner_agent", content: { parts: [{ text: "\"steps\"}" }] } }, at(1500));
+    trace.record({
+      author: "analyzer_agent",
+      content: { parts: [{ functionCall: { id: "call-1", name: "relativeStrengthIndex", args: { period: 14, symbol: "WETHUSDT" } } }] },
+    }, at(2000));
+    trace.record({
+      author: "analyzer_agent",
+      content: { parts: [{ functionCall: { id: "call-2", name: "movingAverageConvergenceDivergence", args: {} } }] },
+    }, at(2100));
+    trace.record({
+      author: "analyzer_agent",
+      content: { parts: [{ functionResponse: { id: "call-1", name: "relativeStrengthIndex", response: { value: 28.4 } } }] },
+    }, at(2400));
+    trace.record({
+      author: "analyzer_agent",
+      content: { parts: [{ functionResponse: { id: "call-2", name: "movingAverageConvergenceDivergence", response: { error: "Failed to fetch market data" } } }] },
+    }, at(2600));
+    trace.record({ author: "validator_agent", content: { parts: [{ text: "{\"decision\":\"HOLD\"}" }] } }, at(4000));
+
+    return trace;
+  }
+
+  it("should split the run into one stage per agent", () => {
+    const trace = recordPipeline();
+
+    expect(trace.stages.map(stage => stage.agent)).toEqual(["refiner_agent", "analyzer_agent", "validator_agent"]);
+    expect(trace.stages[0].output).toBe("{\"refinedDescription\":\"steps\"}");
+    expect(trace.stages[2].output).toBe("{\"decision\":\"HOLD\"}");
+  });
+
+  it("should time each stage from the end of the previous one", () => {
+    const trace = recordPipeline();
+
+    expect(trace.stages[1].startedAt).toEqual(at(1500));
+    expect(trace.stages[1].completedAt).toEqual(at(2600));
+    expect(trace.stages[1].durationMs).toBe(1100);
+    expect(trace.stages[2].durationMs).toBe(1400);
+  });
+
+  it("should pair tool calls with their responses", () => {
+    const trace = recordPipeline();
+
+    expect(trace.toolCalls).toHaveLength(2);
+    expect(trace.toolCalls[0]).toMatchObject({
+      agent: "analyzer_agent",
+      tool: "relativeStrengthIndex",
+      args: { period: 14, symbol: "WETHUSDT" },
+      response: { value: 28.4 },
+      durationMs: 400,
+    });
+    expect(trace.toolCalls[0].error).toBeUndefined();
+    expect(trace.toolCalls[1].error).toBe("Failed to fetch market data");
+  });
+
+  it("should keep calls without a response", () => {
+    const trace = new AgentRunTrace();
+    trace.record({ author: "analyzer_agent", content: { parts: [{ functionCall: { name: "averageTrueRange", args: { period: 14 } } }] } });
+
+    expect(trace.toolCalls[0].response).toBeUndefined();
+    expect(trace.toolCalls[0].durationMs).toBeUndefined();
+  });
+
+  it("should prefer the outputs stored in session state", () => {
+    const trace = recordPipeline();
+
+    trace.setStageOutputs({ validator_agent: "{\"decision\":\"REJECT\"}", analyzer_agent: undefined });
+
+    expect(trace.stages[2].output).toBe("{\"decision\":\"REJECT\"}");
+    expect(trace.stages[1].output).toBeUndefined();
+  });
+});
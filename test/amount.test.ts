@@ -0,0 +1,121 @@
+/**
+ * WETH Amount Tests
+ *
+ * Decimal <-> wei conversion, and the migration of amounts stored as
+ * numbers to Decimal128.
+ */
+
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import { fromWei, isAmount, toAmountString, toDecimal128, toWei } from "../src/lib/amount.utils";
+import { migrateDecimalAmounts } from "../src/scripts/migrate-decimal-amounts";
+import { JournalEntry, Treasury } from "../src/db/schema";
+
+describe("WETH Amounts", () => {
+  describe("toWei", () => {
+    it("should convert decimals of every form to wei", () => {
+      expect(toWei("1")).toBe(10n ** 18n);
+      expect(toWei(0.1)).toBe(10n ** 17n);
+      expect(toWei("-2.5")).toBe(-25n * 10n ** 17n);
+      expect(toWei(".5")).toBe(5n * 10n ** 17n);
+      expect(toWei("1e-18")).toBe(1n);
+      expect(toWei(1e21)).toBe(10n ** 39n);
+      expect(toWei(toDecimal128("1000.25"))).toBe(100025n * 10n ** 16n);
+    });
+
+    it("should treat a bigint as wei already", () => {
+      expect(toWei(5n)).toBe(5n);
+    });
+
+    it("should round digits beyond 18 decimals half away from zero", () => {
+      expect(toWei("0.0000000000000000015")).toBe(2n);
+      expect(toWei("0.0000000000000000014")).toBe(1n);
+      expect(toWei("-0.0000000000000000015")).toBe(-2n);
+    });
+
+    it("should bound the exponent", () => {
+      expect(() => toWei("1e300000000")).toThrow("Amount out of range");
+      expect(() => toWei(1e300)).toThrow("Amount out of range");
+      expect(toWei("1e60")).toBe(10n ** 78n);
+      expect(toWei("1e-300000000")).toBe(0n);
+      expect(toWei("-5e-19")).toBe(-1n);
+    });
+
+    it("should reject values that are not decimals", () => {
+      for (const value of ["", "abc", "1.2.3", ".", "--1", "Infinity", String(NaN)]) {
+        expect(() => toWei(value)).toThrow("Invalid amount");
+      }
+      expect(isAmount("12.5")).toBe(true);
+      expect(isAmount("12,5")).toBe(false);
+      expect(isAmount(null)).toBe(false);
+    });
+  });
+
+  describe("fromWei", () => {
+    it("should print WETH without trailing zeros", () => {
+      expect(fromWei(10n ** 18n)).toBe("1");
+      expect(fromWei(15n * 10n ** 17n)).toBe("1.5");
+      expect(fromWei(-1n)).toBe("-0.000000000000000001");
+      expect(fromWei(0n)).toBe("0");
+    });
+
+    it("should keep sums exact where floats drift", () => {
+      expect(0.1 + 0.2).not.toBe(0.3);
+      expect(fromWei(toWei(0.1) + toWei(0.2))).toBe("0.3");
+    });
+  });
+
+  describe("migrateDecimalAmounts", () => {
+    let mongoServer: MongoMemoryServer;
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    afterEach(async () => {
+      await Treasury.deleteMany({});
+      await JournalEntry.deleteMany({});
+    });
+
+    it("should convert numeric amounts and skip migrated documents", async () => {
+      const { insertedId } = await Treasury.collection.insertOne({
+        strategyId: new mongoose.Types.ObjectId(),
+        userId: new mongoose.Types.ObjectId(),
+        contractAddress: "0x1234567890123456789012345678901234567890",
+        totalDeposited: 0.3,
+        totalWithdrawn: 0,
+        availableBalance: 0.1 + 0.2,
+        lockedBalance: 0,
+        totalProfits: 0,
+        totalLosses: 0,
+        netProfitLoss: 0,
+      });
+      await JournalEntry.collection.insertOne({
+        transactionId: new mongoose.Types.ObjectId(),
+        type: "DEPOSIT",
+        postings: [
+          { account: "STRATEGY_AVAILABLE", amount: 0.3 },
+          { account: "USER_WALLET", amount: -0.3 },
+        ],
+      });
+
+      expect(await migrateDecimalAmounts()).toMatchObject({ treasuries: 1, journalentries: 1 });
+      expect(await migrateDecimalAmounts()).toMatchObject({ treasuries: 0, journalentries: 0 });
+
+      const treasury = await Treasury.findById(insertedId);
+      expect(treasury!.totalDeposited).toBeInstanceOf(mongoose.Types.Decimal128);
+      expect(toAmountString(treasury!.totalDeposited)).toBe("0.3");
+      // Existing float drift is kept for reconciliation to report
+      expect(toAmountString(treasury!.availableBalance)).toBe("0.30000000000000004");
+
+      const entry = await JournalEntry.findOne();
+      expect(entry!.postings.map(p => toAmountString(p.amount))).toEqual(["0.3", "-0.3"]);
+    });
+  });
+});
@@ -4,12 +4,15 @@ import mongoose from "mongoose";
 import app from "../src/app";
 import { User } from "../src/db/schema";
 import { AuthService } from "../src/lib/auth";
+import { emailService } from "../src/emails/email.util";
 
 describe("Auth Module", () => {
   let mongoServer: MongoMemoryServer;
 
   // Setup: Start in-memory MongoDB before all tests
   beforeAll(async () => {
+    // Signup sends a verification email
+    jest.spyOn(emailService, "verificationEmail").mockResolvedValue(undefined);
     mongoServer = await MongoMemoryServer.create();
     const mongoUri = mongoServer.getUri();
     await mongoose.connect(mongoUri);
@@ -22,6 +25,7 @@ describe("Auth Module", () => {
 
   // Teardown: Stop MongoDB and close connection after all tests
   afterAll(async () => {
+    jest.restoreAllMocks();
     await mongoose.disconnect();
     await mongoServer.stop();
   });
@@ -0,0 +1,251 @@
+/**
+ * Backtest Engine Tests
+ *
+ * Exercises fill simulation, exits and metrics on hand-built candles,
+ * plus the bar-by-bar replay source and historical paging.
+ */
+
+import { runBacktest, calculateMaxDrawdown, calculateSharpeRatio } from "../src/lib/backtest.engine";
+import { marketDataProvider, withMarketDataSource, getMarketData } from "../src/tools/marketData";
+import { InMemoryMarketDataSource } from "../src/tools/sources";
+import type { Candle } from "../src/tools/types/common.types";
+import type { BacktestConfig, BacktestSignal } from "../src/types/backtest.types";
+
+const HOUR = 60 * 60_000;
+
+function makeCandles(prices: Array<[number, number, number, number]>): Candle[] {
+  return prices.map(([open, high, low, close], i) => ({
+    timestamp: i * HOUR,
+    open,
+    high,
+    low,
+    close,
+    volume: 100,
+  }));
+}
+
+const noCosts: BacktestConfig = { initialCapital: 1000, feeRate: 0, slippageBps: 0 };
+
+describe("Backtest Engine", () => {
+  describe("runBacktest", () => {
+    it("should fill signals at the next bar's open", () => {
+      const candles = makeCandles([
+        [100, 101, 99, 100],
+        [100, 111, 100, 110],
+        [110, 121, 110, 120],
+        [120, 121, 119, 120],
+      ]);
+      const signals: BacktestSignal[] = ["BUY", "HOLD", "SELL", "HOLD"];
+
+      const { trades, metrics } = runBacktest(candles, signals, noCosts, "1h");
+
+      expect(trades).toHaveLength(1);
+      expect(trades[0].entryTime).toBe(candles[1].timestamp);
+      expect(trades[0].entryPrice).toBe(100);
+      expect(trades[0].exitTime).toBe(candles[3].timestamp);
+      expect(trades[0].exitPrice).toBe(120);
+      expect(trades[0].pnl).toBeCloseTo(200);
+      expect(metrics.finalEquity).toBeCloseTo(1200);
+      expect(metrics.totalReturn).toBeCloseTo(20);
+      expect(metrics.winRate).toBe(100);
+      expect(metrics.profitFactor).toBeNull();
+    });
+
+    it("should charge fees and slippage on both fills", () => {
+      const candles = makeCandles([
+        [100, 100, 100, 100],
+        [100, 100, 100, 100],
+        [100, 100, 100, 100],
+      ]);
+      const config: BacktestConfig = { initialCapital: 1000, feeRate: 0.001, slippageBps: 10 };
+
+      const { trades, metrics } = runBacktest(candles, ["BUY", "SELL", "HOLD"], config, "1h");
+
+      expect(trades[0].entryPrice).toBeCloseTo(100.1);
+      expect(trades[0].exitPrice).toBeCloseTo(99.9);
+      expect(trades[0].fees).toBeGreaterThan(0);
+      expect(trades[0].pnl).toBeLessThan(0);
+      expect(metrics.finalEquity).toBeCloseTo(1000 + trades[0].pnl);
+      expect(metrics.totalFees).toBeCloseTo(trades[0].fees);
+    });
+
+    it("should prefer the stop loss when a bar touches both exits", () => {
+      const candles = makeCandles([
+        [100, 100, 100, 100],
+        [100, 100, 100, 100],
+        [100, 120, 80, 100],
+      ]);
+      const config: BacktestConfig = { ...noCosts, stopLossPct: 5, takeProfitPct: 5 };
+
+      const { trades } = runBacktest(candles, ["BUY", "HOLD", "HOLD"], config, "1h");
+
+      expect(trades).toHaveLength(1);
+      expect(trades[0].exitReason).toBe("STOP_LOSS");
+      expect(trades[0].exitPrice).toBeCloseTo(95);
+    });
+
+    it("should fill a gapped stop at the open", () => {
+      const candles = makeCandles([
+        [100, 100, 100, 100],
+        [100, 100, 100, 100],
+        [90, 92, 88, 91],
+      ]);
+      const config: BacktestConfig = { ...noCosts, stopLossPct: 5 };
+
+      const { trades } = runBacktest(candles, ["BUY", "HOLD", "HOLD"], config, "1h");
+
+      expect(trades[0].exitReason).toBe("STOP_LOSS");
+      expect(trades[0].exitPrice).toBe(90);
+    });
+
+    it("should take profit intrabar", () => {
+      const candles = makeCandles([
+        [100, 100, 100, 100],
+        [100, 100, 100, 100],
+        [101, 112, 100, 105],
+      ]);
+      const config: BacktestConfig = { ...noCosts, takeProfitPct: 10 };
+
+      const { trades } = runBacktest(candles, ["BUY", "HOLD", "HOLD"], config, "1h");
+
+      expect(trades[0].exitReason).toBe("TAKE_PROFIT");
+      expect(trades[0].exitPrice).toBeCloseTo(110);
+    });
+
+    it("should close an open position at the final close", () => {
+      const candles = makeCandles([
+        [100, 100, 100, 100],
+        [100, 105, 100, 105],
+        [105, 108, 104, 107],
+      ]);
+
+      const { trades, equityCurve } = runBacktest(candles, ["BUY", "HOLD", "HOLD"], noCosts, "1h");
+
+      expect(trades[0].exitReason).toBe("END_OF_DATA");
+      expect(trades[0].exitPrice).toBe(107);
+      expect(equityCurve[equityCurve.length - 1].equity).toBeCloseTo(1070);
+    });
+
+    it("should ignore BUY while in a position and SELL while flat", () => {
+      const candles = makeCandles(Array.from({ length: 6 }, () => [100, 100, 100, 100] as [number, number, number, number]));
+      const signals: BacktestSignal[] = ["SELL", "BUY", "BUY", "SELL", "SELL", "HOLD"];
+
+      const { trades } = runBacktest(candles, signals, noCosts, "1h");
+
+      expect(trades).toHaveLength(1);
+      expect(trades[0].entryTime).toBe(candles[2].timestamp);
+      expect(trades[0].exitTime).toBe(candles[4].timestamp);
+    });
+
+    it("should be deterministic", () => {
+      const candles = makeCandles([
+        [100, 102, 98, 101],
+        [101, 104, 100, 103],
+        [103, 103, 97, 98],
+        [98, 101, 96, 100],
+        [100, 106, 99, 105],
+      ]);
+      const signals: BacktestSignal[] = ["BUY", "SELL", "BUY", "HOLD", "SELL"];
+      const config: BacktestConfig = { initialCapital: 500, feeRate: 0.001, slippageBps: 5 };
+
+      expect(runBacktest(candles, signals, config, "1h")).toEqual(runBacktest(candles, signals, config, "1h"));
+    });
+
+    it("should reject signals that do not line up with candles", () => {
+      const candles = makeCandles([[100, 100, 100, 100]]);
+
+      expect(() => runBacktest(candles, [], noCosts, "1h")).toThrow("Signals must line up with candles");
+    });
+  });
+
+  describe("metrics", () => {
+    it("should measure max drawdown from the running peak", () => {
+      const curve = [100, 120, 90, 110, 60, 130].map((equity, i) => ({ timestamp: i, equity }));
+
+      expect(calculateMaxDrawdown(curve)).toBeCloseTo(50);
+    });
+
+    it("should report a zero Sharpe ratio for a flat curve", () => {
+      const curve = [100, 100, 100].map((equity, i) => ({ timestamp: i, equity }));
+
+      expect(calculateSharpeRatio(curve, "1h")).toBe(0);
+    });
+
+    it("should compute profit factor and win rate across trades", () => {
+      const candles = makeCandles([
+        [100, 100, 100, 100],
+        [100, 110, 100, 110],
+        [110, 110, 110, 110],
+        [110, 110, 99, 99],
+        [99, 99, 99, 99],
+      ]);
+      const signals: BacktestSignal[] = ["BUY", "SELL", "BUY", "SELL", "HOLD"];
+
+      const { metrics, trades } = runBacktest(candles, signals, noCosts, "1h");
+
+      expect(trades).toHaveLength(2);
+      expect(metrics.winRate).toBe(50);
+      expect(metrics.profitFactor).toBeCloseTo(trades[0].pnl / Math.abs(trades[1].pnl));
+    });
+  });
+
+  describe("InMemoryMarketDataSource", () => {
+    const candles = makeCandles(Array.from({ length: 50 }, (_, i) => [i, i + 1, i, i + 1] as [number, number, number, number]));
+
+    it("should hide candles after the replay clock", async () => {
+      const source = new InMemoryMarketDataSource();
+      source.setSeries("WETHUSDT", "1h", candles);
+      source.seek(candles[19].timestamp);
+
+      const visible = await source.getCandles({ symbol: "WETHUSDT", interval: "1h", limit: 10 });
+
+      expect(visible).toHaveLength(10);
+      expect(visible[visible.length - 1].timestamp).toBe(candles[19].timestamp);
+    });
+
+    it("should page forward from startTime", async () => {
+      const source = new InMemoryMarketDataSource();
+      source.setSeries("WETHUSDT", "1h", candles);
+
+      const page = await source.getCandles({
+        symbol: "WETHUSDT",
+        interval: "1h",
+        limit: 5,
+        startTime: candles[10].timestamp,
+      });
+
+      expect(page.map(c => c.timestamp)).toEqual(candles.slice(10, 15).map(c => c.timestamp));
+    });
+
+    it("should throw for a series that was never loaded", async () => {
+      const source = new InMemoryMarketDataSource();
+
+      await expect(source.getCandles({ symbol: "SOLUSDT", interval: "1h", limit: 5 })).rejects.toThrow(
+        "No market data loaded for SOLUSDT-1h",
+      );
+    });
+  });
+
+  describe("market data provider", () => {
+    const candles = makeCandles(Array.from({ length: 2500 }, (_, i) => [i, i, i, i] as [number, number, number, number]));
+    const source = new InMemoryMarketDataSource();
+    source.setSeries("WETHUSDT", "1h", candles);
+
+    it("should page through a historical range", async () => {
+      const history = await withMarketDataSource(source, () =>
+        marketDataProvider.getHistoricalCandles("WETHUSDT", "1h", candles[100].timestamp, candles[2299].timestamp),
+      );
+
+      expect(history).toHaveLength(2200);
+      expect(history[0].timestamp).toBe(candles[100].timestamp);
+      expect(history[history.length - 1].timestamp).toBe(candles[2299].timestamp);
+    });
+
+    it("should scope a source override to the wrapped call", async () => {
+      const scoped = await withMarketDataSource(source, () => getMarketData("1h", 3, "WETHUSDT"));
+
+      expect(scoped.map(c => c.timestamp)).toEqual(candles.slice(-3).map(c => c.timestamp));
+      expect(marketDataProvider.getSource()).not.toBe(source);
+    });
+  });
+});
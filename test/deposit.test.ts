@@ -0,0 +1,344 @@
+/**
+ * Deposit Verification Tests
+ *
+ * Runs the verifier against a local stub of an EVM JSON-RPC node, and the
+ * deposit flow from PENDING to COMPLETED / FAILED.
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import { MAINNET_WETH_ADDRESS, TRANSFER_TOPIC, TransferVerifier, setTransferVerifier } from "../src/services/transfer.verifier";
+import { notifyDeposit, verifyPendingDeposits } from "../src/services/deposit.service";
+import { setTreasuryContracts } from "../src/services/treasury.service";
+import { User, Strategy, Treasury, Transaction, JournalEntry } from "../src/db/schema";
+import { toAmountString, toWei } from "../src/lib/amount.utils";
+
+const TREASURY_CONTRACT = "0x1234567890123456789012345678901234567890";
+const SENDER = "0x1111111111111111111111111111111111111111";
+const OTHER_SENDER = "0x4444444444444444444444444444444444444444";
+const TX_HASH = `0x${"d".repeat(64)}`;
+
+function topic(address: string): string {
+  return `0x${address.slice(2).toLowerCase().padStart(64, "0")}`;
+}
+
+function transferLog(
+  value: string,
+  to: string = TREASURY_CONTRACT,
+  token: string = MAINNET_WETH_ADDRESS,
+  from: string = SENDER,
+) {
+  return {
+    address: token,
+    topics: [TRANSFER_TOPIC, topic(from), topic(to)],
+    data: `0x${toWei(value).toString(16).padStart(64, "0")}`,
+  };
+}
+
+/**
+ * Minimal JSON-RPC node: serves the receipt set for a hash and the current
+ * block number, or an error for every call
+ */
+function createRpcStub() {
+  const state = {
+    receipts: {} as Record<string, object | null>,
+    blockNumber: 100,
+    error: undefined as string | undefined,
+  };
+
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      const body = JSON.parse(raw);
+      res.writeHead(200, { "Content-Type": "application/json" });
+
+      if (state.error) {
+        res.end(JSON.stringify({ jsonrpc: "2.0", id: body.id, error: { code: -32000, message: state.error } }));
+      } else if (body.method === "eth_getTransactionReceipt") {
+        res.end(JSON.stringify({ jsonrpc: "2.0", id: body.id, result: state.receipts[body.params[0]] ?? null }));
+      } else {
+        res.end(JSON.stringify({ jsonrpc: "2.0", id: body.id, result: `0x${state.blockNumber.toString(16)}` }));
+      }
+    });
+  });
+
+  return {
+    server,
+    state,
+    mine: (txHash: string, logs: object[], blockNumber = 90, status = "0x1") => {
+      state.receipts[txHash] = { status, blockNumber: `0x${blockNumber.toString(16)}`, logs };
+    },
+  };
+}
+
+describe("Deposit Verification", () => {
+  const stub = createRpcStub();
+  let verifier: TransferVerifier;
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => stub.server.listen(0, "127.0.0.1", resolve));
+    verifier = new TransferVerifier({
+      rpcUrl: `http://127.0.0.1:${(stub.server.address() as AddressInfo).port}`,
+      tokenAddress: MAINNET_WETH_ADDRESS,
+      minConfirmations: 5,
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => stub.server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    stub.state.receipts = {};
+    stub.state.blockNumber = 100;
+    stub.state.error = undefined;
+  });
+
+  describe("TransferVerifier", () => {
+    const claim = { txHash: TX_HASH, to: TREASURY_CONTRACT, amount: "1.5" };
+
+    it("should confirm a WETH transfer to the treasury with enough confirmations", async () => {
+      stub.mine(TX_HASH, [transferLog("1.5")], 90);
+
+      expect(await verifier.verify(claim)).toEqual({
+        status: "CONFIRMED",
+        confirmations: 11,
+        blockNumber: 90,
+        from: SENDER,
+      });
+    });
+
+    it("should wait for the transaction and its confirmations", async () => {
+      expect(await verifier.verify(claim)).toMatchObject({ status: "PENDING", confirmations: 0 });
+
+      stub.mine(TX_HASH, [transferLog("1.5")], 98);
+      expect(await verifier.verify(claim)).toMatchObject({ status: "PENDING", confirmations: 3 });
+    });
+
+    it("should reject reverted transactions", async () => {
+      stub.mine(TX_HASH, [transferLog("1.5")], 90, "0x0");
+
+      expect(await verifier.verify(claim)).toMatchObject({ status: "REJECTED", reason: "Transaction reverted" });
+    });
+
+    it("should reject transfers of another token or to another address", async () => {
+      stub.mine(TX_HASH, [
+        transferLog("1.5", TREASURY_CONTRACT, "0x2222222222222222222222222222222222222222"),
+        transferLog("1.5", SENDER),
+      ]);
+
+      expect(await verifier.verify(claim)).toMatchObject({
+        status: "REJECTED",
+        reason: `No WETH transfer to ${TREASURY_CONTRACT}`,
+      });
+    });
+
+    it("should only count transfers from the given senders", async () => {
+      stub.mine(TX_HASH, [
+        transferLog("1.5", TREASURY_CONTRACT, MAINNET_WETH_ADDRESS, OTHER_SENDER),
+        transferLog("1.5"),
+      ]);
+
+      expect(await verifier.verify({ ...claim, from: [SENDER.toUpperCase().replace("0X", "0x")] }))
+        .toMatchObject({ status: "CONFIRMED", from: SENDER });
+      expect(await verifier.verify({ ...claim, from: [OTHER_SENDER], amount: "3" })).toMatchObject({
+        status: "REJECTED",
+        reason: "Transaction transferred 1.5 WETH, not 3 WETH",
+      });
+
+      stub.mine(TX_HASH, [transferLog("1.5", TREASURY_CONTRACT, MAINNET_WETH_ADDRESS, OTHER_SENDER)]);
+      expect(await verifier.verify({ ...claim, from: [SENDER] })).toMatchObject({
+        status: "REJECTED",
+        reason: `No WETH transfer to ${TREASURY_CONTRACT} from ${SENDER}`,
+      });
+    });
+
+    it("should reject an amount that differs from the transfer", async () => {
+      stub.mine(TX_HASH, [transferLog("1.499999999999999999")]);
+
+      expect(await verifier.verify(claim)).toMatchObject({
+        status: "REJECTED",
+        reason: "Transaction transferred 1.499999999999999999 WETH, not 1.5 WETH",
+      });
+    });
+
+    it("should throw RPC errors instead of deciding", async () => {
+      stub.state.error = "header not found";
+
+      await expect(verifier.verify(claim)).rejects.toThrow("RPC eth_getTransactionReceipt failed: header not found");
+    });
+  });
+
+  describe("deposit flow", () => {
+    let mongoServer: MongoMemoryServer;
+    let userId: mongoose.Types.ObjectId;
+    let strategyId: mongoose.Types.ObjectId;
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+      await Transaction.syncIndexes();
+      setTransferVerifier(verifier);
+      setTreasuryContracts([TREASURY_CONTRACT]);
+    });
+
+    afterAll(async () => {
+      setTransferVerifier(null);
+      setTreasuryContracts([]);
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      const user = await User.create({
+        email: "deposit@example.com",
+        password: "password123",
+        firstName: "Test",
+        lastName: "User",
+        walletAddresses: [SENDER],
+      });
+      userId = user._id as mongoose.Types.ObjectId;
+
+      const strategy = await Strategy.create({
+        userId,
+        name: "Deposit Strategy",
+        timeframe: "15m",
+        amount: 1,
+        status: "INACTIVE",
+      });
+      strategyId = strategy._id as mongoose.Types.ObjectId;
+    });
+
+    afterEach(async () => {
+      await User.deleteMany({});
+      await Strategy.deleteMany({});
+      await Treasury.deleteMany({});
+      await Transaction.deleteMany({});
+      await JournalEntry.deleteMany({});
+    });
+
+    it("should only credit a deposit once it is confirmed", async () => {
+      stub.mine(TX_HASH, [transferLog("1.5")], 98);
+
+      const pending = await notifyDeposit(strategyId, userId, "1.5", TX_HASH, TREASURY_CONTRACT);
+      expect(pending.transaction.status).toBe("PENDING");
+      expect(toAmountString(pending.treasury.availableBalance)).toBe("0");
+      expect(await JournalEntry.countDocuments()).toBe(0);
+
+      stub.state.blockNumber = 110;
+      expect(await verifyPendingDeposits()).toEqual({ pending: 1, completed: 1, failed: 0 });
+
+      const transaction = await Transaction.findById(pending.transaction._id);
+      expect(transaction!.status).toBe("COMPLETED");
+      expect(transaction!.metadata).toMatchObject({ confirmations: 13, blockNumber: 98, from: SENDER });
+      expect(toAmountString(transaction!.balanceAfter)).toBe("1.5");
+      expect(toAmountString((await Treasury.findOne({ strategyId }))!.availableBalance)).toBe("1.5");
+      expect(await JournalEntry.countDocuments({ transactionId: transaction!._id })).toBe(1);
+    });
+
+    it("should mark a deposit the chain does not back as FAILED", async () => {
+      stub.mine(TX_HASH, [transferLog("1")]);
+
+      const result = await notifyDeposit(strategyId, userId, "1.5", TX_HASH, TREASURY_CONTRACT);
+
+      expect(result.transaction.status).toBe("FAILED");
+      expect(result.transaction.metadata?.failureReason).toBe("Transaction transferred 1 WETH, not 1.5 WETH");
+      expect(toAmountString((await Treasury.findOne({ strategyId }))!.availableBalance)).toBe("0");
+    });
+
+    it("should keep a deposit PENDING while the RPC node fails", async () => {
+      stub.state.error = "rate limited";
+
+      const result = await notifyDeposit(strategyId, userId, "1.5", TX_HASH, TREASURY_CONTRACT);
+
+      expect(result.transaction.status).toBe("PENDING");
+      expect(result.verification).toBeUndefined();
+    });
+
+    it("should reject a txHash that is pending or already credited", async () => {
+      stub.mine(TX_HASH, [transferLog("1.5")], 98);
+      await notifyDeposit(strategyId, userId, "1.5", TX_HASH, TREASURY_CONTRACT);
+
+      await expect(
+        notifyDeposit(strategyId, userId, "1.5", TX_HASH.toUpperCase().replace("0X", "0x"), TREASURY_CONTRACT),
+      ).rejects.toThrow("Deposit transaction is already awaiting confirmation");
+
+      stub.state.blockNumber = 110;
+      await verifyPendingDeposits();
+
+      await expect(
+        notifyDeposit(strategyId, userId, "1.5", TX_HASH, TREASURY_CONTRACT),
+      ).rejects.toThrow("Deposit transaction has already been credited");
+      expect(await Transaction.countDocuments({ txHash: TX_HASH })).toBe(1);
+    });
+
+    it("should allow a txHash again after its deposit was rejected", async () => {
+      stub.mine(TX_HASH, [transferLog("1.5")]);
+      await notifyDeposit(strategyId, userId, "2", TX_HASH, TREASURY_CONTRACT);
+
+      const retry = await notifyDeposit(strategyId, userId, "1.5", TX_HASH, TREASURY_CONTRACT);
+
+      expect(retry.transaction.status).toBe("COMPLETED");
+    });
+
+    it("should only take deposits from the strategy's owner", async () => {
+      stub.mine(TX_HASH, [transferLog("1.5")]);
+
+      await expect(
+        notifyDeposit(strategyId, new mongoose.Types.ObjectId(), "1.5", TX_HASH, TREASURY_CONTRACT),
+      ).rejects.toThrow("Strategy not found or does not belong to user");
+      expect(await Transaction.countDocuments()).toBe(0);
+    });
+
+    it("should not credit a transfer sent from another user's wallet", async () => {
+      const other = await User.create({ walletAddresses: [OTHER_SENDER] });
+      const otherStrategy = await Strategy.create({
+        userId: other._id,
+        name: "Claiming Strategy",
+        timeframe: "15m",
+        amount: 1,
+        status: "INACTIVE",
+      });
+      stub.mine(TX_HASH, [transferLog("1.5")]);
+
+      const claimed = await notifyDeposit(otherStrategy._id, other._id, "1.5", TX_HASH, TREASURY_CONTRACT);
+      expect(claimed.transaction.status).toBe("FAILED");
+      expect(claimed.transaction.metadata?.failureReason)
+        .toBe(`No WETH transfer to ${TREASURY_CONTRACT} from ${OTHER_SENDER}`);
+      expect(toAmountString(claimed.treasury.availableBalance)).toBe("0");
+
+      // The real depositor can still claim it
+      const own = await notifyDeposit(strategyId, userId, "1.5", TX_HASH, TREASURY_CONTRACT);
+      expect(own.transaction.status).toBe("COMPLETED");
+    });
+
+    it("should not credit deposits to accounts without a linked wallet", async () => {
+      await User.updateOne({ _id: userId }, { $set: { walletAddresses: [] } });
+      stub.mine(TX_HASH, [transferLog("1.5")]);
+
+      const result = await notifyDeposit(strategyId, userId, "1.5", TX_HASH, TREASURY_CONTRACT);
+
+      expect(result.transaction.status).toBe("FAILED");
+      expect(result.transaction.metadata?.failureReason).toBe("Deposits must be sent from a wallet linked to the account");
+    });
+
+    it("should refuse treasury contracts that are not allow-listed", async () => {
+      stub.mine(TX_HASH, [transferLog("1.5", SENDER)]);
+
+      await expect(
+        notifyDeposit(strategyId, userId, "1.5", TX_HASH, SENDER),
+      ).rejects.toThrow("Unknown treasury contract address");
+
+      // A treasury created before the allow-list was configured
+      await Treasury.create({ strategyId, userId, contractAddress: SENDER });
+      const result = await notifyDeposit(strategyId, userId, "1.5", TX_HASH, SENDER);
+      expect(result.transaction.status).toBe("FAILED");
+      expect(toAmountString((await Treasury.findOne({ strategyId }))!.availableBalance)).toBe("0");
+    });
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Email Verification & Password Reset Tests
+ *
+ * Token issuing, single use and expiry, and the verified email requirement
+ * for withdrawals and strategy activation.
+ */
+
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import app from "../src/app";
+import { AuthService } from "../src/lib/auth";
+import { emailService } from "../src/emails/email.util";
+import { AuthToken, Strategy, User } from "../src/db/schema";
+
+/** Token from the link in the last email sent by the spy */
+function tokenFrom(spy: jest.SpyInstance): string {
+  const url = new URL(spy.mock.calls.at(-1)![0]);
+  return url.searchParams.get("token")!;
+}
+
+describe("Email Verification & Password Reset", () => {
+  let mongoServer: MongoMemoryServer;
+  let verificationEmails: jest.SpyInstance;
+  let resetEmails: jest.SpyInstance;
+
+  const signupData = {
+    email: "verify@example.com",
+    password: "Test1234!",
+    firstName: "John",
+    lastName: "Doe",
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+    await AuthToken.syncIndexes();
+    await User.syncIndexes();
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  beforeEach(() => {
+    verificationEmails = jest.spyOn(emailService, "verificationEmail").mockResolvedValue(undefined);
+    resetEmails = jest.spyOn(emailService, "resetPasswordEmail").mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await User.deleteMany({});
+    await Strategy.deleteMany({});
+    await AuthToken.deleteMany({});
+  });
+
+  describe("email verification", () => {
+    it("should email a verification link on signup and store only its hash", async () => {
+      await request(app).post("/api/v1/auth/signup").send(signupData).expect(201);
+
+      expect(verificationEmails).toHaveBeenCalledTimes(1);
+      expect(verificationEmails.mock.calls[0][0]).toMatch(/\/api\/v1\/auth\/verify-email\?token=[0-9a-f]{64}$/);
+      expect(verificationEmails.mock.calls[0][1]).toBe(signupData.email);
+
+      const stored = await AuthToken.findOne({ type: "EMAIL_VERIFICATION" });
+      expect(stored!.tokenHash).not.toBe(tokenFrom(verificationEmails));
+    });
+
+    it("should still sign up when the email fails", async () => {
+      verificationEmails.mockRejectedValue(new Error("SMTP down"));
+
+      await request(app).post("/api/v1/auth/signup").send(signupData).expect(201);
+    });
+
+    it("should verify the email once per token", async () => {
+      await request(app).post("/api/v1/auth/signup").send(signupData).expect(201);
+      const token = tokenFrom(verificationEmails);
+
+      const response = await request(app).get(`/api/v1/auth/verify-email?token=${token}`).expect(200);
+      expect(response.body.data.user.isEmailVerified).toBe(true);
+
+      const reused = await request(app).get(`/api/v1/auth/verify-email?token=${token}`).expect(400);
+      expect(reused.body.message).toBe("Invalid or expired token");
+    });
+
+    it("should not resend verification to accounts without an email", async () => {
+      const user = await User.create({ walletAddresses: ["0x2222222222222222222222222222222222222222"] });
+
+      const response = await request(app)
+        .post("/api/v1/auth/resend-verification")
+        .set("Authorization", `Bearer ${(await AuthService.createSession(user)).token}`)
+        .expect(400);
+
+      expect(response.body.message).toBe("No email address on account");
+      expect(verificationEmails).not.toHaveBeenCalled();
+    });
+
+    it("should reject expired and superseded tokens", async () => {
+      await request(app).post("/api/v1/auth/signup").send(signupData).expect(201);
+      const first = tokenFrom(verificationEmails);
+
+      const user = await User.findOne({ email: signupData.email });
+      await AuthService.sendVerificationEmail(user!);
+      const second = tokenFrom(verificationEmails);
+
+      await request(app).get(`/api/v1/auth/verify-email?token=${first}`).expect(400);
+
+      await AuthToken.updateMany({}, { $set: { expiresAt: new Date(Date.now() - 1000) } });
+      await request(app).get(`/api/v1/auth/verify-email?token=${second}`).expect(400);
+
+      expect((await User.findById(user!._id))!.isEmailVerified).toBe(false);
+    });
+
+    it("should only give a wallet user the email once it is verified", async () => {
+      const user = await User.create({
+        walletAddresses: ["0x2222222222222222222222222222222222222222"],
+        pendingEmail: signupData.email,
+      });
+      await AuthService.sendVerificationEmail(user);
+      expect(verificationEmails.mock.calls.at(-1)![1]).toBe(signupData.email);
+
+      // Unverified, it does not match the email's account
+      await request(app).post("/api/v1/auth/forgot-password").send({ email: signupData.email }).expect(200);
+      expect(resetEmails).not.toHaveBeenCalled();
+
+      const response = await request(app).get(`/api/v1/auth/verify-email?token=${tokenFrom(verificationEmails)}`).expect(200);
+      expect(response.body.data.user).toMatchObject({ email: signupData.email, isEmailVerified: true });
+      expect((await User.findById(user._id))!.pendingEmail).toBeUndefined();
+    });
+
+    it("should not verify a pending email another account has taken", async () => {
+      const user = await User.create({
+        walletAddresses: ["0x2222222222222222222222222222222222222222"],
+        pendingEmail: signupData.email,
+      });
+      await AuthService.sendVerificationEmail(user);
+      const token = tokenFrom(verificationEmails);
+      await User.create(signupData);
+
+      const response = await request(app).get(`/api/v1/auth/verify-email?token=${token}`).expect(409);
+
+      expect(response.body.message).toBe("User with this email already exists");
+      expect((await User.findById(user._id))!.email).toBeUndefined();
+    });
+  });
+
+  describe("password reset", () => {
+    beforeEach(async () => {
+      await User.create({ ...signupData, isEmailVerified: false });
+    });
+
+    it("should respond the same for unknown emails without sending anything", async () => {
+      const known = await request(app).post("/api/v1/auth/forgot-password").send({ email: signupData.email }).expect(200);
+      const unknown = await request(app).post("/api/v1/auth/forgot-password").send({ email: "nobody@example.com" }).expect(200);
+
+      expect(unknown.body).toEqual(known.body);
+      expect(resetEmails).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reset the password once per token", async () => {
+      await request(app).post("/api/v1/auth/forgot-password").send({ email: signupData.email }).expect(200);
+      const token = tokenFrom(resetEmails);
+
+      await request(app)
+        .post("/api/v1/auth/reset-password")
+        .send({ token, password: "NewPass123" })
+        .expect(200);
+
+      await request(app)
+        .post("/api/v1/auth/login")
+        .send({ email: signupData.email, password: "NewPass123" })
+        .expect(200);
+
+      const user = await User.findOne({ email: signupData.email });
+      expect(user!.isEmailVerified).toBe(true);
+
+      const reused = await request(app)
+        .post("/api/v1/auth/reset-password")
+        .send({ token, password: "OtherPass123" })
+        .expect(400);
+      expect(reused.body.message).toBe("Invalid or expired token");
+    });
+
+    it("should unlink wallets linked before the email was verified", async () => {
+      await User.updateOne(
+        { email: signupData.email },
+        { $set: { walletAddresses: ["0x2222222222222222222222222222222222222222"] } },
+      );
+      await request(app).post("/api/v1/auth/forgot-password").send({ email: signupData.email }).expect(200);
+
+      await request(app)
+        .post("/api/v1/auth/reset-password")
+        .send({ token: tokenFrom(resetEmails), password: "NewPass123" })
+        .expect(200);
+
+      const user = await User.findOne({ email: signupData.email });
+      expect(user!.walletAddresses).toEqual([]);
+      expect(user!.isEmailVerified).toBe(true);
+    });
+
+    it("should apply the signup password rules", async () => {
+      await request(app).post("/api/v1/auth/forgot-password").send({ email: signupData.email }).expect(200);
+
+      await request(app)
+        .post("/api/v1/auth/reset-password")
+        .send({ token: tokenFrom(resetEmails), password: "weak" })
+        .expect(400);
+    });
+  });
+
+  describe("unverified users", () => {
+    let token: string;
+    let strategyId: string;
+
+    beforeEach(async () => {
+      const user = await User.create(signupData);
+      token = (await AuthService.createSession(user)).token;
+
+      const strategy = await Strategy.create({
+        userId: user._id,
+        name: "Unverified Strategy",
+        timeframe: "15m",
+        amount: 1,
+        status: "INACTIVE",
+      });
+      strategyId = strategy._id.toString();
+    });
+
+    it("should not activate strategies", async () => {
+      const response = await request(app)
+        .post(`/api/v1/strategies/${strategyId}/activate`)
+        .set("Authorization", `Bearer ${token}`)
+        .expect(403);
+
+      expect(response.body.message).toBe("Please verify your email address first");
+    });
+
+    it("should not withdraw", async () => {
+      await request(app)
+        .post("/api/v1/treasury/withdraw")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ strategyId, amount: "1", toAddress: "0x3333333333333333333333333333333333333333" })
+        .expect(403);
+    });
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Trade Execution Tests
+ *
+ * Paper fills against replayed prices, and the executor moving PENDING
+ * trades to PLACED with funds locked in the treasury, exactly once.
+ */
+
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import { PaperExecutor, setExecutionAdapter } from "../src/services/execution";
+import { executePendingTrades, executeTrade } from "../src/workers/trade-executor";
+import { adjustBalance, deposit } from "../src/services/treasury.service";
+import { setMarketDataSource } from "../src/tools/marketData";
+import { InMemoryMarketDataSource } from "../src/tools/sources";
+import { User, Strategy, Trade, Treasury, Transaction } from "../src/db/schema";
+import { toAmountString } from "../src/lib/amount.utils";
+import { ORDER_REVERTED } from "../src/types/execution.types";
+import type { ExecutionAdapter, ExecutionOrder } from "../src/types/execution.types";
+
+const source = new InMemoryMarketDataSource();
+source.setSeries("WETHUSDT", "1m", [
+  { timestamp: 0, open: 1990, high: 2010, low: 1980, close: 2000, volume: 10 },
+]);
+
+describe("Trade Execution", () => {
+  beforeAll(() => {
+    setMarketDataSource(source);
+  });
+
+  describe("PaperExecutor", () => {
+    const executor = new PaperExecutor({ slippageBps: 10, feeRate: 0.001 });
+
+    it("should fill buys above the latest close", async () => {
+      const fill = await executor.execute({ tradeId: "t1", symbol: "WETHUSDT", side: "BUY", amount: 100 });
+
+      expect(fill.price).toBeCloseTo(2002);
+      expect(fill.fee).toBeCloseTo(0.1);
+      expect(fill.quantity).toBeCloseTo(99.9 / 2002);
+      expect(fill.txHash).toBeUndefined();
+    });
+
+    it("should fill sells below the latest close", async () => {
+      const fill = await executor.execute({ tradeId: "t2", symbol: "WETHUSDT", side: "SELL", amount: 100 });
+
+      expect(fill.price).toBeCloseTo(1998);
+    });
+
+    it("should reject non-positive amounts", async () => {
+      await expect(
+        executor.execute({ tradeId: "t3", symbol: "WETHUSDT", side: "BUY", amount: 0 }),
+      ).rejects.toThrow("Order amount must be positive");
+    });
+
+    it("should reject invalid settings", () => {
+      expect(() => new PaperExecutor({ slippageBps: -1, feeRate: 0 })).toThrow("Invalid paper execution settings");
+    });
+  });
+
+  describe("executeTrade", () => {
+    let mongoServer: MongoMemoryServer;
+    let userId: mongoose.Types.ObjectId;
+    let strategyId: mongoose.Types.ObjectId;
+    const contractAddress = "0x1234567890123456789012345678901234567890";
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      setExecutionAdapter(new PaperExecutor({ slippageBps: 0, feeRate: 0.001 }));
+
+      const user = await User.create({
+        email: "execution@example.com",
+        password: "password123",
+        firstName: "Test",
+        lastName: "User",
+      });
+      userId = user._id as mongoose.Types.ObjectId;
+
+      const strategy = await Strategy.create({
+        userId,
+        name: "Paper Strategy",
+        timeframe: "15m",
+        amount: 100,
+        status: "ACTIVE",
+      });
+      strategyId = strategy._id as mongoose.Types.ObjectId;
+
+      await deposit(strategyId, userId, 150, `0x${"b".repeat(64)}`, contractAddress);
+    });
+
+    afterEach(async () => {
+      await User.deleteMany({});
+      await Strategy.deleteMany({});
+      await Trade.deleteMany({});
+      await Treasury.deleteMany({});
+      await Transaction.deleteMany({});
+    });
+
+    function pendingTrade(amount: number = 100, side: "LONG" | "SHORT" = "LONG") {
+      return Trade.create({
+        userId,
+        strategyId,
+        symbol: "WETHUSDT",
+        signal: side === "SHORT" ? "SELL" : "BUY",
+        side,
+        entry: 2000,
+        exit: side === "SHORT" ? 1800 : 2200,
+        stopLoss: side === "SHORT" ? 2100 : 1900,
+        reasoning: "Test signal",
+        confidence: "STRONG",
+        riskRewardRatio: 2,
+        amount,
+        marketCondition: "Trending",
+        toolsUsed: [],
+      });
+    }
+
+    it("should default strategies to paper trading", async () => {
+      const strategy = await Strategy.findById(strategyId);
+
+      expect(strategy!.executionMode).toBe("PAPER");
+    });
+
+    it("should fill a paper trade and lock its funds", async () => {
+      const trade = await pendingTrade();
+
+      const result = await executeTrade(trade);
+
+      expect(result).toMatchObject({ status: "PLACED", executedPrice: 2000 });
+      const placed = await Trade.findById(trade._id);
+      expect(placed!.status).toBe("PLACED");
+      expect(placed!.executionMode).toBe("PAPER");
+      expect(placed!.executedPrice).toBe(2000);
+      expect(placed!.fees).toBeCloseTo(0.1);
+      expect(placed!.executedAt).toBeInstanceOf(Date);
+
+      const treasury = await Treasury.findOne({ strategyId });
+      expect(toAmountString(treasury!.availableBalance)).toBe("50");
+      expect(toAmountString(treasury!.lockedBalance)).toBe("100");
+    });
+
+    it("should fill a paper short with a sell and lock its collateral", async () => {
+      const orders: ExecutionOrder[] = [];
+      const paper = new PaperExecutor({ slippageBps: 0, feeRate: 0.001 });
+      setExecutionAdapter({
+        mode: "PAPER",
+        supportsShorts: true,
+        execute: async (order) => {
+          orders.push(order);
+          return paper.execute(order);
+        },
+      });
+      const trade = await pendingTrade(100, "SHORT");
+
+      const result = await executeTrade(trade);
+
+      expect(result.status).toBe("PLACED");
+      expect(orders[0].side).toBe("SELL");
+      const treasury = await Treasury.findOne({ strategyId });
+      expect(toAmountString(treasury!.lockedBalance)).toBe("100");
+    });
+
+    it("should fail shorts on adapters that cannot open them", async () => {
+      setExecutionAdapter({ mode: "PAPER", execute: async () => { throw new Error("Should not be called"); } });
+      const trade = await pendingTrade(100, "SHORT");
+
+      const result = await executeTrade(trade);
+
+      expect(result).toMatchObject({ status: "FAILED", error: "PAPER execution does not support short positions" });
+      expect(await Transaction.countDocuments({ tradeId: trade._id })).toBe(0);
+    });
+
+    it("should fail trades the treasury cannot cover", async () => {
+      const trade = await pendingTrade(500);
+
+      const result = await executeTrade(trade);
+
+      expect(result.status).toBe("FAILED");
+      expect(result.error).toContain("Insufficient available balance");
+      expect((await Trade.findById(trade._id))!.status).toBe("FAILED");
+    });
+
+    it("should release the lock when the fill fails", async () => {
+      const broken: ExecutionAdapter = {
+        mode: "PAPER",
+        execute: async () => {
+          throw new Error("Exchange unavailable");
+        },
+      };
+      setExecutionAdapter(broken);
+      const trade = await pendingTrade();
+
+      const result = await executeTrade(trade);
+
+      expect(result).toMatchObject({ status: "FAILED", error: "Exchange unavailable" });
+      const treasury = await Treasury.findOne({ strategyId });
+      expect(toAmountString(treasury!.availableBalance)).toBe("150");
+      expect(toAmountString(treasury!.lockedBalance)).toBe("0");
+    });
+
+    it("should keep the lock of a sent order whose outcome is unknown", async () => {
+      const txHash = `0x${"c".repeat(64)}`;
+      setExecutionAdapter({
+        mode: "PAPER",
+        execute: async (order) => {
+          await order.onSubmitted!(txHash);
+          throw new Error("Receipt timed out");
+        },
+      });
+      const trade = await pendingTrade();
+
+      const result = await executeTrade(trade);
+
+      expect(result).toMatchObject({ status: "FAILED", error: "Receipt timed out" });
+      expect(await Trade.findById(trade._id)).toMatchObject({ status: "EXECUTING", txHash });
+      const treasury = await Treasury.findOne({ strategyId });
+      expect(toAmountString(treasury!.lockedBalance)).toBe("100");
+    });
+
+    it("should fail and release a sent order that reverted", async () => {
+      setExecutionAdapter({
+        mode: "PAPER",
+        execute: async (order) => {
+          await order.onSubmitted!(`0x${"c".repeat(64)}`);
+          throw new Error(ORDER_REVERTED);
+        },
+      });
+      const trade = await pendingTrade();
+
+      await executeTrade(trade);
+
+      expect((await Trade.findById(trade._id))!.status).toBe("FAILED");
+      const treasury = await Treasury.findOne({ strategyId });
+      expect(toAmountString(treasury!.availableBalance)).toBe("150");
+      expect(toAmountString(treasury!.lockedBalance)).toBe("0");
+    });
+
+    it("should fill a trade once when execution passes overlap", async () => {
+      const orders: ExecutionOrder[] = [];
+      const paper = new PaperExecutor({ slippageBps: 0, feeRate: 0.001 });
+      setExecutionAdapter({
+        mode: "PAPER",
+        execute: async (order) => {
+          orders.push(order);
+          await new Promise(resolve => setTimeout(resolve, 50));
+          return paper.execute(order);
+        },
+      });
+      const trade = await pendingTrade();
+
+      const [first, second] = await Promise.all([executePendingTrades(), executePendingTrades()]);
+
+      expect(orders).toHaveLength(1);
+      expect(first.placed + second.placed).toBe(1);
+      expect(await Transaction.countDocuments({ tradeId: trade._id, type: "TRADE_OPEN" })).toBe(1);
+    });
+
+    it("should keep the lock and record the fill when the trade changes status mid-fill", async () => {
+      const txHash = `0x${"c".repeat(64)}`;
+      const trade = await pendingTrade();
+      setExecutionAdapter({
+        mode: "PAPER",
+        execute: async () => {
+          await Trade.updateOne({ _id: trade._id }, { $set: { status: "CANCELLED" } });
+          return { price: 2000, quantity: 0.05, fee: 0, executedAt: new Date(), txHash };
+        },
+      });
+
+      const result = await executeTrade(trade);
+
+      expect(result.status).toBe("FAILED");
+      const stored = await Trade.findById(trade._id);
+      expect(stored!.status).toBe("CANCELLED");
+      expect(stored!.txHash).toBe(txHash);
+      const treasury = await Treasury.findOne({ strategyId });
+      expect(toAmountString(treasury!.lockedBalance)).toBe("100");
+    });
+
+    it("should fail abandoned executions and release their funds", async () => {
+      const claim = async (leaseUntil: Date) => {
+        const trade = await pendingTrade(50);
+        await adjustBalance(strategyId, userId, { amount: 50, type: "TRADE_OPEN", tradeId: trade._id, description: "Lock" });
+        await Trade.updateOne({ _id: trade._id }, { $set: { status: "EXECUTING", executionLeaseUntil: leaseUntil } });
+        return trade;
+      };
+      const abandoned = await claim(new Date(Date.now() - 1000));
+      const running = await claim(new Date(Date.now() + 60_000));
+
+      const results = await executePendingTrades();
+
+      expect(results).toMatchObject({ pending: 0, failed: 1 });
+      expect((await Trade.findById(abandoned._id))!.status).toBe("FAILED");
+      expect((await Trade.findById(running._id))!.status).toBe("EXECUTING");
+      const treasury = await Treasury.findOne({ strategyId });
+      expect(toAmountString(treasury!.availableBalance)).toBe("100");
+      expect(toAmountString(treasury!.lockedBalance)).toBe("50");
+    });
+
+    it("should leave abandoned executions with a sent order for review", async () => {
+      const trade = await pendingTrade();
+      await Trade.updateOne(
+        { _id: trade._id },
+        { $set: { status: "EXECUTING", executionLeaseUntil: new Date(Date.now() - 1000), txHash: `0x${"c".repeat(64)}` } },
+      );
+
+      await executePendingTrades();
+
+      expect((await Trade.findById(trade._id))!.status).toBe("EXECUTING");
+    });
+
+    it("should leave trades pending when their mode has no adapter", async () => {
+      await Strategy.updateOne({ _id: strategyId }, { executionMode: "LIVE" });
+      const trade = await pendingTrade();
+
+      const results = await executePendingTrades();
+
+      expect(results).toMatchObject({ pending: 1, placed: 0, failed: 0 });
+      expect((await Trade.findById(trade._id))!.status).toBe("PENDING");
+      expect(await Transaction.countDocuments({ tradeId: trade._id })).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Idempotency Key Tests
+ *
+ * Request hashing, and replaying / rejecting repeated requests to the
+ * treasury and strategy endpoints.
+ */
+
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import app from "../src/app";
+import { hashRequest } from "../src/middlewares";
+import { deposit } from "../src/services/treasury.service";
+import { AuthService } from "../src/lib/auth";
+import { User, Strategy, Indicator, Treasury, Transaction, JournalEntry, Withdrawal, IdempotencyKey } from "../src/db/schema";
+
+describe("Idempotency Keys", () => {
+  describe("hashRequest", () => {
+    it("should ignore the key order of the body", () => {
+      expect(hashRequest("POST", "/api/v1/treasury/withdraw", { a: 1, b: { c: [1, 2], d: "x" } }))
+        .toBe(hashRequest("POST", "/api/v1/treasury/withdraw", { b: { d: "x", c: [1, 2] }, a: 1 }));
+    });
+
+    it("should differ by body, path and method", () => {
+      const hash = hashRequest("POST", "/api/v1/treasury/withdraw", { amount: "1" });
+
+      expect(hashRequest("POST", "/api/v1/treasury/withdraw", { amount: "2" })).not.toBe(hash);
+      expect(hashRequest("POST", "/api/v1/treasury/deposit", { amount: "1" })).not.toBe(hash);
+      expect(hashRequest("PUT", "/api/v1/treasury/withdraw", { amount: "1" })).not.toBe(hash);
+    });
+  });
+
+  describe("endpoints", () => {
+    let mongoServer: MongoMemoryServer;
+    let token: string;
+    let userId: mongoose.Types.ObjectId;
+    let strategyId: mongoose.Types.ObjectId;
+    const contractAddress = "0x1234567890123456789012345678901234567890";
+    const toAddress = "0x3333333333333333333333333333333333333333";
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+      await IdempotencyKey.syncIndexes();
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      const user = await User.create({
+        email: "idempotency@example.com",
+        password: "password123",
+        firstName: "Test",
+        lastName: "User",
+        isEmailVerified: true,
+      });
+      userId = user._id as mongoose.Types.ObjectId;
+      token = (await AuthService.createSession(user)).token;
+
+      const strategy = await Strategy.create({
+        userId,
+        name: "Idempotent Strategy",
+        timeframe: "15m",
+        amount: 1,
+        status: "INACTIVE",
+      });
+      strategyId = strategy._id as mongoose.Types.ObjectId;
+
+      await deposit(strategyId, userId, "10", `0x${"a".repeat(64)}`, contractAddress);
+    });
+
+    afterEach(async () => {
+      await User.deleteMany({});
+      await Strategy.deleteMany({});
+      await Indicator.deleteMany({});
+      await Treasury.deleteMany({});
+      await Transaction.deleteMany({});
+      await JournalEntry.deleteMany({});
+      await Withdrawal.deleteMany({});
+      await IdempotencyKey.deleteMany({});
+    });
+
+    const withdraw = (key: string, body: object) =>
+      request(app)
+        .post("/api/v1/treasury/withdraw")
+        .set("Authorization", `Bearer ${token}`)
+        .set("Idempotency-Key", key)
+        .send(body);
+
+    it("should apply a retried withdrawal once and replay its response", async () => {
+      const body = { strategyId: strategyId.toString(), amount: "4", toAddress };
+
+      const first = await withdraw("withdraw-1", body).expect(202);
+      const retry = await withdraw("withdraw-1", { toAddress, amount: "4", strategyId: strategyId.toString() }).expect(202);
+
+      expect(retry.body).toEqual(first.body);
+      expect(retry.headers["idempotent-replayed"]).toBe("true");
+      expect(await Withdrawal.countDocuments()).toBe(1);
+    });
+
+    it("should reject a reused key with a different payload", async () => {
+      await withdraw("withdraw-2", { strategyId: strategyId.toString(), amount: "4", toAddress }).expect(202);
+
+      const response = await withdraw("withdraw-2", { strategyId: strategyId.toString(), amount: "5", toAddress })
+        .expect(409);
+
+      expect(response.body.message).toBe("Idempotency-Key has already been used with a different request");
+      expect(await Withdrawal.countDocuments()).toBe(1);
+    });
+
+    it("should replay client errors too", async () => {
+      const body = { strategyId: strategyId.toString(), amount: "50", toAddress };
+
+      const first = await withdraw("withdraw-3", body).expect(400);
+      const retry = await withdraw("withdraw-3", body).expect(400);
+
+      expect(retry.body).toEqual(first.body);
+    });
+
+    it("should take over a key whose lock expired", async () => {
+      const body = { strategyId: strategyId.toString(), amount: "4", toAddress };
+      const path = "/api/v1/treasury/withdraw";
+      const stuck = await IdempotencyKey.create({
+        userId,
+        key: "withdraw-4",
+        method: "POST",
+        path,
+        requestHash: hashRequest("POST", path, body),
+        lockedUntil: new Date(Date.now() + 60_000),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      });
+
+      const running = await withdraw("withdraw-4", body).expect(409);
+      expect(running.body.message).toBe("A request with this Idempotency-Key is still being processed");
+
+      await IdempotencyKey.updateOne({ _id: stuck._id }, { $set: { lockedUntil: new Date(Date.now() - 1000) } });
+      const first = await withdraw("withdraw-4", body).expect(202);
+      const retry = await withdraw("withdraw-4", body).expect(202);
+
+      expect(retry.body).toEqual(first.body);
+      expect(await Withdrawal.countDocuments()).toBe(1);
+      expect(await IdempotencyKey.findById(stuck._id)).toMatchObject({ status: "COMPLETED", lockedUntil: undefined });
+    });
+
+    it("should process requests without a key every time", async () => {
+      const body = { strategyId: strategyId.toString(), amount: "1", toAddress };
+      const send = () => request(app)
+        .post("/api/v1/treasury/withdraw")
+        .set("Authorization", `Bearer ${token}`)
+        .send(body)
+        .expect(202);
+
+      await send();
+      await send();
+
+      expect(await Withdrawal.countDocuments()).toBe(2);
+      expect(await IdempotencyKey.countDocuments()).toBe(0);
+    });
+
+    it("should create a strategy once per key", async () => {
+      const indicator = await Indicator.create({ name: "Relative Strength Index", abbreviation: "RSI", category: "Momentum" });
+      const create = () => request(app)
+        .post("/api/v1/strategies")
+        .set("Authorization", `Bearer ${token}`)
+        .set("Idempotency-Key", "strategy-1")
+        .send({ name: "Retried Strategy", indicators: [indicator._id.toString()], timeframe: "1h" })
+        .expect(201);
+
+      const first = await create();
+      const retry = await create();
+
+      expect(retry.body.data.strategy._id).toBe(first.body.data.strategy._id);
+      expect(await Strategy.countDocuments({ name: "Retried Strategy" })).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Job Queue Tests
+ *
+ * Backoff schedule, one active job per strategy, leases, retries and the
+ * dead letter (including not re-queueing a dead-lettered candle).
+ */
+
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import {
+  calculateBackoff,
+  enqueueJob,
+  claimNextJob,
+  extendLease,
+  completeJob,
+  failJob,
+  listJobs,
+  retryDeadJob,
+} from "../src/services/job-queue.service";
+import { enqueueStrategyAnalysisJobs } from "../src/workers/job-worker";
+import { Job, Strategy } from "../src/db/schema";
+
+const policy = { baseDelayMs: 1000, maxDelayMs: 5000 };
+
+describe("Job Queue", () => {
+  describe("calculateBackoff", () => {
+    it("should double the delay for each attempt", () => {
+      expect(calculateBackoff(1, policy)).toBe(1000);
+      expect(calculateBackoff(2, policy)).toBe(2000);
+      expect(calculateBackoff(3, policy)).toBe(4000);
+    });
+
+    it("should cap the delay", () => {
+      expect(calculateBackoff(10, policy)).toBe(5000);
+    });
+  });
+
+  describe("queue", () => {
+    let mongoServer: MongoMemoryServer;
+    const strategyId = new mongoose.Types.ObjectId();
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+      await Job.syncIndexes();
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    afterEach(async () => {
+      await Job.deleteMany({});
+    });
+
+    it("should keep one active job per strategy", async () => {
+      const first = await enqueueJob("STRATEGY_ANALYSIS", { strategyId });
+      const second = await enqueueJob("STRATEGY_ANALYSIS", { strategyId });
+
+      expect(first).not.toBeNull();
+      expect(second).toBeNull();
+      expect(await Job.countDocuments()).toBe(1);
+    });
+
+    it("should accept a new job once the previous one completed", async () => {
+      await enqueueJob("STRATEGY_ANALYSIS", { strategyId });
+      const job = await claimNextJob("worker-1", 60000);
+      await completeJob(job!, "worker-1", { decision: "HOLD" });
+
+      const next = await enqueueJob("STRATEGY_ANALYSIS", { strategyId });
+
+      expect(next).not.toBeNull();
+    });
+
+    it("should give a job to only one worker", async () => {
+      await enqueueJob("STRATEGY_ANALYSIS", { strategyId });
+
+      const [a, b] = await Promise.all([
+        claimNextJob("worker-1", 60000),
+        claimNextJob("worker-2", 60000),
+      ]);
+
+      expect([a, b].filter(Boolean)).toHaveLength(1);
+      const claimed = (a ?? b)!;
+      expect(claimed.status).toBe("RUNNING");
+      expect(claimed.attempts).toBe(1);
+    });
+
+    it("should not claim jobs scheduled for later", async () => {
+      await enqueueJob("STRATEGY_ANALYSIS", { strategyId, runAt: new Date(Date.now() + 60000) });
+
+      expect(await claimNextJob("worker-1", 60000)).toBeNull();
+    });
+
+    it("should reclaim a job whose lease expired", async () => {
+      await enqueueJob("STRATEGY_ANALYSIS", { strategyId });
+      const stale = await claimNextJob("worker-1", 60000);
+      await Job.updateOne({ _id: stale!._id }, { leaseExpiresAt: new Date(Date.now() - 1000) });
+
+      const reclaimed = await claimNextJob("worker-2", 60000);
+
+      expect(reclaimed!.leaseOwner).toBe("worker-2");
+      expect(reclaimed!.attempts).toBe(2);
+      expect(await extendLease(stale!, "worker-1", 60000)).toBe(false);
+      expect(await completeJob(stale!, "worker-1")).toBe(false);
+    });
+
+    it("should retry failed jobs with backoff", async () => {
+      await enqueueJob("STRATEGY_ANALYSIS", { strategyId });
+      const job = await claimNextJob("worker-1", 60000);
+
+      const before = Date.now();
+      const status = await failJob(job!, "worker-1", "Market data unavailable", policy);
+
+      const stored = await Job.findById(job!._id);
+      expect(status).toBe("QUEUED");
+      expect(stored!.lastError).toBe("Market data unavailable");
+      expect(stored!.runAt.getTime()).toBeGreaterThanOrEqual(before + 1000);
+      expect(await claimNextJob("worker-1", 60000)).toBeNull();
+    });
+
+    it("should dead-letter a job after its last attempt", async () => {
+      await enqueueJob("STRATEGY_ANALYSIS", { strategyId, maxAttempts: 1 });
+      const job = await claimNextJob("worker-1", 60000);
+
+      const status = await failJob(job!, "worker-1", "Pipeline failed", policy);
+
+      expect(status).toBe("DEAD");
+      expect(await listJobs("DEAD")).toHaveLength(1);
+      expect(await enqueueJob("STRATEGY_ANALYSIS", { strategyId })).not.toBeNull();
+    });
+
+    it("should dead-letter an expired job with no attempts left", async () => {
+      await enqueueJob("STRATEGY_ANALYSIS", { strategyId, maxAttempts: 1 });
+      const job = await claimNextJob("worker-1", 60000);
+      await Job.updateOne({ _id: job!._id }, { leaseExpiresAt: new Date(Date.now() - 1000) });
+
+      expect(await claimNextJob("worker-2", 60000)).toBeNull();
+      expect((await Job.findById(job!._id))!.status).toBe("DEAD");
+    });
+
+    it("should requeue a dead job", async () => {
+      await enqueueJob("STRATEGY_ANALYSIS", { strategyId, maxAttempts: 1 });
+      const job = await claimNextJob("worker-1", 60000);
+      await failJob(job!, "worker-1", "Pipeline failed", policy);
+
+      const requeued = await retryDeadJob(job!._id.toString());
+
+      expect(requeued.status).toBe("QUEUED");
+      expect(requeued.attempts).toBe(0);
+      await expect(retryDeadJob(job!._id.toString())).rejects.toThrow("Dead job not found");
+    });
+
+    it("should not requeue a dead job while the strategy has an active one", async () => {
+      await enqueueJob("STRATEGY_ANALYSIS", { strategyId, maxAttempts: 1 });
+      const job = await claimNextJob("worker-1", 60000);
+      await failJob(job!, "worker-1", "Pipeline failed", policy);
+      await enqueueJob("STRATEGY_ANALYSIS", { strategyId });
+
+      await expect(retryDeadJob(job!._id.toString())).rejects.toThrow("Target already has an active job");
+    });
+
+    it("should not queue a dead-lettered candle again", async () => {
+      const strategy = await Strategy.create({
+        userId: new mongoose.Types.ObjectId(),
+        name: "Failing Strategy",
+        timeframe: "15m",
+        amount: 100,
+        status: "ACTIVE",
+      });
+      const now = Date.UTC(2025, 0, 1, 12, 5);
+
+      expect(await enqueueStrategyAnalysisJobs(now)).toMatchObject({ due: 1, enqueued: 1 });
+      await Job.updateMany({}, { maxAttempts: 1 });
+      const job = await claimNextJob("worker-1", 60000);
+      expect(await failJob(job!, "worker-1", "Pipeline failed", policy)).toBe("DEAD");
+
+      expect(await enqueueStrategyAnalysisJobs(now + 60000)).toMatchObject({ due: 0, enqueued: 0 });
+      expect(await enqueueStrategyAnalysisJobs(now + 15 * 60000)).toMatchObject({ due: 1, enqueued: 1 });
+
+      await Strategy.deleteOne({ _id: strategy._id });
+    });
+  });
+});
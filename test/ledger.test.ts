@@ -0,0 +1,254 @@
+/**
+ * Double-Entry Ledger Tests
+ *
+ * Postings for each treasury movement, the balances derived from them,
+ * and the journal written alongside every treasury operation.
+ */
+
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import { accountBalances, applyPostings, isBalanced, postingsFor } from "../src/lib/ledger.engine";
+import { backfillJournal, getAccountBalances, getTrialBalance } from "../src/services/ledger.service";
+import { adjustBalance, deposit, withdraw } from "../src/services/treasury.service";
+import { User, Strategy, Treasury, Transaction, JournalEntry } from "../src/db/schema";
+import { toAmountString, toWei } from "../src/lib/amount.utils";
+import type { TreasuryTotals } from "../src/types/ledger.types";
+
+const emptyTotals: TreasuryTotals = {
+  availableBalance: 0n,
+  lockedBalance: 0n,
+  totalDeposited: 0n,
+  totalWithdrawn: 0n,
+  totalProfits: 0n,
+  totalLosses: 0n,
+  netProfitLoss: 0n,
+};
+
+describe("Double-Entry Ledger", () => {
+  describe("postingsFor", () => {
+    it("should post every movement as balanced entries", () => {
+      const movements = [
+        postingsFor("DEPOSIT", 1000),
+        postingsFor("WITHDRAW", -200),
+        postingsFor("TRADE_OPEN", 100),
+        postingsFor("TRADE_CLOSE", 100),
+        postingsFor("PROFIT", 9.5, 0.5),
+        postingsFor("LOSS", -10.5, 0.5),
+        postingsFor("REFUND", 3),
+        postingsFor("ADJUSTMENT", -4),
+      ];
+
+      for (const postings of movements) {
+        expect(isBalanced(postings)).toBe(true);
+      }
+    });
+
+    it("should move deposits from the user wallet to the strategy", () => {
+      expect(postingsFor("DEPOSIT", 1000)).toEqual([
+        { account: "STRATEGY_AVAILABLE", amount: toWei(1000) },
+        { account: "USER_WALLET", amount: toWei(-1000) },
+      ]);
+    });
+
+    it("should lock trade capital whatever the sign of the amount", () => {
+      expect(postingsFor("TRADE_OPEN", -100)).toEqual([
+        { account: "STRATEGY_LOCKED", amount: toWei(100) },
+        { account: "STRATEGY_AVAILABLE", amount: toWei(-100) },
+      ]);
+    });
+
+    it("should book the gross result to PnL and fees separately", () => {
+      expect(postingsFor("PROFIT", 9.5, 0.5)).toEqual([
+        { account: "STRATEGY_AVAILABLE", amount: toWei(9.5) },
+        { account: "FEES", amount: toWei(0.5) },
+        { account: "PNL", amount: toWei(-10) },
+      ]);
+      expect(postingsFor("LOSS", -10.5, 0.5)).toEqual([
+        { account: "PNL", amount: toWei(10) },
+        { account: "FEES", amount: toWei(0.5) },
+        { account: "STRATEGY_AVAILABLE", amount: toWei(-10.5) },
+      ]);
+    });
+
+    it("should keep the sign of a manual adjustment", () => {
+      expect(postingsFor("ADJUSTMENT", -4)).toEqual([
+        { account: "STRATEGY_AVAILABLE", amount: toWei(-4) },
+        { account: "ADJUSTMENTS", amount: toWei(4) },
+      ]);
+    });
+  });
+
+  describe("isBalanced", () => {
+    it("should reject postings that do not net to zero", () => {
+      expect(isBalanced([
+        { account: "STRATEGY_AVAILABLE", amount: toWei(10) },
+        { account: "USER_WALLET", amount: toWei(-9) },
+      ])).toBe(false);
+    });
+
+    it("should reject an entry without a debit and a credit", () => {
+      expect(isBalanced([])).toBe(false);
+      expect(isBalanced([{ account: "FEES", amount: 0n }])).toBe(false);
+    });
+  });
+
+  describe("applyPostings", () => {
+    it("should derive the treasury balances from the postings", () => {
+      const totals = [
+        postingsFor("DEPOSIT", 1000),
+        postingsFor("TRADE_OPEN", 100),
+        postingsFor("TRADE_CLOSE", 100),
+        postingsFor("PROFIT", 9.5, 0.5),
+        postingsFor("TRADE_OPEN", 200),
+        postingsFor("LOSS", -4, 1),
+        postingsFor("WITHDRAW", -300),
+      ].reduce(applyPostings, emptyTotals);
+
+      expect(totals).toEqual({
+        availableBalance: toWei("505.5"),
+        lockedBalance: toWei(200),
+        totalDeposited: toWei(1000),
+        totalWithdrawn: toWei(300),
+        totalProfits: toWei("9.5"),
+        totalLosses: toWei(4),
+        netProfitLoss: toWei("5.5"),
+      });
+    });
+
+    it("should not treat adjustments as trading results", () => {
+      const totals = applyPostings({ ...emptyTotals, availableBalance: toWei(10) }, postingsFor("REFUND", 5));
+
+      expect(totals).toEqual({ ...emptyTotals, availableBalance: toWei(15) });
+    });
+
+    it("should not drift over many small movements", () => {
+      const totals = Array.from({ length: 10 }, () => postingsFor("DEPOSIT", 0.1)).reduce(applyPostings, emptyTotals);
+
+      expect(totals.availableBalance).toBe(toWei(1));
+    });
+  });
+
+  describe("accountBalances", () => {
+    it("should net each account across entries", () => {
+      const balances = accountBalances([...postingsFor("DEPOSIT", 1000), ...postingsFor("TRADE_OPEN", 100)]);
+
+      expect(balances).toEqual({
+        USER_WALLET: "-1000",
+        STRATEGY_AVAILABLE: "900",
+        STRATEGY_LOCKED: "100",
+        FEES: "0",
+        PNL: "0",
+        ADJUSTMENTS: "0",
+      });
+    });
+  });
+
+  describe("journal", () => {
+    let mongoServer: MongoMemoryServer;
+    let userId: mongoose.Types.ObjectId;
+    let strategyId: mongoose.Types.ObjectId;
+    const contractAddress = "0x1234567890123456789012345678901234567890";
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      const user = await User.create({
+        email: "journal@example.com",
+        password: "password123",
+        firstName: "Test",
+        lastName: "User",
+      });
+      userId = user._id as mongoose.Types.ObjectId;
+
+      const strategy = await Strategy.create({
+        userId,
+        name: "Journal Strategy",
+        timeframe: "15m",
+        amount: 100,
+        status: "ACTIVE",
+      });
+      strategyId = strategy._id as mongoose.Types.ObjectId;
+    });
+
+    afterEach(async () => {
+      await User.deleteMany({});
+      await Strategy.deleteMany({});
+      await Treasury.deleteMany({});
+      await Transaction.deleteMany({});
+      await JournalEntry.deleteMany({});
+    });
+
+    it("should post a journal entry for every treasury movement", async () => {
+      await deposit(strategyId, userId, 1000, `0x${"d".repeat(64)}`, contractAddress);
+      await adjustBalance(strategyId, userId, { amount: 100, type: "TRADE_OPEN", description: "Open" });
+      await adjustBalance(strategyId, userId, { amount: 100, type: "TRADE_CLOSE", description: "Close" });
+      await adjustBalance(strategyId, userId, { amount: 9.5, type: "PROFIT", description: "Profit", fees: 0.5 });
+      await withdraw(strategyId, userId, 200);
+
+      expect(await JournalEntry.countDocuments({ strategyId })).toBe(await Transaction.countDocuments({ strategyId }));
+      expect(await getAccountBalances(strategyId, userId)).toEqual({
+        USER_WALLET: "-800",
+        STRATEGY_AVAILABLE: "809.5",
+        STRATEGY_LOCKED: "0",
+        FEES: "0.5",
+        PNL: "-10",
+        ADJUSTMENTS: "0",
+      });
+
+      const treasury = await Treasury.findOne({ strategyId });
+      expect(toAmountString(treasury!.availableBalance)).toBe("809.5");
+      expect(toAmountString(treasury!.totalProfits)).toBe("9.5");
+
+      const trialBalance = await getTrialBalance();
+      expect(trialBalance).toMatchObject({ balanced: true, entries: 5, debits: trialBalance.credits });
+    });
+
+    it("should not post anything when the movement is rejected", async () => {
+      await deposit(strategyId, userId, 50, `0x${"e".repeat(64)}`, contractAddress);
+
+      await expect(
+        adjustBalance(strategyId, userId, { amount: 100, type: "TRADE_OPEN", description: "Open" }),
+      ).rejects.toThrow("Insufficient available balance to open trade");
+
+      expect(await JournalEntry.countDocuments({ strategyId })).toBe(1);
+    });
+
+    it("should refuse unbalanced or modified entries", async () => {
+      await deposit(strategyId, userId, 50, `0x${"f".repeat(64)}`, contractAddress);
+      const entry = await JournalEntry.findOne({ strategyId });
+
+      await expect(
+        JournalEntry.create({
+          userId,
+          strategyId,
+          treasuryId: entry!.treasuryId,
+          transactionId: new mongoose.Types.ObjectId(),
+          type: "ADJUSTMENT",
+          description: "Unbalanced",
+          postings: [{ account: "STRATEGY_AVAILABLE", amount: "5" }],
+        }),
+      ).rejects.toThrow("Journal entry postings must balance");
+      await expect(
+        JournalEntry.updateOne({ _id: entry!._id }, { description: "Edited" }),
+      ).rejects.toThrow("Journal entries cannot be modified");
+    });
+
+    it("should backfill entries for transactions booked before the journal", async () => {
+      await deposit(strategyId, userId, 1000, `0x${"a".repeat(64)}`, contractAddress);
+      await withdraw(strategyId, userId, 100);
+      await JournalEntry.deleteMany({});
+
+      expect(await backfillJournal()).toBe(2);
+      expect(await backfillJournal()).toBe(0);
+      expect((await getAccountBalances(strategyId)).STRATEGY_AVAILABLE).toBe("900");
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Market Data Source Tests
+ *
+ * Runs the market data provider and indicator tools against recorded
+ * fixtures so results are deterministic and never hit api.binance.com.
+ */
+
+import path from "node:path";
+import { rsi } from "indicatorts";
+import { marketDataProvider, getMarketData, getOHLCArrays } from "../src/tools/marketData";
+import { ReplayMarketDataSource, parseCsvCandles, parseJsonCandles } from "../src/tools/sources";
+
+const fixturesDir = path.join(__dirname, "fixtures", "market-data");
+
+describe("Market Data Sources", () => {
+  describe("ReplayMarketDataSource", () => {
+    let source: ReplayMarketDataSource;
+
+    beforeEach(() => {
+      source = new ReplayMarketDataSource(fixturesDir);
+    });
+
+    it("should serve the most recent candles from a CSV fixture", async () => {
+      const candles = await source.getCandles({ symbol: "WETHUSDT", interval: "15m", limit: 50 });
+      const series = await source.loadSeries("WETHUSDT", "15m");
+
+      expect(candles).toHaveLength(50);
+      expect(candles[candles.length - 1]).toEqual(series[series.length - 1]);
+      expect(candles[0].timestamp).toBeLessThan(candles[1].timestamp);
+    });
+
+    it("should serve candles from a JSON kline fixture", async () => {
+      const candles = await source.getCandles({ symbol: "WETHUSDT", interval: "1h", limit: 10 });
+
+      expect(candles).toHaveLength(10);
+      candles.forEach((candle) => {
+        expect(typeof candle.close).toBe("number");
+        expect(candle.high).toBeGreaterThanOrEqual(candle.low);
+      });
+    });
+
+    it("should hide candles after the requested endTime", async () => {
+      const series = await source.loadSeries("WETHUSDT", "15m");
+      const endTime = series[99].timestamp;
+
+      const candles = await source.getCandles({ symbol: "WETHUSDT", interval: "15m", limit: 20, endTime });
+
+      expect(candles).toHaveLength(20);
+      expect(candles[candles.length - 1].timestamp).toBe(endTime);
+    });
+
+    it("should step through the fixture with seek", async () => {
+      const series = await source.loadSeries("WETHUSDT", "15m");
+
+      source.seek(series[30].timestamp);
+      const early = await source.getCandles({ symbol: "WETHUSDT", interval: "15m", limit: 100 });
+      expect(early).toHaveLength(31);
+
+      source.seek(undefined);
+      const all = await source.getCandles({ symbol: "WETHUSDT", interval: "15m", limit: 1000 });
+      expect(all).toHaveLength(series.length);
+    });
+
+    it("should throw when no fixture exists", async () => {
+      await expect(
+        source.getCandles({ symbol: "WETHUSDT", interval: "1w", limit: 10 }),
+      ).rejects.toThrow("No replay data for WETHUSDT-1w");
+    });
+  });
+
+  describe("Fixture parsing", () => {
+    it("should parse CSV with columns in any order", () => {
+      const candles = parseCsvCandles("close,timestamp,open,high,low,volume\n10,1,9,11,8,100\n");
+
+      expect(candles).toEqual([{ timestamp: 1, open: 9, high: 11, low: 8, close: 10, volume: 100 }]);
+    });
+
+    it("should parse JSON candle objects", () => {
+      const candles = parseJsonCandles(JSON.stringify([{ timestamp: 1, open: 9, high: 11, low: 8, close: 10, volume: 100 }]));
+
+      expect(candles[0].close).toBe(10);
+    });
+
+    it("should reject rows with missing values", () => {
+      expect(() => parseCsvCandles("timestamp,open,high,low,close,volume\n1,9,11,8,,100\n")).toThrow("Invalid candle");
+    });
+  });
+
+  describe("MarketDataProvider with replay source", () => {
+    beforeAll(() => {
+      marketDataProvider.setSource(new ReplayMarketDataSource(fixturesDir));
+    });
+
+    it("should return OHLC arrays from the replay source", async () => {
+      const { close, timestamps } = await getOHLCArrays("15m", 60);
+      const candles = await getMarketData("15m", 60);
+
+      expect(close).toEqual(candles.map(c => c.close));
+      expect(timestamps).toHaveLength(60);
+    });
+
+    it("should look up candles by trading pair", async () => {
+      await expect(getOHLCArrays("15m", 60, "SOLUSDT")).rejects.toThrow("No replay data for SOLUSDT-15m");
+    });
+
+    it("should give identical indicator results on every run", async () => {
+      const first = rsi((await getOHLCArrays("15m", 42)).close, { period: 14 });
+      const second = rsi((await getOHLCArrays("15m", 42)).close, { period: 14 });
+      const current = first[first.length - 1];
+
+      expect(current).toBeGreaterThanOrEqual(0);
+      expect(current).toBeLessThanOrEqual(100);
+      expect(second).toEqual(first);
+    });
+  });
+});
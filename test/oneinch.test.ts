@@ -0,0 +1,266 @@
+/**
+ * 1inch Executor Tests
+ *
+ * Runs the executor against a local stub of the 1inch swap API and a
+ * JSON-RPC node.
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { OneInchExecutor, fromBaseUnits, toBaseUnits } from "../src/services/execution";
+import { TRANSFER_TOPIC, MAINNET_WETH_ADDRESS } from "../src/services/transfer.verifier";
+import { ORDER_REVERTED } from "../src/types/execution.types";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const ROUTER = "0x2222222222222222222222222222222222222222";
+const TX_HASH = `0x${"c".repeat(64)}`;
+
+function topic(address: string): string {
+  return `0x${address.slice(2).toLowerCase().padStart(64, "0")}`;
+}
+
+/** Receipt of a swap that paid `value` WETH base units to the wallet */
+function swapReceipt(value: bigint, status = "0x1") {
+  return {
+    status,
+    blockNumber: "0x10",
+    logs: [{
+      address: MAINNET_WETH_ADDRESS,
+      topics: [TRANSFER_TOPIC, topic(ROUTER), topic(WALLET)],
+      data: `0x${value.toString(16).padStart(64, "0")}`,
+    }],
+  };
+}
+
+interface StubRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body?: any;
+}
+
+/**
+ * Minimal 1inch + RPC stub. `responses` maps a path to the status codes to
+ * return on successive calls (the last one repeats).
+ */
+function createStub() {
+  const requests: StubRequest[] = [];
+  const responses: Record<string, number[]> = {};
+  let rpcError: string | undefined;
+  let swapAmount = "49900000000000000";
+  let receipts: (object | null)[] = [];
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url!, "http://localhost");
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      requests.push({ method: req.method!, path: url.pathname, query: url.searchParams, body });
+
+      const codes = responses[url.pathname] ?? [200];
+      const seen = requests.filter(r => r.path === url.pathname).length;
+      const status = codes[Math.min(seen - 1, codes.length - 1)];
+      res.writeHead(status, { "Content-Type": "application/json" });
+
+      if (status !== 200) {
+        res.end(JSON.stringify({ error: "Bad Request", description: `stub ${status}` }));
+      } else if (url.pathname === "/rpc") {
+        // Receipts are served in order, the last one repeating
+        const result = body.method === "eth_sendTransaction"
+          ? TX_HASH
+          : receipts.length > 1 ? receipts.shift() : receipts[0] ?? null;
+        res.end(JSON.stringify(rpcError
+          ? { jsonrpc: "2.0", id: body.id, error: { code: -32000, message: rpcError } }
+          : { jsonrpc: "2.0", id: body.id, result }));
+      } else if (url.pathname.endsWith("/quote")) {
+        res.end(JSON.stringify({ dstAmount: "50000000000000000" }));
+      } else {
+        res.end(JSON.stringify({
+          dstAmount: swapAmount,
+          tx: { from: WALLET, to: ROUTER, data: "0xabcdef", value: "0", gas: 210000, gasPrice: "1000000000" },
+        }));
+      }
+    });
+  });
+
+  return {
+    server,
+    requests,
+    responses,
+    failRpc: (message?: string) => {
+      rpcError = message;
+    },
+    setSwapAmount: (dstAmount: string) => {
+      swapAmount = dstAmount;
+    },
+    setReceipts: (...next: (object | null)[]) => {
+      receipts = next;
+    },
+  };
+}
+
+describe("OneInchExecutor", () => {
+  const stub = createStub();
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => stub.server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(stub.server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => stub.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+    Object.keys(stub.responses).forEach(key => delete stub.responses[key]);
+    stub.failRpc(undefined);
+    stub.setSwapAmount("49900000000000000");
+    stub.setReceipts(swapReceipt(49800000000000000n));
+  });
+
+  function createExecutor(maxRetries: number = 2) {
+    return new OneInchExecutor({
+      baseUrl,
+      apiKey: "test-key",
+      chainId: 1,
+      walletAddress: WALLET,
+      rpcUrl: `${baseUrl}/rpc`,
+      slippagePct: 1,
+      maxRetries,
+      retryDelayMs: 0,
+      receiptPollMs: 0,
+      receiptTimeoutMs: 50,
+    });
+  }
+
+  const order = { tradeId: "t1", symbol: "WETHUSDT", side: "BUY" as const, amount: 100 };
+
+  it("should quote, build and broadcast a swap, and fill it from the receipt", async () => {
+    const onSubmitted = jest.fn().mockResolvedValue(undefined);
+    const fill = await createExecutor().execute({ ...order, onSubmitted });
+
+    expect(fill.txHash).toBe(TX_HASH);
+    expect(onSubmitted).toHaveBeenCalledWith(TX_HASH);
+    // Paid 0.0498 on chain, not the quoted 0.0499
+    expect(fill.quantity).toBeCloseTo(0.0498);
+    expect(fill.price).toBeCloseTo(100 / 0.0498);
+    expect(stub.requests.map(r => r.path)).toEqual(["/swap/v6.0/1/quote", "/swap/v6.0/1/swap", "/rpc", "/rpc"]);
+    expect(stub.requests[3].body).toMatchObject({ method: "eth_getTransactionReceipt", params: [TX_HASH] });
+
+    const swap = stub.requests[1].query;
+    expect(swap.get("src")).toBe("0xdAC17F958D2ee523a2206206994597C13D831ec7");
+    expect(swap.get("dst")).toBe("0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2");
+    expect(swap.get("amount")).toBe("100000000");
+    expect(swap.get("from")).toBe(WALLET);
+    expect(swap.get("slippage")).toBe("1");
+
+    expect(stub.requests[2].body.method).toBe("eth_sendTransaction");
+    expect(stub.requests[2].body.params[0]).toMatchObject({ from: WALLET, gas: "0x33450", gasPrice: "0x3b9aca00" });
+  });
+
+  it("should retry transient API failures", async () => {
+    stub.responses["/swap/v6.0/1/quote"] = [503, 429, 200];
+
+    const fill = await createExecutor().execute(order);
+
+    expect(fill.txHash).toBe(TX_HASH);
+    expect(stub.requests.filter(r => r.path === "/swap/v6.0/1/quote")).toHaveLength(3);
+  });
+
+  it("should give up after the retry limit", async () => {
+    stub.responses["/swap/v6.0/1/swap"] = [500];
+
+    await expect(createExecutor(1).execute(order)).rejects.toThrow("1inch swap request failed: 500 stub 500");
+    expect(stub.requests.filter(r => r.path === "/swap/v6.0/1/swap")).toHaveLength(2);
+    expect(stub.requests.some(r => r.path === "/rpc")).toBe(false);
+  });
+
+  it("should not retry client errors", async () => {
+    stub.responses["/swap/v6.0/1/swap"] = [400];
+
+    await expect(createExecutor().execute(order)).rejects.toThrow("1inch swap request failed: 400");
+    expect(stub.requests.filter(r => r.path === "/swap/v6.0/1/swap")).toHaveLength(1);
+  });
+
+  it("should surface broadcast errors without retrying", async () => {
+    stub.failRpc("insufficient funds for gas");
+
+    await expect(createExecutor().execute(order)).rejects.toThrow("Swap broadcast failed: insufficient funds for gas");
+    expect(stub.requests.filter(r => r.path === "/rpc")).toHaveLength(1);
+  });
+
+  it("should not broadcast an empty swap", async () => {
+    stub.setSwapAmount("0");
+
+    await expect(createExecutor().execute(order)).rejects.toThrow("1inch returned an empty swap");
+    expect(stub.requests.some(r => r.path === "/rpc")).toBe(false);
+  });
+
+  it("should wait for the swap to be mined", async () => {
+    stub.setReceipts(null, null, swapReceipt(49900000000000000n));
+
+    const fill = await createExecutor().execute(order);
+
+    expect(fill.quantity).toBeCloseTo(0.0499);
+    expect(stub.requests.filter(r => r.body?.method === "eth_getTransactionReceipt")).toHaveLength(3);
+  });
+
+  it("should throw ORDER_REVERTED for a reverted swap", async () => {
+    stub.setReceipts(swapReceipt(0n, "0x0"));
+    const onSubmitted = jest.fn().mockResolvedValue(undefined);
+
+    await expect(createExecutor().execute({ ...order, onSubmitted })).rejects.toThrow(ORDER_REVERTED);
+    expect(onSubmitted).toHaveBeenCalledWith(TX_HASH);
+  });
+
+  it("should give up waiting for a swap that is not mined", async () => {
+    stub.setReceipts(null);
+
+    await expect(createExecutor().execute(order)).rejects.toThrow(`Swap transaction ${TX_HASH} was not mined within 50ms`);
+  });
+
+  it("should reject pairs without on-chain tokens", async () => {
+    await expect(createExecutor().execute({ ...order, symbol: "SOLUSDT" })).rejects.toThrow("SOLUSDT is not tradable on chain 1");
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it("should send the API key", async () => {
+    const requests: string[] = [];
+    const server = http.createServer((req, res) => {
+      requests.push(req.headers.authorization ?? "");
+      res.writeHead(400).end();
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const port = (server.address() as AddressInfo).port;
+
+    const executor = new OneInchExecutor({
+      baseUrl: `http://127.0.0.1:${port}`,
+      apiKey: "secret",
+      chainId: 1,
+      walletAddress: WALLET,
+      rpcUrl: `http://127.0.0.1:${port}/rpc`,
+      slippagePct: 1,
+      maxRetries: 0,
+      retryDelayMs: 0,
+      receiptPollMs: 0,
+      receiptTimeoutMs: 50,
+    });
+    await expect(executor.execute(order)).rejects.toThrow();
+    await new Promise(resolve => server.close(resolve));
+
+    expect(requests).toEqual(["Bearer secret"]);
+  });
+
+  describe("unit conversion", () => {
+    it("should convert between decimals and base units", () => {
+      expect(toBaseUnits(100, 6)).toBe("100000000");
+      expect(toBaseUnits(0.5, 18)).toBe("500000000000000000");
+      expect(fromBaseUnits("49900000000000000", 18)).toBeCloseTo(0.0499);
+    });
+  });
+});
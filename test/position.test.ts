@@ -0,0 +1,336 @@
+/**
+ * Position Lifecycle Tests
+ *
+ * Exit detection and PnL helpers, plus the position monitor closing
+ * trades against replayed prices and settling the treasury.
+ */
+
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import { calculateRealizedPnl, findExitTrigger } from "../src/lib/position.utils";
+import { closePosition, closeStrategyPositions, monitorOpenPositions } from "../src/workers/position-monitor";
+import { adjustBalance, deposit } from "../src/services/treasury.service";
+import { setMarketDataSource } from "../src/tools/marketData";
+import { InMemoryMarketDataSource } from "../src/tools/sources";
+import { User, Strategy, Trade, Treasury, Transaction } from "../src/db/schema";
+import { toAmountNumber, toAmountString } from "../src/lib/amount.utils";
+import type { Candle } from "../src/tools/types/common.types";
+
+const MINUTE = 60_000;
+const start = Date.UTC(2025, 0, 1);
+
+function minuteCandles(bars: Array<[number, number, number, number]>): Candle[] {
+  return bars.map(([open, high, low, close], i) => ({
+    timestamp: start + i * MINUTE,
+    open,
+    high,
+    low,
+    close,
+    volume: 10,
+  }));
+}
+
+describe("Position Lifecycle", () => {
+  describe("findExitTrigger", () => {
+    const levels = { openedAt: start, takeProfit: 110, stopLoss: 95 };
+
+    it("should return null while price stays between the levels", () => {
+      const candles = minuteCandles([[100, 105, 97, 102], [102, 108, 99, 104]]);
+
+      expect(findExitTrigger(levels, candles)).toBeNull();
+    });
+
+    it("should take profit when the high reaches the target", () => {
+      const candles = minuteCandles([[100, 105, 97, 102], [102, 111, 101, 109]]);
+
+      expect(findExitTrigger(levels, candles)).toEqual({
+        reason: "TAKE_PROFIT",
+        price: 110,
+        timestamp: candles[1].timestamp,
+      });
+    });
+
+    it("should stop out when the low reaches the stop", () => {
+      const candles = minuteCandles([[100, 101, 94, 96]]);
+
+      expect(findExitTrigger(levels, candles)?.reason).toBe("STOP_LOSS");
+      expect(findExitTrigger(levels, candles)?.price).toBe(95);
+    });
+
+    it("should prefer the stop loss when a candle touches both levels", () => {
+      const candles = minuteCandles([[100, 112, 90, 100]]);
+
+      expect(findExitTrigger(levels, candles)?.reason).toBe("STOP_LOSS");
+    });
+
+    it("should fill a gap through the stop at the open", () => {
+      const candles = minuteCandles([[100, 101, 99, 100], [90, 92, 88, 91]]);
+
+      expect(findExitTrigger(levels, candles)?.price).toBe(90);
+    });
+
+    it("should ignore candles that closed before the position opened", () => {
+      const candles = minuteCandles([[100, 120, 100, 100], [100, 101, 99, 100], [100, 101, 99, 100]]);
+
+      expect(findExitTrigger({ ...levels, openedAt: start + 90_000 }, candles)).toBeNull();
+    });
+
+    describe("short positions", () => {
+      const short = { openedAt: start, takeProfit: 90, stopLoss: 105, side: "SHORT" as const };
+
+      it("should take profit when the low reaches the target", () => {
+        const candles = minuteCandles([[100, 102, 95, 96], [96, 97, 89, 91]]);
+
+        expect(findExitTrigger(short, candles)).toEqual({
+          reason: "TAKE_PROFIT",
+          price: 90,
+          timestamp: candles[1].timestamp,
+        });
+      });
+
+      it("should stop out when the high reaches the stop, filling gaps at the open", () => {
+        expect(findExitTrigger(short, minuteCandles([[100, 106, 99, 104]]))).toMatchObject({
+          reason: "STOP_LOSS",
+          price: 105,
+        });
+        expect(findExitTrigger(short, minuteCandles([[110, 112, 108, 111]]))?.price).toBe(110);
+      });
+    });
+  });
+
+  describe("calculateRealizedPnl", () => {
+    it("should scale the price move by the position amount", () => {
+      expect(calculateRealizedPnl(100, 2000, 2200)).toBeCloseTo(10);
+      expect(calculateRealizedPnl(100, 2000, 1900)).toBeCloseTo(-5);
+    });
+
+    it("should subtract fees paid on the position", () => {
+      expect(calculateRealizedPnl(100, 2000, 2200, 0.1)).toBeCloseTo(9.9);
+    });
+
+    it("should gain on shorts when the price falls", () => {
+      expect(calculateRealizedPnl(100, 2000, 1800, 0, "SHORT")).toBeCloseTo(10);
+      expect(calculateRealizedPnl(100, 2000, 2100, 0.1, "SHORT")).toBeCloseTo(-5.1);
+    });
+
+    it("should reject a non-positive entry price", () => {
+      expect(() => calculateRealizedPnl(100, 0, 10)).toThrow("Entry price must be positive");
+    });
+  });
+
+  describe("position monitor", () => {
+    let mongoServer: MongoMemoryServer;
+    let userId: mongoose.Types.ObjectId;
+    let strategyId: mongoose.Types.ObjectId;
+    const source = new InMemoryMarketDataSource();
+    const contractAddress = "0x1234567890123456789012345678901234567890";
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+      setMarketDataSource(source);
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      const user = await User.create({
+        email: "positions@example.com",
+        password: "password123",
+        firstName: "Test",
+        lastName: "User",
+      });
+      userId = user._id as mongoose.Types.ObjectId;
+
+      const strategy = await Strategy.create({
+        userId,
+        name: "Position Strategy",
+        timeframe: "15m",
+        amount: 100,
+        status: "ACTIVE",
+      });
+      strategyId = strategy._id as mongoose.Types.ObjectId;
+
+      await deposit(strategyId, userId, 1000, `0x${"a".repeat(64)}`, contractAddress);
+    });
+
+    afterEach(async () => {
+      await User.deleteMany({});
+      await Strategy.deleteMany({});
+      await Trade.deleteMany({});
+      await Treasury.deleteMany({});
+      await Transaction.deleteMany({});
+    });
+
+    async function openTrade(locked: boolean = true, side: "LONG" | "SHORT" = "LONG") {
+      const trade = await Trade.create({
+        userId,
+        strategyId,
+        symbol: "WETHUSDT",
+        signal: side === "SHORT" ? "SELL" : "BUY",
+        side,
+        entry: 100,
+        exit: side === "SHORT" ? 90 : 110,
+        stopLoss: side === "SHORT" ? 105 : 95,
+        reasoning: "Test position",
+        confidence: "STRONG",
+        riskRewardRatio: 2,
+        amount: 100,
+        status: "PLACED",
+        marketCondition: "Trending",
+        toolsUsed: [],
+        executedAt: new Date(start),
+        executedPrice: 100,
+      });
+
+      if (locked) {
+        await adjustBalance(strategyId, userId, {
+          amount: 100,
+          type: "TRADE_OPEN",
+          description: "Open test position",
+          tradeId: trade._id as mongoose.Types.ObjectId,
+        });
+      }
+      return trade;
+    }
+
+    it("should close at take profit and book the profit", async () => {
+      source.setSeries("WETHUSDT", "1m", minuteCandles([[100, 104, 99, 103], [103, 112, 102, 111]]));
+      const trade = await openTrade();
+
+      const result = await monitorOpenPositions();
+
+      expect(result.closed).toBe(1);
+      const closed = await Trade.findById(trade._id);
+      expect(closed!.status).toBe("CLOSED");
+      expect(closed!.closeReason).toBe("TAKE_PROFIT");
+      expect(closed!.closePrice).toBe(110);
+      expect(toAmountNumber(closed!.realizedPnl!)).toBeCloseTo(10);
+
+      const treasury = await Treasury.findOne({ strategyId });
+      expect(toAmountNumber(treasury!.availableBalance)).toBeCloseTo(1010);
+      expect(toAmountString(treasury!.lockedBalance)).toBe("0");
+      expect(toAmountNumber(treasury!.totalProfits)).toBeCloseTo(10);
+
+      const types = (await Transaction.find({ tradeId: trade._id })).map(t => t.type).sort();
+      expect(types).toEqual(["PROFIT", "TRADE_CLOSE", "TRADE_OPEN"]);
+    });
+
+    it("should close at stop loss and book the loss", async () => {
+      source.setSeries("WETHUSDT", "1m", minuteCandles([[100, 101, 94, 96]]));
+      await openTrade();
+
+      await monitorOpenPositions();
+
+      const treasury = await Treasury.findOne({ strategyId });
+      expect(toAmountNumber(treasury!.availableBalance)).toBeCloseTo(995);
+      expect(toAmountNumber(treasury!.totalLosses)).toBeCloseTo(5);
+    });
+
+    it("should leave positions open while price is between the levels", async () => {
+      source.setSeries("WETHUSDT", "1m", minuteCandles([[100, 105, 97, 102]]));
+      const trade = await openTrade();
+
+      const result = await monitorOpenPositions();
+
+      expect(result).toMatchObject({ checked: 1, closed: 0, failed: 0 });
+      expect((await Trade.findById(trade._id))!.status).toBe("PLACED");
+    });
+
+    it("should close without treasury settlement when no funds were locked", async () => {
+      const trade = await openTrade(false);
+
+      const closed = await closePosition(trade, 105, "MANUAL");
+
+      expect(closed.status).toBe("CLOSED");
+      expect(toAmountNumber(closed.realizedPnl!)).toBeCloseTo(5);
+      expect(await Transaction.countDocuments({ tradeId: trade._id })).toBe(0);
+    });
+
+    it("should close a short at take profit and book the profit", async () => {
+      source.setSeries("WETHUSDT", "1m", minuteCandles([[100, 101, 96, 97], [97, 98, 89, 90]]));
+      const trade = await openTrade(true, "SHORT");
+
+      await monitorOpenPositions();
+
+      const closed = await Trade.findById(trade._id);
+      expect(closed!.closeReason).toBe("TAKE_PROFIT");
+      expect(toAmountNumber(closed!.realizedPnl!)).toBeCloseTo(10);
+      const treasury = await Treasury.findOne({ strategyId });
+      expect(toAmountNumber(treasury!.availableBalance)).toBeCloseTo(1010);
+      expect(toAmountString(treasury!.lockedBalance)).toBe("0");
+    });
+
+    it("should only close positions on the requested side", async () => {
+      source.setSeries("WETHUSDT", "1m", minuteCandles([[100, 101, 99, 100]]));
+      const long = await openTrade();
+      const short = await openTrade(true, "SHORT");
+
+      const closed = await closeStrategyPositions(strategyId.toString(), "SIGNAL", "LONG");
+
+      expect(closed.map(t => t._id.toString())).toEqual([long._id.toString()]);
+      expect((await Trade.findById(short._id))!.status).toBe("PLACED");
+    });
+
+    it("should apply exit rules to longs only", async () => {
+      const bars = minuteCandles([[100, 101, 99, 100]]);
+      source.setSeries("WETHUSDT", "1m", bars);
+      source.setSeries("WETHUSDT", "15m", bars);
+      await Strategy.updateOne({ _id: strategyId }, {
+        rules: {
+          entry: { combinator: "AND", conditions: [{ type: "compare", left: { type: "price", field: "close" }, operator: ">", right: { type: "constant", value: 0 } }] },
+          exit: { combinator: "AND", conditions: [{ type: "compare", left: { type: "price", field: "close" }, operator: ">", right: { type: "constant", value: 0 } }] },
+        },
+      });
+      const long = await openTrade();
+      const short = await openTrade(true, "SHORT");
+
+      await monitorOpenPositions();
+
+      expect((await Trade.findById(long._id))!.closeReason).toBe("SIGNAL");
+      expect((await Trade.findById(short._id))!.status).toBe("PLACED");
+    });
+
+    it("should refuse to close a trade twice", async () => {
+      const trade = await openTrade();
+      await closePosition(trade, 105, "MANUAL");
+
+      const stale = await Trade.findById(trade._id);
+      await expect(closePosition(stale!, 105, "MANUAL")).rejects.toThrow("Trade is not open");
+      expect(await Transaction.countDocuments({ tradeId: trade._id, type: "TRADE_CLOSE" })).toBe(1);
+    });
+
+    it("should settle concurrent closes only once", async () => {
+      const trade = await openTrade();
+
+      const outcomes = await Promise.allSettled([
+        closePosition(trade, 105, "MANUAL"),
+        closePosition(trade, 94, "SIGNAL"),
+      ]);
+
+      expect(outcomes.filter(o => o.status === "fulfilled")).toHaveLength(1);
+      const types = (await Transaction.find({ tradeId: trade._id })).map(t => t.type).sort();
+      expect(types).toHaveLength(3);
+      expect(types).toContain("TRADE_CLOSE");
+    });
+
+    it("should finish settling a trade left CLOSING by a failed pass", async () => {
+      source.setSeries("WETHUSDT", "1m", minuteCandles([[100, 105, 97, 102]]));
+      const trade = await openTrade();
+      await Trade.updateOne(
+        { _id: trade._id },
+        { $set: { status: "CLOSING", closePrice: 105, closeReason: "MANUAL", realizedPnl: "5" } },
+      );
+
+      const result = await monitorOpenPositions();
+
+      expect(result).toMatchObject({ closed: 1, failed: 0 });
+      expect((await Trade.findById(trade._id))!.status).toBe("CLOSED");
+      const treasury = await Treasury.findOne({ strategyId });
+      expect(toAmountNumber(treasury!.availableBalance)).toBeCloseTo(1005);
+    });
+  });
+});
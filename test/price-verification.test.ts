@@ -0,0 +1,133 @@
+/**
+ * Price Verification Tests
+ *
+ * Validator entry / take profit / stop loss checked against the last close and ATR.
+ */
+
+import { latestAtr, verifyTradeLevels } from "../src/lib/price-verification";
+import type { Candle } from "../src/tools/types/common.types";
+import type { TradeLevels } from "../src/types/risk.types";
+
+const lastClose = 2000;
+const atrValue = 40;
+
+const proposal: TradeLevels = { entry: 2000, exit: 2200, stopLoss: 1900, riskRewardRatio: 2 };
+
+describe("Price Verification", () => {
+  it("should verify levels that are consistent with the market", () => {
+    const result = verifyTradeLevels(proposal, lastClose, atrValue);
+
+    expect(result.status).toBe("VERIFIED");
+    expect(result.corrected).toEqual({ entry: 2000, exit: 2200, stopLoss: 1900, riskRewardRatio: 2 });
+    expect(result.adjustments).toEqual([]);
+  });
+
+  it("should recompute a misreported risk/reward ratio", () => {
+    const result = verifyTradeLevels({ ...proposal, riskRewardRatio: 4 }, lastClose, atrValue);
+
+    expect(result.status).toBe("CORRECTED");
+    expect(result.corrected!.riskRewardRatio).toBe(2);
+    expect(result.original.riskRewardRatio).toBe(4);
+  });
+
+  it("should move the levels to the last close when the entry is far from the market", () => {
+    const result = verifyTradeLevels({ ...proposal, entry: 1800, exit: 2000, stopLoss: 1700 }, lastClose, atrValue);
+
+    expect(result.status).toBe("CORRECTED");
+    expect(result.corrected).toEqual({ entry: 2000, exit: 2200, stopLoss: 1900, riskRewardRatio: 2 });
+  });
+
+  it("should use the last close when the entry is missing", () => {
+    const result = verifyTradeLevels({ ...proposal, entry: null }, lastClose, atrValue);
+
+    expect(result.status).toBe("CORRECTED");
+    expect(result.corrected!.entry).toBe(2000);
+  });
+
+  it("should reset a stop loss above the entry", () => {
+    const result = verifyTradeLevels({ ...proposal, stopLoss: 2050 }, lastClose, atrValue);
+
+    expect(result.corrected!.stopLoss).toBe(1940); // 1.5 ATR
+    expect(result.corrected!.riskRewardRatio).toBe(3.33);
+  });
+
+  it("should keep the stop loss within the ATR bounds", () => {
+    const tooTight = verifyTradeLevels({ ...proposal, stopLoss: 1995 }, lastClose, atrValue);
+    const tooWide = verifyTradeLevels({ ...proposal, stopLoss: 1500 }, lastClose, atrValue);
+
+    expect(tooTight.corrected!.stopLoss).toBe(1980); // 0.5 ATR
+    expect(tooWide.corrected!.stopLoss).toBe(1800); // 5 ATR
+  });
+
+  it("should reset a take profit below the entry", () => {
+    const result = verifyTradeLevels({ ...proposal, exit: 1950 }, lastClose, atrValue);
+
+    expect(result.corrected!.exit).toBe(2120); // 3 ATR
+  });
+
+  it("should reject levels that are all on the wrong side", () => {
+    const result = verifyTradeLevels({ ...proposal, exit: 1900, stopLoss: 2100 }, lastClose, atrValue);
+
+    expect(result.status).toBe("REJECTED");
+    expect(result.corrected).toBeUndefined();
+    expect(result.reason).toBe("Take profit and stop loss are on the wrong side of the entry for a BUY");
+  });
+
+  it("should reject a proposal without price levels", () => {
+    const result = verifyTradeLevels({ entry: null, exit: null, stopLoss: null, riskRewardRatio: null }, lastClose, atrValue);
+
+    expect(result.status).toBe("REJECTED");
+  });
+
+  describe("short positions", () => {
+    const short: TradeLevels = { entry: 2000, exit: 1800, stopLoss: 2100, riskRewardRatio: 2 };
+
+    it("should verify a short with the stop above and the target below the entry", () => {
+      const result = verifyTradeLevels(short, lastClose, atrValue, "SHORT");
+
+      expect(result.status).toBe("VERIFIED");
+      expect(result.side).toBe("SHORT");
+      expect(result.corrected).toEqual({ entry: 2000, exit: 1800, stopLoss: 2100, riskRewardRatio: 2 });
+    });
+
+    it("should reject long-side levels", () => {
+      const result = verifyTradeLevels({ ...short, exit: 2050, stopLoss: 1950 }, lastClose, atrValue, "SHORT");
+
+      expect(result.status).toBe("REJECTED");
+      expect(result.reason).toBe("Take profit and stop loss are on the wrong side of the entry for a SELL");
+    });
+
+    it("should place missing levels on the short side", () => {
+      const result = verifyTradeLevels({ ...short, exit: null, stopLoss: null }, lastClose, atrValue, "SHORT");
+
+      expect(result.corrected).toMatchObject({ stopLoss: 2060, exit: 1880, riskRewardRatio: 2 });
+    });
+
+    it("should clamp the stop loss above the entry", () => {
+      const result = verifyTradeLevels({ ...short, stopLoss: 2500 }, lastClose, atrValue, "SHORT");
+
+      expect(result.corrected!.stopLoss).toBe(2200); // 5 ATR
+    });
+  });
+
+  describe("latestAtr", () => {
+    const candle = (close: number): Candle => ({
+      timestamp: 0,
+      open: close,
+      high: close + 10,
+      low: close - 10,
+      close,
+      volume: 1,
+    });
+
+    it("should return null with too few candles", () => {
+      expect(latestAtr([candle(100), candle(101)], 14)).toBeNull();
+    });
+
+    it("should return the ATR of the last candle", () => {
+      const candles = Array.from({ length: 30 }, () => candle(100));
+
+      expect(latestAtr(candles, 14)).toBeCloseTo(20);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Ledger Reconciliation Tests
+ *
+ * Replaying transactions into treasury balances, and the service
+ * reporting and correcting drift between a treasury and its ledger.
+ */
+
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import { compareBalances, emptyBalances, replayLedger } from "../src/lib/reconciliation.engine";
+import { reconcileTreasuries } from "../src/services/reconciliation.service";
+import { adjustBalance, deposit, withdraw } from "../src/services/treasury.service";
+import { User, Strategy, Treasury, Transaction } from "../src/db/schema";
+import { toAmountString } from "../src/lib/amount.utils";
+import type { LedgerEntry } from "../src/types/reconciliation.types";
+
+let sequence = 0;
+
+function entry(type: LedgerEntry["type"], amount: number, balanceBefore: number, balanceAfter: number): LedgerEntry {
+  sequence += 1;
+  return {
+    id: `tx${sequence}`,
+    type,
+    amount: String(amount),
+    balanceBefore: String(balanceBefore),
+    balanceAfter: String(balanceAfter),
+    createdAt: new Date(sequence),
+  };
+}
+
+describe("Ledger Reconciliation", () => {
+  describe("replayLedger", () => {
+    it("should reproduce the treasury balances from a consistent ledger", () => {
+      const replay = replayLedger([
+        entry("DEPOSIT", 1000, 0, 1000),
+        entry("TRADE_OPEN", 100, 1000, 900),
+        entry("TRADE_CLOSE", 100, 900, 1000),
+        entry("PROFIT", 10, 1000, 1010),
+        entry("TRADE_OPEN", 200, 1010, 810),
+        entry("WITHDRAW", -300, 810, 510),
+        entry("LOSS", -5, 510, 505),
+        entry("ADJUSTMENT", -5, 505, 500),
+      ]);
+
+      expect(replay.balances).toEqual({
+        availableBalance: "500",
+        lockedBalance: "200",
+        totalDeposited: "1000",
+        totalWithdrawn: "300",
+        netProfitLoss: "5",
+      });
+      expect(replay.entries).toBe(8);
+      expect(replay.chainIssues).toEqual([]);
+    });
+
+    it("should flag a gap when a balance changed without a transaction", () => {
+      const replay = replayLedger([
+        entry("DEPOSIT", 1000, 0, 1000),
+        entry("TRADE_OPEN", 100, 1050, 950),
+      ]);
+
+      expect(replay.chainIssues).toEqual([
+        expect.objectContaining({ transactionId: expect.any(String), kind: "GAP", expected: "1000", recorded: "1050" }),
+      ]);
+    });
+
+    it("should flag an entry whose snapshot does not match its amount", () => {
+      const replay = replayLedger([entry("DEPOSIT", 1000, 0, 1100)]);
+
+      expect(replay.chainIssues).toEqual([
+        expect.objectContaining({ type: "DEPOSIT", kind: "MISMATCH", expected: "1000", recorded: "1100" }),
+      ]);
+      // Balances follow the amounts, not the snapshots
+      expect(replay.balances.availableBalance).toBe("1000");
+    });
+
+    it("should return empty balances for an empty ledger", () => {
+      expect(replayLedger([])).toEqual({ balances: emptyBalances(), entries: 0, chainIssues: [] });
+    });
+  });
+
+  describe("compareBalances", () => {
+    it("should report each field that differs", () => {
+      const expected = { ...emptyBalances(), availableBalance: "100", totalDeposited: "100" };
+      const actual = { ...expected, availableBalance: "120.000000001", lockedBalance: "5" };
+
+      expect(compareBalances(expected, actual)).toEqual([
+        { field: "availableBalance", expected: "100", actual: "120.000000001", difference: "20.000000001" },
+        { field: "lockedBalance", expected: "0", actual: "5", difference: "5" },
+      ]);
+    });
+  });
+
+  describe("reconcileTreasuries", () => {
+    let mongoServer: MongoMemoryServer;
+    let userId: mongoose.Types.ObjectId;
+    let strategyId: mongoose.Types.ObjectId;
+    const contractAddress = "0x1234567890123456789012345678901234567890";
+
+    beforeAll(async () => {
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+    });
+
+    afterAll(async () => {
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      const user = await User.create({
+        email: "ledger@example.com",
+        password: "password123",
+        firstName: "Test",
+        lastName: "User",
+      });
+      userId = user._id as mongoose.Types.ObjectId;
+
+      const strategy = await Strategy.create({
+        userId,
+        name: "Ledger Strategy",
+        timeframe: "15m",
+        amount: 100,
+        status: "ACTIVE",
+      });
+      strategyId = strategy._id as mongoose.Types.ObjectId;
+
+      await deposit(strategyId, userId, 1000, `0x${"c".repeat(64)}`, contractAddress);
+      await adjustBalance(strategyId, userId, { amount: 100, type: "TRADE_OPEN", description: "Open" });
+      await withdraw(strategyId, userId, 200);
+    });
+
+    afterEach(async () => {
+      await User.deleteMany({});
+      await Strategy.deleteMany({});
+      await Treasury.deleteMany({});
+      await Transaction.deleteMany({});
+    });
+
+    it("should reconcile a treasury that was only changed through its ledger", async () => {
+      const report = await reconcileTreasuries();
+
+      expect(report).toMatchObject({ checked: 1, reconciled: 1, mismatched: 0, corrected: 0 });
+      expect(report.results[0].expected).toEqual({
+        availableBalance: "700",
+        lockedBalance: "100",
+        totalDeposited: "1000",
+        totalWithdrawn: "200",
+        netProfitLoss: "0",
+      });
+    });
+
+    it("should report drift from a manual balance fix without changing anything", async () => {
+      await Treasury.updateOne({ strategyId }, { $inc: { availableBalance: 25 } });
+
+      const report = await reconcileTreasuries({ strategyId: strategyId.toString() });
+
+      expect(report.mismatched).toBe(1);
+      expect(report.results[0].mismatches).toEqual([
+        { field: "availableBalance", expected: "700", actual: "725", difference: "25" },
+      ]);
+      expect(await Transaction.countDocuments({ type: "ADJUSTMENT" })).toBe(0);
+    });
+
+    it("should book a correcting adjustment so the ledger matches again", async () => {
+      await Treasury.updateOne({ strategyId }, { $inc: { availableBalance: -40 } });
+
+      const corrected = await reconcileTreasuries({ correct: true });
+
+      expect(corrected.corrected).toBe(1);
+      expect(corrected.results[0].correction!.toJSON()).toMatchObject({
+        type: "ADJUSTMENT",
+        amount: "-40",
+        balanceBefore: "700",
+        balanceAfter: "660",
+      });
+      expect(corrected.results[0].correction!.postedAt).toBeInstanceOf(Date);
+      expect(corrected.results[0].correction!.metadata!.detectedAt).toBeInstanceOf(Date);
+      expect(toAmountString((await Treasury.findOne({ strategyId }))!.availableBalance)).toBe("660");
+
+      const recheck = await reconcileTreasuries();
+      expect(recheck.results[0].mismatches).toEqual([]);
+    });
+
+    it("should leave fields an adjustment cannot represent for manual review", async () => {
+      await Treasury.updateOne({ strategyId }, { $inc: { lockedBalance: 10 } });
+
+      const report = await reconcileTreasuries({ correct: true });
+
+      expect(report.corrected).toBe(0);
+      expect(report.results[0].mismatches.map(m => m.field)).toEqual(["lockedBalance"]);
+    });
+  });
+});
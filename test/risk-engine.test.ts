@@ -0,0 +1,161 @@
+/**
+ * Risk Engine Tests
+ *
+ * Deterministic pre-trade checks on the validator's proposal.
+ */
+
+import { evaluateRisk, resolveRiskLimits } from "../src/lib/risk.engine";
+import type { RiskContext, RiskLimits, TradeProposal } from "../src/types/risk.types";
+
+const limits: RiskLimits = {
+  maxPositionPct: 50,
+  maxOpenTradesPerStrategy: 1,
+  maxOpenTradesPerUser: 5,
+  dailyLossLimitPct: 5,
+  minRiskReward: 1.5,
+  minStopDistancePct: 0.2,
+  maxStopDistancePct: 10,
+  maxTakeProfitDistancePct: 30,
+  maxEntryDeviationPct: 2,
+  lossCooldownMinutes: 60,
+};
+
+const now = new Date(Date.UTC(2025, 2, 12, 12));
+
+const proposal: TradeProposal = { side: "LONG", entry: 2000, takeProfit: 2200, stopLoss: 1900, requestedAmount: 100 };
+
+const context: RiskContext = {
+  currentPrice: 2000,
+  availableBalance: 1000,
+  openTradesForStrategy: 0,
+  openTradesForUser: 0,
+  userEquity: 1000,
+  realizedPnlToday: 0,
+  now,
+};
+
+function failedRules(result: ReturnType<typeof evaluateRisk>) {
+  return result.checks.filter(check => !check.passed).map(check => check.rule);
+}
+
+describe("Risk Engine", () => {
+  it("should approve a trade within every limit", () => {
+    const result = evaluateRisk(proposal, context, limits);
+
+    expect(result.approved).toBe(true);
+    expect(result.amount).toBe(100);
+    expect(result.riskRewardRatio).toBe(2);
+    expect(result.reason).toBeUndefined();
+    expect(result.checks).toHaveLength(10);
+  });
+
+  it("should cap the position at a share of the treasury", () => {
+    const result = evaluateRisk(proposal, { ...context, availableBalance: 150 }, limits);
+
+    expect(result.approved).toBe(true);
+    expect(result.amount).toBe(75);
+  });
+
+  it("should reject when the treasury is empty", () => {
+    const result = evaluateRisk(proposal, { ...context, availableBalance: 0 }, limits);
+
+    expect(result.approved).toBe(false);
+    expect(result.amount).toBe(0);
+    expect(result.reason).toBe("No treasury balance available for a new position");
+  });
+
+  it("should limit open trades per strategy and per user", () => {
+    expect(failedRules(evaluateRisk(proposal, { ...context, openTradesForStrategy: 1 }, limits)))
+      .toEqual(["MAX_OPEN_TRADES_STRATEGY"]);
+    expect(failedRules(evaluateRisk(proposal, { ...context, openTradesForUser: 5 }, limits)))
+      .toEqual(["MAX_OPEN_TRADES_USER"]);
+  });
+
+  it("should stop trading once the daily loss limit is reached", () => {
+    // Started the day with 1000, lost 50 (5%)
+    const result = evaluateRisk(proposal, { ...context, userEquity: 950, realizedPnlToday: -50 }, limits);
+
+    expect(result.approved).toBe(false);
+    expect(result.reason).toBe("Daily loss limit reached (50 of 50)");
+  });
+
+  it("should compute risk/reward from the levels instead of trusting the validator", () => {
+    const result = evaluateRisk({ ...proposal, takeProfit: 2100 }, context, limits);
+
+    expect(result.riskRewardRatio).toBe(1);
+    expect(failedRules(result)).toEqual(["RISK_REWARD"]);
+  });
+
+  it("should reject inverted levels", () => {
+    const result = evaluateRisk({ ...proposal, stopLoss: 2100, takeProfit: 1900 }, context, limits);
+
+    expect(result.approved).toBe(false);
+    expect(result.riskRewardRatio).toBeUndefined();
+    expect(failedRules(result)).toEqual(expect.arrayContaining(["PRICE_LEVELS", "RISK_REWARD"]));
+  });
+
+  it("should bound stop loss and take profit distances from the current price", () => {
+    expect(failedRules(evaluateRisk({ ...proposal, stopLoss: 1999, takeProfit: 2300 }, context, limits)))
+      .toEqual(["STOP_DISTANCE"]);
+    expect(failedRules(evaluateRisk({ ...proposal, stopLoss: 1500, takeProfit: 3000 }, context, limits)))
+      .toEqual(["STOP_DISTANCE", "TAKE_PROFIT_DISTANCE"]);
+  });
+
+  it("should reject entries far from the current price", () => {
+    const result = evaluateRisk(proposal, { ...context, currentPrice: 2100 }, limits);
+
+    expect(failedRules(result)).toContain("ENTRY_DEVIATION");
+  });
+
+  it("should cool down after a loss", () => {
+    const lastLossAt = new Date(now.getTime() - 30 * 60_000);
+
+    const result = evaluateRisk(proposal, { ...context, lastLossAt }, limits);
+
+    expect(result.approved).toBe(false);
+    expect(result.reason).toBe("Cooling down after a loss (30 of 60 minutes)");
+    expect(evaluateRisk(proposal, { ...context, lastLossAt: new Date(now.getTime() - 61 * 60_000) }, limits).approved)
+      .toBe(true);
+  });
+
+  describe("short positions", () => {
+    const short: TradeProposal = { side: "SHORT", entry: 2000, takeProfit: 1800, stopLoss: 2100, requestedAmount: 100 };
+
+    it("should approve a short with the stop above and the target below the entry", () => {
+      const result = evaluateRisk(short, context, limits);
+
+      expect(result.approved).toBe(true);
+      expect(result.riskRewardRatio).toBe(2);
+    });
+
+    it("should reject a short with long-side levels", () => {
+      const result = evaluateRisk({ ...short, takeProfit: 2200, stopLoss: 1900 }, context, limits);
+
+      expect(result.reason).toBe("Stop loss must be above entry and take profit below entry for a SHORT");
+      expect(failedRules(result)).toEqual(
+        expect.arrayContaining(["PRICE_LEVELS", "STOP_DISTANCE", "TAKE_PROFIT_DISTANCE"]),
+      );
+    });
+  });
+
+  it("should report the first failed check as the reason", () => {
+    const result = evaluateRisk(proposal, { ...context, openTradesForStrategy: 1, lastLossAt: now }, limits);
+
+    expect(result.reason).toBe("Strategy already has 1 open trade(s) (max 1)");
+    expect(result.checks.find(check => check.passed)!.reason).toBeUndefined();
+  });
+
+  describe("resolveRiskLimits", () => {
+    it("should apply strategy overrides", () => {
+      const resolved = resolveRiskLimits(limits, { minRiskReward: 3, maxOpenTradesPerStrategy: 2 });
+
+      expect(resolved.minRiskReward).toBe(3);
+      expect(resolved.maxOpenTradesPerStrategy).toBe(2);
+      expect(resolved.maxPositionPct).toBe(50);
+    });
+
+    it("should keep the defaults without overrides", () => {
+      expect(resolveRiskLimits(limits, null)).toEqual(limits);
+    });
+  });
+});
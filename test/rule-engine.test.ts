@@ -0,0 +1,221 @@
+/**
+ * Strategy Rule Engine Tests
+ *
+ * Validates the rule grammar and checks that evaluation is
+ * deterministic and leaves a complete audit trail.
+ */
+
+import path from "node:path";
+import { rsi, sma } from "indicatorts";
+import {
+  createRuleContext,
+  describeCondition,
+  evaluateRuleGroup,
+  getRuleIndicators,
+  strategyRulesSchema,
+} from "../src/lib/rule.engine";
+import { ReplayMarketDataSource } from "../src/tools/sources";
+import type { Candle } from "../src/tools/types/common.types";
+import type { RuleCondition, RuleGroup, StrategyRules } from "../src/types/rule.types";
+
+const HOUR = 60 * 60_000;
+
+function candlesFromCloses(closes: number[]): Candle[] {
+  return closes.map((close, i) => ({
+    timestamp: i * HOUR,
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 100,
+  }));
+}
+
+const close = { type: "price", field: "close" } as const;
+const constant = (value: number) => ({ type: "constant", value }) as const;
+const smaOf = (period: number) => ({ type: "indicator", indicator: "SMA", params: { period } }) as const;
+
+describe("Strategy Rule Engine", () => {
+  describe("strategyRulesSchema", () => {
+    const rules: StrategyRules = {
+      entry: {
+        combinator: "AND",
+        conditions: [
+          { type: "cross", left: { type: "indicator", indicator: "RSI", params: { period: 14 } }, direction: "above", right: constant(30) },
+          {
+            combinator: "OR",
+            conditions: [
+              { type: "compare", left: close, operator: ">", right: smaOf(50) },
+              { type: "compare", left: { type: "indicator", indicator: "MACD", output: "histogram" }, operator: ">", right: constant(0) },
+            ],
+          },
+        ],
+      },
+      exit: {
+        combinator: "OR",
+        conditions: [{ type: "compare", left: { type: "indicator", indicator: "RSI" }, operator: ">", right: constant(70) }],
+      },
+    };
+
+    it("should accept a valid rule set", () => {
+      expect(strategyRulesSchema.safeParse(rules).success).toBe(true);
+    });
+
+    it("should reject unknown indicators", () => {
+      const invalid = {
+        ...rules,
+        exit: { combinator: "OR", conditions: [{ type: "compare", left: { type: "indicator", indicator: "FOO" }, operator: ">", right: constant(1) }] },
+      };
+
+      expect(strategyRulesSchema.safeParse(invalid).success).toBe(false);
+    });
+
+    it("should reject outputs the indicator does not have", () => {
+      const invalid = {
+        ...rules,
+        exit: { combinator: "OR", conditions: [{ type: "compare", left: { type: "indicator", indicator: "RSI", output: "upper" }, operator: ">", right: constant(1) }] },
+      };
+
+      expect(strategyRulesSchema.safeParse(invalid).success).toBe(false);
+    });
+
+    it("should reject empty groups", () => {
+      expect(strategyRulesSchema.safeParse({ ...rules, entry: { combinator: "AND", conditions: [] } }).success).toBe(false);
+    });
+
+    it("should list referenced indicators", () => {
+      expect(getRuleIndicators(rules).sort()).toEqual(["MACD", "RSI", "SMA"]);
+    });
+  });
+
+  describe("evaluateRuleGroup", () => {
+    it("should compare operands on the latest candle", () => {
+      const context = createRuleContext(candlesFromCloses([10, 11, 12, 13, 14]));
+      const group: RuleGroup = {
+        combinator: "AND",
+        conditions: [{ type: "compare", left: close, operator: ">", right: smaOf(3) }],
+      };
+
+      const result = evaluateRuleGroup(group, context);
+
+      expect(result.matched).toBe(true);
+      expect(result.timestamp).toBe(4 * HOUR);
+      expect(result.conditions[0]).toEqual({ condition: "close > SMA(3)", matched: true, left: 14, right: 13 });
+    });
+
+    it("should match indicatorts values", () => {
+      const closes = Array.from({ length: 60 }, (_, i) => 100 + Math.sin(i / 3) * 5);
+      const context = createRuleContext(candlesFromCloses(closes));
+      const group: RuleGroup = {
+        combinator: "AND",
+        conditions: [
+          { type: "compare", left: { type: "indicator", indicator: "RSI" }, operator: ">=", right: constant(0) },
+          { type: "compare", left: smaOf(10), operator: ">=", right: constant(0) },
+        ],
+      };
+
+      const result = evaluateRuleGroup(group, context);
+
+      expect(result.conditions[0].left).toBeCloseTo(rsi(closes, { period: 14 })[59]);
+      expect(result.conditions[1].left).toBeCloseTo(sma(closes, { period: 10 })[59]);
+    });
+
+    it("should detect crossovers only on the crossing bar", () => {
+      const context = createRuleContext(candlesFromCloses([10, 10, 10, 10, 20, 21]));
+      const cross: RuleCondition = { type: "cross", left: close, direction: "above", right: smaOf(3) };
+      const group: RuleGroup = { combinator: "AND", conditions: [cross] };
+
+      expect(evaluateRuleGroup(group, context, 3).matched).toBe(false);
+      expect(evaluateRuleGroup(group, context, 4).matched).toBe(true);
+      expect(evaluateRuleGroup(group, context, 5).matched).toBe(false);
+    });
+
+    it("should detect crossovers below", () => {
+      const context = createRuleContext(candlesFromCloses([20, 20, 20, 10]));
+      const group: RuleGroup = {
+        combinator: "AND",
+        conditions: [{ type: "cross", left: close, direction: "below", right: constant(15) }],
+      };
+
+      expect(evaluateRuleGroup(group, context).matched).toBe(true);
+    });
+
+    it("should not match a crossover on the first candle", () => {
+      const context = createRuleContext(candlesFromCloses([20]));
+      const group: RuleGroup = {
+        combinator: "AND",
+        conditions: [{ type: "cross", left: close, direction: "above", right: constant(15) }],
+      };
+
+      expect(evaluateRuleGroup(group, context).matched).toBe(false);
+    });
+
+    it("should combine nested AND/OR groups and keep every condition in the trail", () => {
+      const context = createRuleContext(candlesFromCloses([10, 11, 12]));
+      const group: RuleGroup = {
+        combinator: "AND",
+        conditions: [
+          { type: "compare", left: close, operator: ">", right: constant(5) },
+          {
+            combinator: "OR",
+            conditions: [
+              { type: "compare", left: close, operator: "<", right: constant(0) },
+              { type: "compare", left: close, operator: "==", right: constant(12) },
+            ],
+          },
+        ],
+      };
+
+      const result = evaluateRuleGroup(group, context);
+
+      expect(result.matched).toBe(true);
+      expect(result.conditions.map(c => c.matched)).toEqual([true, false, true]);
+      expect(evaluateRuleGroup({ ...group, combinator: "OR" }, context, 0).conditions).toHaveLength(3);
+    });
+
+    it("should fail an AND group when any condition fails", () => {
+      const context = createRuleContext(candlesFromCloses([10, 11, 12]));
+      const group: RuleGroup = {
+        combinator: "AND",
+        conditions: [
+          { type: "compare", left: close, operator: ">", right: constant(5) },
+          { type: "compare", left: close, operator: ">", right: constant(50) },
+        ],
+      };
+
+      expect(evaluateRuleGroup(group, context).matched).toBe(false);
+    });
+
+    it("should be deterministic on recorded candles", async () => {
+      const source = new ReplayMarketDataSource(path.join(__dirname, "fixtures", "market-data"));
+      const candles = await source.getCandles({ symbol: "WETHUSDT", interval: "15m", limit: 300 });
+      const group: RuleGroup = {
+        combinator: "OR",
+        conditions: [
+          { type: "cross", left: { type: "indicator", indicator: "MACD" }, direction: "above", right: { type: "indicator", indicator: "MACD", output: "signal" } },
+          { type: "compare", left: close, operator: "<", right: { type: "indicator", indicator: "BB", output: "lower" } },
+        ],
+      };
+
+      const first = evaluateRuleGroup(group, createRuleContext(candles));
+      const second = evaluateRuleGroup(group, createRuleContext(candles));
+
+      expect(first).toEqual(second);
+      first.conditions.forEach((condition) => {
+        expect(condition.left).not.toBeNull();
+        expect(condition.right).not.toBeNull();
+      });
+    });
+  });
+
+  describe("describeCondition", () => {
+    it("should render indicator parameters and outputs", () => {
+      expect(describeCondition({
+        type: "cross",
+        left: { type: "indicator", indicator: "MACD" },
+        direction: "above",
+        right: { type: "indicator", indicator: "MACD", output: "signal" },
+      })).toBe("MACD(12,26,9) crosses above MACD(12,26,9).signal");
+    });
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Candle Schedule Tests
+ *
+ * Which candle a strategy should analyze next, per timeframe.
+ */
+
+import { candleCloseTime, lastClosedCandle, nextCandleToEvaluate } from "../src/lib/schedule.utils";
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+describe("Candle Schedule", () => {
+  describe("lastClosedCandle", () => {
+    it("should align intraday candles to UTC boundaries", () => {
+      const now = utc("2025-03-12T13:07:30").getTime();
+
+      expect(lastClosedCandle("15m", now)).toEqual(utc("2025-03-12T12:45:00"));
+      expect(lastClosedCandle("4h", now)).toEqual(utc("2025-03-12T08:00:00"));
+      expect(lastClosedCandle("1d", now)).toEqual(utc("2025-03-11T00:00:00"));
+    });
+
+    it("should treat a candle closing exactly now as closed", () => {
+      const now = utc("2025-03-12T12:00:00").getTime();
+
+      expect(lastClosedCandle("4h", now)).toEqual(utc("2025-03-12T08:00:00"));
+    });
+
+    it("should open weekly candles on Monday", () => {
+      // Wednesday
+      const now = utc("2025-03-12T10:00:00").getTime();
+
+      expect(lastClosedCandle("1w", now)).toEqual(utc("2025-03-03T00:00:00"));
+      expect(candleCloseTime("1w", utc("2025-03-03T00:00:00"))).toEqual(utc("2025-03-10T00:00:00"));
+    });
+
+    it("should reject unknown timeframes", () => {
+      expect(() => lastClosedCandle("2h", Date.now())).toThrow("Unsupported timeframe: 2h");
+    });
+  });
+
+  describe("nextCandleToEvaluate", () => {
+    const now = utc("2025-03-12T12:00:05").getTime();
+
+    it("should return the closed candle for a strategy never evaluated", () => {
+      expect(nextCandleToEvaluate("4h", null, now)).toEqual(utc("2025-03-12T08:00:00"));
+    });
+
+    it("should not return a candle twice", () => {
+      expect(nextCandleToEvaluate("4h", utc("2025-03-12T08:00:00"), now)).toBeNull();
+    });
+
+    it("should wait for the bar to close", () => {
+      const evaluated = utc("2025-03-12T08:00:00");
+
+      expect(nextCandleToEvaluate("4h", evaluated, utc("2025-03-12T15:59:59").getTime())).toBeNull();
+      expect(nextCandleToEvaluate("4h", evaluated, utc("2025-03-12T16:00:00").getTime())).toEqual(utc("2025-03-12T12:00:00"));
+    });
+  });
+});
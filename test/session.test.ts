@@ -0,0 +1,151 @@
+/**
+ * Session Tests
+ *
+ * Refresh token rotation and reuse detection, logout, and the session
+ * listing.
+ */
+
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import app from "../src/app";
+import { emailService } from "../src/emails/email.util";
+import { AuthService } from "../src/lib/auth";
+import { Session, User } from "../src/db/schema";
+
+describe("Sessions", () => {
+  let mongoServer: MongoMemoryServer;
+
+  const credentials = { email: "session@example.com", password: "Test1234!" };
+
+  beforeAll(async () => {
+    jest.spyOn(emailService, "verificationEmail").mockResolvedValue(undefined);
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+    await Session.syncIndexes();
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await User.create({ ...credentials, firstName: "John", lastName: "Doe" });
+  });
+
+  afterEach(async () => {
+    await User.deleteMany({});
+    await Session.deleteMany({});
+  });
+
+  const login = (userAgent = "jest") =>
+    request(app)
+      .post("/api/v1/auth/login")
+      .set("User-Agent", userAgent)
+      .send(credentials)
+      .expect(200)
+      .then(response => response.body.data as { token: string; refreshToken: string });
+
+  const refresh = (refreshToken: string) =>
+    request(app).post("/api/v1/auth/refresh").send({ refreshToken });
+
+  it("should store only a hash of the refresh token", async () => {
+    const { refreshToken } = await login();
+
+    const session = await Session.findOne();
+    expect(session!.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(session!.tokenHash).not.toBe(refreshToken);
+    expect(session!.userAgent).toBe("jest");
+  });
+
+  it("should rotate the refresh token on each refresh", async () => {
+    const first = await login();
+
+    const response = await refresh(first.refreshToken).expect(200);
+    const { token, refreshToken } = response.body.data;
+
+    expect(refreshToken).not.toBe(first.refreshToken);
+    await request(app).get("/api/v1/auth/me").set("Authorization", `Bearer ${token}`).expect(200);
+    await refresh(refreshToken).expect(200);
+  });
+
+  it("should revoke the session when a rotated-out token is reused", async () => {
+    const first = await login();
+    const rotated = (await refresh(first.refreshToken).expect(200)).body.data;
+
+    const reuse = await refresh(first.refreshToken).expect(401);
+    expect(reuse.body.message).toBe("Refresh token reuse detected");
+
+    // The legitimate holder is signed out too
+    await refresh(rotated.refreshToken).expect(401);
+    await request(app).get("/api/v1/auth/me").set("Authorization", `Bearer ${rotated.token}`).expect(401);
+    expect(await Session.findOne()).toMatchObject({ revokedReason: "TOKEN_REUSE" });
+  });
+
+  it("should reject access tokens without a session", async () => {
+    const user = await User.findOne({ email: credentials.email });
+
+    const response = await request(app)
+      .get("/api/v1/auth/me")
+      .set("Authorization", `Bearer ${AuthService.generateToken(user!)}`)
+      .expect(401);
+
+    expect(response.body.message).toBe("Invalid or expired token");
+  });
+
+  it("should reject unknown refresh tokens", async () => {
+    const response = await refresh("not-a-token").expect(401);
+
+    expect(response.body.message).toBe("Invalid refresh token");
+  });
+
+  it("should stop refreshing for deactivated users", async () => {
+    const { refreshToken } = await login();
+    await User.updateOne({ email: credentials.email }, { $set: { isActive: false } });
+
+    const response = await refresh(refreshToken).expect(401);
+
+    expect(response.body.message).toBe("Account is deactivated");
+  });
+
+  it("should end only the current session on logout", async () => {
+    const laptop = await login("laptop");
+    const phone = await login("phone");
+
+    await request(app).post("/api/v1/auth/logout").set("Authorization", `Bearer ${laptop.token}`).expect(200);
+
+    await request(app).get("/api/v1/auth/me").set("Authorization", `Bearer ${laptop.token}`).expect(401);
+    await refresh(laptop.refreshToken).expect(401);
+    await request(app).get("/api/v1/auth/me").set("Authorization", `Bearer ${phone.token}`).expect(200);
+  });
+
+  it("should end every session on logout-all", async () => {
+    const laptop = await login("laptop");
+    const phone = await login("phone");
+
+    const response = await request(app)
+      .post("/api/v1/auth/logout-all")
+      .set("Authorization", `Bearer ${laptop.token}`)
+      .expect(200);
+
+    expect(response.body.data.revoked).toBe(2);
+    await refresh(phone.refreshToken).expect(401);
+  });
+
+  it("should list active sessions and flag the current one", async () => {
+    await login("laptop");
+    const phone = await login("phone");
+
+    const response = await request(app)
+      .get("/api/v1/auth/sessions")
+      .set("Authorization", `Bearer ${phone.token}`)
+      .expect(200);
+
+    const { sessions } = response.body.data;
+    expect(sessions).toHaveLength(2);
+    expect(sessions.find((session: { current: boolean }) => session.current).userAgent).toBe("phone");
+    expect(sessions[0]).not.toHaveProperty("tokenHash");
+  });
+});
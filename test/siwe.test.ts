@@ -0,0 +1,189 @@
+/**
+ * Sign-In with Ethereum Tests
+ *
+ * Messages are signed with local test keys, so signature checks run
+ * offline.
+ */
+
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import { privateKeyToAccount } from "viem/accounts";
+import { createSiweMessage } from "viem/siwe";
+import app from "../src/app";
+import { AuthService } from "../src/lib/auth";
+import { emailService } from "../src/emails/email.util";
+import { requestWithdrawal } from "../src/services/withdrawal.service";
+import { deposit } from "../src/services/treasury.service";
+import { Session, SiweNonce, Strategy, Transaction, Treasury, JournalEntry, User, Withdrawal } from "../src/db/schema";
+
+const wallet = privateKeyToAccount(`0x${"1".repeat(64)}`);
+const otherWallet = privateKeyToAccount(`0x${"2".repeat(64)}`);
+
+describe("Sign-In with Ethereum", () => {
+  let mongoServer: MongoMemoryServer;
+
+  beforeAll(async () => {
+    jest.spyOn(emailService, "verificationEmail").mockResolvedValue(undefined);
+    jest.spyOn(emailService, "withdrawalStatusEmail").mockResolvedValue(undefined);
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+    await User.syncIndexes();
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  afterEach(async () => {
+    await User.deleteMany({});
+    await Session.deleteMany({});
+    await SiweNonce.deleteMany({});
+    await Strategy.deleteMany({});
+    await Treasury.deleteMany({});
+    await Transaction.deleteMany({});
+    await JournalEntry.deleteMany({});
+    await Withdrawal.deleteMany({});
+  });
+
+  /** A signed message for a fresh nonce */
+  async function signIn(account = wallet, overrides: { domain?: string; expirationTime?: Date } = {}) {
+    const nonceResponse = await request(app).get("/api/v1/auth/siwe/nonce").expect(200);
+    const message = createSiweMessage({
+      address: account.address,
+      chainId: 1,
+      domain: "localhost:8080",
+      nonce: nonceResponse.body.data.nonce,
+      uri: "http://localhost:8080",
+      version: "1",
+      ...overrides,
+    });
+    return { message, signature: await account.signMessage({ message }) };
+  }
+
+  it("should create a user for a new wallet and sign in the same user later", async () => {
+    const created = await request(app).post("/api/v1/auth/siwe/verify").send(await signIn()).expect(201);
+
+    expect(created.body.data.user.walletAddresses).toEqual([wallet.address.toLowerCase()]);
+    expect(created.body.data).toHaveProperty("token");
+    expect(created.body.data).toHaveProperty("refreshToken");
+
+    const again = await request(app).post("/api/v1/auth/siwe/verify").send(await signIn()).expect(200);
+
+    expect(again.body.data.user.id).toBe(created.body.data.user.id);
+    expect(await User.countDocuments()).toBe(1);
+  });
+
+  it("should accept each nonce once", async () => {
+    const signed = await signIn();
+    await request(app).post("/api/v1/auth/siwe/verify").send(signed).expect(201);
+
+    const replay = await request(app).post("/api/v1/auth/siwe/verify").send(signed).expect(401);
+
+    expect(replay.body.message).toBe("Invalid or expired nonce");
+  });
+
+  it("should reject messages for another domain or signed by another wallet", async () => {
+    const wrongDomain = await request(app)
+      .post("/api/v1/auth/siwe/verify")
+      .send(await signIn(wallet, { domain: "evil.example.com" }))
+      .expect(401);
+    expect(wrongDomain.body.message).toBe("Invalid SIWE message");
+
+    const { message } = await signIn();
+    const forged = await request(app)
+      .post("/api/v1/auth/siwe/verify")
+      .send({ message, signature: await otherWallet.signMessage({ message }) })
+      .expect(401);
+    expect(forged.body.message).toBe("Invalid signature");
+  });
+
+  it("should reject expired messages", async () => {
+    await request(app)
+      .post("/api/v1/auth/siwe/verify")
+      .send(await signIn(wallet, { expirationTime: new Date(Date.now() - 1000) }))
+      .expect(401);
+  });
+
+  it("should link the wallet to the authenticated user", async () => {
+    const user = await User.create({
+      email: "wallet@example.com",
+      password: "Test1234!",
+      firstName: "John",
+      lastName: "Doe",
+    });
+    const { token } = await AuthService.createSession(user);
+
+    const response = await request(app)
+      .post("/api/v1/auth/siwe/verify")
+      .set("Authorization", `Bearer ${token}`)
+      .send(await signIn())
+      .expect(200);
+
+    expect(response.body.data.user.walletAddresses).toEqual([wallet.address.toLowerCase()]);
+
+    const signedIn = await request(app).post("/api/v1/auth/siwe/verify").send(await signIn()).expect(200);
+    expect(signedIn.body.data.user.email).toBe("wallet@example.com");
+  });
+
+  it("should not link wallets for revoked sessions or deactivated users", async () => {
+    const user = await User.create({
+      email: "wallet@example.com",
+      password: "Test1234!",
+      firstName: "John",
+      lastName: "Doe",
+    });
+    const revoked = await AuthService.createSession(user);
+    await AuthService.revokeAllSessions(user._id);
+    const deactivated = await AuthService.createSession(user);
+    await User.updateOne({ _id: user._id }, { $set: { isActive: false } });
+
+    for (const { token } of [revoked, deactivated]) {
+      await request(app)
+        .post("/api/v1/auth/siwe/verify")
+        .set("Authorization", `Bearer ${token}`)
+        .send(await signIn())
+        .expect(res => expect(res.body.message).not.toBe("Wallet linked successfully"));
+    }
+
+    expect((await User.findById(user._id))!.walletAddresses).toEqual([]);
+  });
+
+  it("should not link a wallet that belongs to another user", async () => {
+    await request(app).post("/api/v1/auth/siwe/verify").send(await signIn()).expect(201);
+    const user = await User.create({
+      email: "other@example.com",
+      password: "Test1234!",
+      firstName: "Jane",
+      lastName: "Doe",
+    });
+
+    const response = await request(app)
+      .post("/api/v1/auth/siwe/verify")
+      .set("Authorization", `Bearer ${(await AuthService.createSession(user)).token}`)
+      .send(await signIn())
+      .expect(409);
+
+    expect(response.body.message).toBe("Wallet is already linked to another account");
+  });
+
+  it("should restrict withdrawals to linked wallets", async () => {
+    const user = await User.create({ walletAddresses: [wallet.address.toLowerCase()], isEmailVerified: true });
+    const strategy = await Strategy.create({
+      userId: user._id,
+      name: "Wallet Strategy",
+      timeframe: "15m",
+      amount: 1,
+      status: "INACTIVE",
+    });
+    await deposit(strategy._id.toString(), user._id.toString(), "10", `0x${"c".repeat(64)}`, "0x1234567890123456789012345678901234567890");
+
+    await expect(requestWithdrawal(strategy._id.toString(), user._id.toString(), "1", otherWallet.address))
+      .rejects.toThrow("Withdrawals can only be sent to a linked wallet");
+
+    const withdrawal = await requestWithdrawal(strategy._id.toString(), user._id.toString(), "1", wallet.address);
+    expect(withdrawal.toAddress).toBe(wallet.address.toLowerCase());
+  });
+});
@@ -2,7 +2,7 @@ import request from "supertest";
 import { MongoMemoryServer } from "mongodb-memory-server";
 import mongoose from "mongoose";
 import app from "../src/app";
-import { User, Strategy, Indicator } from "../src/db/schema";
+import { User, Strategy, Indicator, AgentRun, Treasury, Trade } from "../src/db/schema";
 
 describe("Strategy Module", () => {
     let mongoServer: MongoMemoryServer;
@@ -160,6 +160,88 @@ describe("Strategy Module", () => {
             expect(response.body.message).toBe("Validation error");
         });
 
+        it("should default the trading pair to WETHUSDT", async () => {
+            const response = await request(app)
+                .post("/api/v1/strategies")
+                .set("Authorization", `Bearer ${authToken}`)
+                .send(validStrategyData)
+                .expect(201);
+
+            expect(response.body.data.strategy.symbol).toBe("WETHUSDT");
+        });
+
+        it("should create a strategy on another supported pair", async () => {
+            const response = await request(app)
+                .post("/api/v1/strategies")
+                .set("Authorization", `Bearer ${authToken}`)
+                .send({
+                    ...validStrategyData,
+                    symbol: "solusdt",
+                })
+                .expect(201);
+
+            expect(response.body.data.strategy.symbol).toBe("SOLUSDT");
+        });
+
+        it("should reject strategy with unsupported symbol", async () => {
+            const response = await request(app)
+                .post("/api/v1/strategies")
+                .set("Authorization", `Bearer ${authToken}`)
+                .send({
+                    ...validStrategyData,
+                    symbol: "DOGEUSDT",
+                })
+                .expect(400);
+
+            expect(response.body.success).toBe(false);
+            expect(response.body.message).toBe("Validation error");
+        });
+
+        it("should store structured entry/exit rules", async () => {
+            const rules = {
+                entry: {
+                    combinator: "AND",
+                    conditions: [{
+                        type: "cross",
+                        left: { type: "indicator", indicator: "RSI", params: { period: 14 } },
+                        direction: "above",
+                        right: { type: "constant", value: 30 },
+                    }],
+                },
+                exit: {
+                    combinator: "OR",
+                    conditions: [{
+                        type: "compare",
+                        left: { type: "indicator", indicator: "RSI", params: { period: 14 } },
+                        operator: ">",
+                        right: { type: "constant", value: 70 },
+                    }],
+                },
+            };
+
+            const response = await request(app)
+                .post("/api/v1/strategies")
+                .set("Authorization", `Bearer ${authToken}`)
+                .send({ ...validStrategyData, rules })
+                .expect(201);
+
+            expect(response.body.data.strategy.rules).toEqual(rules);
+        });
+
+        it("should reject strategy with malformed rules", async () => {
+            const response = await request(app)
+                .post("/api/v1/strategies")
+                .set("Authorization", `Bearer ${authToken}`)
+                .send({
+                    ...validStrategyData,
+                    rules: { entry: { combinator: "XOR", conditions: [] } },
+                })
+                .expect(400);
+
+            expect(response.body.success).toBe(false);
+            expect(response.body.message).toBe("Validation error");
+        });
+
         it("should reject strategy with negative amount", async () => {
             const response = await request(app)
                 .post("/api/v1/strategies")
@@ -479,15 +561,15 @@ describe("Strategy Module", () => {
             expect(response.body.data.strategy.amount).toBe(2000);
         });
 
-        it("should update strategy status", async () => {
+        it("should reject direct status updates", async () => {
             const response = await request(app)
                 .put(`/api/v1/strategies/${strategyId}`)
                 .set("Authorization", `Bearer ${authToken}`)
                 .send({ status: "ACTIVE" })
-                .expect(200);
+                .expect(400);
 
-            expect(response.body.success).toBe(true);
-            expect(response.body.data.strategy.status).toBe("ACTIVE");
+            expect(response.body.success).toBe(false);
+            expect(response.body.errors[0].field).toBe("status");
         });
 
         it("should update multiple fields at once", async () => {
@@ -498,7 +580,6 @@ describe("Strategy Module", () => {
                     name: "Fully Updated",
                     timeframe: "1d",
                     amount: 5000,
-                    status: "ACTIVE",
                 })
                 .expect(200);
 
@@ -506,7 +587,6 @@ describe("Strategy Module", () => {
             expect(response.body.data.strategy.name).toBe("Fully Updated");
             expect(response.body.data.strategy.timeframe).toBe("1d");
             expect(response.body.data.strategy.amount).toBe(5000);
-            expect(response.body.data.strategy.status).toBe("ACTIVE");
         });
 
         it("should reject update without authentication", async () => {
@@ -681,4 +761,196 @@ describe("Strategy Module", () => {
             expect(deleteResponse.body.success).toBe(true);
         });
     });
+
+    describe("GET /api/v1/strategies/:id/runs", () => {
+        let strategyId: string;
+
+        beforeEach(async () => {
+            const strategy = await Strategy.create({
+                userId: new mongoose.Types.ObjectId(userId),
+                name: "Audited Strategy",
+                timeframe: "1h",
+                amount: 100,
+                status: "ACTIVE",
+            });
+            strategyId = strategy._id.toString();
+
+            const startedAt = new Date();
+            await AgentRun.create([
+                {
+                    userId,
+                    strategyId,
+                    status: "COMPLETED",
+                    input: "Analyze WETHUSDT",
+                    stages: [{ agent: "validator_agent", output: "{\"decision\":\"HOLD\"}", startedAt, completedAt: startedAt, durationMs: 0 }],
+                    toolCalls: [{ agent: "analyzer_agent", tool: "relativeStrengthIndex", args: { period: 14 }, calledAt: startedAt }],
+                    decision: "HOLD",
+                    signal: "HOLD",
+                    startedAt,
+                    completedAt: startedAt,
+                    durationMs: 1200,
+                },
+                {
+                    userId,
+                    strategyId,
+                    status: "FAILED",
+                    error: "Pipeline execution failed: quota exceeded",
+                    startedAt,
+                    completedAt: startedAt,
+                    durationMs: 300,
+                },
+            ]);
+        });
+
+        afterEach(async () => {
+            await AgentRun.deleteMany({});
+        });
+
+        it("should list runs that did not produce a trade", async () => {
+            const response = await request(app)
+                .get(`/api/v1/strategies/${strategyId}/runs`)
+                .set("Authorization", `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(response.body.data.count).toBe(2);
+            const completed = response.body.data.runs.find((run: any) => run.status === "COMPLETED");
+            expect(completed.decision).toBe("HOLD");
+            expect(completed.input).toBe("Analyze WETHUSDT");
+            expect(completed.toolCalls[0]).toMatchObject({ tool: "relativeStrengthIndex", args: { period: 14 } });
+        });
+
+        it("should filter runs by status", async () => {
+            const response = await request(app)
+                .get(`/api/v1/strategies/${strategyId}/runs?status=FAILED&limit=5`)
+                .set("Authorization", `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(response.body.data.count).toBe(1);
+            expect(response.body.data.runs[0].error).toContain("quota exceeded");
+        });
+
+        it("should reject an invalid limit", async () => {
+            await request(app)
+                .get(`/api/v1/strategies/${strategyId}/runs?limit=500`)
+                .set("Authorization", `Bearer ${authToken}`)
+                .expect(400);
+        });
+
+        it("should return 404 for another user's strategy", async () => {
+            const fakeId = "507f1f77bcf86cd799439011";
+            const response = await request(app)
+                .get(`/api/v1/strategies/${fakeId}/runs`)
+                .set("Authorization", `Bearer ${authToken}`)
+                .expect(404);
+
+            expect(response.body.message).toBe("Strategy not found");
+        });
+    });
+
+    describe("Strategy lifecycle", () => {
+        let strategyId: string;
+
+        beforeEach(async () => {
+            const strategy = await Strategy.create({
+                userId: new mongoose.Types.ObjectId(userId),
+                name: "Lifecycle Strategy",
+                timeframe: "1h",
+                amount: 100,
+            });
+            strategyId = strategy._id.toString();
+        });
+
+        afterEach(async () => {
+            await Treasury.deleteMany({});
+            await Trade.deleteMany({});
+        });
+
+        function fundTreasury(availableBalance: number) {
+            return Treasury.create({
+                strategyId,
+                userId,
+                totalDeposited: availableBalance,
+                availableBalance,
+                contractAddress: "0x1234567890123456789012345678901234567890",
+            });
+        }
+
+        function lifecycle(action: "activate" | "pause" | "archive") {
+            return request(app)
+                .post(`/api/v1/strategies/${strategyId}/${action}`)
+                .set("Authorization", `Bearer ${authToken}`);
+        }
+
+        it("should refuse activation without a treasury", async () => {
+            const response = await lifecycle("activate").expect(400);
+
+            expect(response.body.message).toBe("Treasury not initialized");
+        });
+
+        it("should refuse activation when the treasury cannot cover the amount", async () => {
+            await fundTreasury(50);
+
+            const response = await lifecycle("activate").expect(400);
+
+            expect(response.body.message).toContain("Insufficient treasury balance");
+            expect((await Strategy.findById(strategyId))!.status).toBe("INACTIVE");
+        });
+
+        it("should activate, pause and resume a funded strategy", async () => {
+            await fundTreasury(100);
+
+            const activated = await lifecycle("activate").expect(200);
+            expect(activated.body.data.strategy.status).toBe("ACTIVE");
+
+            const paused = await lifecycle("pause").expect(200);
+            expect(paused.body.data.strategy.status).toBe("PAUSED");
+
+            const resumed = await lifecycle("activate").expect(200);
+            expect(resumed.body.data.strategy.status).toBe("ACTIVE");
+        });
+
+        it("should cancel pending trades when paused", async () => {
+            await fundTreasury(100);
+            await lifecycle("activate").expect(200);
+            await Trade.create({
+                userId,
+                strategyId,
+                symbol: "WETHUSDT",
+                signal: "BUY",
+                entry: 2000,
+                exit: 2100,
+                stopLoss: 1950,
+                reasoning: "Test signal",
+                confidence: "STRONG",
+                riskRewardRatio: 2,
+                amount: 100,
+                marketCondition: "Trending",
+                toolsUsed: [],
+            });
+
+            const response = await lifecycle("pause").expect(200);
+
+            expect(response.body.data.cancelledTrades).toBe(1);
+            expect(await Trade.countDocuments({ strategyId, status: "CANCELLED" })).toBe(1);
+        });
+
+        it("should reject invalid transitions", async () => {
+            const pause = await lifecycle("pause").expect(409);
+            expect(pause.body.message).toBe("Cannot pause a strategy that is INACTIVE");
+
+            await lifecycle("archive").expect(200);
+
+            const activate = await lifecycle("activate").expect(409);
+            expect(activate.body.message).toBe("Cannot activate a strategy that is ARCHIVED");
+        });
+
+        it("should return 404 for another user's strategy", async () => {
+            const response = await request(app)
+                .post("/api/v1/strategies/507f1f77bcf86cd799439011/activate")
+                .set("Authorization", `Bearer ${authToken}`)
+                .expect(404);
+
+            expect(response.body.message).toBe("Strategy not found");
+        });
+    });
 });
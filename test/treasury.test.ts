@@ -18,6 +18,7 @@ import {
   validateSufficientBalance,
 } from "../src/services/treasury.service";
 import { User, Strategy, Treasury, Transaction } from "../src/db/schema";
+import { toAmountNumber, toAmountString } from "../src/lib/amount.utils";
 
 let mongoServer: MongoMemoryServer;
 
@@ -77,8 +78,8 @@ describe("Treasury Service", () => {
       expect(treasury).toBeDefined();
       expect(treasury.strategyId.toString()).toBe(strategyId.toString());
       expect(treasury.userId.toString()).toBe(userId.toString());
-      expect(treasury.availableBalance).toBe(0);
-      expect(treasury.totalDeposited).toBe(0);
+      expect(toAmountString(treasury.availableBalance)).toBe("0");
+      expect(toAmountString(treasury.totalDeposited)).toBe("0");
       expect(treasury.contractAddress).toBe(contractAddress);
     });
 
@@ -120,10 +121,10 @@ describe("Treasury Service", () => {
       );
 
       expect(result.success).toBe(true);
-      expect(result.treasury.availableBalance).toBe(amount);
-      expect(result.treasury.totalDeposited).toBe(amount);
+      expect(toAmountString(result.treasury.availableBalance)).toBe(String(amount));
+      expect(toAmountString(result.treasury.totalDeposited)).toBe(String(amount));
       expect(result.transaction.type).toBe("DEPOSIT");
-      expect(result.transaction.amount).toBe(amount);
+      expect(toAmountString(result.transaction.amount)).toBe(String(amount));
       expect(result.transaction.txHash).toBe(txHash);
     });
 
@@ -134,8 +135,8 @@ describe("Treasury Service", () => {
       await deposit(strategyId, userId, 50, txHash1, contractAddress);
       const result = await deposit(strategyId, userId, 75, txHash2, contractAddress);
 
-      expect(result.treasury.availableBalance).toBe(125);
-      expect(result.treasury.totalDeposited).toBe(125);
+      expect(toAmountString(result.treasury.availableBalance)).toBe("125");
+      expect(toAmountString(result.treasury.totalDeposited)).toBe("125");
     });
 
     it("should reject negative deposit amount", async () => {
@@ -159,8 +160,8 @@ describe("Treasury Service", () => {
 
       const result = await deposit(strategyId, userId, 100, txHash, contractAddress);
 
-      expect(result.transaction.balanceBefore).toBe(0);
-      expect(result.transaction.balanceAfter).toBe(100);
+      expect(toAmountString(result.transaction.balanceBefore)).toBe("0");
+      expect(toAmountString(result.transaction.balanceAfter)).toBe("100");
     });
   });
 
@@ -175,10 +176,10 @@ describe("Treasury Service", () => {
       const result = await withdraw(strategyId, userId, 50);
 
       expect(result.success).toBe(true);
-      expect(result.treasury.availableBalance).toBe(150);
-      expect(result.treasury.totalWithdrawn).toBe(50);
+      expect(toAmountString(result.treasury.availableBalance)).toBe("150");
+      expect(toAmountString(result.treasury.totalWithdrawn)).toBe("50");
       expect(result.transaction.type).toBe("WITHDRAW");
-      expect(result.transaction.amount).toBe(-50);
+      expect(toAmountString(result.transaction.amount)).toBe("-50");
     });
 
     it("should reject withdrawal exceeding available balance", async () => {
@@ -222,8 +223,8 @@ describe("Treasury Service", () => {
         description: "Opening BUY trade",
       });
 
-      expect(result.treasury.availableBalance).toBe(150);
-      expect(result.treasury.lockedBalance).toBe(50);
+      expect(toAmountString(result.treasury.availableBalance)).toBe("150");
+      expect(toAmountString(result.treasury.lockedBalance)).toBe("50");
     });
 
     it("should unlock balance when closing a trade", async () => {
@@ -241,8 +242,8 @@ describe("Treasury Service", () => {
         description: "Closing BUY trade",
       });
 
-      expect(result.treasury.availableBalance).toBe(200);
-      expect(result.treasury.lockedBalance).toBe(0);
+      expect(toAmountString(result.treasury.availableBalance)).toBe("200");
+      expect(toAmountString(result.treasury.lockedBalance)).toBe("0");
     });
 
     it("should record profit correctly", async () => {
@@ -252,9 +253,9 @@ describe("Treasury Service", () => {
         description: "Profit from closed trade",
       });
 
-      expect(result.treasury.totalProfits).toBe(25);
-      expect(result.treasury.availableBalance).toBe(225);
-      expect(result.treasury.netProfitLoss).toBe(25);
+      expect(toAmountString(result.treasury.totalProfits)).toBe("25");
+      expect(toAmountString(result.treasury.availableBalance)).toBe("225");
+      expect(toAmountString(result.treasury.netProfitLoss)).toBe("25");
     });
 
     it("should record loss correctly", async () => {
@@ -264,9 +265,9 @@ describe("Treasury Service", () => {
         description: "Loss from closed trade",
       });
 
-      expect(result.treasury.totalLosses).toBe(15);
-      expect(result.treasury.availableBalance).toBe(185);
-      expect(result.treasury.netProfitLoss).toBe(-15);
+      expect(toAmountString(result.treasury.totalLosses)).toBe("15");
+      expect(toAmountString(result.treasury.availableBalance)).toBe("185");
+      expect(toAmountString(result.treasury.netProfitLoss)).toBe("-15");
     });
 
     it("should calculate net P/L correctly with multiple trades", async () => {
@@ -288,9 +289,9 @@ describe("Treasury Service", () => {
         description: "Profit 2",
       });
 
-      expect(result.treasury.totalProfits).toBe(50);
-      expect(result.treasury.totalLosses).toBe(10);
-      expect(result.treasury.netProfitLoss).toBe(40);
+      expect(toAmountString(result.treasury.totalProfits)).toBe("50");
+      expect(toAmountString(result.treasury.totalLosses)).toBe("10");
+      expect(toAmountString(result.treasury.netProfitLoss)).toBe("40");
     });
 
     it("should reject trade opening with insufficient balance", async () => {
@@ -310,7 +311,7 @@ describe("Treasury Service", () => {
         description: "Refund for failed trade",
       });
 
-      expect(result.treasury.availableBalance).toBe(210);
+      expect(toAmountString(result.treasury.availableBalance)).toBe("210");
     });
   });
 
@@ -321,8 +322,8 @@ describe("Treasury Service", () => {
 
       const treasury = await getBalance(strategyId, userId);
 
-      expect(treasury.availableBalance).toBe(100);
-      expect(treasury.totalDeposited).toBe(100);
+      expect(toAmountString(treasury.availableBalance)).toBe("100");
+      expect(toAmountString(treasury.totalDeposited)).toBe("100");
     });
 
     it("should throw error for non-existent treasury", async () => {
@@ -355,7 +356,7 @@ describe("Treasury Service", () => {
       const treasuries = await getUserTreasuries(userId);
 
       expect(treasuries).toHaveLength(2);
-      expect(treasuries[0].availableBalance).toBeGreaterThanOrEqual(50);
+      expect(toAmountNumber(treasuries[0].availableBalance)).toBeGreaterThanOrEqual(50);
     });
 
     it("should return empty array for user with no treasuries", async () => {
@@ -435,10 +436,10 @@ describe("Treasury Service", () => {
     it("should calculate transaction summary correctly", async () => {
       const summary = await getTransactionSummary(strategyId, userId);
 
-      expect(summary.totalDeposits).toBe(200);
-      expect(summary.totalWithdrawals).toBe(50);
-      expect(summary.totalProfits).toBe(30);
-      expect(summary.totalLosses).toBe(10);
+      expect(summary.totalDeposits).toBe("200");
+      expect(summary.totalWithdrawals).toBe("50");
+      expect(summary.totalProfits).toBe("30");
+      expect(summary.totalLosses).toBe("10");
       expect(summary.transactionCount).toBeGreaterThan(0);
     });
   });
@@ -477,8 +478,8 @@ describe("Treasury Service", () => {
       await Promise.all(deposits);
 
       const treasury = await getBalance(strategyId, userId);
-      expect(treasury.totalDeposited).toBe(150);
-      expect(treasury.availableBalance).toBe(150);
+      expect(toAmountString(treasury.totalDeposited)).toBe("150");
+      expect(toAmountString(treasury.availableBalance)).toBe("150");
     });
 
     it("should handle concurrent withdrawals atomically", async () => {
@@ -496,8 +497,8 @@ describe("Treasury Service", () => {
       await Promise.all(withdrawals);
 
       const treasury = await getBalance(strategyId, userId);
-      expect(treasury.totalWithdrawn).toBe(120);
-      expect(treasury.availableBalance).toBe(80);
+      expect(toAmountString(treasury.totalWithdrawn)).toBe("120");
+      expect(toAmountString(treasury.availableBalance)).toBe("80");
     });
   });
 
@@ -506,7 +507,7 @@ describe("Treasury Service", () => {
       const txHash = "0x" + "a".repeat(64);
       const result = await deposit(strategyId, userId, 0.001, txHash, contractAddress);
 
-      expect(result.treasury.availableBalance).toBe(0.001);
+      expect(toAmountString(result.treasury.availableBalance)).toBe("0.001");
     });
 
     it("should handle large amounts", async () => {
@@ -520,7 +521,7 @@ describe("Treasury Service", () => {
         contractAddress,
       );
 
-      expect(result.treasury.availableBalance).toBe(largeAmount);
+      expect(toAmountString(result.treasury.availableBalance)).toBe(String(largeAmount));
     });
 
     it("should maintain balance integrity after multiple operations", async () => {
@@ -548,8 +549,8 @@ describe("Treasury Service", () => {
       const treasury = await getBalance(strategyId, userId);
       const expectedBalance = 1000 + 50 - 200;
       
-      expect(treasury.availableBalance).toBe(expectedBalance);
-      expect(treasury.lockedBalance).toBe(0);
+      expect(toAmountString(treasury.availableBalance)).toBe(String(expectedBalance));
+      expect(toAmountString(treasury.lockedBalance)).toBe("0");
     });
   });
 });
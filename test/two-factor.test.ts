@@ -0,0 +1,211 @@
+/**
+ * Two-Factor Authentication Tests
+ *
+ * TOTP against the RFC 6238 test vectors, enrollment and backup codes, the
+ * login challenge, and the step-up check for withdrawals and strategy
+ * deletion.
+ */
+
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import app from "../src/app";
+import { base32Decode, base32Encode, totpCode, totpStep, totpUri, verifyTotp } from "../src/lib/totp";
+import { AuthService } from "../src/lib/auth";
+import { emailService } from "../src/emails/email.util";
+import { Session, Strategy, User } from "../src/db/schema";
+
+// RFC 6238 appendix B secret ("12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("Two-Factor Authentication", () => {
+  describe("TOTP", () => {
+    it("should round-trip base32", () => {
+      expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+      expect(base32Decode("gezd gnbv gy3t qojq gezd gnbv gy3t qojq").toString()).toBe("12345678901234567890");
+      expect(() => base32Decode("GEZ1")).toThrow("Invalid base32 character: 1");
+    });
+
+    it("should match the RFC 6238 test vectors", () => {
+      // The RFC lists 8 digits; 6-digit codes are their last 6
+      expect(totpCode(RFC_SECRET, totpStep(59_000))).toBe("287082");
+      expect(totpCode(RFC_SECRET, totpStep(1_111_111_109_000))).toBe("081804");
+      expect(totpCode(RFC_SECRET, totpStep(1_234_567_890_000))).toBe("005924");
+      expect(totpCode(RFC_SECRET, totpStep(2_000_000_000_000))).toBe("279037");
+    });
+
+    it("should accept codes one step either side of now", () => {
+      const now = 1_234_567_890_000;
+      const step = totpStep(now);
+
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(step + 1);
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, "12345", now)).toBeNull();
+    });
+
+    it("should build an otpauth URI", () => {
+      expect(totpUri(RFC_SECRET, "user@example.com", "Soros")).toBe(
+        "otpauth://totp/Soros%3Auser%40example.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ"
+        + "&issuer=Soros&algorithm=SHA1&digits=6&period=30",
+      );
+    });
+  });
+
+  describe("endpoints", () => {
+    let mongoServer: MongoMemoryServer;
+    let token: string;
+
+    const credentials = { email: "2fa@example.com", password: "Test1234!" };
+    const currentCode = (secret: string, offset = 0) => totpCode(secret, totpStep() + offset);
+
+    beforeAll(async () => {
+      jest.spyOn(emailService, "verificationEmail").mockResolvedValue(undefined);
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+    });
+
+    afterAll(async () => {
+      jest.restoreAllMocks();
+      await mongoose.disconnect();
+      await mongoServer.stop();
+    });
+
+    beforeEach(async () => {
+      const user = await User.create({ ...credentials, firstName: "John", lastName: "Doe", isEmailVerified: true });
+      token = (await AuthService.createSession(user)).token;
+    });
+
+    afterEach(async () => {
+      await User.deleteMany({});
+      await Session.deleteMany({});
+      await Strategy.deleteMany({});
+    });
+
+    /** Enroll the user, returning the secret and backup codes */
+    async function enroll() {
+      const setup = await request(app)
+        .post("/api/v1/auth/2fa/setup")
+        .set("Authorization", `Bearer ${token}`)
+        .expect(200);
+      const { secret } = setup.body.data;
+
+      const enabled = await request(app)
+        .post("/api/v1/auth/2fa/enable")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ code: currentCode(secret) })
+        .expect(200);
+
+      return { secret, backupCodes: enabled.body.data.backupCodes as string[] };
+    }
+
+    it("should enable 2FA only with a valid code for the new secret", async () => {
+      const setup = await request(app)
+        .post("/api/v1/auth/2fa/setup")
+        .set("Authorization", `Bearer ${token}`)
+        .expect(200);
+      expect(setup.body.data.otpauthUri).toContain(`secret=${setup.body.data.secret}`);
+
+      await request(app)
+        .post("/api/v1/auth/2fa/enable")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ code: currentCode(setup.body.data.secret, 5) })
+        .expect(401);
+
+      const enabled = await request(app)
+        .post("/api/v1/auth/2fa/enable")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ code: currentCode(setup.body.data.secret) })
+        .expect(200);
+
+      expect(enabled.body.data.backupCodes).toHaveLength(10);
+      const user = await User.findOne({ email: credentials.email }).select("+twoFactorBackupCodes");
+      expect(user!.twoFactorEnabled).toBe(true);
+      expect(user!.twoFactorBackupCodes).not.toContain(enabled.body.data.backupCodes[0]);
+    });
+
+    it("should challenge the login and accept each TOTP code once", async () => {
+      const { secret } = await enroll();
+
+      const login = await request(app).post("/api/v1/auth/login").send(credentials).expect(200);
+      expect(login.body.data).not.toHaveProperty("token");
+      const { challengeToken } = login.body.data;
+
+      // The challenge is not an access token
+      await request(app).get("/api/v1/auth/me").set("Authorization", `Bearer ${challengeToken}`).expect(401);
+
+      // The code used to enable 2FA cannot be replayed; the next one works
+      const code = currentCode(secret, 1);
+      const verified = await request(app)
+        .post("/api/v1/auth/2fa/verify")
+        .send({ challengeToken, code })
+        .expect(200);
+      expect(verified.body.data).toHaveProperty("refreshToken");
+
+      await request(app).post("/api/v1/auth/2fa/verify").send({ challengeToken, code }).expect(401);
+    });
+
+    it("should accept each backup code once", async () => {
+      const { backupCodes } = await enroll();
+      const { challengeToken } = (await request(app).post("/api/v1/auth/login").send(credentials)).body.data;
+
+      await request(app)
+        .post("/api/v1/auth/2fa/verify")
+        .send({ challengeToken, code: backupCodes[0].toUpperCase() })
+        .expect(200);
+      await request(app).post("/api/v1/auth/2fa/verify").send({ challengeToken, code: backupCodes[0] }).expect(401);
+    });
+
+    it("should require a recent 2FA check to delete a strategy", async () => {
+      const { secret } = await enroll();
+      const user = await User.findOne({ email: credentials.email });
+      const strategy = await Strategy.create({
+        userId: user!._id,
+        name: "Protected Strategy",
+        timeframe: "15m",
+        amount: 1,
+        status: "INACTIVE",
+      });
+
+      const denied = await request(app)
+        .delete(`/api/v1/strategies/${strategy._id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .expect(403);
+      expect(denied.body).toMatchObject({ message: "Two-factor verification required", twoFactorRequired: true });
+
+      const stepUp = await request(app)
+        .post("/api/v1/auth/2fa/step-up")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ code: currentCode(secret, 1) })
+        .expect(200);
+
+      await request(app)
+        .delete(`/api/v1/strategies/${strategy._id}`)
+        .set("Authorization", `Bearer ${stepUp.body.data.token}`)
+        .expect(200);
+    });
+
+    it("should require a recent 2FA check to withdraw", async () => {
+      await enroll();
+
+      await request(app)
+        .post("/api/v1/treasury/withdraw")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ strategyId: new mongoose.Types.ObjectId().toString(), amount: "1", toAddress: `0x${"3".repeat(40)}` })
+        .expect(403);
+    });
+
+    it("should turn 2FA off with a valid code", async () => {
+      const { backupCodes } = await enroll();
+
+      await request(app)
+        .post("/api/v1/auth/2fa/disable")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ code: backupCodes[1] })
+        .expect(200);
+
+      const login = await request(app).post("/api/v1/auth/login").send(credentials).expect(200);
+      expect(login.body.data).toHaveProperty("token");
+    });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Withdrawal Workflow Tests
+ *
+ * Holds in the ledger, and the request -> approval -> broadcast ->
+ * settlement workflow against a local stub of an EVM JSON-RPC node.
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import mongoose from "mongoose";
+import { isBalanced, postingsFor } from "../src/lib/ledger.engine";
+import { replayLedger } from "../src/lib/reconciliation.engine";
+import { deposit } from "../src/services/treasury.service";
+import {
+  approveWithdrawal,
+  markWithdrawalBroadcast,
+  rejectWithdrawal,
+  requestWithdrawal,
+  trackBroadcastWithdrawals,
+} from "../src/services/withdrawal.service";
+import { reconcileTreasuries } from "../src/services/reconciliation.service";
+import { MAINNET_WETH_ADDRESS, TRANSFER_TOPIC, TransferVerifier, setTransferVerifier } from "../src/services/transfer.verifier";
+import { emailService } from "../src/emails/email.util";
+import { User, Strategy, Treasury, Transaction, JournalEntry, Withdrawal } from "../src/db/schema";
+import { toAmountString, toWei } from "../src/lib/amount.utils";
+
+const TREASURY_CONTRACT = "0x1234567890123456789012345678901234567890";
+const USER_WALLET = "0x3333333333333333333333333333333333333333";
+const TX_HASH = `0x${"e".repeat(64)}`;
+
+function transferLog(value: string, to: string = USER_WALLET) {
+  const topic = (address: string) => `0x${address.slice(2).toLowerCase().padStart(64, "0")}`;
+  return {
+    address: MAINNET_WETH_ADDRESS,
+    topics: [TRANSFER_TOPIC, topic(TREASURY_CONTRACT), topic(to)],
+    data: `0x${toWei(value).toString(16).padStart(64, "0")}`,
+  };
+}
+
+describe("Withdrawal Workflow", () => {
+  describe("ledger", () => {
+    it("should hold and release withdrawals between available and locked", () => {
+      expect(postingsFor("WITHDRAW_HOLD", -2)).toEqual([
+        { account: "STRATEGY_LOCKED", amount: toWei(2) },
+        { account: "STRATEGY_AVAILABLE", amount: toWei(-2) },
+      ]);
+      expect(postingsFor("WITHDRAW_RELEASE", 2)).toEqual([
+        { account: "STRATEGY_AVAILABLE", amount: toWei(2) },
+        { account: "STRATEGY_LOCKED", amount: toWei(-2) },
+      ]);
+      expect(isBalanced(postingsFor("WITHDRAW_HOLD", -2))).toBe(true);
+    });
+
+    it("should replay a settled and a reversed withdrawal", () => {
+      const entry = (type: "DEPOSIT" | "WITHDRAW" | "WITHDRAW_HOLD" | "WITHDRAW_RELEASE", amount: number, before: number, after: number) => ({
+        id: `${type}-${before}-${after}`,
+        type,
+        amount: String(amount),
+        balanceBefore: String(before),
+        balanceAfter: String(after),
+        createdAt: new Date(),
+      });
+
+      const replay = replayLedger([
+        entry("DEPOSIT", 10, 0, 10),
+        entry("WITHDRAW_HOLD", -3, 10, 7),
+        entry("WITHDRAW_HOLD", -2, 7, 5),
+        entry("WITHDRAW_RELEASE", 3, 5, 8),
+        entry("WITHDRAW", -3, 8, 5),
+        entry("WITHDRAW_RELEASE", 2, 5, 7),
+      ]);
+
+      expect(replay.chainIssues).toEqual([]);
+      expect(replay.balances).toMatchObject({
+        availableBalance: "7",
+        lockedBalance: "0",
+        totalWithdrawn: "3",
+      });
+    });
+  });
+
+  describe("workflow", () => {
+    let mongoServer: MongoMemoryServer;
+    let server: http.Server;
+    let userId: mongoose.Types.ObjectId;
+    let strategyId: mongoose.Types.ObjectId;
+    let emails: jest.SpyInstance;
+    const rpc = { receipts: {} as Record<string, object>, blockNumber: 100 };
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let raw = "";
+        req.on("data", (chunk) => {
+          raw += chunk;
+        });
+        req.on("end", () => {
+          const body = JSON.parse(raw);
+          const result = body.method === "eth_getTransactionReceipt"
+            ? rpc.receipts[body.params[0]] ?? null
+            : `0x${rpc.blockNumber.toString(16)}`;
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ jsonrpc: "2.0", id: body.id, result }));
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+      setTransferVerifier(new TransferVerifier({
+        rpcUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        tokenAddress: MAINNET_WETH_ADDRESS,
+        minConfirmations: 5,
+      }));
+
+      mongoServer = await MongoMemoryServer.create();
+      await mongoose.connect(mongoServer.getUri());
+      await Withdrawal.syncIndexes();
+    });
+
+    afterAll(async () => {
+      setTransferVerifier(null);
+      await mongoose.disconnect();
+      await mongoServer.stop();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    beforeEach(async () => {
+      rpc.receipts = {};
+      rpc.blockNumber = 100;
+      emails = jest.spyOn(emailService, "withdrawalStatusEmail").mockResolvedValue(undefined);
+
+      const user = await User.create({
+        email: "withdraw@example.com",
+        password: "password123",
+        firstName: "Test",
+        lastName: "User",
+      });
+      userId = user._id as mongoose.Types.ObjectId;
+
+      const strategy = await Strategy.create({
+        userId,
+        name: "Withdrawal Strategy",
+        timeframe: "15m",
+        amount: 1,
+        status: "INACTIVE",
+      });
+      strategyId = strategy._id as mongoose.Types.ObjectId;
+
+      await deposit(strategyId, userId, "10", `0x${"f".repeat(64)}`, TREASURY_CONTRACT);
+    });
+
+    afterEach(async () => {
+      emails.mockRestore();
+      await User.deleteMany({});
+      await Strategy.deleteMany({});
+      await Treasury.deleteMany({});
+      await Transaction.deleteMany({});
+      await JournalEntry.deleteMany({});
+      await Withdrawal.deleteMany({});
+    });
+
+    const balances = async () => {
+      const treasury = await Treasury.findOne({ strategyId });
+      return {
+        available: toAmountString(treasury!.availableBalance),
+        locked: toAmountString(treasury!.lockedBalance),
+        withdrawn: toAmountString(treasury!.totalWithdrawn),
+      };
+    };
+
+    it("should hold a large withdrawal until an admin approves it", async () => {
+      const withdrawal = await requestWithdrawal(strategyId, userId, "4", USER_WALLET);
+
+      expect(withdrawal.status).toBe("REQUESTED");
+      expect(await balances()).toEqual({ available: "6", locked: "4", withdrawn: "0" });
+
+      const approved = await approveWithdrawal(withdrawal._id as mongoose.Types.ObjectId);
+      expect(approved).toMatchObject({ status: "APPROVED", approvedBy: "ADMIN" });
+      await expect(approveWithdrawal(withdrawal._id as mongoose.Types.ObjectId))
+        .rejects.toThrow("Withdrawal cannot be approved while APPROVED");
+    });
+
+    it("should approve small withdrawals automatically", async () => {
+      const withdrawal = await requestWithdrawal(strategyId, userId, "0.5", USER_WALLET);
+
+      expect(withdrawal).toMatchObject({ status: "APPROVED", approvedBy: "AUTO" });
+      expect(emails.mock.calls.map(call => call[1].status)).toEqual(["REQUESTED", "APPROVED"]);
+    });
+
+    it("should reject withdrawals above the available balance", async () => {
+      await expect(requestWithdrawal(strategyId, userId, "11", USER_WALLET))
+        .rejects.toThrow("Insufficient balance. Available: 10 WETH, Requested: 11 WETH");
+      expect(await Withdrawal.countDocuments()).toBe(0);
+    });
+
+    it("should settle a broadcast withdrawal once the transfer is confirmed", async () => {
+      const { _id } = await requestWithdrawal(strategyId, userId, "0.5", USER_WALLET);
+      rpc.receipts[TX_HASH] = { status: "0x1", blockNumber: "0x62", logs: [transferLog("0.5")] };
+
+      const broadcast = await markWithdrawalBroadcast(_id as mongoose.Types.ObjectId, TX_HASH);
+      expect(broadcast).toMatchObject({ status: "BROADCAST", confirmations: 3 });
+
+      rpc.blockNumber = 110;
+      expect(await trackBroadcastWithdrawals()).toEqual({ pending: 1, confirmed: 1, failed: 0 });
+
+      const confirmed = await Withdrawal.findById(_id);
+      expect(confirmed).toMatchObject({ status: "CONFIRMED", confirmations: 13, blockNumber: 98 });
+      expect(await balances()).toEqual({ available: "9.5", locked: "0", withdrawn: "0.5" });
+      expect(await Transaction.findById(confirmed!.withdrawTransactionId)).toMatchObject({
+        type: "WITHDRAW",
+        status: "COMPLETED",
+        txHash: TX_HASH,
+      });
+      expect(emails.mock.calls.map(call => call[1].status)).toEqual(["REQUESTED", "APPROVED", "BROADCAST", "CONFIRMED"]);
+    });
+
+    it("should fail a withdrawal the chain does not back and return the funds", async () => {
+      const { _id } = await requestWithdrawal(strategyId, userId, "0.5", USER_WALLET);
+      rpc.receipts[TX_HASH] = { status: "0x1", blockNumber: "0x50", logs: [transferLog("0.5", TREASURY_CONTRACT)] };
+
+      const failed = await markWithdrawalBroadcast(_id as mongoose.Types.ObjectId, TX_HASH);
+
+      expect(failed).toMatchObject({ status: "FAILED", reason: `No WETH transfer to ${USER_WALLET}` });
+      expect(await balances()).toEqual({ available: "10", locked: "0", withdrawn: "0" });
+    });
+
+    it("should reverse a rejected withdrawal with a REVERSED transaction", async () => {
+      const { _id } = await requestWithdrawal(strategyId, userId, "4", USER_WALLET);
+
+      const rejected = await rejectWithdrawal(_id as mongoose.Types.ObjectId, "Destination is not whitelisted");
+
+      expect(rejected).toMatchObject({ status: "REJECTED", reason: "Destination is not whitelisted" });
+      expect(await Transaction.findById(rejected.releaseTransactionId)).toMatchObject({
+        type: "WITHDRAW_RELEASE",
+        status: "REVERSED",
+      });
+      expect(await balances()).toEqual({ available: "10", locked: "0", withdrawn: "0" });
+      expect(emails.mock.calls.at(-1)![1]).toMatchObject({ status: "REJECTED", reason: "Destination is not whitelisted" });
+
+      const report = await reconcileTreasuries({ strategyId: strategyId.toString() });
+      expect(report.mismatched).toBe(0);
+    });
+
+    it("should keep the workflow going when an email fails", async () => {
+      emails.mockRejectedValue(new Error("SMTP down"));
+
+      const withdrawal = await requestWithdrawal(strategyId, userId, "0.5", USER_WALLET);
+
+      expect(withdrawal.status).toBe("APPROVED");
+    });
+  });
+});